@@ -1,3 +1,4 @@
+import type { ReactElement } from "react";
 import { Toaster } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
@@ -11,40 +12,81 @@ import RepairsPage from "@/pages/RepairsPage";
 import RepairInsightPage from "@/pages/RepairInsightPage";
 import AdminPage from "@/pages/AdminPage";
 import DataExplorerPage from "@/pages/DataExplorerPage";
+import DataQualityPage from "@/pages/DataQualityPage";
+import SlaPage from "@/pages/SlaPage";
 import TicketsPage from "@/pages/TicketsPage";
 import MappingPage from "@/pages/MappingPage";
 import AftersaleGuidesPage from "@/pages/AftersaleGuidesPage";
+import SignInPage from "@/pages/SignInPage";
 import { BrowserRouter, Navigate, Route, Routes, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { useLiveTicketSync } from "@/hooks/useLiveTicketSync";
+import { OfflineBanner } from "@/components/OfflineBanner";
+import { GlobalFilterBar } from "@/components/GlobalFilterBar";
+import { persistQueryCache, restorePersistedQueries } from "@/lib/queryPersistence";
+import { PageLoader } from "@/components/PageLoader";
+import { RequireRole } from "@/components/RequireRole";
+import { useAuth } from "@/hooks/useAuth";
+import { canAccessPage, initAuth, PAGE_ROLES } from "@/lib/auth";
+import { GLOBAL_FILTER_PAGES } from "@/utils/globalFilters";
 
 const queryClient = new QueryClient();
+persistQueryCache(queryClient);
+void restorePersistedQueries(queryClient);
+initAuth();
+
+const guarded = (page: string, element: ReactElement) => (
+  <RequireRole role={PAGE_ROLES[page]}>{element}</RequireRole>
+);
 
 const AppShell = () => {
   const location = useLocation();
-  const activeTab = location.pathname.split("/")[1] || "admin";
+  const { status, role } = useAuth();
+  useLiveTicketSync();
+  // Admins land on the admin page as before; everyone else on the first page they can open.
+  const homePath = canAccessPage(role, "admin") ? "/admin" : "/tickets";
+  const activeTab = location.pathname.split("/")[1] || homePath.slice(1);
   const hideSidebar =
     location.pathname.startsWith("/dealer-insights") || location.pathname.startsWith("/repair-insights");
 
+  if (status === "loading") {
+    return (
+      <PageLoader
+        title="Signing in"
+        description="Checking your session and the pages your role can open."
+        tasks={[{ label: "Session", progress: 0 }]}
+      />
+    );
+  }
+
+  if (status === "signed-out") {
+    return <SignInPage />;
+  }
+
   return (
     <div className="flex min-h-screen bg-slate-50">
       {!hideSidebar && <Sidebar activeTab={activeTab} />}
       <main className={cn("flex-1 p-8 transition-all duration-300", hideSidebar ? "" : "ml-72")}>
+        <OfflineBanner />
+        {GLOBAL_FILTER_PAGES.includes(activeTab) && canAccessPage(role, activeTab) && <GlobalFilterBar />}
         <Routes>
-          <Route path="/" element={<Navigate to="/admin" replace />} />
-          <Route path="/admin" element={<AdminPage />} />
-          <Route path="/tickets" element={<TicketsPage />} />
-          <Route path="/mapping" element={<MappingPage />} />
-          <Route path="/dealerships" element={<DealershipsPage />} />
-          <Route path="/dealer-insights/:dealerId" element={<DealerInsightPage />} />
-          <Route path="/repair-insights/:repairId" element={<RepairInsightPage />} />
-          <Route path="/claim-vs-closed" element={<ClaimVsClosedPage />} />
-          <Route path="/aged-claim-report" element={<AgedClaimReportPage />} />
-          <Route path="/aftersale-guides" element={<AftersaleGuidesPage />} />
+          <Route path="/" element={<Navigate to={homePath} replace />} />
+          <Route path="/admin" element={guarded("admin", <AdminPage />)} />
+          <Route path="/tickets" element={guarded("tickets", <TicketsPage />)} />
+          <Route path="/mapping" element={guarded("mapping", <MappingPage />)} />
+          <Route path="/dealerships" element={guarded("dealerships", <DealershipsPage />)} />
+          <Route path="/dealer-insights/:dealerId" element={guarded("dealer-insights", <DealerInsightPage />)} />
+          <Route path="/repair-insights/:repairId" element={guarded("repair-insights", <RepairInsightPage />)} />
+          <Route path="/claim-vs-closed" element={guarded("claim-vs-closed", <ClaimVsClosedPage />)} />
+          <Route path="/aged-claim-report" element={guarded("aged-claim-report", <AgedClaimReportPage />)} />
+          <Route path="/aftersale-guides" element={guarded("aftersale-guides", <AftersaleGuidesPage />)} />
           <Route path="/aftercare-guides" element={<Navigate to="/aftersale-guides" replace />} />
-          <Route path="/data-explorer" element={<DataExplorerPage />} />
-          <Route path="/employees" element={<EmployeesPage />} />
-          <Route path="/repairs" element={<RepairsPage />} />
-          <Route path="*" element={<Navigate to="/admin" replace />} />
+          <Route path="/data-explorer" element={guarded("data-explorer", <DataExplorerPage />)} />
+          <Route path="/data-quality" element={guarded("data-quality", <DataQualityPage />)} />
+          <Route path="/sla" element={guarded("sla", <SlaPage />)} />
+          <Route path="/employees" element={guarded("employees", <EmployeesPage />)} />
+          <Route path="/repairs" element={guarded("repairs", <RepairsPage />)} />
+          <Route path="*" element={<Navigate to={homePath} replace />} />
         </Routes>
       </main>
     </div>
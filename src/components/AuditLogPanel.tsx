@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { RotateCcw, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaginationControls } from "@/components/PaginationControls";
+import { useAuditLog } from "@/hooks/useAuditLog";
+import { AuditAction } from "@/types/ticket";
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  displaySetting: "Visibility",
+  visibilityProfile: "Visibility profile",
+  visibilityRule: "Visibility rules",
+  statusMapping: "Status mapping",
+  firstLevelStatus: "First-level statuses",
+  statusHierarchy: "Status hierarchy",
+  typeMapping: "Type mapping",
+  slaTarget: "SLA targets",
+  workingCalendar: "Working calendar",
+  explorerView: "Shared explorer view",
+  revert: "Revert",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "Visible" : "Hidden";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+export function AuditLogPanel() {
+  const {
+    data: entries,
+    isLoading,
+    error,
+    isReadOnly,
+    revert,
+    revertError,
+    revertingId,
+    hasOlder,
+    loadOlder,
+    isLoadingOlder,
+  } = useAuditLog();
+  const [search, setSearch] = useState("");
+  const [actionFilter, setActionFilter] = useState<string>("all");
+  const [actorFilter, setActorFilter] = useState<string>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [page, setPage] = useState(1);
+
+  const actors = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.actor.email || entry.actor.uid))).sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => {
+    const searchText = search.trim().toLowerCase();
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : null;
+
+    return entries.filter((entry) => {
+      if (actionFilter !== "all" && entry.action !== actionFilter) return false;
+      if (actorFilter !== "all" && (entry.actor.email || entry.actor.uid) !== actorFilter) return false;
+      if (from !== null && entry.at < from) return false;
+      if (searchText && !entry.path.toLowerCase().includes(searchText)) return false;
+      return true;
+    });
+  }, [actionFilter, actorFilter, entries, fromDate, search]);
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading audit log...</p>;
+  }
+
+  if (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return <p className="text-sm text-destructive">Failed to load audit log: {message}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="audit-search">Path</Label>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="audit-search"
+              className="pl-8"
+              placeholder="e.g. repairs/1234"
+              value={search}
+              onChange={(event) => {
+                setSearch(event.target.value);
+                setPage(1);
+              }}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Change type</Label>
+          <Select
+            value={actionFilter}
+            onValueChange={(value) => {
+              setActionFilter(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All changes</SelectItem>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Changed by</Label>
+          <Select
+            value={actorFilter}
+            onValueChange={(value) => {
+              setActorFilter(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor} value={actor}>
+                  {actor}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">Since</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={fromDate}
+            onChange={(event) => {
+              setFromDate(event.target.value);
+              setPage(1);
+            }}
+          />
+        </div>
+      </div>
+
+      {revertError && (
+        <p className="text-sm text-destructive">
+          Revert failed: {revertError instanceof Error ? revertError.message : "Unknown error"}
+        </p>
+      )}
+
+      <Table className="rounded-lg border">
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead>When</TableHead>
+            <TableHead>Who</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead>Path</TableHead>
+            <TableHead>Old value</TableHead>
+            <TableHead>New value</TableHead>
+            <TableHead className="w-28" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {paginated.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell className="whitespace-nowrap">{format(entry.at, "dd/MM/yyyy HH:mm")}</TableCell>
+              <TableCell>{entry.actor.email || entry.actor.uid}</TableCell>
+              <TableCell>
+                <Badge variant={entry.action === "revert" ? "outline" : "secondary"}>
+                  {ACTION_LABELS[entry.action] ?? entry.action}
+                </Badge>
+              </TableCell>
+              <TableCell className="font-mono text-xs break-all">{entry.path}</TableCell>
+              <TableCell className="text-xs break-all">{formatValue(entry.oldValue)}</TableCell>
+              <TableCell className="text-xs break-all">{formatValue(entry.newValue)}</TableCell>
+              <TableCell>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isReadOnly || !!revertingId}
+                  onClick={() => revert(entry)}
+                >
+                  <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                  {revertingId === entry.id ? "Reverting…" : "Revert"}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {paginated.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                No audited changes match the current filters.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <PaginationControls totalItems={filtered.length} pageSize={PAGE_SIZE} page={page} onPageChange={setPage} />
+
+      {hasOlder && (
+        <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+          <span>Filters apply to the {entries.length} most recent entries loaded so far.</span>
+          <Button variant="outline" size="sm" disabled={isLoadingOlder} onClick={() => loadOlder()}>
+            {isLoadingOlder ? "Loading…" : "Load older entries"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
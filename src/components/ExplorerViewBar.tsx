@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Bookmark, Save, Star, StarOff, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useExplorerViews } from "@/hooks/useExplorerViews";
+import { ExplorerViewState } from "@/types/ticket";
+import { explorerViewStatesEqual } from "@/utils/explorerViews";
+
+type ExplorerViewBarProps = {
+  /** The explorer's current filters, columns, sort and page size. */
+  state: ExplorerViewState;
+  onApply: (state: ExplorerViewState) => void;
+};
+
+/** Quick-select chips for saved Data Explorer views, and saving the current one. */
+export function ExplorerViewBar({ state, onApply }: ExplorerViewBarProps) {
+  const { views, defaultViewId, isReadOnly, canShare, canEdit, create, update, remove, setDefault, isUpdating } =
+    useExplorerViews();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The last chip clicked, or else the view that matches what is on screen.
+  const selected =
+    views.find((view) => view.id === selectedId) ?? views.find((view) => explorerViewStatesEqual(view.state, state));
+  const isModified = !!selected && !explorerViewStatesEqual(selected.state, state);
+  const disabled = isReadOnly || isUpdating;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Unknown error");
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Bookmark className="h-4 w-4 text-muted-foreground" />
+        {views.length === 0 && (
+          <span className="text-sm text-muted-foreground">No saved views yet; set up the filters and save one.</span>
+        )}
+        {views.map((view) => (
+          <Button
+            key={view.id}
+            size="sm"
+            variant={view.id === selected?.id ? "default" : "outline"}
+            className="h-8 rounded-full"
+            title={view.scope === "shared" ? `Shared by ${view.createdBy || "the team"}` : "Only visible to you"}
+            onClick={() => {
+              setSelectedId(view.id);
+              onApply(view.state);
+            }}
+          >
+            {view.scope === "shared" && <Users className="mr-1 h-3.5 w-3.5" />}
+            {view.name}
+            {view.id === defaultViewId && <Star className="ml-1 h-3.5 w-3.5 fill-current" />}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="explorer-view-name" className="text-xs text-muted-foreground">
+              Save current view as
+            </Label>
+            <Input
+              id="explorer-view-name"
+              className="h-9 w-56"
+              placeholder="e.g. Open warranty claims"
+              value={name}
+              disabled={disabled}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="flex h-9 items-center gap-2">
+            <Switch
+              id="explorer-view-shared"
+              checked={shared && canShare}
+              disabled={disabled || !canShare}
+              onCheckedChange={setShared}
+            />
+            <Label htmlFor="explorer-view-shared" className="text-sm">
+              Share with the team
+            </Label>
+          </div>
+          <Button
+            size="sm"
+            className="h-9"
+            disabled={disabled || !name.trim()}
+            onClick={() =>
+              run(async () => {
+                const created = await create(name, shared && canShare ? "shared" : "personal", state);
+                setSelectedId(created.id);
+                setName("");
+              })
+            }
+          >
+            <Save className="mr-1 h-4 w-4" />
+            Save view
+          </Button>
+        </div>
+
+        {selected && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {selected.name}
+              {isModified && " (modified)"}
+            </span>
+            {isModified && canEdit(selected) && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={disabled}
+                onClick={() => run(() => update({ ...selected, state }))}
+              >
+                <Save className="mr-1 h-4 w-4" />
+                Update view
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={() => run(() => setDefault(selected.id === defaultViewId ? null : selected.id))}
+            >
+              {selected.id === defaultViewId ? (
+                <StarOff className="mr-1 h-4 w-4" />
+              ) : (
+                <Star className="mr-1 h-4 w-4" />
+              )}
+              {selected.id === defaultViewId ? "Remove as default" : "Make my default"}
+            </Button>
+            {canEdit(selected) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={disabled}
+                onClick={() => {
+                  const note =
+                    selected.scope === "shared"
+                      ? " It is removed for the whole team; an admin can restore it from the Audit tab."
+                      : "";
+                  if (window.confirm(`Delete the "${selected.name}" view?${note}`)) {
+                    void run(async () => {
+                      await remove(selected);
+                      setSelectedId(null);
+                    });
+                  }
+                }}
+              >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
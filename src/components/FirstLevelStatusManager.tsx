@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState } from "react";
+import { v4 as uuid } from "uuid";
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/sonner";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { FirstLevelStatus, TicketStatusMapping } from "@/types/ticket";
+import { UNLISTED_FIRST_LEVEL_STATUS_COLOR } from "@/utils/firstLevelStatuses";
+
+type FirstLevelStatusManagerProps = {
+  mapping: TicketStatusMapping;
+};
+
+/** Edits the managed first-level statuses; the mapping dropdowns offer only these. */
+export function FirstLevelStatusManager({ mapping }: FirstLevelStatusManagerProps) {
+  const { statuses, isReadOnly, save, isUpdating } = useFirstLevelStatuses();
+  const [draft, setDraft] = useState<FirstLevelStatus[]>(statuses);
+
+  useEffect(() => {
+    setDraft(statuses);
+  }, [statuses]);
+
+  // Mapping entries per saved status, so statuses in use are not deleted by accident.
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach((entry) => {
+      const name = entry.firstLevelStatus?.trim().toLowerCase();
+      if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+    });
+    return new Map(statuses.map((status) => [status.id, counts.get(status.name.toLowerCase()) ?? 0]));
+  }, [mapping, statuses]);
+
+  const names = draft.map((status) => status.name.trim().toLowerCase());
+  const problem = names.some((name) => !name)
+    ? "Every status needs a name."
+    : names.some((name, index) => names.indexOf(name) !== index)
+      ? "Status names must be unique."
+      : null;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(statuses);
+  const disabled = isReadOnly || isUpdating;
+
+  const update = (id: string, change: Partial<FirstLevelStatus>) =>
+    setDraft((current) => current.map((status) => (status.id === id ? { ...status, ...change } : status)));
+
+  const move = (position: number, offset: number) =>
+    setDraft((current) => {
+      const next = [...current];
+      const [status] = next.splice(position, 1);
+      next.splice(position + offset, 0, status);
+      return next;
+    });
+
+  const handleSave = async () => {
+    try {
+      await save(draft.map((status, order) => ({ ...status, name: status.name.trim(), order })));
+      toast.success("First-level statuses saved");
+    } catch (caught) {
+      toast.error("Saving first-level statuses failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((status, position) => {
+        const inUse = usage.get(status.id) ?? 0;
+        return (
+          <div key={status.id} className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+            <input
+              type="color"
+              aria-label={`Colour of ${status.name || "new status"}`}
+              className="h-9 w-12 cursor-pointer rounded border bg-transparent"
+              value={status.color || UNLISTED_FIRST_LEVEL_STATUS_COLOR}
+              disabled={disabled}
+              onChange={(event) => update(status.id, { color: event.target.value })}
+            />
+            <Input
+              className="w-56"
+              value={status.name}
+              placeholder="Status name"
+              disabled={disabled}
+              onChange={(event) => update(status.id, { name: event.target.value })}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`status-${status.id}-closed`}
+                checked={status.isClosed}
+                disabled={disabled}
+                onCheckedChange={(isClosed) => update(status.id, { isClosed })}
+              />
+              <Label htmlFor={`status-${status.id}-closed`} className="text-sm">
+                Counts as closed
+              </Label>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {inUse > 0 ? `Used by ${inUse} status codes` : "Not used yet"}
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || position === 0}
+                onClick={() => move(position, -1)}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || position === draft.length - 1}
+                onClick={() => move(position, 1)}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || inUse > 0}
+                title={inUse > 0 ? "Remap its status codes before deleting it" : undefined}
+                onClick={() => setDraft((current) => current.filter((candidate) => candidate.id !== status.id))}
+                aria-label="Delete status"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      {problem && <p className="text-sm text-destructive">{problem}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() =>
+            setDraft((current) => [
+              ...current,
+              { id: uuid(), name: "", color: UNLISTED_FIRST_LEVEL_STATUS_COLOR, order: current.length, isClosed: false },
+            ])
+          }
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add status
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled || !isDirty} onClick={() => setDraft(statuses)}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Discard changes
+        </Button>
+        <Button size="sm" disabled={disabled || !isDirty || !!problem} onClick={handleSave}>
+          <Save className="mr-1 h-4 w-4" />
+          {isUpdating ? "Saving…" : "Save statuses"}
+        </Button>
+      </div>
+    </div>
+  );
+}
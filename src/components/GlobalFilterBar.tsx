@@ -0,0 +1,165 @@
+import { useMemo } from "react";
+import { FilterX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGlobalFilterControls } from "@/hooks/useGlobalFilters";
+import { useVisibleTickets } from "@/hooks/useVisibleTickets";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { GlobalFilterDimension, GlobalFilters, TicketRoleIdentity } from "@/types/ticket";
+import { getActiveGlobalFilterDimensions, GLOBAL_FILTER_DIMENSIONS } from "@/utils/globalFilters";
+import { sortFirstLevelStatuses } from "@/utils/firstLevelStatuses";
+
+const ANY = "__any__";
+const ALL_DIMENSIONS = Object.keys(GLOBAL_FILTER_DIMENSIONS) as GlobalFilterDimension[];
+
+const byName = (a: TicketRoleIdentity, b: TicketRoleIdentity) => a.name.localeCompare(b.name);
+
+function FilterSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value || ANY} onValueChange={(next) => onChange(next === ANY ? "" : next)}>
+        <SelectTrigger className="h-9 w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+          {value && !options.some((option) => option.value === value) && (
+            <SelectItem value={value}>{value} (not in the data)</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/** Date range, type, severity, status and role filters shared by every analytics page. */
+export function GlobalFilterBar() {
+  const { filters, setFilters, clearFilters } = useGlobalFilterControls();
+  const { tickets } = useVisibleTickets({ ignoreGlobalFilters: ALL_DIMENSIONS });
+  const { statuses } = useFirstLevelStatuses();
+
+  const options = useMemo(() => {
+    const types = new Map<string, string>();
+    const severities = new Set<string>();
+    const dealers = new Map<string, TicketRoleIdentity>();
+    const repairs = new Map<string, TicketRoleIdentity>();
+    const employees = new Map<string, TicketRoleIdentity>();
+
+    tickets.forEach((ticket) => {
+      if (ticket.typeCode && !types.has(ticket.typeCode)) types.set(ticket.typeCode, ticket.typeText);
+      if (ticket.severity) severities.add(ticket.severity);
+      if (ticket.dealer.id) dealers.set(ticket.dealer.id, ticket.dealer);
+      if (ticket.repair.id) repairs.set(ticket.repair.id, ticket.repair);
+      if (ticket.employee.id) employees.set(ticket.employee.id, ticket.employee);
+    });
+
+    const roles = (identities: Map<string, TicketRoleIdentity>) =>
+      Array.from(identities.values())
+        .sort(byName)
+        .map(({ id, name }) => ({ value: id, label: name || id }));
+
+    return {
+      ticketTypes: Array.from(types.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([code, text]) => ({ value: code, label: text ? `${text} (${code})` : code })),
+      severities: Array.from(severities)
+        .sort()
+        .map((severity) => ({ value: severity, label: `Severity ${severity}` })),
+      dealers: roles(dealers),
+      repairs: roles(repairs),
+      employees: roles(employees),
+    };
+  }, [tickets]);
+
+  const active = getActiveGlobalFilterDimensions(filters);
+  const set = (field: keyof GlobalFilters) => (value: string) => setFilters({ [field]: value });
+
+  return (
+    <div className="mb-6 flex flex-wrap items-end gap-3 rounded-lg border bg-white p-4 shadow-sm">
+      <div className="space-y-1">
+        <Label htmlFor="global-filter-from" className="text-xs text-muted-foreground">
+          Created from
+        </Label>
+        <Input
+          id="global-filter-from"
+          type="date"
+          className="h-9 w-40"
+          value={filters.createdFrom}
+          max={filters.createdTo || undefined}
+          onChange={(event) => setFilters({ createdFrom: event.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="global-filter-to" className="text-xs text-muted-foreground">
+          Created to
+        </Label>
+        <Input
+          id="global-filter-to"
+          type="date"
+          className="h-9 w-40"
+          value={filters.createdTo}
+          min={filters.createdFrom || undefined}
+          onChange={(event) => setFilters({ createdTo: event.target.value })}
+        />
+      </div>
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.ticketType}
+        value={filters.ticketType}
+        options={options.ticketTypes}
+        onChange={set("ticketType")}
+      />
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.severity}
+        value={filters.severity}
+        options={options.severities}
+        onChange={set("severity")}
+      />
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.firstLevelStatus}
+        value={filters.firstLevelStatus}
+        options={sortFirstLevelStatuses(statuses).map((status) => ({ value: status.name, label: status.name }))}
+        onChange={set("firstLevelStatus")}
+      />
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.dealer}
+        value={filters.dealerId}
+        options={options.dealers}
+        onChange={set("dealerId")}
+      />
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.repair}
+        value={filters.repairId}
+        options={options.repairs}
+        onChange={set("repairId")}
+      />
+      <FilterSelect
+        label={GLOBAL_FILTER_DIMENSIONS.employee}
+        value={filters.employeeId}
+        options={options.employees}
+        onChange={set("employeeId")}
+      />
+      <Button variant="ghost" size="sm" disabled={active.length === 0} onClick={clearFilters}>
+        <FilterX className="mr-1 h-4 w-4" />
+        Clear{active.length > 0 && ` (${active.length})`}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { format } from "date-fns";
+import { Radio } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { useLiveSyncStore, useRecentlyChangedTickets } from "@/hooks/useLiveTicketSync";
+import { useTicketData } from "@/hooks/useTicketData";
+
+type LiveSyncIndicatorProps = {
+  className?: string;
+};
+
+export function LiveSyncIndicator({ className }: LiveSyncIndicatorProps) {
+  const { dataUpdatedAt } = useTicketData();
+  const enabled = useLiveSyncStore((state) => state.enabled);
+  const lastSyncedAt = useLiveSyncStore((state) => state.lastSyncedAt);
+  const error = useLiveSyncStore((state) => state.error);
+  const setEnabled = useLiveSyncStore((state) => state.setEnabled);
+  const changedCount = Object.keys(useRecentlyChangedTickets()).length;
+
+  const syncedAt = enabled ? lastSyncedAt ?? dataUpdatedAt : dataUpdatedAt;
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-3 rounded-lg border bg-white px-3 py-2 text-sm shadow-sm",
+        className
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <Switch id="live-sync" checked={enabled} onCheckedChange={setEnabled} />
+        <Label htmlFor="live-sync" className="flex items-center gap-1.5 font-medium">
+          <Radio className={cn("h-4 w-4", enabled ? "text-emerald-600 animate-pulse" : "text-muted-foreground")} />
+          Live updates
+        </Label>
+      </div>
+      <span className="text-muted-foreground">
+        {enabled ? "Last synced" : "Loaded"}: {syncedAt ? format(syncedAt, "HH:mm:ss") : "—"}
+      </span>
+      {enabled && changedCount > 0 && (
+        <Badge variant="secondary" className="bg-amber-50 text-amber-700 border-amber-100">
+          {changedCount} ticket{changedCount === 1 ? "" : "s"} just updated
+        </Badge>
+      )}
+      {error && <span className="text-destructive">Live sync failed: {error}</span>}
+    </div>
+  );
+}
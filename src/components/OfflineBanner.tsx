@@ -0,0 +1,27 @@
+import { format } from "date-fns";
+import { WifiOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useTicketData } from "@/hooks/useTicketData";
+
+export function OfflineBanner() {
+  const online = useOnlineStatus();
+  const { data, dataUpdatedAt, isServingCache } = useTicketData();
+
+  if (online && !isServingCache) return null;
+
+  const cachedAt = data && dataUpdatedAt ? format(dataUpdatedAt, "dd/MM/yyyy HH:mm") : null;
+
+  return (
+    <Alert className="mb-6 border-amber-200 bg-amber-50 text-amber-900">
+      <WifiOff className="h-4 w-4 !text-amber-700" />
+      <AlertTitle>{online ? "Showing cached data" : "Offline"}</AlertTitle>
+      <AlertDescription>
+        {cachedAt ? `Cached as of ${cachedAt}. ` : "No cached ticket data is available yet. "}
+        {online
+          ? "The latest refresh failed; numbers may be out of date."
+          : "Pages are read-only until the connection returns."}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,29 @@
+import { ReactNode } from "react";
+import { ShieldAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/useAuth";
+import { UserRole } from "@/lib/auth";
+
+type RequireRoleProps = {
+  role: UserRole;
+  children: ReactNode;
+};
+
+export function RequireRole({ role, children }: RequireRoleProps) {
+  const { can, role: currentRole } = useAuth();
+
+  if (!can(role)) {
+    return (
+      <Alert className="border-rose-200 bg-rose-50 text-rose-900">
+        <ShieldAlert className="h-4 w-4 !text-rose-700" />
+        <AlertTitle>Access denied</AlertTitle>
+        <AlertDescription>
+          This page requires the {role} role; you are signed in as {currentRole ?? "a user without a role"}.
+          Ask an admin to change your role under <code>userRoles</code>.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return <>{children}</>;
+}
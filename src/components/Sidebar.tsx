@@ -1,8 +1,19 @@
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { Users, Wrench, ChevronLeft, ChevronRight, Shield, Ticket, MapPin, BarChart2, TrendingUp, FileText, FolderKanban } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Wrench, ChevronLeft, ChevronRight, Shield, Ticket, MapPin, BarChart2, TrendingUp, FileText, FolderKanban, Database, ClipboardCheck, LogOut, Eye, AlarmClock, Clock } from "lucide-react";
 import { useState } from "react";
 import { NavLink } from "react-router-dom";
+import { useTicketDataset } from "@/hooks/useTicketDataset";
+import { useAuth } from "@/hooks/useAuth";
+import { useVisibilityProfile } from "@/hooks/useVisibilityProfile";
+import { useStatusMappingCoverage } from "@/hooks/useStatusMappingCoverage";
+import { useTimeBasisStore } from "@/hooks/useTimeBasis";
+import { TimeBasis } from "@/types/ticket";
+import { TIME_BASIS_LABELS } from "@/utils/workingCalendar";
+import { canAccessPage } from "@/lib/auth";
+import { useGlobalFilterStore } from "@/hooks/useGlobalFilters";
+import { GLOBAL_FILTER_PAGES, globalFiltersSearch } from "@/utils/globalFilters";
 
 interface SidebarProps {
   activeTab: string;
@@ -10,6 +21,12 @@ interface SidebarProps {
 
 export default function Sidebar({ activeTab }: SidebarProps) {
   const [collapsed, setCollapsed] = useState(false);
+  const { dataset, datasets, setDatasetId } = useTicketDataset();
+  const { user, role, signOut } = useAuth();
+  const { profiles, profileId, defaultProfileId, setProfileId, setDefault } = useVisibilityProfile();
+  const { unmapped } = useStatusMappingCoverage();
+  const { timeBasis, setTimeBasis } = useTimeBasisStore();
+  const filterSearch = globalFiltersSearch(useGlobalFilterStore((state) => state.filters));
 
   const tabs = [
     { id: "tickets", label: "Tickets", icon: Ticket, to: "/tickets" },
@@ -19,9 +36,17 @@ export default function Sidebar({ activeTab }: SidebarProps) {
     { id: "claim-vs-closed", label: "Claim vs Closed", icon: TrendingUp, to: "/claim-vs-closed" },
     { id: "aged-claim-report", label: "Aged Claim Report", icon: BarChart2, to: "/aged-claim-report" },
     { id: "aftersale-guides", label: "Aftersale Guides", icon: FolderKanban, to: "/aftersale-guides" },
-    { id: "mapping", label: "Mapping", icon: MapPin, to: "/mapping" },
+    { id: "data-quality", label: "Data Quality", icon: ClipboardCheck, to: "/data-quality" },
+    { id: "sla", label: "Service Levels", icon: AlarmClock, to: "/sla" },
+    {
+      id: "mapping",
+      label: "Mapping",
+      icon: MapPin,
+      to: "/mapping",
+      warning: unmapped.length > 0 ? `${unmapped.length} unmapped status codes` : undefined,
+    },
     { id: "admin", label: "Admin", icon: Shield, to: "/admin" },
-  ];
+  ].filter((tab) => canAccessPage(role, tab.id));
 
   return (
     <div
@@ -42,21 +67,100 @@ export default function Sidebar({ activeTab }: SidebarProps) {
         </Button>
       </div>
 
+      {!collapsed && (
+        <div className="px-4 pt-4 space-y-2">
+          <p className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+            <Database className="h-3.5 w-3.5" />
+            Dataset
+          </p>
+          <Select value={dataset?.id} onValueChange={setDatasetId}>
+            <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+              <SelectValue placeholder="Loading datasets…" />
+            </SelectTrigger>
+            <SelectContent>
+              {datasets.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                  {option.kind === "archive" && " (archived)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="flex items-center gap-2 pt-2 text-xs uppercase tracking-wide text-slate-400">
+            <Eye className="h-3.5 w-3.5" />
+            Visibility profile
+          </p>
+          <Select value={profileId} onValueChange={setProfileId}>
+            <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                  {option.id === defaultProfileId && " (default)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {profileId !== defaultProfileId && (
+            <button
+              type="button"
+              className="text-xs text-slate-400 underline-offset-2 hover:text-white hover:underline"
+              onClick={() => setDefault(profileId)}
+            >
+              Make this my default
+            </button>
+          )}
+          <p className="flex items-center gap-2 pt-2 text-xs uppercase tracking-wide text-slate-400">
+            <Clock className="h-3.5 w-3.5" />
+            Time basis
+          </p>
+          <Select value={timeBasis} onValueChange={(value) => setTimeBasis(value as TimeBasis)}>
+            <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_BASIS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <nav className="p-4 space-y-2">
         {tabs.map((tab) => {
           const Icon = tab.icon;
           return (
-            <NavLink key={tab.id} to={tab.to} className="block">
+            <NavLink
+              key={tab.id}
+              to={GLOBAL_FILTER_PAGES.includes(tab.id) && filterSearch ? `${tab.to}?${filterSearch}` : tab.to}
+              className="block"
+            >
               <Button
                 variant={activeTab === tab.id ? "secondary" : "ghost"}
                 className={cn(
-                  "w-full justify-start text-white hover:bg-slate-800",
+                  "relative w-full justify-start text-white hover:bg-slate-800",
                   activeTab === tab.id && "bg-slate-800",
                   collapsed && "justify-center"
                 )}
               >
                 <Icon className={cn("h-5 w-5", !collapsed && "mr-2")} />
                 {!collapsed && <span>{tab.label}</span>}
+                {"warning" in tab && tab.warning && (
+                  <span
+                    title={tab.warning}
+                    className={cn(
+                      "rounded-full bg-amber-500 text-xs font-semibold text-slate-900",
+                      collapsed ? "absolute right-3 top-1.5 h-2.5 w-2.5" : "ml-auto px-2 py-0.5"
+                    )}
+                  >
+                    {!collapsed && unmapped.length}
+                  </span>
+                )}
               </Button>
             </NavLink>
           );
@@ -64,7 +168,24 @@ export default function Sidebar({ activeTab }: SidebarProps) {
       </nav>
 
       {!collapsed && (
-        <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-slate-800">
+        <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-slate-800 space-y-3">
+          {user && (
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{user.email}</p>
+                <p className="text-xs text-slate-400">{role}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => void signOut()}
+                className="text-white hover:bg-slate-800"
+                aria-label="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
           <p className="text-xs text-slate-400">© 2026 After-Sales Dashboard</p>
         </div>
       )}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from "react";
+import { v4 as uuid } from "uuid";
+import { Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { useSlaTargets } from "@/hooks/useSlaTargets";
+import { useTicketData } from "@/hooks/useTicketData";
+import { SlaDurationUnit, SlaMetric, SlaTarget } from "@/types/ticket";
+import { DEFAULT_SLA_AT_RISK_RATIO, SLA_DURATION_UNITS, SLA_METRICS } from "@/utils/sla";
+
+const ANY = "__any__";
+
+/** Edits the SLA targets; each row applies to one ticket type and severity, or to any. */
+export function SlaTargetsEditor() {
+  const { targets, isReadOnly, save, isUpdating } = useSlaTargets();
+  const ticketQuery = useTicketData();
+  const [draft, setDraft] = useState<SlaTarget[]>(targets);
+
+  useEffect(() => {
+    setDraft(targets);
+  }, [targets]);
+
+  const { ticketTypes, severities } = useMemo(() => {
+    const types = new Map<string, string>();
+    const severityValues = new Set<string>();
+    Object.values(ticketQuery.data?.tickets ?? {}).forEach((entry) => {
+      const code = entry.ticket.TicketType?.trim();
+      if (code && !types.has(code)) types.set(code, entry.ticket.TicketTypeText?.trim() ?? "");
+      const severity = entry.ticket.TicketSeverity?.trim();
+      if (severity) severityValues.add(severity);
+    });
+    return {
+      ticketTypes: Array.from(types.entries()).sort(([a], [b]) => a.localeCompare(b)),
+      severities: Array.from(severityValues).sort(),
+    };
+  }, [ticketQuery.data]);
+
+  const keys = draft.map((target) => `${target.metric}|${target.ticketType}|${target.severity}`);
+  const problem = draft.some((target) => !Number.isInteger(target.duration) || target.duration <= 0)
+    ? "Durations must be whole numbers above zero."
+    : draft.some((target) => !(target.atRiskRatio > 0 && target.atRiskRatio <= 1))
+      ? "The at-risk share must be between 1% and 100%."
+      : keys.some((key, index) => keys.indexOf(key) !== index)
+        ? "Each metric can have only one target per ticket type and severity."
+        : null;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(targets);
+  const disabled = isReadOnly || isUpdating;
+
+  const update = (id: string, change: Partial<SlaTarget>) =>
+    setDraft((current) => current.map((target) => (target.id === id ? { ...target, ...change } : target)));
+
+  const handleSave = async () => {
+    try {
+      await save(draft);
+      toast.success("SLA targets saved");
+    } catch (caught) {
+      toast.error("Saving SLA targets failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.length === 0 && (
+        <p className="text-sm text-muted-foreground">No targets yet, so no ticket is measured against an SLA.</p>
+      )}
+
+      {draft.map((target) => (
+        <div key={target.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+          <Select
+            value={target.metric}
+            onValueChange={(metric) => update(target.id, { metric: metric as SlaMetric })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SLA_METRICS).map(([metric, label]) => (
+                <SelectItem key={metric} value={metric}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">within</span>
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={Number.isNaN(target.duration) ? "" : target.duration}
+            disabled={disabled}
+            onChange={(event) => update(target.id, { duration: event.target.valueAsNumber })}
+          />
+          <Select
+            value={target.unit}
+            onValueChange={(unit) => update(target.id, { unit: unit as SlaDurationUnit })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SLA_DURATION_UNITS).map(([unit, label]) => (
+                <SelectItem key={unit} value={unit}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">for</span>
+          <Select
+            value={target.ticketType || ANY}
+            onValueChange={(ticketType) => update(target.id, { ticketType: ticketType === ANY ? "" : ticketType })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any ticket type</SelectItem>
+              {ticketTypes.map(([code, text]) => (
+                <SelectItem key={code} value={code}>
+                  {text ? `${text} (${code})` : code}
+                </SelectItem>
+              ))}
+              {target.ticketType && !ticketTypes.some(([code]) => code === target.ticketType) && (
+                <SelectItem value={target.ticketType}>{target.ticketType} (not in the data)</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <Select
+            value={target.severity || ANY}
+            onValueChange={(severity) => update(target.id, { severity: severity === ANY ? "" : severity })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any severity</SelectItem>
+              {severities.map((severity) => (
+                <SelectItem key={severity} value={severity}>
+                  Severity {severity}
+                </SelectItem>
+              ))}
+              {target.severity && !severities.includes(target.severity) && (
+                <SelectItem value={target.severity}>Severity {target.severity} (not in the data)</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">at risk after</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            className="w-20"
+            value={Number.isNaN(target.atRiskRatio) ? "" : Math.round(target.atRiskRatio * 100)}
+            disabled={disabled}
+            onChange={(event) => update(target.id, { atRiskRatio: event.target.valueAsNumber / 100 })}
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto"
+            disabled={disabled}
+            onClick={() => setDraft((current) => current.filter((candidate) => candidate.id !== target.id))}
+            aria-label="Delete target"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {problem && <p className="text-sm text-destructive">{problem}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() =>
+            setDraft((current) => [
+              ...current,
+              {
+                id: uuid(),
+                metric: "closure",
+                ticketType: "",
+                severity: "",
+                duration: 30,
+                unit: "calendarDays",
+                atRiskRatio: DEFAULT_SLA_AT_RISK_RATIO,
+              },
+            ])
+          }
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add target
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled || !isDirty} onClick={() => setDraft(targets)}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Discard changes
+        </Button>
+        <Button size="sm" disabled={disabled || !isDirty || !!problem} onClick={handleSave}>
+          <Save className="mr-1 h-4 w-4" />
+          {isUpdating ? "Saving…" : "Save targets"}
+        </Button>
+      </div>
+    </div>
+  );
+}
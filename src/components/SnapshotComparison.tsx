@@ -0,0 +1,159 @@
+import { useMemo } from "react";
+import { ArrowRight, Minus, Plus, Shuffle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import StatCard from "@/components/StatCard";
+import { useVisibleTickets, VisibilityOptions } from "@/hooks/useVisibleTickets";
+import { NormalizedTicket } from "@/types/ticket";
+import { compareTicketSnapshots } from "@/utils/ticketSnapshots";
+
+type SnapshotComparisonProps = {
+  /** Snapshot date (yyyy-MM-dd) the current view is compared against. */
+  compareTo: string;
+  /** The tickets currently on screen, live or as of another snapshot. */
+  tickets: NormalizedTicket[];
+  currentLabel: string;
+  visibility?: Omit<VisibilityOptions, "asOf">;
+};
+
+const MAX_CHANGED_ROWS = 50;
+
+export function SnapshotComparison({ compareTo, tickets, currentLabel, visibility }: SnapshotComparisonProps) {
+  const baseline = useVisibleTickets({ ...visibility, asOf: compareTo });
+  const baselineLabel = baseline.snapshot?.date ?? compareTo;
+
+  const { comparison, statusDeltas } = useMemo(() => {
+    const result = compareTicketSnapshots(baseline.tickets, tickets);
+
+    const counts: Record<string, { before: number; after: number }> = {};
+    baseline.tickets.forEach((ticket) => {
+      counts[ticket.firstLevelStatus] ??= { before: 0, after: 0 };
+      counts[ticket.firstLevelStatus].before += 1;
+    });
+    tickets.forEach((ticket) => {
+      counts[ticket.firstLevelStatus] ??= { before: 0, after: 0 };
+      counts[ticket.firstLevelStatus].after += 1;
+    });
+
+    return {
+      comparison: result,
+      statusDeltas: Object.entries(counts)
+        .map(([status, { before, after }]) => ({ status, before, after, delta: after - before }))
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.status.localeCompare(b.status)),
+    };
+  }, [baseline.tickets, tickets]);
+
+  if (baseline.isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading snapshot {compareTo}...</div>;
+  }
+
+  if (baseline.error) {
+    const message = baseline.error instanceof Error ? baseline.error.message : "Unknown error";
+    return <div className="text-sm text-destructive">Failed to load snapshot for comparison: {message}</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Changes from {baselineLabel} to {currentLabel}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Tickets added, removed or moved to another first-level status between the two points in time.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <StatCard title="Added" value={comparison.added.length} icon={Plus} description="New since the snapshot" />
+          <StatCard
+            title="Removed"
+            value={comparison.removed.length}
+            icon={Minus}
+            description="No longer in the ticket set"
+          />
+          <StatCard
+            title="Status changed"
+            value={comparison.statusChanged.length}
+            icon={Shuffle}
+            description="Moved to another first-level status"
+          />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Table className="rounded-lg border">
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>First-level status</TableHead>
+                <TableHead className="text-right">{baselineLabel}</TableHead>
+                <TableHead className="text-right">{currentLabel}</TableHead>
+                <TableHead className="text-right">Δ</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statusDeltas.map(({ status, before, after, delta }) => (
+                <TableRow key={status}>
+                  <TableCell className="font-medium">{status || "Unmapped"}</TableCell>
+                  <TableCell className="text-right">{before}</TableCell>
+                  <TableCell className="text-right">{after}</TableCell>
+                  <TableCell
+                    className={`text-right font-semibold ${
+                      delta > 0 ? "text-rose-600" : delta < 0 ? "text-emerald-600" : "text-muted-foreground"
+                    }`}
+                  >
+                    {delta > 0 ? `+${delta}` : delta}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Table className="rounded-lg border">
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Ticket</TableHead>
+                <TableHead>Status change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.statusChanged.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center text-muted-foreground">
+                    No status changes
+                  </TableCell>
+                </TableRow>
+              )}
+              {comparison.statusChanged.slice(0, MAX_CHANGED_ROWS).map(({ before, after }) => (
+                <TableRow key={after.key}>
+                  <TableCell>
+                    <div className="font-medium">{after.ticketId}</div>
+                    <div className="text-xs text-muted-foreground">{after.ticketName}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{before.firstLevelStatus || "Unmapped"}</Badge>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <Badge variant="secondary">{after.firstLevelStatus || "Unmapped"}</Badge>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {comparison.statusChanged.length > MAX_CHANGED_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {MAX_CHANGED_ROWS} of {comparison.statusChanged.length} status changes.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
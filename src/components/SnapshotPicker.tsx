@@ -0,0 +1,102 @@
+import { format, parseISO } from "date-fns";
+import { History, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { useTicketSnapshotIndex } from "@/hooks/useTicketSnapshots";
+import { findSnapshotAsOf } from "@/utils/ticketSnapshots";
+
+type SnapshotPickerProps = {
+  asOf: string | null;
+  onAsOfChange: (date: string | null) => void;
+  compareTo: string | null;
+  onCompareToChange: (date: string | null) => void;
+  className?: string;
+};
+
+const formatSnapshotLabel = (date: string) => format(parseISO(date), "d MMM yyyy");
+
+export function SnapshotPicker({
+  asOf,
+  onAsOfChange,
+  compareTo,
+  onCompareToChange,
+  className,
+}: SnapshotPickerProps) {
+  const { data: index = [], isLoading } = useTicketSnapshotIndex();
+
+  const describe = (date: string | null, fallback: string) => {
+    if (!date) return fallback;
+    const snapshot = findSnapshotAsOf(index, date);
+    return snapshot
+      ? `Using the snapshot from ${formatSnapshotLabel(snapshot.date)} (${snapshot.ticketCount} tickets)`
+      : `No snapshot on or before ${formatSnapshotLabel(date)}`;
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col gap-4 rounded-lg border bg-white px-4 py-3 text-sm shadow-sm md:flex-row md:items-end",
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 font-medium md:self-center">
+        <History className="h-4 w-4 text-muted-foreground" />
+        History
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="snapshot-as-of">As of</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            id="snapshot-as-of"
+            type="date"
+            value={asOf ?? ""}
+            min={index[0]?.date}
+            onChange={(event) => onAsOfChange(event.target.value || null)}
+            list="snapshot-dates"
+            disabled={isLoading}
+            className="w-44"
+          />
+          {asOf && (
+            <Button variant="ghost" size="icon" onClick={() => onAsOfChange(null)} aria-label="Show live data">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">{describe(asOf, "Showing live data")}</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="snapshot-compare-to">Compare with</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            id="snapshot-compare-to"
+            type="date"
+            value={compareTo ?? ""}
+            min={index[0]?.date}
+            onChange={(event) => onCompareToChange(event.target.value || null)}
+            list="snapshot-dates"
+            disabled={isLoading}
+            className="w-44"
+          />
+          {compareTo && (
+            <Button variant="ghost" size="icon" onClick={() => onCompareToChange(null)} aria-label="Stop comparing">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">{describe(compareTo, "Pick a date to show changes")}</p>
+      </div>
+      <datalist id="snapshot-dates">
+        {index.map((snapshot) => (
+          <option key={snapshot.date} value={snapshot.date} />
+        ))}
+      </datalist>
+      {!isLoading && index.length === 0 && (
+        <p className="text-xs text-muted-foreground md:self-center">
+          No snapshots yet — one is recorded each day the dashboard loads.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from "react";
+import { v4 as uuid } from "uuid";
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/sonner";
+import { useStatusHierarchy } from "@/hooks/useStatusHierarchy";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { StatusHierarchyNode, TicketStatusMapping } from "@/types/ticket";
+import { buildStatusTree, StatusTreeNode } from "@/utils/statusHierarchy";
+
+type StatusHierarchyEditorProps = {
+  mapping: TicketStatusMapping;
+};
+
+/** Ids of `nodeId` and everything below it. */
+function collectSubtree(nodeId: string, nodes: StatusHierarchyNode[]): Set<string> {
+  const ids = new Set([nodeId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    nodes.forEach((node) => {
+      if (ids.has(node.parentId) && !ids.has(node.id)) {
+        ids.add(node.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+}
+
+/** Edits the groups below each first-level status as a tree. */
+export function StatusHierarchyEditor({ mapping }: StatusHierarchyEditorProps) {
+  const { nodes, isReadOnly, save, isUpdating } = useStatusHierarchy();
+  const { statuses } = useFirstLevelStatuses();
+  const [draft, setDraft] = useState<StatusHierarchyNode[]>(nodes);
+
+  useEffect(() => {
+    setDraft(nodes);
+  }, [nodes]);
+
+  const tree = useMemo(() => buildStatusTree(statuses, draft), [statuses, draft]);
+
+  // Status codes mapped directly to each saved group.
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach((entry) => {
+      if (entry.statusNodeId) counts.set(entry.statusNodeId, (counts.get(entry.statusNodeId) ?? 0) + 1);
+    });
+    return counts;
+  }, [mapping]);
+
+  const problem = draft.some((node) => !node.name.trim())
+    ? "Every group needs a name."
+    : draft.some((node) =>
+          draft.some(
+            (other) =>
+              other.id !== node.id &&
+              other.parentId === node.parentId &&
+              other.name.trim().toLowerCase() === node.name.trim().toLowerCase()
+          )
+        )
+      ? "Groups under the same parent must have different names."
+      : null;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(nodes);
+  const disabled = isReadOnly || isUpdating;
+
+  const rename = (id: string, name: string) =>
+    setDraft((current) => current.map((node) => (node.id === id ? { ...node, name } : node)));
+
+  const addChild = (parentId: string) =>
+    setDraft((current) => [
+      ...current,
+      {
+        id: uuid(),
+        name: "",
+        parentId,
+        order: current.filter((node) => node.parentId === parentId).length,
+      },
+    ]);
+
+  const remove = (id: string) =>
+    setDraft((current) => {
+      const removed = collectSubtree(id, current);
+      return current.filter((node) => !removed.has(node.id));
+    });
+
+  // Swaps a group with its neighbour and renumbers its siblings.
+  const move = (siblings: StatusTreeNode[], position: number, offset: number) => {
+    const ordered = siblings.map((sibling) => sibling.id);
+    const [id] = ordered.splice(position, 1);
+    ordered.splice(position + offset, 0, id);
+    setDraft((current) =>
+      current.map((node) => (ordered.includes(node.id) ? { ...node, order: ordered.indexOf(node.id) } : node))
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      await save(draft.map((node) => ({ ...node, name: node.name.trim() })));
+      toast.success("Status hierarchy saved");
+    } catch (caught) {
+      toast.error("Saving the status hierarchy failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    }
+  };
+
+  const renderChildren = (parent: StatusTreeNode) =>
+    parent.children.map((node, position) => {
+      const subtree = collectSubtree(node.id, draft);
+      const mapped = Array.from(subtree).reduce((total, id) => total + (usage.get(id) ?? 0), 0);
+      return (
+        <div key={node.id} className="space-y-2 border-l pl-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-14 text-xs text-muted-foreground">Level {node.level}</span>
+            <Input
+              className="h-8 w-56"
+              value={node.name}
+              placeholder="Group name"
+              disabled={disabled}
+              onChange={(event) => rename(node.id, event.target.value)}
+            />
+            <span className="text-xs text-muted-foreground">
+              {mapped > 0 ? `${mapped} status codes` : "No status codes yet"}
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || position === 0}
+                onClick={() => move(parent.children, position, -1)}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled || position === parent.children.length - 1}
+                onClick={() => move(parent.children, position, 1)}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                onClick={() => addChild(node.id)}
+                aria-label="Add sub-group"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                title={mapped > 0 ? "Its status codes move up to the parent when saved" : undefined}
+                onClick={() => remove(node.id)}
+                aria-label="Delete group"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {renderChildren(node)}
+        </div>
+      );
+    });
+
+  return (
+    <div className="space-y-3">
+      {tree.map((root) => (
+        <div key={root.id} className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{root.name}</span>
+            <Button variant="outline" size="sm" disabled={disabled} onClick={() => addChild(root.id)}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add group
+            </Button>
+          </div>
+          {renderChildren(root)}
+        </div>
+      ))}
+
+      {problem && <p className="text-sm text-destructive">{problem}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" disabled={disabled || !isDirty} onClick={() => setDraft(nodes)}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Discard changes
+        </Button>
+        <Button size="sm" disabled={disabled || !isDirty || !!problem} onClick={handleSave}>
+          <Save className="mr-1 h-4 w-4" />
+          {isUpdating ? "Saving…" : "Save hierarchy"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { ChevronRight } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StatusDrilldown } from "@/hooks/useStatusDrilldown";
+
+type StatusLevelControlsProps = {
+  drilldown: StatusDrilldown;
+};
+
+const levelLabel = (level: number, detailLevel: number) =>
+  level === detailLevel ? "Ticket status" : level === 1 ? "First-level status" : `Level ${level}`;
+
+/** Level picker and drill path for a status chart; clicking the path rolls up. */
+export function StatusLevelControls({ drilldown }: StatusLevelControlsProps) {
+  const { level, detailLevel, focus, setLevel, rollUpTo } = drilldown;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select value={String(level)} onValueChange={(value) => setLevel(Number(value))}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Array.from({ length: detailLevel }, (_, index) => index + 1).map((option) => (
+            <SelectItem key={option} value={String(option)}>
+              {levelLabel(option, detailLevel)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {focus.length > 0 && (
+        <nav className="flex flex-wrap items-center gap-1 text-sm" aria-label="Drill path">
+          <button type="button" className="text-muted-foreground hover:underline" onClick={() => rollUpTo(0)}>
+            All
+          </button>
+          {focus.map((name, index) => (
+            <span key={`${index}-${name}`} className="flex items-center gap-1">
+              <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+              {index === focus.length - 1 ? (
+                <span className="font-medium">{name}</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:underline"
+                  onClick={() => rollUpTo(index + 1)}
+                >
+                  {name}
+                </button>
+              )}
+            </span>
+          ))}
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { FileDown, FileUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import {
+  FirstLevelStatus,
+  StatusHierarchyNode,
+  TicketStatusMapping,
+  TicketStatusMappingChange,
+  TicketStatusMappingDiff,
+} from "@/types/ticket";
+import {
+  diffStatusMapping,
+  exportStatusMappingCsv,
+  exportStatusMappingJson,
+  isStatusMappingDiffEmpty,
+  parseStatusMappingImport,
+  StatusMappingFormat,
+} from "@/utils/statusMappingTransfer";
+import { getStatusGroupPath, STATUS_PATH_SEPARATOR } from "@/utils/statusHierarchy";
+
+type StatusMappingTransferProps = {
+  mapping: TicketStatusMapping;
+  /** TicketStatus → TicketStatusText for every status seen in the data. */
+  knownStatuses: Map<string, string>;
+  firstLevelStatuses: FirstLevelStatus[];
+  statusNodes: StatusHierarchyNode[];
+  disabled?: boolean;
+  onImport: (diff: TicketStatusMappingDiff) => Promise<unknown>;
+};
+
+type PendingImport = {
+  fileName: string;
+  diff: TicketStatusMappingDiff;
+  issues: string[];
+};
+
+const CHANGE_KINDS: { key: keyof TicketStatusMappingDiff; label: string; variant: "default" | "secondary" | "destructive" }[] = [
+  { key: "added", label: "Added", variant: "default" },
+  { key: "changed", label: "Changed", variant: "secondary" },
+  { key: "removed", label: "Removed", variant: "destructive" },
+];
+
+const MIME_TYPES: Record<StatusMappingFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
+
+function downloadFile(contents: string, fileName: string, fileFormat: StatusMappingFormat) {
+  const url = URL.createObjectURL(new Blob([contents], { type: MIME_TYPES[fileFormat] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+
+/** CSV/JSON export of the whole mapping, and an import that previews its diff before saving. */
+export function StatusMappingTransfer({
+  mapping,
+  knownStatuses,
+  firstLevelStatuses,
+  statusNodes,
+  disabled,
+  onImport,
+}: StatusMappingTransferProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const exportAs = (fileFormat: StatusMappingFormat) => {
+    const contents =
+      fileFormat === "csv"
+        ? exportStatusMappingCsv(mapping, statusNodes, firstLevelStatuses)
+        : exportStatusMappingJson(mapping);
+    downloadFile(contents, `ticket-status-mapping-${format(new Date(), "yyyy-MM-dd")}.${fileFormat}`, fileFormat);
+  };
+
+  const readFile = async (file: File) => {
+    const fileFormat: StatusMappingFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    try {
+      const { mapping: imported, issues, skipped } = parseStatusMappingImport(
+        await file.text(),
+        fileFormat,
+        knownStatuses,
+        firstLevelStatuses,
+        statusNodes
+      );
+      setPending({ fileName: file.name, diff: diffStatusMapping(mapping, imported, skipped), issues });
+    } catch (caught) {
+      toast.error("Import failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    }
+  };
+
+  const describeEntry = (entry: TicketStatusMappingChange["before"]) =>
+    entry?.firstLevelStatus
+      ? getStatusGroupPath(entry.firstLevelStatus, entry, statusNodes, firstLevelStatuses).join(STATUS_PATH_SEPARATOR)
+      : "—";
+
+  const confirm = async () => {
+    if (!pending) return;
+    setSaving(true);
+    try {
+      await onImport(pending.diff);
+      const { added, changed, removed } = pending.diff;
+      toast.success("Mapping imported", {
+        description: `${added.length} added, ${changed.length} changed, ${removed.length} removed`,
+      });
+      setPending(null);
+    } catch (caught) {
+      toast.error("Import failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changes = pending
+    ? CHANGE_KINDS.flatMap((kind) => pending.diff[kind.key].map((change) => ({ kind, change })))
+    : [];
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => exportAs("csv")}>
+          <FileDown className="mr-1 h-4 w-4" />
+          Export CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => exportAs("json")}>
+          <FileDown className="mr-1 h-4 w-4" />
+          Export JSON
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <label className={cn("cursor-pointer", disabled && "pointer-events-none opacity-50")}>
+            <FileUp className="mr-1 h-4 w-4" />
+            Import CSV or JSON
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="sr-only"
+              disabled={disabled}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) readFile(file);
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && !saving && setPending(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import {pending?.fileName}</DialogTitle>
+            <DialogDescription>
+              The imported file replaces the whole mapping. Review the changes below; nothing is saved
+              until you confirm.
+            </DialogDescription>
+          </DialogHeader>
+
+          {pending && pending.issues.length > 0 && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+              <p className="font-medium">{pending.issues.length} rows need a look:</p>
+              <ul className="mt-1 max-h-32 list-disc overflow-y-auto pl-5">
+                {pending.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {CHANGE_KINDS.map((kind) => (
+              <Badge key={kind.key} variant={kind.variant}>
+                {pending?.diff[kind.key].length ?? 0} {kind.label.toLowerCase()}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[100px]" />
+                  <TableHead className="w-[140px]">TicketStatus</TableHead>
+                  <TableHead>TicketStatusText</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Imported</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(({ kind, change }) => (
+                  <TableRow key={change.ticketStatus}>
+                    <TableCell>
+                      <Badge variant={kind.variant}>{kind.label}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono">{change.ticketStatus}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {(change.after ?? change.before)?.ticketStatusText}
+                    </TableCell>
+                    <TableCell>{describeEntry(change.before)}</TableCell>
+                    <TableCell>{describeEntry(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+                {changes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      The file matches the current mapping.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={saving} onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button disabled={saving || !pending || isStatusMappingDiffEmpty(pending.diff)} onClick={confirm}>
+              {saving ? "Saving…" : `Apply ${changes.length} changes`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { format, formatDistanceStrict } from "date-fns";
+import { useTicketStatusTimeline } from "@/hooks/useTicketStatusHistory";
+
+type StatusTimelineProps = {
+  ticketId: string;
+};
+
+export function StatusTimeline({ ticketId }: StatusTimelineProps) {
+  const { data: transitions = [], isLoading, error } = useTicketStatusTimeline(ticketId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading status history...</p>;
+  }
+
+  if (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return <p className="text-sm text-destructive">Failed to load status history: {message}</p>;
+  }
+
+  if (transitions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No status changes recorded yet. Changes are captured from the next sync onwards.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {transitions.map((transition, index) => {
+        const next = transitions[index + 1];
+        return (
+          <li key={transition.at} className="relative">
+            <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-white bg-sky-500" />
+            <p className="text-xs text-muted-foreground">{format(transition.at, "d MMM yyyy, HH:mm")}</p>
+            <p className="font-semibold">
+              {transition.fromStatusText === null
+                ? `First seen as ${transition.toStatusText || transition.toStatus}`
+                : `${transition.fromStatusText || transition.fromStatus} → ${
+                    transition.toStatusText || transition.toStatus
+                  }`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              First level: {transition.fromFirstLevelStatus ? `${transition.fromFirstLevelStatus} → ` : ""}
+              {transition.toFirstLevelStatus}
+              {" · "}
+              {next
+                ? `held for ${formatDistanceStrict(transition.at, next.at)}`
+                : `current for ${formatDistanceStrict(transition.at, Date.now())}`}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { useTicketData } from "@/hooks/useTicketData";
+import { useTicketTypeMapping } from "@/hooks/useTicketTypeMapping";
+import { TicketTypeCategory } from "@/types/ticket";
+import { getTicketTypeCategory, isTicketTypeCategory, TICKET_TYPE_CATEGORIES } from "@/utils/ticketTypeMapping";
+
+type TypeRow = {
+  code: string;
+  text: string;
+  ticketCount: number;
+};
+
+const NO_CATEGORY = "__none__";
+
+/** Lists every TicketType in the data with a business category picker. */
+export function TicketTypeMappingTable() {
+  const ticketQuery = useTicketData();
+  const mappingQuery = useTicketTypeMapping();
+  const [localMapping, setLocalMapping] = useState<Record<string, TicketTypeCategory | "">>({});
+
+  const typeRows: TypeRow[] = useMemo(() => {
+    if (!ticketQuery.data) return [];
+
+    const seen = new Map<string, TypeRow>();
+    Object.values(ticketQuery.data.tickets).forEach((entry) => {
+      const code = entry.ticket.TicketType?.trim();
+      if (!code) return;
+      const row = seen.get(code) ?? { code, text: entry.ticket.TicketTypeText?.trim() ?? "", ticketCount: 0 };
+      row.ticketCount += 1;
+      seen.set(code, row);
+    });
+
+    return Array.from(seen.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }, [ticketQuery.data]);
+
+  useEffect(() => {
+    if (!mappingQuery.data) return;
+    setLocalMapping(
+      Object.fromEntries(Object.entries(mappingQuery.data).map(([code, entry]) => [code, entry.category]))
+    );
+  }, [mappingQuery.data]);
+
+  const handleSave = (row: TypeRow) => {
+    const category = localMapping[row.code] ?? "";
+    mappingQuery.updateEntry(row.code, category ? { ticketTypeText: row.text, category } : null);
+
+    toast.success("Type mapping saved to Firebase", {
+      description: `${row.code} → ${category ? TICKET_TYPE_CATEGORIES[category] : "(not mapped)"}`,
+    });
+  };
+
+  if (mappingQuery.isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading ticket type mapping...</p>;
+  }
+
+  if (mappingQuery.error) {
+    return (
+      <p className="text-sm text-destructive">
+        Failed to load the ticket type mapping:{" "}
+        {mappingQuery.error instanceof Error ? mappingQuery.error.message : "Unknown error"}
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[140px]">TicketType</TableHead>
+          <TableHead>TicketTypeText</TableHead>
+          <TableHead className="w-[100px] text-right">Tickets</TableHead>
+          <TableHead className="w-[220px]">Category</TableHead>
+          <TableHead className="w-[120px]">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {typeRows.map((row) => {
+          const value = localMapping[row.code] ?? "";
+          const builtIn = !mappingQuery.data?.[row.code]
+            ? getTicketTypeCategory({ typeCode: row.code, typeText: row.text }, mappingQuery.data)
+            : undefined;
+          return (
+            <TableRow key={row.code}>
+              <TableCell className="font-mono font-medium">{row.code}</TableCell>
+              <TableCell className="text-muted-foreground">
+                {row.text}
+                {builtIn && (
+                  <Badge variant="outline" className="ml-2" title="Matched by name until this code is mapped">
+                    {TICKET_TYPE_CATEGORIES[builtIn]} (by name)
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{row.ticketCount}</TableCell>
+              <TableCell>
+                <Select
+                  value={value || NO_CATEGORY}
+                  onValueChange={(next) =>
+                    setLocalMapping((prev) => ({ ...prev, [row.code]: isTicketTypeCategory(next) ? next : "" }))
+                  }
+                  disabled={mappingQuery.isReadOnly}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Not mapped</SelectItem>
+                    {Object.entries(TICKET_TYPE_CATEGORIES).map(([category, label]) => (
+                      <SelectItem key={category} value={category}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(row)}
+                  disabled={
+                    mappingQuery.isUpdating ||
+                    mappingQuery.isReadOnly ||
+                    value === (mappingQuery.data?.[row.code]?.category ?? "")
+                  }
+                >
+                  Save
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+        {typeRows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center text-muted-foreground">
+              No TicketType entries found.
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
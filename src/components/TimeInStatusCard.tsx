@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTicketStatusHistory } from "@/hooks/useTicketStatusHistory";
+import { useTimeBasis } from "@/hooks/useTimeBasis";
+import { NormalizedTicket } from "@/types/ticket";
+import { summarizeTimeInStatus } from "@/utils/ticketStatusHistory";
+
+type TimeInStatusCardProps = {
+  tickets: NormalizedTicket[];
+};
+
+const formatDays = (days: number, unit: string) => `${days.toFixed(1)} ${unit}`;
+
+export function TimeInStatusCard({ tickets }: TimeInStatusCardProps) {
+  const { data: history, isLoading, error } = useTicketStatusHistory();
+  const { isBusiness, daysBetween } = useTimeBasis();
+  const unit = isBusiness ? "bd" : "d";
+
+  const summary = useMemo(
+    () => (history ? summarizeTimeInStatus(history, tickets, new Date(), daysBetween) : []),
+    [daysBetween, history, tickets]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time in Status</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          How long tickets stay in each first-level status, from the status changes recorded at each
+          sync. Stays still in progress are measured up to now.
+          {isBusiness && " Durations are in business days of the working calendar."}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading status history...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            Failed to load status history: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : summary.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded for these tickets yet.</p>
+        ) : (
+          <Table className="rounded-lg border">
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>First-level status</TableHead>
+                <TableHead className="text-right">Tickets</TableHead>
+                <TableHead className="text-right">Stays</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+                <TableHead className="text-right">Median</TableHead>
+                <TableHead className="text-right">Longest</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.map((row) => (
+                <TableRow key={row.firstLevelStatus}>
+                  <TableCell className="font-medium">{row.firstLevelStatus}</TableCell>
+                  <TableCell className="text-right">{row.tickets}</TableCell>
+                  <TableCell className="text-right">{row.stays}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatDays(row.avgDays, unit)}</TableCell>
+                  <TableCell className="text-right">{formatDays(row.medianDays, unit)}</TableCell>
+                  <TableCell className="text-right">{formatDays(row.maxDays, unit)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { AlertTriangle } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/useAuth";
+import { useStatusMappingCoverage } from "@/hooks/useStatusMappingCoverage";
+import { canAccessPage } from "@/lib/auth";
+
+const LISTED_STATUSES = 5;
+
+/** Warns pages that bucket by first-level status that some tickets are counted under their raw status. */
+export function UnmappedStatusBanner() {
+  const { role } = useAuth();
+  const { unmapped, unmappedTicketCount } = useStatusMappingCoverage();
+
+  if (unmapped.length === 0) return null;
+
+  const listed = unmapped
+    .slice(0, LISTED_STATUSES)
+    .map((status) => `${status.ticketStatus || "(blank)"} (${status.ticketCount})`)
+    .join(", ");
+
+  return (
+    <Alert className="border-amber-200 bg-amber-50 text-amber-900">
+      <AlertTriangle className="h-4 w-4 !text-amber-700" />
+      <AlertTitle>
+        {unmapped.length} status {unmapped.length === 1 ? "code is" : "codes are"} not mapped
+      </AlertTitle>
+      <AlertDescription>
+        {unmappedTicketCount} tickets use their raw status instead of a first-level status, so
+        filters such as “hide Closed” do not apply to them: {listed}
+        {unmapped.length > LISTED_STATUSES && ` and ${unmapped.length - LISTED_STATUSES} more`}.{" "}
+        {canAccessPage(role, "mapping") && (
+          <Link to="/mapping" className="font-medium underline underline-offset-2">
+            Review the mapping
+          </Link>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
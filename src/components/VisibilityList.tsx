@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { Eye, EyeOff, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PaginationControls } from "@/components/PaginationControls";
+
+export type VisibilityListItem = {
+  id: string;
+  name: string;
+  count: number;
+};
+
+type SortOrder = "count-desc" | "count-asc" | "name";
+
+type VisibilityListProps = {
+  /** Prefix for element ids, e.g. "dealership". */
+  idPrefix: string;
+  items: VisibilityListItem[];
+  visibility: Record<string, boolean> | undefined;
+  /** Notes for entities whose visibility a rule decides, keyed by id. */
+  ruleNotes?: Record<string, string>;
+  disabled?: boolean;
+  onToggle: (id: string, isVisible: boolean) => void;
+  onBulkChange: (ids: string[], isVisible: boolean) => void;
+};
+
+const PAGE_SIZE = 50;
+
+export function VisibilityList({
+  idPrefix,
+  items,
+  visibility,
+  ruleNotes,
+  disabled,
+  onToggle,
+  onBulkChange,
+}: VisibilityListProps) {
+  const [search, setSearch] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("count-desc");
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const isVisible = (id: string) => visibility?.[id] ?? true;
+  const hiddenCount = items.filter((item) => !isVisible(item.id)).length;
+
+  const filtered = useMemo(() => {
+    const searchText = search.trim().toLowerCase();
+    const matches = items.filter((item) => {
+      if (hiddenOnly && (visibility?.[item.id] ?? true)) return false;
+      if (!searchText) return true;
+      return item.name.toLowerCase().includes(searchText) || item.id.toLowerCase().includes(searchText);
+    });
+
+    return matches.sort((a, b) => {
+      if (sortOrder === "name") return a.name.localeCompare(b.name);
+      return sortOrder === "count-desc" ? b.count - a.count : a.count - b.count;
+    });
+  }, [hiddenOnly, items, search, sortOrder, visibility]);
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const filteredIds = filtered.map((item) => item.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder="Search by name or ID"
+            value={search}
+            onChange={(event) => {
+              setSearch(event.target.value);
+              setPage(1);
+            }}
+          />
+        </div>
+        <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+          <SelectTrigger className="md:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="count-desc">Most tickets first</SelectItem>
+            <SelectItem value="count-asc">Fewest tickets first</SelectItem>
+            <SelectItem value="name">Name (A–Z)</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 md:pb-2">
+          <Switch
+            id={`${idPrefix}-hidden-only`}
+            checked={hiddenOnly}
+            onCheckedChange={(checked) => {
+              setHiddenOnly(checked);
+              setPage(1);
+            }}
+          />
+          <Label htmlFor={`${idPrefix}-hidden-only`} className="text-sm">
+            Hidden only ({hiddenCount})
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          {filtered.length} of {items.length} shown
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || filtered.length === 0}
+          onClick={() => onBulkChange(filteredIds.filter((id) => !isVisible(id)), true)}
+        >
+          <Eye className="mr-1 h-3.5 w-3.5" />
+          Show all {filtered.length}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || filtered.length === 0}
+          onClick={() => onBulkChange(filteredIds.filter((id) => isVisible(id)), false)}
+        >
+          <EyeOff className="mr-1 h-3.5 w-3.5" />
+          Hide all {filtered.length}
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {paginated.map((item) => {
+          const visible = isVisible(item.id);
+          return (
+            <div key={item.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <p className="font-medium">
+                  {item.name} <span className="text-xs text-muted-foreground">({item.id})</span>
+                </p>
+                <p className="text-xs text-muted-foreground">Tickets linked: {item.count}</p>
+                {ruleNotes?.[item.id] && <p className="text-xs text-amber-600">{ruleNotes[item.id]}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-${item.id}`} className="text-sm">
+                  {visible ? "Visible" : "Hidden"}
+                </Label>
+                <Switch
+                  id={`${idPrefix}-${item.id}`}
+                  checked={visible}
+                  disabled={disabled}
+                  onCheckedChange={() => onToggle(item.id, visible)}
+                />
+              </div>
+            </div>
+          );
+        })}
+        {paginated.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nothing matches the current filters.</p>
+        )}
+      </div>
+
+      <PaginationControls totalItems={filtered.length} pageSize={PAGE_SIZE} page={page} onPageChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Copy, Pencil, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useVisibilityProfile } from "@/hooks/useVisibilityProfile";
+import { DEFAULT_VISIBILITY_PROFILE_ID } from "@/utils/dataParser";
+
+type VisibilityProfileManagerProps = {
+  disabled?: boolean;
+};
+
+/** Picks the profile the Admin page edits and clones, renames or deletes it. */
+export function VisibilityProfileManager({ disabled }: VisibilityProfileManagerProps) {
+  const { profiles, profile, profileId, defaultProfileId, setProfileId, clone, rename, remove, setDefault, isUpdating } =
+    useVisibilityProfile();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      setName("");
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Unknown error");
+    }
+  };
+
+  const isDefaultProfile = profileId === DEFAULT_VISIBILITY_PROFILE_ID;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end">
+        <div className="space-y-2 md:w-64">
+          <Label>Editing profile</Label>
+          <Select value={profileId} onValueChange={setProfileId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                  {option.id === defaultProfileId && " (my default)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="profile-name">Name</Label>
+          <Input
+            id="profile-name"
+            placeholder={`e.g. ${profile?.name ?? "Warranty"} copy`}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={disabled || isUpdating || !name.trim()}
+            onClick={() => run(() => clone(profileId, name))}
+          >
+            <Copy className="mr-1 h-4 w-4" />
+            Clone
+          </Button>
+          <Button
+            variant="outline"
+            disabled={disabled || isUpdating || isDefaultProfile || !name.trim()}
+            onClick={() => run(() => rename(profileId, name))}
+          >
+            <Pencil className="mr-1 h-4 w-4" />
+            Rename
+          </Button>
+          <Button
+            variant="outline"
+            disabled={disabled || isUpdating || isDefaultProfile}
+            onClick={() => {
+              if (window.confirm(`Delete the "${profile?.name}" profile? This can be reverted from the Audit tab.`)) {
+                void run(() => remove(profileId));
+              }
+            }}
+          >
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+          <Button
+            variant="ghost"
+            disabled={isUpdating || profileId === defaultProfileId}
+            onClick={() => setDefault(profileId)}
+          >
+            <Star className="mr-1 h-4 w-4" />
+            Make my default
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useEffect, useMemo, useState } from "react";
+import { v4 as uuid } from "uuid";
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DisplaySettings, EntityVisibilityCategory, VisibilityRule } from "@/types/ticket";
+import {
+  describeVisibilityRule,
+  isValidRulePattern,
+  previewVisibilityRule,
+  VisibilityEntityIndex,
+} from "@/utils/visibilityRules";
+
+type RuleKind = VisibilityRule["kind"];
+
+const CATEGORY_LABELS: Record<EntityVisibilityCategory, string> = {
+  dealerships: "Dealerships",
+  employees: "Employees",
+  repairs: "Repairs",
+};
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  namePattern: "Name matches pattern",
+  minTickets: "Fewer tickets than",
+  inactiveDays: "No new ticket for (days)",
+  idList: "ID is one of",
+};
+
+const PREVIEW_NAMES = 8;
+
+const withKind = (rule: VisibilityRule, kind: RuleKind): VisibilityRule => {
+  const { id, category, action, precedence, enabled } = rule;
+  const base = { id, category, action, precedence, enabled };
+  switch (kind) {
+    case "namePattern":
+      return { ...base, kind, pattern: "" };
+    case "minTickets":
+      return { ...base, kind, minTickets: 5 };
+    case "inactiveDays":
+      return { ...base, kind, days: 180 };
+    case "idList":
+      return { ...base, kind, ids: [] };
+  }
+};
+
+const createRule = (): VisibilityRule => ({
+  id: uuid(),
+  category: "dealerships",
+  action: "hide",
+  precedence: "afterToggles",
+  enabled: true,
+  kind: "minTickets",
+  minTickets: 5,
+});
+
+const isRuleValid = (rule: VisibilityRule) => {
+  switch (rule.kind) {
+    case "namePattern":
+      return !!rule.pattern.trim() && isValidRulePattern(rule.pattern);
+    case "minTickets":
+      return Number.isFinite(rule.minTickets) && rule.minTickets > 0;
+    case "inactiveDays":
+      return Number.isFinite(rule.days) && rule.days >= 0;
+    case "idList":
+      return rule.ids.length > 0;
+  }
+};
+
+type VisibilityRulesEditorProps = {
+  rules: VisibilityRule[];
+  settings: DisplaySettings | undefined;
+  index: VisibilityEntityIndex;
+  disabled?: boolean;
+  onSave: (rules: VisibilityRule[]) => Promise<unknown>;
+};
+
+/**
+ * Edits the ordered rule list of the selected profile. Previews are computed
+ * against the unsaved draft, so reordering shows which rule ends up deciding.
+ */
+export function VisibilityRulesEditor({ rules, settings, index, disabled, onSave }: VisibilityRulesEditorProps) {
+  const [draft, setDraft] = useState<VisibilityRule[]>(rules);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+  const invalidCount = draft.filter((rule) => !isRuleValid(rule)).length;
+
+  const previews = useMemo(() => {
+    const now = new Date();
+    const validRules = draft.filter(isRuleValid);
+    // Disabled rules are previewed as if they were switched on.
+    const preview = (rule: VisibilityRule) => {
+      const enabled = { ...rule, enabled: true };
+      return previewVisibilityRule(
+        enabled,
+        index,
+        {
+          dealerships: settings?.dealerships ?? {},
+          employees: settings?.employees ?? {},
+          repairs: settings?.repairs ?? {},
+          rules: validRules.map((candidate) => (candidate.id === rule.id ? enabled : candidate)),
+        },
+        now
+      );
+    };
+    return new Map(draft.map((rule) => [rule.id, isRuleValid(rule) ? preview(rule) : null]));
+  }, [draft, index, settings]);
+
+  const update = (id: string, change: (rule: VisibilityRule) => VisibilityRule) =>
+    setDraft((current) => current.map((rule) => (rule.id === id ? change(rule) : rule)));
+
+  const move = (position: number, offset: number) =>
+    setDraft((current) => {
+      const next = [...current];
+      const [rule] = next.splice(position, 1);
+      next.splice(position + offset, 0, rule);
+      return next;
+    });
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Rules run top to bottom. Rules set to run before the switches override them; the others only
+        decide entities nobody has switched. Within each group the first matching rule wins.
+      </p>
+
+      {draft.map((rule, position) => {
+        const preview = previews.get(rule.id);
+        return (
+          <div key={rule.id} className="space-y-3 rounded-lg border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">#{position + 1}</Badge>
+                <span className="font-medium">{describeVisibilityRule(rule)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Switch
+                  checked={rule.enabled}
+                  disabled={disabled}
+                  onCheckedChange={(enabled) => update(rule.id, (current) => ({ ...current, enabled }))}
+                  aria-label="Enabled"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={disabled || position === 0}
+                  onClick={() => move(position, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={disabled || position === draft.length - 1}
+                  onClick={() => move(position, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={disabled}
+                  onClick={() => setDraft((current) => current.filter((candidate) => candidate.id !== rule.id))}
+                  aria-label="Delete rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-5">
+              <div className="space-y-1">
+                <Label>Applies to</Label>
+                <Select
+                  value={rule.category}
+                  disabled={disabled}
+                  onValueChange={(value) =>
+                    update(rule.id, (current) => ({ ...current, category: value as EntityVisibilityCategory }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Action</Label>
+                <Select
+                  value={rule.action}
+                  disabled={disabled}
+                  onValueChange={(value) =>
+                    update(rule.id, (current) => ({ ...current, action: value as VisibilityRule["action"] }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hide">Hide</SelectItem>
+                    <SelectItem value="show">Show</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Runs</Label>
+                <Select
+                  value={rule.precedence}
+                  disabled={disabled}
+                  onValueChange={(value) =>
+                    update(rule.id, (current) => ({
+                      ...current,
+                      precedence: value as VisibilityRule["precedence"],
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beforeToggles">Before switches</SelectItem>
+                    <SelectItem value="afterToggles">After switches</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Condition</Label>
+                <Select
+                  value={rule.kind}
+                  disabled={disabled}
+                  onValueChange={(value) => update(rule.id, (current) => withKind(current, value as RuleKind))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`rule-${rule.id}-value`}>Value</Label>
+                {rule.kind === "namePattern" && (
+                  <Input
+                    id={`rule-${rule.id}-value`}
+                    placeholder="e.g. ^TEST"
+                    value={rule.pattern}
+                    disabled={disabled}
+                    onChange={(event) =>
+                      update(rule.id, (current) => ({ ...current, pattern: event.target.value }) as VisibilityRule)
+                    }
+                  />
+                )}
+                {rule.kind === "minTickets" && (
+                  <Input
+                    id={`rule-${rule.id}-value`}
+                    type="number"
+                    min={1}
+                    value={rule.minTickets}
+                    disabled={disabled}
+                    onChange={(event) =>
+                      update(
+                        rule.id,
+                        (current) => ({ ...current, minTickets: Number(event.target.value) }) as VisibilityRule
+                      )
+                    }
+                  />
+                )}
+                {rule.kind === "inactiveDays" && (
+                  <Input
+                    id={`rule-${rule.id}-value`}
+                    type="number"
+                    min={0}
+                    value={rule.days}
+                    disabled={disabled}
+                    onChange={(event) =>
+                      update(rule.id, (current) => ({ ...current, days: Number(event.target.value) }) as VisibilityRule)
+                    }
+                  />
+                )}
+              </div>
+            </div>
+
+            {rule.kind === "idList" && (
+              <Textarea
+                placeholder="One ID per line or separated by commas"
+                value={rule.ids.join("\n")}
+                disabled={disabled}
+                onChange={(event) =>
+                  update(
+                    rule.id,
+                    (current) =>
+                      ({
+                        ...current,
+                        ids: event.target.value
+                          .split(/[\n,]/)
+                          .map((id) => id.trim())
+                          .filter(Boolean),
+                      }) as VisibilityRule
+                  )
+                }
+              />
+            )}
+
+            {preview ? (
+              <div className="text-sm text-muted-foreground">
+                Matches {preview.matched.length}, decides {preview.decided.length}
+                {!rule.enabled && " once enabled"}
+                {preview.decided.length > 0 && (
+                  <>
+                    {": "}
+                    {preview.decided
+                      .slice(0, PREVIEW_NAMES)
+                      .map((entity) => entity.name)
+                      .join(", ")}
+                    {preview.decided.length > PREVIEW_NAMES && ` and ${preview.decided.length - PREVIEW_NAMES} more`}
+                  </>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-destructive">Fill in a valid value to preview this rule.</p>
+            )}
+          </div>
+        );
+      })}
+
+      {draft.length === 0 && (
+        <p className="py-6 text-center text-sm text-muted-foreground">No rules yet; only the switches apply.</p>
+      )}
+
+      {error && <p className="text-sm text-destructive">Saving rules failed: {error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" disabled={disabled} onClick={() => setDraft((current) => [...current, createRule()])}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add rule
+        </Button>
+        <Button variant="outline" disabled={disabled || !isDirty || saving} onClick={() => setDraft(rules)}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Discard changes
+        </Button>
+        <Button disabled={disabled || !isDirty || saving || invalidCount > 0} onClick={save}>
+          <Save className="mr-1 h-4 w-4" />
+          {saving ? "Saving…" : "Save rules"}
+        </Button>
+      </div>
+    </div>
+  );
+}
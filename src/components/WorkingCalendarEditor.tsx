@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { v4 as uuid } from "uuid";
+import { Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/components/ui/sonner";
+import { useWorkingCalendar } from "@/hooks/useWorkingCalendar";
+import { PublicHoliday, WorkingCalendar } from "@/types/ticket";
+import { isValidTimeZone, parseClockTime, WEEKDAY_LABELS } from "@/utils/workingCalendar";
+
+// Monday first, the way the ops team reads a week.
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/** Edits the business hours, time zone and holiday list used for business-time durations. */
+export function WorkingCalendarEditor() {
+  const { calendar, isReadOnly, save, isUpdating } = useWorkingCalendar();
+  const [draft, setDraft] = useState<WorkingCalendar>(calendar);
+
+  useEffect(() => {
+    setDraft(calendar);
+  }, [calendar]);
+
+  const dates = draft.holidays.map((holiday) => `${holiday.date}|${holiday.region.trim()}`);
+  const problem = !isValidTimeZone(draft.timeZone.trim())
+    ? `"${draft.timeZone}" is not a known time zone, e.g. Europe/Berlin.`
+    : draft.workingDays.length === 0
+      ? "Pick at least one working day."
+      : !(parseClockTime(draft.dayEnd) > parseClockTime(draft.dayStart))
+        ? "The working day must end after it starts."
+        : draft.holidays.some((holiday) => !/^\d{4}-\d{2}-\d{2}$/.test(holiday.date) || !holiday.name.trim())
+          ? "Every holiday needs a date and a name."
+          : dates.some((key, index) => dates.indexOf(key) !== index)
+            ? "A date can be listed only once per region."
+            : null;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(calendar);
+  const disabled = isReadOnly || isUpdating;
+
+  const updateHoliday = (id: string, change: Partial<PublicHoliday>) =>
+    setDraft((current) => ({
+      ...current,
+      holidays: current.holidays.map((holiday) => (holiday.id === id ? { ...holiday, ...change } : holiday)),
+    }));
+
+  const handleSave = async () => {
+    try {
+      await save({
+        ...draft,
+        timeZone: draft.timeZone.trim(),
+        region: draft.region.trim(),
+        holidays: draft.holidays
+          .map((holiday) => ({ ...holiday, name: holiday.name.trim(), region: holiday.region.trim() }))
+          .sort((a, b) => a.date.localeCompare(b.date)),
+      });
+      toast.success("Working calendar saved");
+    } catch (caught) {
+      toast.error("Saving the working calendar failed", {
+        description: caught instanceof Error ? caught.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="working-calendar-zone">Time zone</Label>
+          <Input
+            id="working-calendar-zone"
+            value={draft.timeZone}
+            placeholder="Europe/Berlin"
+            disabled={disabled}
+            onChange={(event) => setDraft((current) => ({ ...current, timeZone: event.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="working-calendar-region">Region</Label>
+          <Input
+            id="working-calendar-region"
+            value={draft.region}
+            placeholder="All regions"
+            disabled={disabled}
+            onChange={(event) => setDraft((current) => ({ ...current, region: event.target.value }))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Holidays tagged with another region are ignored; untagged holidays always apply.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Working days</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start"
+            value={draft.workingDays.map(String)}
+            disabled={disabled}
+            onValueChange={(days) =>
+              setDraft((current) => ({ ...current, workingDays: days.map(Number).sort((a, b) => a - b) }))
+            }
+          >
+            {WEEK_ORDER.map((day) => (
+              <ToggleGroupItem key={day} value={String(day)} className="w-12">
+                {WEEKDAY_LABELS[day]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div className="space-y-2">
+          <Label>Business hours</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              className="w-32"
+              value={draft.dayStart}
+              disabled={disabled}
+              onChange={(event) => setDraft((current) => ({ ...current, dayStart: event.target.value }))}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              value={draft.dayEnd}
+              disabled={disabled}
+              onChange={(event) => setDraft((current) => ({ ...current, dayEnd: event.target.value }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Public holidays</Label>
+        {draft.holidays.length === 0 && (
+          <p className="text-sm text-muted-foreground">No holidays yet; every working day counts.</p>
+        )}
+        {draft.holidays.map((holiday) => (
+          <div key={holiday.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+            <Input
+              type="date"
+              className="w-44"
+              value={holiday.date}
+              disabled={disabled}
+              onChange={(event) => updateHoliday(holiday.id, { date: event.target.value })}
+            />
+            <Input
+              className="w-64"
+              value={holiday.name}
+              placeholder="Name"
+              disabled={disabled}
+              onChange={(event) => updateHoliday(holiday.id, { name: event.target.value })}
+            />
+            <Input
+              className="w-40"
+              value={holiday.region}
+              placeholder="All regions"
+              disabled={disabled}
+              onChange={(event) => updateHoliday(holiday.id, { region: event.target.value })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              disabled={disabled}
+              onClick={() =>
+                setDraft((current) => ({
+                  ...current,
+                  holidays: current.holidays.filter((candidate) => candidate.id !== holiday.id),
+                }))
+              }
+              aria-label="Delete holiday"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {problem && <p className="text-sm text-destructive">{problem}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() =>
+            setDraft((current) => ({
+              ...current,
+              holidays: [...current.holidays, { id: uuid(), date: "", name: "", region: current.region }],
+            }))
+          }
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add holiday
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled || !isDirty} onClick={() => setDraft(calendar)}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Discard changes
+        </Button>
+        <Button size="sm" disabled={disabled || !isDirty || !!problem} onClick={handleSave}>
+          <Save className="mr-1 h-4 w-4" />
+          {isUpdating ? "Saving…" : "Save calendar"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AuditLogEntry } from "@/types/ticket";
+import { AuditLogPage, loadAuditLog, revertAuditEntry } from "@/utils/auditLog";
+import { DISPLAY_SETTINGS_KEY } from "./useDisplaySettings";
+import { TICKET_STATUS_MAPPING_KEY } from "./useTicketStatusMapping";
+import { VISIBILITY_PROFILES_KEY } from "./useVisibilityProfile";
+import { FIRST_LEVEL_STATUSES_KEY } from "./useFirstLevelStatuses";
+import { STATUS_HIERARCHY_KEY } from "./useStatusHierarchy";
+import { TICKET_TYPE_MAPPING_KEY } from "./useTicketTypeMapping";
+import { SLA_TARGETS_KEY } from "./useSlaTargets";
+import { WORKING_CALENDAR_KEY } from "./useWorkingCalendar";
+import { EXPLORER_VIEWS_KEY } from "./useExplorerViews";
+import { assertOnline, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+
+export const AUDIT_LOG_KEY = ["auditLog"];
+
+export function useAuditLog() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+
+  const auditQuery = useInfiniteQuery({
+    queryKey: AUDIT_LOG_KEY,
+    queryFn: ({ pageParam }): Promise<AuditLogPage> => loadAuditLog(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (page) => page.olderThan,
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (entry: AuditLogEntry) => {
+      assertOnline();
+      return revertAuditEntry(entry);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+      queryClient.invalidateQueries({ queryKey: DISPLAY_SETTINGS_KEY });
+      queryClient.invalidateQueries({ queryKey: VISIBILITY_PROFILES_KEY });
+      queryClient.invalidateQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: FIRST_LEVEL_STATUSES_KEY });
+      queryClient.invalidateQueries({ queryKey: STATUS_HIERARCHY_KEY });
+      queryClient.invalidateQueries({ queryKey: TICKET_TYPE_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: SLA_TARGETS_KEY });
+      queryClient.invalidateQueries({ queryKey: WORKING_CALENDAR_KEY });
+      queryClient.invalidateQueries({ queryKey: EXPLORER_VIEWS_KEY });
+    },
+  });
+
+  const entries = useMemo(() => auditQuery.data?.pages.flatMap((page) => page.entries) ?? [], [auditQuery.data]);
+
+  return {
+    ...auditQuery,
+    data: entries,
+    hasOlder: auditQuery.hasNextPage,
+    loadOlder: () => auditQuery.fetchNextPage(),
+    isLoadingOlder: auditQuery.isFetchingNextPage,
+    isReadOnly: !online || !can("admin"),
+    revert: mutation.mutate,
+    revertError: mutation.error,
+    revertingId: mutation.isPending ? mutation.variables?.id : undefined,
+  };
+}
@@ -0,0 +1,18 @@
+import { useAuthStore, hasRole, signIn, signOut, UserRole } from "@/lib/auth";
+
+export function useAuth() {
+  const status = useAuthStore((state) => state.status);
+  const user = useAuthStore((state) => state.user);
+  const role = useAuthStore((state) => state.role);
+  const error = useAuthStore((state) => state.error);
+
+  return {
+    status,
+    user,
+    role,
+    error,
+    can: (required: UserRole) => hasRole(role, required),
+    signIn,
+    signOut,
+  };
+}
@@ -3,37 +3,59 @@ import {
   DisplaySettings,
   EntityVisibilityCategory,
   UpdateDisplaySettingPayload,
+  VisibilityRule,
 } from "@/types/ticket";
-import { loadDisplaySettings, updateDisplaySetting } from "@/utils/dataParser";
+import {
+  loadDisplaySettings,
+  updateDisplaySetting,
+  updateDisplaySettings,
+  updateVisibilityRules,
+} from "@/utils/dataParser";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+import { useVisibilityProfile } from "./useVisibilityProfile";
 
 export const DISPLAY_SETTINGS_KEY = ["displaySettings"];
+export const displaySettingsKey = (profileId: string) => [...DISPLAY_SETTINGS_KEY, profileId];
 
-export function useDisplaySettings() {
+/** Visibility maps of the active profile, or of `profileId` when given. */
+export function useDisplaySettings(profileId?: string) {
   const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+  const { profileId: activeProfileId } = useVisibilityProfile();
+  const resolvedProfileId = profileId ?? activeProfileId;
+  const queryKey = displaySettingsKey(resolvedProfileId);
 
   const settingsQuery = useQuery<DisplaySettings>({
-    queryKey: DISPLAY_SETTINGS_KEY,
-    queryFn: loadDisplaySettings,
-    staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
-    refetchOnWindowFocus: false,
+    queryKey,
+    queryFn: () => loadDisplaySettings(resolvedProfileId),
+    ...SETTINGS_QUERY_OPTIONS,
   });
 
   const mutation = useMutation({
-    mutationFn: (payload: UpdateDisplaySettingPayload) =>
-      updateDisplaySetting(payload.category, payload.entityId, payload.isVisible),
+    mutationFn: async (payload: UpdateDisplaySettingPayload) => {
+      assertOnline();
+      const { category, entityIds, isVisible } = payload;
+      return entityIds.length === 1
+        ? updateDisplaySetting(category, entityIds[0], isVisible, resolvedProfileId)
+        : updateDisplaySettings(category, entityIds, isVisible, resolvedProfileId);
+    },
+    // Fail fast offline instead of queueing the write until reconnect.
+    networkMode: "always",
     onMutate: async (payload) => {
-      await queryClient.cancelQueries({ queryKey: DISPLAY_SETTINGS_KEY });
+      await queryClient.cancelQueries({ queryKey });
 
-      const previousSettings = queryClient.getQueryData<DisplaySettings>(DISPLAY_SETTINGS_KEY);
+      const previousSettings = queryClient.getQueryData<DisplaySettings>(queryKey);
 
-      queryClient.setQueryData<DisplaySettings | undefined>(DISPLAY_SETTINGS_KEY, (current) => {
+      queryClient.setQueryData<DisplaySettings | undefined>(queryKey, (current) => {
         if (!current) return current;
         return {
           ...current,
           [payload.category]: {
             ...current[payload.category],
-            [payload.entityId]: payload.isVisible,
+            ...Object.fromEntries(payload.entityIds.map((entityId) => [entityId, payload.isVisible])),
           },
         };
       });
@@ -42,11 +64,39 @@ export function useDisplaySettings() {
     },
     onError: (_error, _payload, context) => {
       if (context?.previousSettings) {
-        queryClient.setQueryData(DISPLAY_SETTINGS_KEY, context.previousSettings);
+        queryClient.setQueryData(queryKey, context.previousSettings);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  const rulesMutation = useMutation({
+    mutationFn: async (rules: VisibilityRule[]) => {
+      assertOnline();
+      return updateVisibilityRules(rules, resolvedProfileId);
+    },
+    networkMode: "always",
+    onMutate: async (rules) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousSettings = queryClient.getQueryData<DisplaySettings>(queryKey);
+      queryClient.setQueryData<DisplaySettings | undefined>(queryKey, (current) =>
+        current ? { ...current, rules } : current
+      );
+
+      return { previousSettings };
+    },
+    onError: (_error, _rules, context) => {
+      if (context?.previousSettings) {
+        queryClient.setQueryData(queryKey, context.previousSettings);
       }
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: DISPLAY_SETTINGS_KEY });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
     },
   });
 
@@ -55,12 +105,22 @@ export function useDisplaySettings() {
     entityId: string,
     isVisible: boolean
   ) => {
-    mutation.mutate({ category, entityId, isVisible });
+    mutation.mutate({ category, entityIds: [entityId], isVisible });
+  };
+
+  const setVisibility = (category: EntityVisibilityCategory, entityIds: string[], isVisible: boolean) => {
+    if (entityIds.length === 0) return;
+    mutation.mutate({ category, entityIds, isVisible });
   };
 
   return {
     ...settingsQuery,
+    error: settingsQuery.data ? null : settingsQuery.error,
+    isReadOnly: !online || !can("admin"),
     toggleVisibility,
-    isUpdating: mutation.isPending,
+    setVisibility,
+    setRules: (rules: VisibilityRule[]) => rulesMutation.mutateAsync(rules),
+    rulesError: rulesMutation.error,
+    isUpdating: mutation.isPending || rulesMutation.isPending,
   };
 }
@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { v4 as uuid } from "uuid";
+import {
+  deleteExplorerView,
+  loadDefaultExplorerViewId,
+  loadExplorerViews,
+  saveExplorerView,
+  updateDefaultExplorerViewId,
+} from "@/utils/dataParser";
+import { ExplorerView, ExplorerViewScope, ExplorerViewState } from "@/types/ticket";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+
+export const EXPLORER_VIEWS_KEY = ["explorerViews"];
+const explorerViewsKey = (uid?: string) => [...EXPLORER_VIEWS_KEY, uid];
+const defaultViewKey = (uid?: string) => ["explorerViewDefault", uid];
+
+const NO_VIEWS: ExplorerView[] = [];
+
+/** The signed-in user's personal and the team's shared Data Explorer views, and which one they open with. */
+export function useExplorerViews() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { user, can } = useAuth();
+
+  const viewsQuery = useQuery<ExplorerView[]>({
+    queryKey: explorerViewsKey(user?.uid),
+    queryFn: () => loadExplorerViews(user!.uid),
+    enabled: !!user,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const defaultQuery = useQuery<string | null>({
+    queryKey: defaultViewKey(user?.uid),
+    queryFn: () => loadDefaultExplorerViewId(user!.uid),
+    enabled: !!user,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const views = viewsQuery.data ?? NO_VIEWS;
+  // A deleted default view falls back to no default.
+  const defaultViewId = views.some((view) => view.id === defaultQuery.data) ? defaultQuery.data : null;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: EXPLORER_VIEWS_KEY });
+    queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (view: ExplorerView) => {
+      assertOnline();
+      if (!user) throw new Error("Sign in to save views.");
+      await saveExplorerView(view, user.uid);
+      return view;
+    },
+    networkMode: "always",
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (view: ExplorerView) => {
+      assertOnline();
+      if (!user) throw new Error("Sign in to delete views.");
+      await deleteExplorerView(view, user.uid);
+    },
+    networkMode: "always",
+    onSettled: invalidate,
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (viewId: string | null) => {
+      assertOnline();
+      if (!user) throw new Error("Sign in to choose a default view.");
+      await updateDefaultExplorerViewId(user.uid, viewId);
+    },
+    networkMode: "always",
+    onSuccess: (_result, viewId) => {
+      queryClient.setQueryData(defaultViewKey(user?.uid), viewId);
+    },
+  });
+
+  return {
+    views,
+    defaultViewId,
+    defaultView: views.find((view) => view.id === defaultViewId) ?? null,
+    isLoading: viewsQuery.isLoading || defaultQuery.isLoading,
+    isReadOnly: !online || !user,
+    /** Whether the user may share views with the team and edit the ones they shared. */
+    canShare: can("analyst"),
+    /** Whether the user may change `view`; shared views belong to their author and admins. */
+    canEdit: (view: ExplorerView) =>
+      view.scope === "personal" || (can("analyst") && (view.createdBy === user?.email || can("admin"))),
+    create: (name: string, scope: ExplorerViewScope, state: ExplorerViewState) =>
+      saveMutation.mutateAsync({ id: uuid(), name, scope, createdBy: user?.email ?? "", state }),
+    update: (view: ExplorerView) => saveMutation.mutateAsync(view),
+    remove: (view: ExplorerView) => deleteMutation.mutateAsync(view),
+    setDefault: (viewId: string | null) => defaultMutation.mutateAsync(viewId),
+    isUpdating: saveMutation.isPending || deleteMutation.isPending || defaultMutation.isPending,
+  };
+}
@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FirstLevelStatus } from "@/types/ticket";
+import { loadFirstLevelStatuses, updateFirstLevelStatuses } from "@/utils/dataParser";
+import {
+  closedFirstLevelStatusNames,
+  DEFAULT_FIRST_LEVEL_STATUSES,
+  getFirstLevelStatusColor,
+  isClosedFirstLevelStatus,
+  orderFirstLevelStatusNames,
+} from "@/utils/firstLevelStatuses";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+import { TICKET_STATUS_MAPPING_KEY } from "./useTicketStatusMapping";
+
+export const FIRST_LEVEL_STATUSES_KEY = ["firstLevelStatuses"];
+
+/** The managed first-level status list, with the lookups pages need. */
+export function useFirstLevelStatuses() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+
+  const statusesQuery = useQuery<FirstLevelStatus[]>({
+    queryKey: FIRST_LEVEL_STATUSES_KEY,
+    queryFn: loadFirstLevelStatuses,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (statuses: FirstLevelStatus[]) => {
+      assertOnline();
+      return updateFirstLevelStatuses(statuses);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: FIRST_LEVEL_STATUSES_KEY });
+      // Renames are carried into the mapping.
+      queryClient.invalidateQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  const statuses = statusesQuery.data ?? DEFAULT_FIRST_LEVEL_STATUSES;
+
+  const lookups = useMemo(
+    () => ({
+      closedNames: closedFirstLevelStatusNames(statuses),
+      isClosed: (name: string) => isClosedFirstLevelStatus(name, statuses),
+      colorOf: (name: string) => getFirstLevelStatusColor(name, statuses),
+      order: (names: string[]) => orderFirstLevelStatusNames(names, statuses),
+    }),
+    [statuses]
+  );
+
+  return {
+    ...statusesQuery,
+    statuses,
+    ...lookups,
+    error: statusesQuery.data ? null : statusesQuery.error,
+    isReadOnly: !online || !can("mapping-editor"),
+    save: (next: FirstLevelStatus[]) => mutation.mutateAsync(next),
+    isUpdating: mutation.isPending,
+  };
+}
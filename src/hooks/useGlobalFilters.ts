@@ -0,0 +1,59 @@
+import { useEffect, useMemo } from "react";
+import { create } from "zustand";
+import { GlobalFilterDimension, GlobalFilters } from "@/types/ticket";
+import {
+  EMPTY_GLOBAL_FILTERS,
+  GLOBAL_FILTER_PARAMS,
+  globalFiltersEqual,
+  globalFiltersFromParams,
+  globalFiltersToParams,
+  withoutGlobalFilters,
+} from "@/utils/globalFilters";
+import { useUrlParams } from "./useUrlParams";
+
+type GlobalFilterState = {
+  filters: GlobalFilters;
+  replaceFilters: (filters: GlobalFilters) => void;
+};
+
+// Shared by every analytics page, so switching pages keeps the same slice of tickets.
+export const useGlobalFilterStore = create<GlobalFilterState>()((set) => ({
+  filters: EMPTY_GLOBAL_FILTERS,
+  replaceFilters: (filters) => set({ filters }),
+}));
+
+/** The global filters as they apply to a page that opts out of the dimensions in `ignore`. */
+export function useGlobalFilters(ignore: GlobalFilterDimension[] = []) {
+  const filters = useGlobalFilterStore((state) => state.filters);
+  const ignoreKey = ignore.join(",");
+
+  return useMemo(
+    () => withoutGlobalFilters(filters, ignoreKey ? (ignoreKey.split(",") as GlobalFilterDimension[]) : []),
+    [filters, ignoreKey]
+  );
+}
+
+/**
+ * Reads and edits the global filters on a filtered page. The query string is
+ * the source of truth: the store follows it on every navigation, including to
+ * an address without filters, so back/forward restore earlier filters. Edits
+ * only change the address. Sidebar links carry the filters between pages.
+ */
+export function useGlobalFilterControls() {
+  const replaceFilters = useGlobalFilterStore((state) => state.replaceFilters);
+  const [params, updateParams] = useUrlParams(GLOBAL_FILTER_PARAMS);
+  const filters = useMemo(() => globalFiltersFromParams(params), [params]);
+
+  useEffect(() => {
+    if (!globalFiltersEqual(filters, useGlobalFilterStore.getState().filters)) {
+      replaceFilters(filters);
+    }
+  }, [filters, replaceFilters]);
+
+  const setFilters = (change: Partial<GlobalFilters>) =>
+    updateParams(globalFiltersToParams({ ...filters, ...change }));
+
+  const clearFilters = () => updateParams(globalFiltersToParams(EMPTY_GLOBAL_FILTERS));
+
+  return { filters, setFilters, clearFilters };
+}
@@ -1,5 +1,14 @@
 import { useEffect, useMemo, useState } from "react";
-import { database, get, ref, set, storage, storageRef, uploadBytes, getDownloadURL } from "@/lib/firebase";
+import {
+  getFirebaseDatabase,
+  getFirebaseStorage,
+  get,
+  ref,
+  set,
+  storageRef,
+  uploadBytes,
+  getDownloadURL,
+} from "@/lib/firebase";
 import type { GuideCatalogue, GuideDataset, GuideFile, GuideTreeNode } from "@/types/aftercare";
 import { v4 as uuid } from "uuid";
 
@@ -86,7 +95,7 @@ export const useGuideLibrary = () => {
   const load = async () => {
     try {
       setLoading(true);
-      const snap = await get(ref(database, DATA_PATH));
+      const snap = await get(ref(getFirebaseDatabase(), DATA_PATH));
       if (!snap.exists()) {
         setDataset({ catalogues: [], files: [] });
         return;
@@ -119,7 +128,7 @@ export const useGuideLibrary = () => {
       updatedAt: now,
     };
 
-    await set(ref(database, `${DATA_PATH}/catalogues/${id}`), record);
+    await set(ref(getFirebaseDatabase(), `${DATA_PATH}/catalogues/${id}`), record);
     await load();
     return record;
   };
@@ -127,7 +136,7 @@ export const useGuideLibrary = () => {
   const uploadGuideFile = async ({ file, catalogueId }: UploadPayload) => {
     const id = uuid();
     const path = `aftercare/${catalogueId}/${id}-${file.name}`;
-    const storageReference = storageRef(storage, path);
+    const storageReference = storageRef(getFirebaseStorage(), path);
     await uploadBytes(storageReference, file);
     const downloadUrl = await getDownloadURL(storageReference);
 
@@ -144,7 +153,7 @@ export const useGuideLibrary = () => {
       updatedAt: now,
     };
 
-    await set(ref(database, `${DATA_PATH}/files/${id}`), record);
+    await set(ref(getFirebaseDatabase(), `${DATA_PATH}/files/${id}`), record);
     await load();
     return record;
   };
@@ -0,0 +1,152 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { ChildEvent, getTicketDataSource } from "@/lib/dataSource";
+import { TicketData, TicketEntry } from "@/types/ticket";
+import { recordTicketStatusTransitions } from "@/utils/ticketStatusHistory";
+import { useTicketDataset } from "./useTicketDataset";
+
+// Listener events are buffered so the initial burst of "added" events
+// (one per ticket) patches the cache once instead of once per ticket.
+const FLUSH_DELAY_MS = 300;
+export const LIVE_HIGHLIGHT_MS = 2 * 60 * 1000;
+
+type LiveSyncState = {
+  enabled: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+  /** Ticket id → time the change was received, pruned after LIVE_HIGHLIGHT_MS. */
+  changedTickets: Record<string, number>;
+  setEnabled: (enabled: boolean) => void;
+  markSynced: (changedIds: string[]) => void;
+  setError: (error: string | null) => void;
+  pruneHighlights: () => void;
+};
+
+export const useLiveSyncStore = create<LiveSyncState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      lastSyncedAt: null,
+      error: null,
+      changedTickets: {},
+      setEnabled: (enabled) => set({ enabled, error: null }),
+      markSynced: (changedIds) =>
+        set((state) => {
+          const now = Date.now();
+          const changedTickets = { ...state.changedTickets };
+          changedIds.forEach((id) => {
+            changedTickets[id] = now;
+          });
+          return { lastSyncedAt: now, changedTickets, error: null };
+        }),
+      setError: (error) => set({ error }),
+      pruneHighlights: () =>
+        set((state) => {
+          const cutoff = Date.now() - LIVE_HIGHLIGHT_MS;
+          const entries = Object.entries(state.changedTickets).filter(([, at]) => at >= cutoff);
+          if (entries.length === Object.keys(state.changedTickets).length) return state;
+          return { changedTickets: Object.fromEntries(entries) };
+        }),
+    }),
+    {
+      name: "aftersale.liveSync",
+      partialize: (state) => ({ enabled: state.enabled }),
+    }
+  )
+);
+
+export function useRecentlyChangedTickets() {
+  return useLiveSyncStore((state) => state.changedTickets);
+}
+
+/**
+ * Subscribes to the selected dataset's tickets node while live mode is on and
+ * patches the ["tickets", datasetId] query cache in place. Mount once.
+ */
+export function useLiveTicketSync() {
+  const queryClient = useQueryClient();
+  const { dataset } = useTicketDataset();
+  const enabled = useLiveSyncStore((state) => state.enabled);
+  const datasetId = dataset?.id;
+  const datasetRoot = dataset?.root;
+
+  useEffect(() => {
+    if (!enabled || !datasetId || !datasetRoot) return;
+
+    const queryKey = ["tickets", datasetId];
+    const { markSynced, setError, pruneHighlights } = useLiveSyncStore.getState();
+    const pending = new Map<string, { type: ChildEvent["type"]; entry: TicketEntry | null }>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      const changes = Array.from(pending.entries());
+      pending.clear();
+
+      const current = queryClient.getQueryData<TicketData>(queryKey);
+      if (!current) {
+        // Nothing cached yet; the regular fetch will pick the data up.
+        markSynced([]);
+        return;
+      }
+
+      const tickets = { ...current.tickets };
+      const changedIds: string[] = [];
+      const changedEntries: TicketData["tickets"] = {};
+      let patched = false;
+
+      changes.forEach(([ticketId, { type, entry }]) => {
+        const cached = tickets[ticketId];
+        if (!entry) {
+          if (!cached) return;
+          delete tickets[ticketId];
+          changedIds.push(ticketId);
+          patched = true;
+          return;
+        }
+
+        const isNewVersion = !cached || cached.updatedAt !== entry.updatedAt;
+        // Initial "added" events replay tickets the cache already holds.
+        if (type === "added" && !isNewVersion) return;
+
+        tickets[ticketId] = entry;
+        patched = true;
+        if (isNewVersion) {
+          changedIds.push(ticketId);
+          changedEntries[ticketId] = entry;
+        }
+      });
+
+      if (patched) {
+        queryClient.setQueryData<TicketData>(queryKey, { ...current, tickets });
+      }
+      if (Object.keys(changedEntries).length > 0) {
+        void recordTicketStatusTransitions(datasetRoot, changedEntries);
+      }
+
+      markSynced(changedIds);
+    };
+
+    const unsubscribe = getTicketDataSource().subscribeChildren(
+      `${datasetRoot}/tickets`,
+      (event) => {
+        pending.set(event.key, {
+          type: event.type,
+          entry: event.type === "removed" ? null : (event.value as TicketEntry),
+        });
+        flushTimer ??= setTimeout(flush, FLUSH_DELAY_MS);
+      },
+      (error) => setError(error.message)
+    );
+
+    const pruneTimer = setInterval(pruneHighlights, 30 * 1000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(pruneTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [datasetId, datasetRoot, enabled, queryClient]);
+}
@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+import { TicketData } from "@/types/ticket";
+import { normalizeTicketData } from "@/utils/ticketNormalizer";
+import { useTicketStatusMapping } from "./useTicketStatusMapping";
+
+/** Normalized view of `data`, re-derived when the tickets or the status mapping change. */
+export function useNormalizedTickets(data?: TicketData) {
+  const { data: mapping } = useTicketStatusMapping();
+
+  return useMemo(() => (data ? normalizeTicketData(data, mapping) : []), [data, mapping]);
+}
@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from "react";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+export function isOnline() {
+  return typeof navigator === "undefined" ? true : navigator.onLine;
+}
+
+/** Fails a write up front while offline instead of letting it queue until the connection returns. */
+export function assertOnline() {
+  if (!isOnline()) {
+    throw new Error("You are offline; changes are disabled until the connection returns.");
+  }
+}
+
+/** Cache settings for the settings and mapping queries; the persisted cache covers offline starts. */
+export const SETTINGS_QUERY_OPTIONS = {
+  staleTime: 5 * 60 * 1000,
+  gcTime: 10 * 60 * 1000,
+  refetchOnWindowFocus: false,
+};
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, isOnline, () => true);
+}
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SlaTarget } from "@/types/ticket";
+import { loadSlaTargets, updateSlaTargets } from "@/utils/dataParser";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+
+export const SLA_TARGETS_KEY = ["slaTargets"];
+
+const NO_TARGETS: SlaTarget[] = [];
+
+/** Service level targets per ticket type and severity; admins edit them. */
+export function useSlaTargets() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+
+  const targetsQuery = useQuery<SlaTarget[]>({
+    queryKey: SLA_TARGETS_KEY,
+    queryFn: loadSlaTargets,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (targets: SlaTarget[]) => {
+      assertOnline();
+      return updateSlaTargets(targets);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: SLA_TARGETS_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  return {
+    ...targetsQuery,
+    targets: targetsQuery.data ?? NO_TARGETS,
+    error: targetsQuery.data ? null : targetsQuery.error,
+    isReadOnly: !online || !can("admin"),
+    save: (next: SlaTarget[]) => mutation.mutateAsync(next),
+    isUpdating: mutation.isPending,
+  };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useMemo, useState } from "react";
+import { NormalizedTicket } from "@/types/ticket";
+import { groupTicketsByStatusLevel } from "@/utils/statusHierarchy";
+import { useStatusHierarchy } from "./useStatusHierarchy";
+
+/**
+ * Level and drill path for a status chart. Level 1 is the first-level
+ * status; the level past the deepest group is the raw ticket status, which
+ * is where charts start.
+ */
+export function useStatusDrilldown() {
+  const { depth, pathOf } = useStatusHierarchy();
+  const [selectedLevel, setSelectedLevel] = useState<number | null>(null);
+  const [focus, setFocus] = useState<string[]>([]);
+
+  const detailLevel = depth + 1;
+  const level = Math.min(selectedLevel ?? detailLevel, detailLevel);
+  const activeFocus = useMemo(() => focus.slice(0, level - 1), [focus, level]);
+
+  const setLevel = useCallback((next: number) => {
+    setSelectedLevel(next);
+    setFocus((current) => current.slice(0, next - 1));
+  }, []);
+
+  /** Narrows the chart to `name` and shows the level below it. */
+  const drillInto = useCallback(
+    (name: string) => {
+      if (level >= detailLevel) return;
+      setFocus([...activeFocus, name]);
+      setSelectedLevel(level + 1);
+    },
+    [activeFocus, detailLevel, level]
+  );
+
+  /** Keeps the first `length` names of the drill path. */
+  const rollUpTo = useCallback((length: number) => {
+    setFocus((current) => current.slice(0, length));
+    setSelectedLevel(length + 1);
+  }, []);
+
+  const group = useCallback(
+    (tickets: NormalizedTicket[]) => groupTicketsByStatusLevel(tickets, pathOf, level, activeFocus),
+    [pathOf, level, activeFocus]
+  );
+
+  return {
+    level,
+    detailLevel,
+    focus: activeFocus,
+    canDrill: level < detailLevel,
+    setLevel,
+    drillInto,
+    rollUpTo,
+    group,
+  };
+}
+
+export type StatusDrilldown = ReturnType<typeof useStatusDrilldown>;
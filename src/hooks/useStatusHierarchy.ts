@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { NormalizedTicket, StatusHierarchyNode } from "@/types/ticket";
+import { loadStatusHierarchy, updateStatusHierarchy } from "@/utils/dataParser";
+import { buildStatusTree, getStatusHierarchyDepth, getTicketStatusPath } from "@/utils/statusHierarchy";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+import { TICKET_STATUS_MAPPING_KEY, useTicketStatusMapping } from "./useTicketStatusMapping";
+import { useFirstLevelStatuses } from "./useFirstLevelStatuses";
+
+export const STATUS_HIERARCHY_KEY = ["statusHierarchy"];
+
+const NO_NODES: StatusHierarchyNode[] = [];
+
+/** The status groups below the first-level statuses, as a tree and as per-ticket paths. */
+export function useStatusHierarchy() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+  const { data: mapping } = useTicketStatusMapping();
+  const { statuses } = useFirstLevelStatuses();
+
+  const hierarchyQuery = useQuery<StatusHierarchyNode[]>({
+    queryKey: STATUS_HIERARCHY_KEY,
+    queryFn: loadStatusHierarchy,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (nodes: StatusHierarchyNode[]) => {
+      assertOnline();
+      return updateStatusHierarchy(nodes);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: STATUS_HIERARCHY_KEY });
+      // Codes mapped to deleted groups are moved up in the mapping.
+      queryClient.invalidateQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  const nodes = hierarchyQuery.data ?? NO_NODES;
+  const tree = useMemo(() => buildStatusTree(statuses, nodes), [statuses, nodes]);
+  const depth = useMemo(() => getStatusHierarchyDepth(nodes), [nodes]);
+  const pathOf = useCallback(
+    (ticket: NormalizedTicket) => getTicketStatusPath(ticket, mapping, nodes, statuses),
+    [mapping, nodes, statuses]
+  );
+
+  return {
+    ...hierarchyQuery,
+    nodes,
+    tree,
+    depth,
+    pathOf,
+    error: hierarchyQuery.data ? null : hierarchyQuery.error,
+    isReadOnly: !online || !can("mapping-editor"),
+    save: (next: StatusHierarchyNode[]) => mutation.mutateAsync(next),
+    isUpdating: mutation.isPending,
+  };
+}
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { findUnmappedStatuses } from "@/utils/statusMappingCoverage";
+import { useTicketData } from "./useTicketData";
+import { useTicketStatusMapping } from "./useTicketStatusMapping";
+
+/** Unmapped status codes in the selected dataset, before any visibility filtering. */
+export function useStatusMappingCoverage() {
+  const { data } = useTicketData();
+  const { data: mapping, isLoading } = useTicketStatusMapping();
+
+  const unmapped = useMemo(
+    () => (data && mapping ? findUnmappedStatuses(data, mapping) : []),
+    [data, mapping]
+  );
+
+  return {
+    unmapped,
+    unmappedTicketCount: unmapped.reduce((total, status) => total + status.ticketCount, 0),
+    isLoading,
+  };
+}
@@ -0,0 +1,61 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { runAnalytics } from "@/lib/analyticsClient";
+import type { AnalyticsFilters, AnalyticsResult, AnalyticsTask } from "@/workers/analyticsApi";
+import { useTicketData } from "./useTicketData";
+import { useDisplaySettings } from "./useDisplaySettings";
+import { useTicketStatusMapping } from "./useTicketStatusMapping";
+import { useFirstLevelStatuses } from "./useFirstLevelStatuses";
+import { useGlobalFilters } from "./useGlobalFilters";
+import { GlobalFilterDimension, TicketData } from "@/types/ticket";
+
+type TicketAnalyticsFilters = Omit<
+  AnalyticsFilters,
+  "settings" | "mapping" | "firstLevelStatuses" | "globalFilters"
+> & {
+  /** Global filter dimensions left out, as in useVisibleTickets. */
+  ignoreGlobalFilters?: GlobalFilterDimension[];
+};
+
+// Keyed by the tickets object rather than the fetch time: a refetch that changed
+// nothing keeps the same object (structural sharing), so cached results stay.
+const dataVersions = new WeakMap<TicketData, number>();
+let lastDataVersion = 0;
+
+function getDataVersion(data: TicketData) {
+  let version = dataVersions.get(data);
+  if (version === undefined) {
+    version = ++lastDataVersion;
+    dataVersions.set(data, version);
+  }
+  return version;
+}
+
+/**
+ * Computes `task` in the analytics worker over the selected dataset, after
+ * visibility settings, the global filters and `filters` are applied. Results are cached per
+ * dataset version and filters; the previous result stays on screen while a
+ * new one is computed.
+ */
+export function useTicketAnalytics<T extends AnalyticsTask>(
+  task: T,
+  { ignoreGlobalFilters, ...filters }: TicketAnalyticsFilters = {}
+) {
+  const { data, dataset } = useTicketData();
+  const { data: settings } = useDisplaySettings();
+  const { data: mapping } = useTicketStatusMapping();
+  const { statuses: firstLevelStatuses } = useFirstLevelStatuses();
+  const globalFilters = useGlobalFilters(ignoreGlobalFilters);
+
+  const version = data && dataset ? `${dataset.id}@${getDataVersion(data)}` : undefined;
+  const request: AnalyticsFilters = { ...filters, settings, mapping, firstLevelStatuses, globalFilters };
+
+  return useQuery<AnalyticsResult<T>>({
+    queryKey: ["analytics", task, version, request],
+    queryFn: () => runAnalytics(task, version!, data!, request),
+    enabled: !!version,
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -1,12 +1,52 @@
-import { useQuery } from "@tanstack/react-query";
-import { loadTicketData } from "@/utils/dataParser";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/components/ui/sonner";
+import { loadTicketDataIncremental } from "@/utils/ticketSync";
+import { captureDailyTicketSnapshot } from "@/utils/ticketSnapshots";
+import { useTicketDataset } from "./useTicketDataset";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { ticketSnapshotsKey } from "./useTicketSnapshots";
 
-export const useTicketData = () =>
-  useQuery({
-    queryKey: ["tickets"],
-    queryFn: loadTicketData,
+export const useTicketData = () => {
+  const { dataset, isResolving } = useTicketDataset();
+  const online = useOnlineStatus();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["tickets", dataset?.id],
+    queryFn: async () => {
+      const data = await loadTicketDataIncremental(dataset!.root);
+      // Archives are frozen already; only live datasets build up a snapshot history.
+      if (dataset!.kind !== "archive") {
+        // Runs beside the load: a failed capture is reported but never fails the tickets query.
+        captureDailyTicketSnapshot(dataset!.root, data).then(
+          (summary) => {
+            if (summary) {
+              void queryClient.invalidateQueries({ queryKey: ticketSnapshotsKey(dataset!.id) });
+            }
+          },
+          (error) =>
+            toast.error("Today's ticket snapshot could not be saved", {
+              description: error instanceof Error ? error.message : "Unknown error",
+            })
+        );
+      }
+      return data;
+    },
+    enabled: !!dataset,
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
     retry: 2,
     refetchOnWindowFocus: false,
   });
+
+  // A failed refresh keeps serving the last known (possibly persisted) data.
+  const isServingCache = !!query.data && (!online || !!query.error || query.fetchStatus === "paused");
+
+  return {
+    ...query,
+    error: query.data ? null : query.error,
+    isLoading: query.isLoading || isResolving,
+    isServingCache,
+    dataset,
+  };
+};
@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import { validateTicketData } from "@/utils/ticketValidation";
+import { useTicketData } from "./useTicketData";
+
+/** Validation report for the selected dataset, recomputed whenever the tickets change. */
+export function useTicketDataQuality() {
+  const ticketQuery = useTicketData();
+  const report = useMemo(
+    () => (ticketQuery.data ? validateTicketData(ticketQuery.data) : null),
+    [ticketQuery.data]
+  );
+
+  return { ...ticketQuery, report };
+}
@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  BUILT_IN_TICKET_DATASETS,
+  DEFAULT_TICKET_DATASET_ID,
+  loadTicketDatasets,
+} from "@/utils/dataParser";
+import { TicketDataset } from "@/types/ticket";
+import { useAuthStore } from "@/lib/auth";
+
+export const TICKET_DATASETS_KEY = ["ticketDatasets"];
+
+type TicketDatasetState = {
+  /** The chosen dataset per uid, so people sharing a browser each keep their own. */
+  datasetIds: Record<string, string>;
+  /** Who chose last; start-up restores their dataset before sign-in has resolved. */
+  lastUid: string | null;
+  setDatasetId: (uid: string, datasetId: string) => void;
+};
+
+const INITIAL_DATASET_ID: string = import.meta.env.VITE_TICKET_DATASET || DEFAULT_TICKET_DATASET_ID;
+
+// Remembered in localStorage (not the database) so the choice is known offline and before the first read.
+export const useTicketDatasetStore = create<TicketDatasetState>()(
+  persist(
+    (set) => ({
+      datasetIds: {},
+      lastUid: null,
+      setDatasetId: (uid, datasetId) =>
+        set((state) => ({ datasetIds: { ...state.datasetIds, [uid]: datasetId }, lastUid: uid })),
+    }),
+    {
+      name: "aftersale.ticketDataset",
+      // Version 0 kept one choice for the whole browser; it cannot be told apart per user.
+      version: 1,
+      migrate: () => ({ datasetIds: {}, lastUid: null }),
+    }
+  )
+);
+
+/** The dataset `uid` chose, or the configured default. */
+export const getSelectedDatasetId = (state: TicketDatasetState, uid: string | null | undefined) =>
+  (uid && state.datasetIds[uid]) || INITIAL_DATASET_ID;
+
+export function useTicketDataset() {
+  const uid = useAuthStore((state) => state.user?.uid ?? "anonymous");
+  const datasetId = useTicketDatasetStore((state) => getSelectedDatasetId(state, uid));
+  const choose = useTicketDatasetStore((state) => state.setDatasetId);
+  const setDatasetId = (datasetId: string) => choose(uid, datasetId);
+
+  const datasetsQuery = useQuery<TicketDataset[]>({
+    queryKey: TICKET_DATASETS_KEY,
+    queryFn: loadTicketDatasets,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const datasets = datasetsQuery.data ?? BUILT_IN_TICKET_DATASETS;
+  const selected = datasets.find((dataset) => dataset.id === datasetId);
+
+  // An archived selection can only be resolved once the archive list has loaded.
+  const isResolving = !selected && datasetsQuery.isLoading;
+  const dataset = isResolving
+    ? undefined
+    : selected ??
+      datasets.find((candidate) => candidate.id === DEFAULT_TICKET_DATASET_ID) ??
+      datasets[0];
+
+  return {
+    dataset,
+    datasets,
+    setDatasetId,
+    isResolving,
+  };
+}
@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { NormalizedTicket } from "@/types/ticket";
+import { evaluateTicketSla, TicketSlaResult } from "@/utils/sla";
+import { getTicketTransitions } from "@/utils/ticketStatusHistory";
+import { useSlaTargets } from "./useSlaTargets";
+import { useTicketStatusHistory } from "./useTicketStatusHistory";
+import { useFirstLevelStatuses } from "./useFirstLevelStatuses";
+import { useWorkingCalendar } from "./useWorkingCalendar";
+
+/** SLA state of every ticket in `tickets` against the configured targets, as of now. */
+export function useTicketSla(tickets: NormalizedTicket[]) {
+  const targetsQuery = useSlaTargets();
+  const historyQuery = useTicketStatusHistory();
+  const { isClosed } = useFirstLevelStatuses();
+  const { calendar } = useWorkingCalendar();
+  const { targets } = targetsQuery;
+  const history = historyQuery.data;
+
+  const results = useMemo<TicketSlaResult[]>(() => {
+    const now = new Date();
+    return tickets.map((ticket) => ({
+      ticket,
+      evaluations: evaluateTicketSla(
+        ticket,
+        targets,
+        getTicketTransitions(history, ticket.ticketId),
+        isClosed,
+        calendar,
+        now
+      ),
+    }));
+  }, [calendar, history, isClosed, targets, tickets]);
+
+  return {
+    results,
+    targets,
+    isLoading: targetsQuery.isLoading || historyQuery.isLoading,
+    error: targetsQuery.error || historyQuery.error,
+  };
+}
@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { TicketData, TicketSnapshotSummary } from "@/types/ticket";
+import { findSnapshotAsOf, loadTicketSnapshot, loadTicketSnapshotIndex } from "@/utils/ticketSnapshots";
+import { useTicketDataset } from "./useTicketDataset";
+
+export const ticketSnapshotsKey = (datasetId?: string) => ["ticketSnapshots", datasetId];
+
+export function useTicketSnapshotIndex(enabled = true) {
+  const { dataset } = useTicketDataset();
+
+  return useQuery<TicketSnapshotSummary[]>({
+    queryKey: ticketSnapshotsKey(dataset?.id),
+    queryFn: () => loadTicketSnapshotIndex(dataset!.root),
+    enabled: enabled && !!dataset,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * The ticket set as of `date` (yyyy-MM-dd), taken from the latest snapshot on
+ * or before that day. Disabled when `date` is empty.
+ */
+export function useTicketSnapshot(date?: string | null) {
+  const { dataset } = useTicketDataset();
+  const indexQuery = useTicketSnapshotIndex(!!date);
+  const snapshot = date && indexQuery.data ? findSnapshotAsOf(indexQuery.data, date) : undefined;
+
+  const query = useQuery<TicketData>({
+    queryKey: [...ticketSnapshotsKey(dataset?.id), snapshot?.date],
+    queryFn: () => loadTicketSnapshot(dataset!.root, snapshot!.date, indexQuery.data),
+    enabled: !!dataset && !!snapshot,
+    // Snapshots never change once written.
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const missing = !!date && !!indexQuery.data && !snapshot;
+
+  return {
+    ...query,
+    snapshot,
+    isLoading: !!date && (indexQuery.isLoading || query.isLoading),
+    error:
+      indexQuery.error ??
+      query.error ??
+      (missing ? new Error(`No snapshot was taken on or before ${date}`) : null),
+  };
+}
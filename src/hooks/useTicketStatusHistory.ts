@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { TicketStatusTransition } from "@/types/ticket";
+import { loadTicketStatusHistory, loadTicketStatusHistoryFor } from "@/utils/ticketStatusHistory";
+import { useTicketDataset } from "./useTicketDataset";
+
+export const ticketStatusHistoryKey = (datasetId?: string) => ["ticketStatusHistory", datasetId];
+
+/** Status history of every ticket in the selected dataset, keyed by TicketID. */
+export function useTicketStatusHistory() {
+  const { dataset } = useTicketDataset();
+
+  return useQuery<Record<string, TicketStatusTransition[]>>({
+    queryKey: ticketStatusHistoryKey(dataset?.id),
+    queryFn: () => loadTicketStatusHistory(dataset!.root),
+    enabled: !!dataset,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/** Status history of one ticket, oldest transition first. Disabled without a ticket id. */
+export function useTicketStatusTimeline(ticketId?: string | null) {
+  const { dataset } = useTicketDataset();
+
+  return useQuery<TicketStatusTransition[]>({
+    queryKey: [...ticketStatusHistoryKey(dataset?.id), ticketId],
+    queryFn: () => loadTicketStatusHistoryFor(dataset!.root, ticketId!),
+    enabled: !!dataset && !!ticketId,
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,9 +1,13 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
+  applyTicketStatusMappingDiff,
   loadTicketStatusMapping,
   updateTicketStatusMappingEntry,
 } from "@/utils/dataParser";
-import { TicketStatusMapping, TicketStatusMappingEntry } from "@/types/ticket";
+import { TicketStatusMapping, TicketStatusMappingDiff, TicketStatusMappingEntry } from "@/types/ticket";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
 
 export const TICKET_STATUS_MAPPING_KEY = ["ticketStatusMapping"];
 
@@ -14,18 +18,21 @@ type UpdatePayload = {
 
 export function useTicketStatusMapping() {
   const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
 
   const mappingQuery = useQuery<TicketStatusMapping>({
     queryKey: TICKET_STATUS_MAPPING_KEY,
     queryFn: loadTicketStatusMapping,
-    staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
-    refetchOnWindowFocus: false,
+    ...SETTINGS_QUERY_OPTIONS,
   });
 
   const mutation = useMutation({
-    mutationFn: ({ ticketStatus, entry }: UpdatePayload) =>
-      updateTicketStatusMappingEntry(ticketStatus, entry),
+    mutationFn: async ({ ticketStatus, entry }: UpdatePayload) => {
+      assertOnline();
+      return updateTicketStatusMappingEntry(ticketStatus, entry);
+    },
+    networkMode: "always",
     onMutate: async (payload) => {
       await queryClient.cancelQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
 
@@ -48,6 +55,19 @@ export function useTicketStatusMapping() {
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (diff: TicketStatusMappingDiff) => {
+      assertOnline();
+      return applyTicketStatusMappingDiff(diff);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: TICKET_STATUS_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
     },
   });
 
@@ -57,7 +77,10 @@ export function useTicketStatusMapping() {
 
   return {
     ...mappingQuery,
+    error: mappingQuery.data ? null : mappingQuery.error,
+    isReadOnly: !online || !can("mapping-editor"),
     updateEntry,
-    isUpdating: mutation.isPending,
+    applyImport: (diff: TicketStatusMappingDiff) => importMutation.mutateAsync(diff),
+    isUpdating: mutation.isPending || importMutation.isPending,
   };
 }
@@ -0,0 +1,80 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { loadTicketTypeMapping, updateTicketTypeMappingEntry } from "@/utils/dataParser";
+import { NormalizedTicket, TicketTypeMapping, TicketTypeMappingEntry } from "@/types/ticket";
+import { getTicketTypeCategory } from "@/utils/ticketTypeMapping";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+
+export const TICKET_TYPE_MAPPING_KEY = ["ticketTypeMapping"];
+
+type UpdatePayload = {
+  ticketType: string;
+  /** Null removes the entry. */
+  entry: TicketTypeMappingEntry | null;
+};
+
+/** TicketType code → business category, with a per-ticket lookup. */
+export function useTicketTypeMapping() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+
+  const mappingQuery = useQuery<TicketTypeMapping>({
+    queryKey: TICKET_TYPE_MAPPING_KEY,
+    queryFn: loadTicketTypeMapping,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async ({ ticketType, entry }: UpdatePayload) => {
+      assertOnline();
+      return updateTicketTypeMappingEntry(ticketType, entry);
+    },
+    networkMode: "always",
+    onMutate: async (payload) => {
+      await queryClient.cancelQueries({ queryKey: TICKET_TYPE_MAPPING_KEY });
+
+      const previousMapping = queryClient.getQueryData<TicketTypeMapping>(TICKET_TYPE_MAPPING_KEY);
+
+      queryClient.setQueryData<TicketTypeMapping | undefined>(TICKET_TYPE_MAPPING_KEY, (current) => {
+        if (!current) return current;
+        const next = { ...current };
+        if (payload.entry) {
+          next[payload.ticketType] = payload.entry;
+        } else {
+          delete next[payload.ticketType];
+        }
+        return next;
+      });
+
+      return { previousMapping };
+    },
+    onError: (_error, _payload, context) => {
+      if (context?.previousMapping) {
+        queryClient.setQueryData(TICKET_TYPE_MAPPING_KEY, context.previousMapping);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: TICKET_TYPE_MAPPING_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  const mapping = mappingQuery.data;
+  const categoryOf = useCallback(
+    (ticket: Pick<NormalizedTicket, "typeCode" | "typeText">) => getTicketTypeCategory(ticket, mapping),
+    [mapping]
+  );
+
+  return {
+    ...mappingQuery,
+    error: mappingQuery.data ? null : mappingQuery.error,
+    isReadOnly: !online || !can("mapping-editor"),
+    categoryOf,
+    updateEntry: (ticketType: string, entry: TicketTypeMappingEntry | null) =>
+      mutation.mutate({ ticketType, entry }),
+    isUpdating: mutation.isPending,
+  };
+}
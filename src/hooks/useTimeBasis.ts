@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { TimeBasis } from "@/types/ticket";
+import { elapsedDays, getWorkingDaysPerMonth } from "@/utils/workingCalendar";
+import { useWorkingCalendar } from "./useWorkingCalendar";
+
+type TimeBasisState = {
+  timeBasis: TimeBasis;
+  setTimeBasis: (timeBasis: TimeBasis) => void;
+};
+
+// Remembered per browser, like the dataset selection.
+export const useTimeBasisStore = create<TimeBasisState>()(
+  persist(
+    (set) => ({
+      timeBasis: "calendar",
+      setTimeBasis: (timeBasis) => set({ timeBasis }),
+    }),
+    { name: "aftersale.timeBasis" }
+  )
+);
+
+/**
+ * The selected time basis with helpers that measure in it: ages and
+ * durations count every hour in calendar time, working hours in business time.
+ */
+export function useTimeBasis() {
+  const timeBasis = useTimeBasisStore((state) => state.timeBasis);
+  const setTimeBasis = useTimeBasisStore((state) => state.setTimeBasis);
+  const { calendar } = useWorkingCalendar();
+  const isBusiness = timeBasis === "business";
+
+  const daysBetween = useCallback(
+    (start: Date, end: Date) => elapsedDays(start, end, timeBasis, calendar),
+    [calendar, timeBasis]
+  );
+
+  const workingDaysPerMonth = useMemo(() => getWorkingDaysPerMonth(calendar), [calendar]);
+
+  return {
+    timeBasis,
+    setTimeBasis,
+    isBusiness,
+    calendar,
+    daysBetween,
+    workingDaysPerMonth,
+    dayLabel: isBusiness ? "business days" : "days",
+  };
+}
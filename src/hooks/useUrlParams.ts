@@ -0,0 +1,27 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { decodeUrlParams, encodeUrlParams, UrlParamSchema, UrlParamValues } from "@/lib/urlState";
+
+/**
+ * View state kept in the query string, so back/forward and shared links
+ * restore it. Change several params in one `update` call: separate calls in
+ * the same event overwrite each other. Pass `replace` for keystroke-level
+ * changes such as search boxes so they do not flood the history.
+ */
+export function useUrlParams<S extends UrlParamSchema>(schema: S) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.toString();
+
+  const values = useMemo(
+    () => decodeUrlParams(schema, new URLSearchParams(query)),
+    [query, schema]
+  );
+
+  const update = useCallback(
+    (change: Partial<UrlParamValues<S>>, options?: { replace?: boolean }) =>
+      setSearchParams((current) => encodeUrlParams(schema, change, current), { replace: options?.replace }),
+    [schema, setSearchParams]
+  );
+
+  return [values, update] as const;
+}
@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  cloneVisibilityProfile,
+  DEFAULT_VISIBILITY_PROFILE_ID,
+  deleteVisibilityProfile,
+  loadDefaultVisibilityProfileId,
+  loadVisibilityProfiles,
+  renameVisibilityProfile,
+  updateDefaultVisibilityProfileId,
+} from "@/utils/dataParser";
+import { VisibilityProfile } from "@/types/ticket";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+import { assertOnline, SETTINGS_QUERY_OPTIONS } from "./useOnlineStatus";
+
+export const VISIBILITY_PROFILES_KEY = ["visibilityProfiles"];
+const defaultProfileKey = (uid?: string) => ["visibilityProfileDefault", uid];
+
+type VisibilityProfileState = {
+  /** Explicit choice from the switcher; null follows the user's default profile. */
+  profileId: string | null;
+  setProfileId: (profileId: string | null) => void;
+};
+
+export const useVisibilityProfileStore = create<VisibilityProfileState>()(
+  persist(
+    (set) => ({
+      profileId: null,
+      setProfileId: (profileId) => set({ profileId }),
+    }),
+    { name: "aftersale.visibilityProfile" }
+  )
+);
+
+export function useVisibilityProfile() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const selectedId = useVisibilityProfileStore((state) => state.profileId);
+  const setProfileId = useVisibilityProfileStore((state) => state.setProfileId);
+
+  const profilesQuery = useQuery<VisibilityProfile[]>({
+    queryKey: VISIBILITY_PROFILES_KEY,
+    queryFn: loadVisibilityProfiles,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const defaultQuery = useQuery<string | null>({
+    queryKey: defaultProfileKey(user?.uid),
+    queryFn: () => loadDefaultVisibilityProfileId(user!.uid),
+    enabled: !!user,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const profiles = profilesQuery.data ?? [{ id: DEFAULT_VISIBILITY_PROFILE_ID, name: "Default" }];
+  const exists = (id?: string | null) => !!id && profiles.some((profile) => profile.id === id);
+
+  // Fall back to the default profile when the chosen one was deleted, but not
+  // before the list has loaded.
+  const resolve = (id?: string | null) => (id && (!profilesQuery.data || exists(id)) ? id : null);
+  const defaultProfileId = resolve(defaultQuery.data) ?? DEFAULT_VISIBILITY_PROFILE_ID;
+  const profileId = resolve(selectedId) ?? defaultProfileId;
+  const profile = profiles.find((candidate) => candidate.id === profileId);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: VISIBILITY_PROFILES_KEY });
+    queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+  };
+
+  const cloneMutation = useMutation({
+    mutationFn: async ({ sourceId, name }: { sourceId: string; name: string }) => {
+      assertOnline();
+      return cloneVisibilityProfile(sourceId, name);
+    },
+    networkMode: "always",
+    onSuccess: (created) => setProfileId(created.id),
+    onSettled: invalidate,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      assertOnline();
+      return renameVisibilityProfile(id, name);
+    },
+    networkMode: "always",
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      assertOnline();
+      return deleteVisibilityProfile(id);
+    },
+    networkMode: "always",
+    onSuccess: (_result, id) => {
+      if (selectedId === id) setProfileId(null);
+    },
+    onSettled: invalidate,
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      assertOnline();
+      if (!user) throw new Error("Sign in to choose a default profile.");
+      await updateDefaultVisibilityProfileId(user.uid, id);
+    },
+    networkMode: "always",
+    onSuccess: (_result, id) => {
+      queryClient.setQueryData(defaultProfileKey(user?.uid), id);
+    },
+  });
+
+  return {
+    profiles,
+    profile,
+    profileId,
+    defaultProfileId,
+    setProfileId,
+    clone: (sourceId: string, name: string) => cloneMutation.mutateAsync({ sourceId, name }),
+    rename: (id: string, name: string) => renameMutation.mutateAsync({ id, name }),
+    remove: (id: string) => deleteMutation.mutateAsync(id),
+    setDefault: (id: string) => defaultMutation.mutate(id),
+    isUpdating:
+      cloneMutation.isPending || renameMutation.isPending || deleteMutation.isPending || defaultMutation.isPending,
+    isLoading: profilesQuery.isLoading,
+  };
+}
@@ -1,13 +1,21 @@
 import { useMemo } from "react";
 import { useTicketData } from "./useTicketData";
+import { useTicketSnapshot } from "./useTicketSnapshots";
 import { useDisplaySettings } from "./useDisplaySettings";
+import { useNormalizedTickets } from "./useNormalizedTickets";
+import { useGlobalFilters } from "./useGlobalFilters";
 import { filterTicketsByDisplaySettings } from "@/utils/dataParser";
-import { TicketData } from "@/types/ticket";
+import { applyGlobalFilters, toTicketData } from "@/utils/globalFilters";
+import { GlobalFilterDimension, TicketData } from "@/types/ticket";
 
-type VisibilityOptions = {
+export type VisibilityOptions = {
   applyDealershipVisibility?: boolean;
   applyEmployeeVisibility?: boolean;
   applyRepairVisibility?: boolean;
+  /** Render the ticket set as of this snapshot date (yyyy-MM-dd) instead of the live data. */
+  asOf?: string | null;
+  /** Global filter dimensions this page does not apply, e.g. the dealer on a single dealer's page. */
+  ignoreGlobalFilters?: GlobalFilterDimension[];
 };
 
 export function useVisibleTickets(options?: VisibilityOptions) {
@@ -15,12 +23,17 @@ export function useVisibleTickets(options?: VisibilityOptions) {
     applyDealershipVisibility = true,
     applyEmployeeVisibility = false,
     applyRepairVisibility = true,
+    asOf = null,
+    ignoreGlobalFilters,
   } = options ?? {};
 
-  const ticketQuery = useTicketData();
+  const liveQuery = useTicketData();
+  const snapshotQuery = useTicketSnapshot(asOf);
+  const ticketQuery = asOf ? snapshotQuery : liveQuery;
   const settingsQuery = useDisplaySettings();
+  const globalFilters = useGlobalFilters(ignoreGlobalFilters);
 
-  const filteredData: TicketData | undefined = useMemo(() => {
+  const visibleData: TicketData | undefined = useMemo(() => {
     if (!ticketQuery.data) return undefined;
     return filterTicketsByDisplaySettings(ticketQuery.data, settingsQuery.data, {
       applyDealershipVisibility,
@@ -35,11 +48,23 @@ export function useVisibleTickets(options?: VisibilityOptions) {
     ticketQuery.data,
   ]);
 
+  const visibleTickets = useNormalizedTickets(visibleData);
+
+  // `data` is rebuilt from the kept entries so pages reading raw entries see the same tickets.
+  const { tickets, filteredData } = useMemo(() => {
+    const kept = applyGlobalFilters(visibleTickets, globalFilters);
+    return {
+      tickets: kept,
+      filteredData: kept === visibleTickets ? visibleData : visibleData && toTicketData(kept),
+    };
+  }, [globalFilters, visibleData, visibleTickets]);
+
   const isLoading = ticketQuery.isLoading || settingsQuery.isLoading;
   const error = ticketQuery.error || settingsQuery.error;
 
   return {
     data: filteredData,
+    tickets,
     rawData: ticketQuery.data,
     settings: settingsQuery.data,
     isLoading,
@@ -47,5 +72,6 @@ export function useVisibleTickets(options?: VisibilityOptions) {
     refetch: ticketQuery.refetch,
     settingsLoading: settingsQuery.isLoading,
     settingsError: settingsQuery.error,
+    snapshot: asOf ? snapshotQuery.snapshot : undefined,
   };
 }
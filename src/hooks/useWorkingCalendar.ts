@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { WorkingCalendar } from "@/types/ticket";
+import { loadWorkingCalendar, updateWorkingCalendar } from "@/utils/dataParser";
+import { DEFAULT_WORKING_CALENDAR } from "@/utils/workingCalendar";
+import { assertOnline, SETTINGS_QUERY_OPTIONS, useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+import { AUDIT_LOG_KEY } from "./useAuditLog";
+
+export const WORKING_CALENDAR_KEY = ["workingCalendar"];
+
+/** Working hours, time zone and holidays that business time is measured in. */
+export function useWorkingCalendar() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { can } = useAuth();
+
+  const calendarQuery = useQuery<WorkingCalendar>({
+    queryKey: WORKING_CALENDAR_KEY,
+    queryFn: loadWorkingCalendar,
+    ...SETTINGS_QUERY_OPTIONS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (calendar: WorkingCalendar) => {
+      assertOnline();
+      return updateWorkingCalendar(calendar);
+    },
+    networkMode: "always",
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: WORKING_CALENDAR_KEY });
+      queryClient.invalidateQueries({ queryKey: AUDIT_LOG_KEY });
+    },
+  });
+
+  return {
+    ...calendarQuery,
+    calendar: calendarQuery.data ?? DEFAULT_WORKING_CALENDAR,
+    error: calendarQuery.data ? null : calendarQuery.error,
+    isReadOnly: !online || !can("admin"),
+    save: (next: WorkingCalendar) => mutation.mutateAsync(next),
+    isUpdating: mutation.isPending,
+  };
+}
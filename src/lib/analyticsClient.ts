@@ -0,0 +1,48 @@
+import type { AnalyticsApi, AnalyticsFilters, AnalyticsResult, AnalyticsTask } from "@/workers/analyticsApi";
+import { TicketData } from "@/types/ticket";
+import { Remote, wrap } from "./workerRpc";
+
+let clientPromise: Promise<Remote<AnalyticsApi>> | null = null;
+// The version of the last dataset sent to the worker, not necessarily loaded yet.
+let sentVersion: string | null = null;
+
+function getAnalyticsClient() {
+  clientPromise ??=
+    typeof Worker === "undefined"
+      ? // No worker support: run the same API on the main thread.
+        import("@/workers/analyticsApi").then(({ analyticsApi }) => analyticsApi as unknown as Remote<AnalyticsApi>)
+      : Promise.resolve(
+          wrap<AnalyticsApi>(
+            new Worker(new URL("../workers/analytics.worker.ts", import.meta.url), { type: "module" })
+          )
+        );
+  return clientPromise;
+}
+
+/**
+ * Runs an analytics task off the main thread, sending the dataset first when
+ * its version changed. The worker handles messages in order, so a run sent
+ * with no other dataset sent since its own always finds that dataset; the two
+ * messages are therefore posted together, without awaiting the load between.
+ */
+export async function runAnalytics<T extends AnalyticsTask>(
+  task: T,
+  version: string,
+  data: TicketData,
+  filters: AnalyticsFilters
+): Promise<AnalyticsResult<T>> {
+  const client = await getAnalyticsClient();
+
+  let loading: Promise<void> = Promise.resolve();
+  if (sentVersion !== version) {
+    sentVersion = version;
+    loading = Promise.resolve(client.loadDataset(version, data)).catch((error) => {
+      // Send it again on the next call.
+      if (sentVersion === version) sentVersion = null;
+      throw error;
+    });
+  }
+
+  const [, result] = await Promise.all([loading, client.run(task, version, filters)]);
+  return result as AnalyticsResult<T>;
+}
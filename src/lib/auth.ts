@@ -0,0 +1,216 @@
+import { create } from "zustand";
+import { getTicketDataSource } from "@/lib/dataSource";
+import {
+  getFirebaseAuth,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+} from "@/lib/firebase";
+
+/** Ordered from least to most privileged; each role can do everything the previous ones can. */
+export const USER_ROLES = ["viewer", "analyst", "mapping-editor", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type AuthProviderKind = "firebase" | "local";
+
+export type AuthUser = {
+  uid: string;
+  email: string;
+};
+
+type AuthListener = (user: AuthUser | null) => void;
+
+/**
+ * Sign-in backend. Firebase Auth (email/password, which the Auth emulator
+ * also serves) is the default; "local" keeps the signed-in email in
+ * localStorage for JSON and in-memory demos without a Firebase project.
+ */
+interface AuthProvider {
+  readonly kind: AuthProviderKind;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  /** Reports the current user immediately, then on every change. Returns an unsubscribe function. */
+  subscribe(listener: AuthListener): () => void;
+}
+
+function createFirebaseAuthProvider(): AuthProvider {
+  return {
+    kind: "firebase",
+    async signIn(email, password) {
+      await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    },
+    async signOut() {
+      await firebaseSignOut(getFirebaseAuth());
+    },
+    subscribe(listener) {
+      return onAuthStateChanged(getFirebaseAuth(), (user) =>
+        listener(user ? { uid: user.uid, email: user.email ?? "" } : null)
+      );
+    },
+  };
+}
+
+const LOCAL_AUTH_KEY = "aftersale.localAuth";
+
+function createLocalAuthProvider(): AuthProvider {
+  const listeners = new Set<AuthListener>();
+
+  const read = (): AuthUser | null => {
+    const email = localStorage.getItem(LOCAL_AUTH_KEY);
+    // Realtime Database keys can't contain ".", so "a.b@c.com" is stored as "a,b@c,com".
+    return email ? { uid: email.replace(/\./g, ","), email } : null;
+  };
+  const emit = () => listeners.forEach((listener) => listener(read()));
+
+  return {
+    kind: "local",
+    async signIn(email) {
+      localStorage.setItem(LOCAL_AUTH_KEY, email.trim().toLowerCase());
+      emit();
+    },
+    async signOut() {
+      localStorage.removeItem(LOCAL_AUTH_KEY);
+      emit();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(read());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+function createConfiguredAuthProvider(): AuthProvider {
+  const dataSourceKind = import.meta.env.VITE_DATA_SOURCE || "firebase";
+  const kind = (import.meta.env.VITE_AUTH_PROVIDER ||
+    (dataSourceKind === "firebase" ? "firebase" : "local")) as string;
+
+  switch (kind) {
+    case "firebase":
+      return createFirebaseAuthProvider();
+    case "local":
+      // Anyone can sign in as any email, so only allow it where no shared database takes the writes.
+      if (
+        !import.meta.env.DEV &&
+        dataSourceKind === "firebase" &&
+        !import.meta.env.VITE_FIREBASE_DATABASE_EMULATOR_HOST
+      ) {
+        throw new Error(
+          "The local sign-in provider is only available in development, against the database emulator " +
+            "or with the json and memory data sources."
+        );
+      }
+      return createLocalAuthProvider();
+    default:
+      throw new Error(`Unknown VITE_AUTH_PROVIDER "${kind}". Use firebase or local.`);
+  }
+}
+
+let activeAuthProvider: AuthProvider | null = null;
+
+function getAuthProvider(): AuthProvider {
+  activeAuthProvider ??= createConfiguredAuthProvider();
+  return activeAuthProvider;
+}
+
+const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+// Users without an entry under `userRoles/{uid}` get this role.
+const DEFAULT_ROLE: UserRole = isUserRole(import.meta.env.VITE_AUTH_DEFAULT_ROLE)
+  ? import.meta.env.VITE_AUTH_DEFAULT_ROLE
+  : "viewer";
+
+export async function loadUserRole(uid: string): Promise<UserRole> {
+  const role = await getTicketDataSource().read<string>(`userRoles/${uid}`);
+  return isUserRole(role) ? role : DEFAULT_ROLE;
+}
+
+export function hasRole(role: UserRole | null | undefined, required: UserRole) {
+  return !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+type AuthState = {
+  status: "loading" | "signed-out" | "signed-in";
+  user: AuthUser | null;
+  role: UserRole | null;
+  error: string | null;
+};
+
+export const useAuthStore = create<AuthState>()(() => ({
+  status: "loading",
+  user: null,
+  role: null,
+  error: null,
+}));
+
+let authInitialized = false;
+
+/** Follows the provider's signed-in user and resolves their role. Call once at start-up. */
+export function initAuth() {
+  if (authInitialized) return;
+  authInitialized = true;
+
+  getAuthProvider().subscribe(async (user) => {
+    if (!user) {
+      useAuthStore.setState({ status: "signed-out", user: null, role: null });
+      return;
+    }
+
+    useAuthStore.setState({ status: "loading", user, role: null });
+    const role = await loadUserRole(user.uid).catch(() => DEFAULT_ROLE);
+    // Ignore a lookup that finished after the user changed again.
+    if (useAuthStore.getState().user?.uid === user.uid) {
+      useAuthStore.setState({ status: "signed-in", role, error: null });
+    }
+  });
+}
+
+export async function signIn(email: string, password: string) {
+  useAuthStore.setState({ error: null });
+  try {
+    await getAuthProvider().signIn(email, password);
+  } catch (error) {
+    useAuthStore.setState({ error: error instanceof Error ? error.message : "Sign-in failed" });
+    throw error;
+  }
+}
+
+export async function signOut() {
+  await getAuthProvider().signOut();
+}
+
+/** Throws unless the signed-in user has at least `required`; `action` completes "You are not allowed to …". */
+export function assertRole(required: UserRole, action: string) {
+  const { user, role } = useAuthStore.getState();
+  if (!user) {
+    throw new Error(`Sign in to ${action}.`);
+  }
+  if (!hasRole(role, required)) {
+    throw new Error(`You are not allowed to ${action}; it requires the ${required} role.`);
+  }
+}
+
+/** Minimum role for each page, keyed by the first path segment. */
+export const PAGE_ROLES: Record<string, UserRole> = {
+  tickets: "viewer",
+  "claim-vs-closed": "viewer",
+  "aged-claim-report": "viewer",
+  "aftersale-guides": "viewer",
+  employees: "analyst",
+  repairs: "analyst",
+  dealerships: "analyst",
+  "dealer-insights": "analyst",
+  "repair-insights": "analyst",
+  "data-explorer": "analyst",
+  "data-quality": "analyst",
+  sla: "analyst",
+  mapping: "mapping-editor",
+  admin: "admin",
+};
+
+export function canAccessPage(role: UserRole | null | undefined, page: string) {
+  return hasRole(role, PAGE_ROLES[page] ?? "admin");
+}
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ChildEvent, createJsonFileDataSource, createMemoryDataSource } from "./dataSource";
+
+const seed = {
+  root: {
+    tickets: {
+      a: { updatedAt: 100, status: "open" },
+      b: { updatedAt: 200, status: "closed" },
+      c: { status: "unknown" },
+    },
+  },
+};
+
+// Lets the queued "added" events of a new subscription run.
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createMemoryDataSource", () => {
+  it("reads nested paths and null for missing ones", async () => {
+    const source = createMemoryDataSource(seed);
+
+    expect(await source.read("root/tickets/a/status")).toBe("open");
+    expect(await source.read("/root/tickets/b/")).toEqual({ updatedAt: 200, status: "closed" });
+    expect(await source.read("root/tickets/z")).toBeNull();
+    expect(await source.read("root/tickets/a/status/deeper")).toBeNull();
+  });
+
+  it("hands out copies, so callers cannot change the store", async () => {
+    const source = createMemoryDataSource(seed);
+    const ticket = await source.read<{ status: string }>("root/tickets/a");
+    ticket!.status = "edited";
+
+    expect(await source.read("root/tickets/a/status")).toBe("open");
+    expect(seed.root.tickets.a.status).toBe("open");
+  });
+
+  it("writes, creates parents and removes on null", async () => {
+    const source = createMemoryDataSource();
+    await source.write("settings/profiles/p1/name", "Default");
+    expect(await source.read("settings")).toEqual({ profiles: { p1: { name: "Default" } } });
+
+    await source.write("settings/profiles/p1", null);
+    expect(await source.read("settings/profiles/p1")).toBeNull();
+    await expect(source.write("", {})).rejects.toThrow("Cannot overwrite the data source root");
+  });
+
+  it("applies every path of a multi-path update", async () => {
+    const source = createMemoryDataSource(seed);
+    await source.update({ "root/tickets/a/status": "closed", "root/tickets/c": null, "auditLog/1": { at: 1 } });
+
+    expect(await source.read("root/tickets")).toEqual({
+      a: { updatedAt: 100, status: "closed" },
+      b: { updatedAt: 200, status: "closed" },
+    });
+    expect(await source.read("auditLog/1")).toEqual({ at: 1 });
+  });
+
+  it("returns the children whose numeric field is at least the minimum", async () => {
+    const source = createMemoryDataSource(seed);
+
+    expect(Object.keys(await source.readChildrenFrom("root/tickets", "updatedAt", 100))).toEqual(["a", "b"]);
+    expect(Object.keys(await source.readChildrenFrom("root/tickets", "updatedAt", 150))).toEqual(["b"]);
+    expect(await source.readChildrenFrom("root/missing", "updatedAt", 0)).toEqual({});
+  });
+
+  it("returns the last children in key order, before a key when given", async () => {
+    const source = createMemoryDataSource({ log: { "003": 3, "001": 1, "004": 4, "002": 2 } });
+
+    expect(await source.readLastChildren("log", 2)).toEqual({ "003": 3, "004": 4 });
+    expect(await source.readLastChildren("log", 2, "003")).toEqual({ "001": 1, "002": 2 });
+    expect(await source.readLastChildren("log", 5, "002")).toEqual({ "001": 1 });
+    expect(await source.readLastChildren("missing", 2)).toEqual({});
+  });
+
+  it("creates a value only once", async () => {
+    const source = createMemoryDataSource();
+
+    expect(await source.create("snapshots/2024-03-01", { count: 1 })).toBe(true);
+    expect(await source.create("snapshots/2024-03-01", { count: 2 })).toBe(false);
+    expect(await source.read("snapshots/2024-03-01")).toEqual({ count: 1 });
+  });
+
+  it("reports existing children as added, then each change", async () => {
+    const source = createMemoryDataSource(seed);
+    const events: ChildEvent[] = [];
+    const unsubscribe = source.subscribeChildren("root/tickets", (event) => events.push(event));
+    await flush();
+    expect(events.map((event) => `${event.type}:${event.key}`)).toEqual(["added:a", "added:b", "added:c"]);
+
+    events.length = 0;
+    await source.update({ "root/tickets/a/status": "closed", "root/tickets/b": null, "root/tickets/d": { x: 1 } });
+    await source.write("root/tickets/c", { status: "unknown" });
+    expect(events).toEqual([
+      { type: "removed", key: "b", value: { updatedAt: 200, status: "closed" } },
+      { type: "changed", key: "a", value: { updatedAt: 100, status: "closed" } },
+      { type: "added", key: "d", value: { x: 1 } },
+    ]);
+
+    unsubscribe();
+    await source.write("root/tickets/e", { x: 2 });
+    expect(events).toHaveLength(3);
+  });
+});
+
+describe("createJsonFileDataSource", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("fetches the export once and keeps writes in memory", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(seed)));
+    vi.stubGlobal("fetch", fetchMock);
+    const source = createJsonFileDataSource("/data/ticket.json");
+
+    expect(source.kind).toBe("json");
+    expect(await source.read("root/tickets/a/status")).toBe("open");
+    await source.write("root/tickets/a/status", "closed");
+    expect(await source.read("root/tickets/a/status")).toBe("closed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries the download after a failed one", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 404, statusText: "Not Found" }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(seed)));
+    vi.stubGlobal("fetch", fetchMock);
+    const source = createJsonFileDataSource("/data/ticket.json");
+
+    await expect(source.read("root")).rejects.toThrow("Failed to fetch /data/ticket.json: 404 Not Found");
+    expect(await source.read("root/tickets/b/status")).toBe("closed");
+  });
+});
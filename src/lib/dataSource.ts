@@ -0,0 +1,331 @@
+import {
+  getFirebaseDatabase,
+  ref,
+  get,
+  set,
+  update,
+  runTransaction,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  query,
+  orderByChild,
+  orderByKey,
+  startAt,
+  endBefore,
+  limitToLast,
+} from "@/lib/firebase";
+
+export type TicketDataSourceKind = "firebase" | "json" | "memory";
+
+export type ChildEvent = {
+  type: "added" | "changed" | "removed";
+  key: string;
+  /** The child's new value, or its last value for "removed". */
+  value: unknown;
+};
+
+export type ChildEventListener = (event: ChildEvent) => void;
+
+/**
+ * Path-addressed store the dashboards read from and write to. Paths use the
+ * Realtime Database layout (e.g. "c4cTickets_test/tickets") for every
+ * implementation, so the same loaders work against Firebase, a local JSON
+ * export or an in-memory fixture.
+ */
+export interface TicketDataSource {
+  readonly kind: TicketDataSourceKind;
+  /** Resolves to `null` when nothing is stored at `path`. */
+  read<T>(path: string): Promise<T | null>;
+  /** Replaces the value at `path`; writing `null` removes it. */
+  write(path: string, value: unknown): Promise<void>;
+  /**
+   * Reads the children of `path` whose numeric `field` is at least `min`
+   * (an `orderByChild(field).startAt(min)` query in Firebase).
+   */
+  readChildrenFrom<T>(path: string, field: string, min: number): Promise<Record<string, T>>;
+  /**
+   * Reads the last `count` children of `path` in key order, only those whose
+   * key sorts before `before` when it is given (an
+   * `orderByKey().endBefore(before).limitToLast(count)` query in Firebase).
+   */
+  readLastChildren<T>(path: string, count: number, before?: string): Promise<Record<string, T>>;
+  /** Applies several path writes at once, like a multi-path `update()`. */
+  update(updates: Record<string, unknown>): Promise<void>;
+  /**
+   * Writes `value` at `path` only if nothing is stored there yet, in a
+   * transaction. Resolves to whether this call wrote it.
+   */
+  create(path: string, value: unknown): Promise<boolean>;
+  /**
+   * Streams add/change/remove events for the direct children of `path`. Like
+   * Firebase, every existing child is first reported as "added". Returns an
+   * unsubscribe function.
+   */
+  subscribeChildren(
+    path: string,
+    listener: ChildEventListener,
+    onError?: (error: Error) => void
+  ): () => void;
+}
+
+type Tree = Record<string, unknown>;
+
+const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+const isTree = (value: unknown): value is Tree =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function readAt(root: Tree, path: string): unknown {
+  return splitPath(path).reduce<unknown>(
+    (node, segment) => (isTree(node) ? node[segment] : undefined),
+    root
+  );
+}
+
+function writeAt(root: Tree, path: string, value: unknown) {
+  const segments = splitPath(path);
+  const last = segments.pop();
+  if (!last) {
+    throw new Error("Cannot overwrite the data source root");
+  }
+
+  let node = root;
+  for (const segment of segments) {
+    if (!isTree(node[segment])) {
+      node[segment] = {};
+    }
+    node = node[segment] as Tree;
+  }
+
+  if (value === null || value === undefined) {
+    delete node[last];
+  } else {
+    node[last] = structuredClone(value);
+  }
+}
+
+export function createFirebaseDataSource(): TicketDataSource {
+  return {
+    kind: "firebase",
+    async read<T>(path: string) {
+      const snapshot = await get(ref(getFirebaseDatabase(), path));
+      return snapshot.exists() ? (snapshot.val() as T) : null;
+    },
+    async readChildrenFrom<T>(path: string, field: string, min: number) {
+      const snapshot = await get(
+        query(ref(getFirebaseDatabase(), path), orderByChild(field), startAt(min))
+      );
+      return snapshot.exists() ? (snapshot.val() as Record<string, T>) : {};
+    },
+    async readLastChildren<T>(path: string, count: number, before?: string) {
+      const constraints = before === undefined ? [] : [endBefore(before)];
+      const snapshot = await get(
+        query(ref(getFirebaseDatabase(), path), orderByKey(), ...constraints, limitToLast(count))
+      );
+      return snapshot.exists() ? (snapshot.val() as Record<string, T>) : {};
+    },
+    async write(path, value) {
+      await set(ref(getFirebaseDatabase(), path), value);
+    },
+    async update(updates) {
+      await update(ref(getFirebaseDatabase()), updates);
+    },
+    async create(path, value) {
+      const result = await runTransaction(ref(getFirebaseDatabase(), path), (current) =>
+        current === null ? value : undefined
+      );
+      return result.committed;
+    },
+    subscribeChildren(path, listener, onError) {
+      const targetRef = ref(getFirebaseDatabase(), path);
+      const handle =
+        (type: ChildEvent["type"]) => (snapshot: { key: string | null; val: () => unknown }) =>
+          listener({ type, key: snapshot.key ?? "", value: snapshot.val() });
+
+      const unsubscribers = [
+        onChildAdded(targetRef, handle("added"), onError),
+        onChildChanged(targetRef, handle("changed"), onError),
+        onChildRemoved(targetRef, handle("removed"), onError),
+      ];
+
+      return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+  };
+}
+
+export function createMemoryDataSource(
+  seed: Tree = {},
+  kind: TicketDataSourceKind = "memory"
+): TicketDataSource {
+  const root = structuredClone(seed);
+  const subscriptions = new Set<{ path: string; listener: ChildEventListener; children: Tree }>();
+
+  const childrenAt = (path: string): Tree => {
+    const node = readAt(root, path);
+    return isTree(node) ? structuredClone(node) : {};
+  };
+
+  // Diffs each subscribed node against its last known children after a write.
+  const notify = () => {
+    subscriptions.forEach((subscription) => {
+      const previous = subscription.children;
+      const next = childrenAt(subscription.path);
+      subscription.children = next;
+
+      Object.entries(previous).forEach(([key, value]) => {
+        if (!(key in next)) {
+          subscription.listener({ type: "removed", key, value });
+        }
+      });
+      Object.entries(next).forEach(([key, value]) => {
+        if (!(key in previous)) {
+          subscription.listener({ type: "added", key, value });
+        } else if (JSON.stringify(previous[key]) !== JSON.stringify(value)) {
+          subscription.listener({ type: "changed", key, value });
+        }
+      });
+    });
+  };
+
+  return {
+    kind,
+    async read<T>(path: string) {
+      const value = readAt(root, path);
+      return value === undefined ? null : (structuredClone(value) as T);
+    },
+    async readChildrenFrom<T>(path: string, field: string, min: number) {
+      const matches = Object.entries(childrenAt(path)).filter(([, child]) => {
+        const value = isTree(child) ? child[field] : undefined;
+        return typeof value === "number" && value >= min;
+      });
+      return Object.fromEntries(matches) as Record<string, T>;
+    },
+    async readLastChildren<T>(path: string, count: number, before?: string) {
+      // Plain string order, which matches Firebase's key order for keys that are not integers.
+      const entries = Object.entries(childrenAt(path))
+        .filter(([key]) => before === undefined || key < before)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return Object.fromEntries(entries.slice(Math.max(entries.length - count, 0))) as Record<string, T>;
+    },
+    async write(path, value) {
+      writeAt(root, path, value);
+      notify();
+    },
+    async update(updates) {
+      Object.entries(updates).forEach(([path, value]) => writeAt(root, path, value));
+      notify();
+    },
+    async create(path, value) {
+      if (readAt(root, path) !== undefined) return false;
+      writeAt(root, path, value);
+      notify();
+      return true;
+    },
+    subscribeChildren(path, listener) {
+      const subscription = { path, listener, children: {} as Tree };
+      subscriptions.add(subscription);
+
+      queueMicrotask(() => {
+        if (!subscriptions.has(subscription)) return;
+        subscription.children = childrenAt(path);
+        Object.entries(subscription.children).forEach(([key, value]) =>
+          listener({ type: "added", key, value })
+        );
+      });
+
+      return () => {
+        subscriptions.delete(subscription);
+      };
+    },
+  };
+}
+
+/**
+ * Serves a JSON export of the database (same shape as the Firebase tree),
+ * fetched once on first read. Writes are kept in memory for the session only.
+ */
+export function createJsonFileDataSource(url: string): TicketDataSource {
+  let loaded: Promise<TicketDataSource> | null = null;
+
+  const load = () => {
+    loaded ??= fetch(url).then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+      return createMemoryDataSource((await response.json()) as Tree, "json");
+    });
+    loaded.catch(() => {
+      loaded = null;
+    });
+    return loaded;
+  };
+
+  return {
+    kind: "json",
+    async read<T>(path: string) {
+      return (await load()).read<T>(path);
+    },
+    async readChildrenFrom<T>(path: string, field: string, min: number) {
+      return (await load()).readChildrenFrom<T>(path, field, min);
+    },
+    async readLastChildren<T>(path: string, count: number, before?: string) {
+      return (await load()).readLastChildren<T>(path, count, before);
+    },
+    async write(path, value) {
+      await (await load()).write(path, value);
+    },
+    async update(updates) {
+      await (await load()).update(updates);
+    },
+    async create(path, value) {
+      return (await load()).create(path, value);
+    },
+    subscribeChildren(path, listener, onError) {
+      let unsubscribe: (() => void) | null = null;
+      let cancelled = false;
+
+      load()
+        .then((source) => {
+          if (!cancelled) {
+            unsubscribe = source.subscribeChildren(path, listener, onError);
+          }
+        })
+        .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+
+      return () => {
+        cancelled = true;
+        unsubscribe?.();
+      };
+    },
+  };
+}
+
+const DEFAULT_JSON_URL = "/data/ticket.json";
+
+function createConfiguredDataSource(): TicketDataSource {
+  const kind = (import.meta.env.VITE_DATA_SOURCE || "firebase") as string;
+
+  switch (kind) {
+    case "firebase":
+      return createFirebaseDataSource();
+    case "json":
+      return createJsonFileDataSource(import.meta.env.VITE_DATA_SOURCE_JSON_URL || DEFAULT_JSON_URL);
+    case "memory":
+      return createMemoryDataSource();
+    default:
+      throw new Error(`Unknown VITE_DATA_SOURCE "${kind}". Use firebase, json or memory.`);
+  }
+}
+
+let activeDataSource: TicketDataSource | null = null;
+
+export function getTicketDataSource(): TicketDataSource {
+  activeDataSource ??= createConfiguredDataSource();
+  return activeDataSource;
+}
+
+/** Swaps the active source, e.g. to seed an in-memory fixture for a demo. */
+export function setTicketDataSource(source: TicketDataSource) {
+  activeDataSource = source;
+}
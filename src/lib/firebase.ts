@@ -1,6 +1,41 @@
-import { initializeApp } from "firebase/app";
-import { getDatabase, ref as databaseRef, get, set, update, child, push } from "firebase/database";
-import { getStorage, ref as storageRef, uploadBytes, getDownloadURL, listAll } from "firebase/storage";
+import { initializeApp, type FirebaseApp } from "firebase/app";
+import {
+  getDatabase,
+  connectDatabaseEmulator,
+  ref as databaseRef,
+  get,
+  set,
+  update,
+  runTransaction,
+  child,
+  push,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  query,
+  orderByChild,
+  orderByKey,
+  startAt,
+  endBefore,
+  limitToLast,
+  type Database,
+} from "firebase/database";
+import {
+  getAuth,
+  connectAuthEmulator,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut,
+  type Auth,
+} from "firebase/auth";
+import {
+  getStorage,
+  ref as storageRef,
+  uploadBytes,
+  getDownloadURL,
+  listAll,
+  type FirebaseStorage,
+} from "firebase/storage";
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -13,22 +48,82 @@ const firebaseConfig = {
   measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
 };
 
-const missingEnvVars = Object.entries(firebaseConfig)
-  .filter(([, value]) => !value)
-  .map(([key]) => key);
+// "host:port" of a local Firebase emulator suite, e.g. "127.0.0.1:9000".
+const emulatorHost: string | undefined = import.meta.env.VITE_FIREBASE_DATABASE_EMULATOR_HOST;
+// "host:port" of the Auth emulator, e.g. "127.0.0.1:9099".
+const authEmulatorHost: string | undefined = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+
+let app: FirebaseApp | null = null;
+let database: Database | null = null;
+let storage: FirebaseStorage | null = null;
+let auth: Auth | null = null;
 
-if (missingEnvVars.length > 0) {
-  throw new Error(
-    `Missing Firebase environment variables: ${missingEnvVars.join(", ")}. Check your .env configuration.`
-  );
+function getFirebaseApp(): FirebaseApp {
+  if (app) {
+    return app;
+  }
+
+  if (emulatorHost || authEmulatorHost) {
+    const projectId = firebaseConfig.projectId || "demo-aftersale";
+    app = initializeApp({
+      ...firebaseConfig,
+      projectId,
+      apiKey: firebaseConfig.apiKey || "demo-api-key",
+      databaseURL:
+        firebaseConfig.databaseURL || (emulatorHost ? `http://${emulatorHost}?ns=${projectId}` : undefined),
+    });
+    return app;
+  }
+
+  const missingEnvVars = Object.entries(firebaseConfig)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missingEnvVars.length > 0) {
+    throw new Error(
+      `Missing Firebase environment variables: ${missingEnvVars.join(", ")}. Check your .env configuration.`
+    );
+  }
+
+  app = initializeApp(firebaseConfig);
+  return app;
 }
 
-const app = initializeApp(firebaseConfig);
-const database = getDatabase(app);
-const storage = getStorage(app, "gs://snowy-hr-report.firebasestorage.app");
+// Firebase is initialised on first use so the dashboards can run against a
+// non-Firebase data source without any credentials configured.
+function getFirebaseDatabase(): Database {
+  if (!database) {
+    database = getDatabase(getFirebaseApp());
+    if (emulatorHost) {
+      const [host, port] = emulatorHost.split(":");
+      connectDatabaseEmulator(database, host, Number(port) || 9000);
+    }
+  }
+  return database;
+}
+
+function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (authEmulatorHost) {
+      connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
+
+function getFirebaseStorage(): FirebaseStorage {
+  if (!storage) {
+    storage = getStorage(getFirebaseApp(), "gs://snowy-hr-report.firebasestorage.app");
+  }
+  return storage;
+}
 
 export {
-  database,
+  getFirebaseApp,
+  getFirebaseDatabase,
+  getFirebaseAuth,
+  getFirebaseStorage,
   databaseRef as ref,
   databaseRef,
   get,
@@ -36,7 +131,19 @@ export {
   child,
   push,
   update,
-  storage,
+  runTransaction,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  query,
+  orderByChild,
+  orderByKey,
+  startAt,
+  endBefore,
+  limitToLast,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut,
   storageRef,
   uploadBytes,
   getDownloadURL,
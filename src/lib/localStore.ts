@@ -0,0 +1,79 @@
+const DB_NAME = "aftersale";
+const DB_VERSION = 1;
+const STORE_NAME = "cache";
+
+/**
+ * Bump whenever the shape of cached values changes; entries written under an
+ * older version are ignored and refetched.
+ */
+export const LOCAL_CACHE_VERSION = 1;
+
+type LocalEntry<T> = {
+  version: number;
+  savedAt: number;
+  value: T;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is unavailable (private mode, old
+// browsers); callers then simply run without a local copy.
+function openDatabase(): Promise<IDBDatabase | null> {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  execute: (store: IDBObjectStore) => IDBRequest
+): Promise<T | null> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T | null>((resolve, reject) => {
+        if (!db) {
+          resolve(null);
+          return;
+        }
+        const request = execute(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve((request.result as T) ?? null);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+/** Returns the stored value with its save time, or null if missing or from an older cache version. */
+export async function readLocalEntry<T>(key: string): Promise<{ value: T; savedAt: number } | null> {
+  const entry = await runRequest<LocalEntry<T>>("readonly", (store) => store.get(key));
+  if (!entry || entry.version !== LOCAL_CACHE_VERSION) {
+    return null;
+  }
+  return { value: entry.value, savedAt: entry.savedAt };
+}
+
+export async function readLocal<T>(key: string): Promise<T | null> {
+  return (await readLocalEntry<T>(key))?.value ?? null;
+}
+
+export async function writeLocal(key: string, value: unknown): Promise<void> {
+  const entry: LocalEntry<unknown> = { version: LOCAL_CACHE_VERSION, savedAt: Date.now(), value };
+  await runRequest("readwrite", (store) => store.put(entry, key));
+}
+
+export async function deleteLocal(key: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,84 @@
+import { QueryClient, QueryKey } from "@tanstack/react-query";
+import { readLocalEntry, writeLocal } from "@/lib/localStore";
+import { readLocalTicketCopy } from "@/utils/ticketSync";
+import { BUILT_IN_TICKET_DATASETS } from "@/utils/dataParser";
+import { displaySettingsKey } from "@/hooks/useDisplaySettings";
+import { TICKET_STATUS_MAPPING_KEY } from "@/hooks/useTicketStatusMapping";
+import { FIRST_LEVEL_STATUSES_KEY } from "@/hooks/useFirstLevelStatuses";
+import { STATUS_HIERARCHY_KEY } from "@/hooks/useStatusHierarchy";
+import { TICKET_TYPE_MAPPING_KEY } from "@/hooks/useTicketTypeMapping";
+import { SLA_TARGETS_KEY } from "@/hooks/useSlaTargets";
+import { WORKING_CALENDAR_KEY } from "@/hooks/useWorkingCalendar";
+import { getSelectedDatasetId, TICKET_DATASETS_KEY, useTicketDatasetStore } from "@/hooks/useTicketDataset";
+import { useVisibilityProfileStore, VISIBILITY_PROFILES_KEY } from "@/hooks/useVisibilityProfile";
+import { DEFAULT_VISIBILITY_PROFILE_ID } from "@/utils/dataParser";
+import { TicketDataset } from "@/types/ticket";
+
+// Tickets are not listed here: ticketSync already keeps a local copy per dataset.
+const PERSISTED_QUERY_KEYS: QueryKey[] = [
+  TICKET_STATUS_MAPPING_KEY,
+  FIRST_LEVEL_STATUSES_KEY,
+  STATUS_HIERARCHY_KEY,
+  TICKET_TYPE_MAPPING_KEY,
+  SLA_TARGETS_KEY,
+  WORKING_CALENDAR_KEY,
+  TICKET_DATASETS_KEY,
+  VISIBILITY_PROFILES_KEY,
+];
+
+// Display settings are keyed by profile; only the selected profile is restored.
+const persistedQueryKeys = (): QueryKey[] => [
+  ...PERSISTED_QUERY_KEYS,
+  displaySettingsKey(useVisibilityProfileStore.getState().profileId ?? DEFAULT_VISIBILITY_PROFILE_ID),
+];
+
+const storageKey = (queryKey: QueryKey) => `query:${queryKey.join("/")}`;
+
+function seedQuery(queryClient: QueryClient, queryKey: QueryKey, data: unknown, savedAt: number) {
+  // A fetch that finished before the restore wins over the persisted copy.
+  if (queryClient.getQueryData(queryKey) !== undefined) return;
+  queryClient.setQueryData(queryKey, data, { updatedAt: savedAt });
+}
+
+/**
+ * Seeds the query cache from IndexedDB so the app opens with the last known
+ * data straight away, and keeps working read-only while offline. Restored
+ * entries carry their original save time, so they are refetched as stale.
+ */
+export async function restorePersistedQueries(queryClient: QueryClient) {
+  try {
+    const queryKeys = persistedQueryKeys();
+    const entries = await Promise.all(queryKeys.map((queryKey) => readLocalEntry<unknown>(storageKey(queryKey))));
+    entries.forEach((entry, index) => {
+      if (entry) seedQuery(queryClient, queryKeys[index], entry.value, entry.savedAt);
+    });
+
+    const state = useTicketDatasetStore.getState();
+    const datasetId = getSelectedDatasetId(state, state.lastUid);
+    const datasets = queryClient.getQueryData<TicketDataset[]>(TICKET_DATASETS_KEY) ?? BUILT_IN_TICKET_DATASETS;
+    const dataset = datasets.find((candidate) => candidate.id === datasetId);
+    if (!dataset) return;
+
+    const copy = await readLocalTicketCopy(dataset.root);
+    if (copy) {
+      seedQuery(queryClient, ["tickets", dataset.id], copy.data, copy.syncedAt);
+    }
+  } catch {
+    // Without a local copy the app simply waits for the network as before.
+  }
+}
+
+/** Writes successful results of the persisted queries back to IndexedDB. */
+export function persistQueryCache(queryClient: QueryClient) {
+  return queryClient.getQueryCache().subscribe((event) => {
+    // Manual updates (restores, optimistic patches) are skipped; only fetched data is saved.
+    if (event.type !== "updated" || event.action.type !== "success" || event.action.manual) return;
+
+    const key = storageKey(event.query.queryKey);
+    if (!persistedQueryKeys().some((queryKey) => storageKey(queryKey) === key)) return;
+
+    writeLocal(key, event.query.state.data).catch(() => {
+      // Losing a cache write only means a slower next cold start.
+    });
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  booleanParam,
+  dateParam,
+  decodeUrlParams,
+  encodeUrlParams,
+  enumParam,
+  hasUrlParams,
+  integerParam,
+  listParam,
+  optionalParam,
+  stringParam,
+  UrlParamValues,
+} from "./urlState";
+
+const schema = {
+  q: stringParam(),
+  from: dateParam(),
+  page: integerParam(1),
+  open: booleanParam(false),
+  dir: enumParam(["asc", "desc"], "asc"),
+  cols: listParam(["id", "name", "status"], ["id", "name"]),
+  ticket: optionalParam(),
+};
+
+const defaults: UrlParamValues<typeof schema> = {
+  q: "",
+  from: "",
+  page: 1,
+  open: false,
+  dir: "asc",
+  cols: ["id", "name"],
+  ticket: null,
+};
+
+describe("decodeUrlParams", () => {
+  it("reads every param of the schema", () => {
+    const params = new URLSearchParams("q=brake&from=2024-03-01&page=3&open=1&dir=desc&cols=status,id&ticket=T-7");
+
+    expect(decodeUrlParams(schema, params)).toEqual({
+      q: "brake",
+      from: "2024-03-01",
+      page: 3,
+      open: true,
+      dir: "desc",
+      cols: ["status", "id"],
+      ticket: "T-7",
+    });
+  });
+
+  it("falls back to the defaults for missing and malformed values", () => {
+    expect(decodeUrlParams(schema, new URLSearchParams())).toEqual(defaults);
+    expect(
+      decodeUrlParams(schema, new URLSearchParams("from=1/3/2024&page=0&open=yes&dir=up&cols=price&ticket="))
+    ).toEqual(defaults);
+  });
+
+  it("drops unknown list entries", () => {
+    expect(decodeUrlParams(schema, new URLSearchParams("cols=price,status")).cols).toEqual(["status"]);
+  });
+});
+
+describe("encodeUrlParams", () => {
+  it("leaves defaults and blank values out of the URL", () => {
+    expect(encodeUrlParams(schema, defaults, new URLSearchParams()).toString()).toBe("");
+    expect(encodeUrlParams(schema, { q: "", ticket: null }, new URLSearchParams("q=old&ticket=T-1")).toString()).toBe(
+      ""
+    );
+  });
+
+  it("keeps params outside the change and outside the schema", () => {
+    const next = encodeUrlParams(schema, { page: 2, cols: ["status"] }, new URLSearchParams("q=brake&tab=sla"));
+    expect(next.toString()).toBe("q=brake&tab=sla&page=2&cols=status");
+  });
+
+  it("round-trips through decodeUrlParams", () => {
+    const values: UrlParamValues<typeof schema> = {
+      ...defaults,
+      q: "a&b=c",
+      page: 4,
+      open: true,
+      dir: "desc",
+      ticket: "T-9",
+    };
+    expect(decodeUrlParams(schema, encodeUrlParams(schema, values, new URLSearchParams()))).toEqual(values);
+  });
+});
+
+describe("hasUrlParams", () => {
+  it("is true when any schema param is present", () => {
+    expect(hasUrlParams(schema, new URLSearchParams("tab=sla"))).toBe(false);
+    expect(hasUrlParams(schema, new URLSearchParams("tab=sla&page=2"))).toBe(true);
+  });
+});
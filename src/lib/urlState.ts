@@ -0,0 +1,104 @@
+/**
+ * Typed query parameters. Each page describes its view state as a schema of
+ * params; values equal to their default are left out of the URL so plain
+ * links stay short, and anything that fails to decode falls back to the default.
+ */
+export interface UrlParam<T> {
+  defaultValue: T;
+  encode(value: T): string;
+  /** Undefined when the raw value is not a valid `T`. */
+  decode(raw: string): T | undefined;
+}
+
+export type UrlParamSchema = Record<string, UrlParam<unknown>>;
+
+export type UrlParamValues<S extends UrlParamSchema> = {
+  [K in keyof S]: S[K] extends UrlParam<infer T> ? T : never;
+};
+
+export const stringParam = (defaultValue = ""): UrlParam<string> => ({
+  defaultValue,
+  encode: (value) => value,
+  decode: (raw) => raw,
+});
+
+/** yyyy-MM-dd; other values are dropped. */
+export const dateParam = (defaultValue = ""): UrlParam<string> => ({
+  defaultValue,
+  encode: (value) => value,
+  decode: (raw) => (/^\d{4}-\d{2}-\d{2}$/.test(raw) ? raw : undefined),
+});
+
+export const integerParam = (defaultValue: number, min = 1): UrlParam<number> => ({
+  defaultValue,
+  encode: (value) => String(value),
+  decode: (raw) => {
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= min ? value : undefined;
+  },
+});
+
+export const booleanParam = (defaultValue: boolean): UrlParam<boolean> => ({
+  defaultValue,
+  encode: (value) => (value ? "1" : "0"),
+  decode: (raw) => (raw === "1" ? true : raw === "0" ? false : undefined),
+});
+
+export const enumParam = <T extends string>(values: readonly T[], defaultValue: T): UrlParam<T> => ({
+  defaultValue,
+  encode: (value) => value,
+  decode: (raw) => (values.includes(raw as T) ? (raw as T) : undefined),
+});
+
+/** A comma-separated, non-empty subset of `values`; unknown entries are dropped. */
+export const listParam = <T extends string>(values: readonly T[], defaultValue: T[]): UrlParam<T[]> => ({
+  defaultValue,
+  encode: (value) => value.join(","),
+  decode: (raw) => {
+    const list = raw.split(",").filter((item): item is T => values.includes(item as T));
+    return list.length > 0 ? list : undefined;
+  },
+});
+
+/** A nullable string, e.g. an optional snapshot date or a selected ticket. */
+export const optionalParam = <T extends string = string>(
+  inner = stringParam() as UrlParam<T>
+): UrlParam<T | null> => ({
+  defaultValue: null,
+  encode: (value) => (value === null ? "" : inner.encode(value)),
+  decode: (raw) => (raw ? inner.decode(raw) : undefined),
+});
+
+export function decodeUrlParams<S extends UrlParamSchema>(schema: S, params: URLSearchParams): UrlParamValues<S> {
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, param]) => {
+      const raw = params.get(key);
+      const decoded = raw === null ? undefined : param.decode(raw);
+      return [key, decoded === undefined ? param.defaultValue : decoded];
+    })
+  ) as UrlParamValues<S>;
+}
+
+/** Writes `change` into a copy of `params`; other params are kept. */
+export function encodeUrlParams<S extends UrlParamSchema>(
+  schema: S,
+  change: Partial<UrlParamValues<S>>,
+  params: URLSearchParams
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.entries(change).forEach(([key, value]) => {
+    const param = schema[key];
+    if (!param) return;
+    const encoded = param.encode(value);
+    if (encoded === param.encode(param.defaultValue) || encoded === "") {
+      next.delete(key);
+    } else {
+      next.set(key, encoded);
+    }
+  });
+  return next;
+}
+
+/** True when any of the schema's params is present in `params`. */
+export const hasUrlParams = (schema: UrlParamSchema, params: URLSearchParams) =>
+  Object.keys(schema).some((key) => params.has(key));
@@ -0,0 +1,66 @@
+/**
+ * A minimal Comlink-style bridge: `expose` an object of functions inside a
+ * worker and `wrap` the worker on the main thread to call them as async
+ * functions. Arguments and results go through structured clone.
+ */
+
+type RpcRequest = { id: number; method: string; args: unknown[] };
+type RpcResponse = { id: number; result?: unknown; error?: string };
+
+type AnyFunction = (...args: never[]) => unknown;
+
+export type Remote<T> = {
+  [K in keyof T]: T[K] extends AnyFunction ? (...args: Parameters<T[K]>) => Promise<Awaited<ReturnType<T[K]>>> : never;
+};
+
+type MessageScope = {
+  addEventListener: (type: "message", listener: (event: MessageEvent<RpcRequest>) => void) => void;
+  postMessage: (message: RpcResponse) => void;
+};
+
+export function expose(api: object, scope: MessageScope = self as unknown as MessageScope) {
+  scope.addEventListener("message", async (event) => {
+    const { id, method, args } = event.data;
+    try {
+      const handler = (api as Record<string, (...args: unknown[]) => unknown>)[method];
+      if (typeof handler !== "function") {
+        throw new Error(`Unknown worker method: ${method}`);
+      }
+      scope.postMessage({ id, result: await handler(...args) });
+    } catch (error) {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+export function wrap<T>(worker: Worker): Remote<T> {
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  worker.addEventListener("message", (event: MessageEvent<RpcResponse>) => {
+    const { id, result, error } = event.data;
+    const call = pending.get(id);
+    if (!call) return;
+    pending.delete(id);
+    if (error !== undefined) {
+      call.reject(new Error(error));
+    } else {
+      call.resolve(result);
+    }
+  });
+
+  worker.addEventListener("error", (event) => {
+    pending.forEach((call) => call.reject(new Error(event.message || "Worker failed")));
+    pending.clear();
+  });
+
+  return new Proxy({} as Remote<T>, {
+    get: (_target, method: string) =>
+      (...args: unknown[]) =>
+        new Promise((resolve, reject) => {
+          const id = nextId++;
+          pending.set(id, { resolve, reject });
+          worker.postMessage({ id, method, args } satisfies RpcRequest);
+        }),
+  });
+}
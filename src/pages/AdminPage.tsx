@@ -1,14 +1,26 @@
 import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ShieldCheck } from "lucide-react";
-import { summarizeEmployees } from "@/utils/dataParser";
+import { summarizeDealerships, summarizeEmployees, summarizeRepairs } from "@/utils/dataParser";
 import { useTicketData } from "@/hooks/useTicketData";
 import { useDisplaySettings } from "@/hooks/useDisplaySettings";
-import { EntityVisibilityCategory } from "@/types/ticket";
+import { EntityVisibilityCategory, VisibilityRule } from "@/types/ticket";
 import { PageLoader } from "@/components/PageLoader";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditLogPanel } from "@/components/AuditLogPanel";
+import { VisibilityList, VisibilityListItem } from "@/components/VisibilityList";
+import { VisibilityProfileManager } from "@/components/VisibilityProfileManager";
+import { VisibilityRulesEditor } from "@/components/VisibilityRulesEditor";
+import { SlaTargetsEditor } from "@/components/SlaTargetsEditor";
+import { WorkingCalendarEditor } from "@/components/WorkingCalendarEditor";
+import {
+  buildVisibilityEntityIndex,
+  decideCategoryVisibility,
+  describeVisibilityRule,
+} from "@/utils/visibilityRules";
+
+const NO_RULES: VisibilityRule[] = [];
 
 const Section = ({
   title,
@@ -30,10 +42,63 @@ const Section = ({
 
 export default function AdminPage() {
   const { data, isLoading, error } = useTicketData();
-  const { data: settings, isLoading: settingsLoading, error: settingsError, toggleVisibility } =
-    useDisplaySettings();
+  const {
+    data: settings,
+    isLoading: settingsLoading,
+    error: settingsError,
+    isReadOnly,
+    toggleVisibility,
+    setVisibility,
+    setRules,
+  } = useDisplaySettings();
+
+  const entityIndex = useMemo(() => buildVisibilityEntityIndex(data ?? { tickets: {} }), [data]);
 
-  const employees = useMemo(() => (data ? summarizeEmployees(data) : []), [data]);
+  // Which rule, if any, has the final say over each entity.
+  const ruleNotes = useMemo(() => {
+    const rules = settings?.rules ?? NO_RULES;
+    const notes = (category: EntityVisibilityCategory) => {
+      if (!settings || !rules.some((rule) => rule.enabled && rule.category === category)) return {};
+      return Object.fromEntries(
+        Object.entries(decideCategoryVisibility(category, entityIndex, settings)).flatMap(([id, decision]) => {
+          const position = rules.findIndex((rule) => rule.id === decision.decidedBy);
+          if (position < 0) return [];
+          return [[id, `Rule #${position + 1}: ${describeVisibilityRule(rules[position])}`]];
+        })
+      );
+    };
+    return { dealerships: notes("dealerships"), employees: notes("employees"), repairs: notes("repairs") };
+  }, [entityIndex, settings]);
+
+  const employees = useMemo<VisibilityListItem[]>(
+    () =>
+      data
+        ? summarizeEmployees(data).map(({ employeeId, employeeName, count }) => ({
+            id: employeeId,
+            name: employeeName,
+            count,
+          }))
+        : [],
+    [data]
+  );
+  const dealerships = useMemo<VisibilityListItem[]>(
+    () =>
+      data
+        ? summarizeDealerships(data).map(({ dealerId, dealerName, count }) => ({
+            id: dealerId,
+            name: dealerName,
+            count,
+          }))
+        : [],
+    [data]
+  );
+  const repairs = useMemo<VisibilityListItem[]>(
+    () =>
+      data
+        ? summarizeRepairs(data).map(({ repairId, repairName, count }) => ({ id: repairId, name: repairName, count }))
+        : [],
+    [data]
+  );
 
   const handleToggle = (category: EntityVisibilityCategory, entityId: string, current?: boolean) => {
     toggleVisibility(category, entityId, !(current ?? true));
@@ -65,8 +130,8 @@ export default function AdminPage() {
       <div className="flex flex-col gap-2">
         <h2 className="text-3xl font-bold">Admin Visibility Control</h2>
         <p className="text-muted-foreground">
-          Toggle which internal employees (role 40) appear on the Internal Employee Analysis page.
-          The selections are saved in Firebase.
+          Toggle which internal employees, dealerships and repairers appear across the analytics
+          pages. The selections are saved in Firebase.
         </p>
         <Alert>
           <AlertTitle className="flex items-center gap-2">
@@ -74,47 +139,119 @@ export default function AdminPage() {
             Visibility caching
           </AlertTitle>
           <AlertDescription>
-            Changes are cached via React Query and persisted via a single Firebase write per toggle.
+            Changes are cached via React Query and persisted via a single Firebase write per toggle,
+            which also appends an entry to the audit log.
           </AlertDescription>
         </Alert>
       </div>
 
-      <Section
-        title="Internal Employees"
-        description="Control which employees appear in the Employees analysis."
-      >
-        <div className="space-y-3">
-          {employees.map((employee) => {
-            const isVisible = settings?.employees[employee.employeeId] ?? true;
-            return (
-              <div
-                key={employee.employeeId}
-                className="flex items-center justify-between rounded-lg border p-3"
-              >
-                <div>
-                  <p className="font-medium">
-                    {employee.employeeName}{" "}
-                    <span className="text-xs text-muted-foreground">({employee.employeeId})</span>
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    Tickets linked: {employee.count}
-                  </p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label htmlFor={`employee-${employee.employeeId}`} className="text-sm">
-                    {isVisible ? "Visible" : "Hidden"}
-                  </Label>
-                  <Switch
-                    id={`employee-${employee.employeeId}`}
-                    checked={isVisible}
-                    onCheckedChange={() => handleToggle("employees", employee.employeeId, isVisible)}
-                  />
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      </Section>
+      <Tabs defaultValue="visibility" className="space-y-4">
+        <TabsList className="w-fit border bg-muted/50">
+          <TabsTrigger value="visibility">Visibility</TabsTrigger>
+          <TabsTrigger value="rules">Rules</TabsTrigger>
+          <TabsTrigger value="sla">SLA</TabsTrigger>
+          <TabsTrigger value="calendar">Working calendar</TabsTrigger>
+          <TabsTrigger value="audit">Audit</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="visibility">
+          <div className="space-y-6">
+            <Section
+              title="Visibility profile"
+              description="Each team keeps its own dealership, employee and repair lists. The toggles below edit the selected profile; everyone picks the profile they view from the sidebar."
+            >
+              <VisibilityProfileManager disabled={isReadOnly} />
+            </Section>
+
+            <Section
+              title="Internal Employees"
+              description="Control which employees appear in the Employees analysis."
+            >
+              <VisibilityList
+                idPrefix="employee"
+                items={employees}
+                visibility={settings?.employees}
+                ruleNotes={ruleNotes.employees}
+                disabled={isReadOnly}
+                onToggle={(id, current) => handleToggle("employees", id, current)}
+                onBulkChange={(ids, isVisible) => setVisibility("employees", ids, isVisible)}
+              />
+            </Section>
+
+            <Section
+              title="Dealerships"
+              description="Hidden dealerships (role 1001) are left out of every dealership-based page."
+            >
+              <VisibilityList
+                idPrefix="dealership"
+                items={dealerships}
+                visibility={settings?.dealerships}
+                ruleNotes={ruleNotes.dealerships}
+                disabled={isReadOnly}
+                onToggle={(id, current) => handleToggle("dealerships", id, current)}
+                onBulkChange={(ids, isVisible) => setVisibility("dealerships", ids, isVisible)}
+              />
+            </Section>
+
+            <Section
+              title="Repairs"
+              description="Hidden repairers (role 43) are left out of the repair analytics."
+            >
+              <VisibilityList
+                idPrefix="repair"
+                items={repairs}
+                visibility={settings?.repairs}
+                ruleNotes={ruleNotes.repairs}
+                disabled={isReadOnly}
+                onToggle={(id, current) => handleToggle("repairs", id, current)}
+                onBulkChange={(ids, isVisible) => setVisibility("repairs", ids, isVisible)}
+              />
+            </Section>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="rules">
+          <Section
+            title="Visibility rules"
+            description="Hide or show whole groups of dealerships, employees and repairers in the selected profile, e.g. every dealership with fewer than five tickets."
+          >
+            <VisibilityRulesEditor
+              rules={settings?.rules ?? NO_RULES}
+              settings={settings}
+              index={entityIndex}
+              disabled={isReadOnly}
+              onSave={setRules}
+            />
+          </Section>
+        </TabsContent>
+
+        <TabsContent value="sla">
+          <Section
+            title="SLA targets"
+            description="First response and closure targets per ticket type and severity. The most specific target applies; the SLA page reports breaches against them."
+          >
+            <SlaTargetsEditor />
+          </Section>
+        </TabsContent>
+
+        <TabsContent value="calendar">
+          <Section
+            title="Working calendar"
+            description="Business hours, time zone and public holidays. Ages, SLA clocks and durations use them when the sidebar is switched to business time."
+          >
+            <WorkingCalendarEditor />
+          </Section>
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <Section
+            title="Audit"
+            description="Every visibility and status mapping change, with who made it and the value it replaced. Reverting records a new entry."
+          >
+            <AuditLogPanel />
+          </Section>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
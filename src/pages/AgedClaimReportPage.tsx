@@ -1,6 +1,9 @@
 import { useMemo } from "react";
+import { parseISO } from "date-fns";
 import { useVisibleTickets } from "@/hooks/useVisibleTickets";
 import { useTicketStatusMapping } from "@/hooks/useTicketStatusMapping";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { isClosedFirstLevelStatus, orderFirstLevelStatusNames } from "@/utils/firstLevelStatuses";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -12,124 +15,53 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { parse } from "date-fns";
-import { TicketData } from "@/types/ticket";
+import { FirstLevelStatus, NormalizedTicket, TicketTypeCategory } from "@/types/ticket";
 import { PageLoader } from "@/components/PageLoader";
-
-type TicketEntry = TicketData["c4cTickets_test"]["tickets"][string];
-
-type ClaimType = "In Field Warranty Claims" | "Pre Delivery Warranty claims";
+import { SnapshotPicker } from "@/components/SnapshotPicker";
+import { SnapshotComparison } from "@/components/SnapshotComparison";
+import { UnmappedStatusBanner } from "@/components/UnmappedStatusBanner";
+import { useTicketTypeMapping } from "@/hooks/useTicketTypeMapping";
+import { useTimeBasis } from "@/hooks/useTimeBasis";
+import { useUrlParams } from "@/hooks/useUrlParams";
+import { dateParam, optionalParam } from "@/lib/urlState";
 
 type RowBucket =
   | { id: string; label: string; type: "year"; year: number }
   | { id: string; label: string; type: "created-age"; maxMonths: number };
-type NormalizedTicket = {
-  base: TicketEntry;
-  created: Date;
-  firstLevelStatus: string;
-  isOpen: boolean;
-  claimType: string;
-};
-type StatusPalette = {
-  badgeClass: string;
-  barColor: string;
-  dotClass: string;
-  textClass: string;
-};
 
-const STATUS_PRIORITY = ["Closed", "Open", "Parts", "Reparing", "Suspended"] as const;
+/** Soft background for percentage badges: the status colour at 25% opacity. */
+const tint = (color: string) => (/^#[0-9a-f]{6}$/i.test(color) ? `${color}40` : color);
 
-const STATUS_STYLES: Record<string, StatusPalette> = {
-  Closed: {
-    badgeClass: "bg-emerald-50 text-emerald-700 border-emerald-100",
-    barColor: "#8fcfb5",
-    dotClass: "bg-emerald-200",
-    textClass: "text-emerald-700",
-  },
-  Open: {
-    badgeClass: "bg-sky-50 text-sky-700 border-sky-100",
-    barColor: "#a2cbe7",
-    dotClass: "bg-sky-200",
-    textClass: "text-sky-700",
-  },
-  Parts: {
-    badgeClass: "bg-amber-50 text-amber-700 border-amber-100",
-    barColor: "#f5d79a",
-    dotClass: "bg-amber-200",
-    textClass: "text-amber-700",
-  },
-  Reparing: {
-    badgeClass: "bg-purple-50 text-purple-700 border-purple-100",
-    barColor: "#d6c5ee",
-    dotClass: "bg-purple-200",
-    textClass: "text-purple-700",
-  },
-  Suspended: {
-    badgeClass: "bg-rose-50 text-rose-700 border-rose-100",
-    barColor: "#f6c3c9",
-    dotClass: "bg-rose-200",
-    textClass: "text-rose-700",
-  },
-  default: {
-    badgeClass: "bg-slate-50 text-slate-700 border-slate-100",
-    barColor: "#c3cfdf",
-    dotClass: "bg-slate-200",
-    textClass: "text-slate-700",
-  },
-};
-
-function getStatusPalette(status: string): StatusPalette {
-  return STATUS_STYLES[status] ?? STATUS_STYLES.default;
-}
-
-function parseTicketDate(raw: string) {
-  if (!raw) return new Date("");
-  const isoCandidate = new Date(raw);
-  if (!Number.isNaN(isoCandidate.getTime())) return isoCandidate;
-  return parse(raw, "dd/MM/yyyy", new Date());
-}
-
-function monthsSince(date: Date) {
-  if (Number.isNaN(date.getTime())) return Number.NaN;
-  const now = new Date();
+function monthsSince(date: Date | null, now: Date) {
+  if (!date) return Number.NaN;
   return (now.getFullYear() - date.getFullYear()) * 12 + (now.getMonth() - date.getMonth());
 }
 
-function isOpenStatus(firstLevelStatus: string) {
-  return !firstLevelStatus.toLowerCase().includes("close");
+function isOpenStatus(firstLevelStatus: string, statuses: FirstLevelStatus[]) {
+  return !isClosedFirstLevelStatus(firstLevelStatus, statuses);
 }
 
-function getFirstLevelStatus(ticket: TicketEntry, mapping?: ReturnType<typeof useTicketStatusMapping>["data"]) {
-  const code = ticket.ticket.TicketStatus;
-  const text = ticket.ticket.TicketStatusText;
-  const mapped =
-    mapping?.[code]?.firstLevelStatus ??
-    mapping?.[text]?.firstLevelStatus ??
-    mapping?.[code]?.ticketStatusText;
-  return (mapped || text || "Unmapped").trim() || "Unmapped";
-}
-
-function buildMatrix(normalized: NormalizedTicket[], claimType: ClaimType, rows: RowBucket[]) {
-  const claimTickets = normalized.filter(
-    (t) => (t.claimType || "").toLowerCase() === claimType.toLowerCase()
-  );
+function buildMatrix(
+  normalized: NormalizedTicket[],
+  category: TicketTypeCategory,
+  categoryOf: (ticket: NormalizedTicket) => TicketTypeCategory | undefined,
+  rows: RowBucket[],
+  ageInMonths: (createdOn: Date | null) => number,
+  statuses: FirstLevelStatus[]
+) {
+  const claimTickets = normalized.filter((t) => categoryOf(t) === category);
 
   const discoveredStatuses = Array.from(new Set(claimTickets.map((t) => t.firstLevelStatus)));
-  const statusList = [
-    ...STATUS_PRIORITY.filter((priority) => discoveredStatuses.includes(priority)),
-    ...discoveredStatuses
-      .filter((status) => !STATUS_PRIORITY.includes(status as (typeof STATUS_PRIORITY)[number]))
-      .sort((a, b) => a.localeCompare(b)),
-  ];
+  const statusList = orderFirstLevelStatusNames(discoveredStatuses, statuses);
 
   const dataRows = rows.map((row) => {
     let scoped = claimTickets;
 
     if (row.type === "year") {
-      scoped = claimTickets.filter((ticket) => ticket.created.getFullYear() === row.year);
+      scoped = claimTickets.filter((ticket) => ticket.createdOn?.getFullYear() === row.year);
     } else {
       scoped = claimTickets.filter((ticket) => {
-        const age = monthsSince(ticket.created);
+        const age = ageInMonths(ticket.createdOn);
         if (Number.isNaN(age)) return false;
         return age <= row.maxMonths;
       });
@@ -144,8 +76,8 @@ function buildMatrix(normalized: NormalizedTicket[], claimType: ClaimType, rows:
 
     const uniqueOpenNames = new Set(
       scoped
-        .filter((ticket) => ticket.isOpen)
-        .map((ticket) => ticket.base.ticket.TicketName || "")
+        .filter((ticket) => isOpenStatus(ticket.firstLevelStatus, statuses))
+        .map((ticket) => ticket.ticketName)
     ).size;
 
     return { row, total, byStatus, uniqueOpenNames };
@@ -154,6 +86,11 @@ function buildMatrix(normalized: NormalizedTicket[], claimType: ClaimType, rows:
   return { statusList, dataRows };
 }
 
+const PAGE_PARAMS = {
+  asOf: optionalParam(dateParam()),
+  compare: optionalParam(dateParam()),
+};
+
 const ROWS: RowBucket[] = [
   { id: "y2023", label: "Created in 2023", type: "year", year: 2023 },
   { id: "y2024", label: "Created in 2024", type: "year", year: 2024 },
@@ -167,20 +104,32 @@ const ROWS: RowBucket[] = [
 function MatrixTable({
   title,
   subtitle,
+  category,
   tickets,
+  referenceDate,
 }: {
   title: string;
   subtitle: string;
+  /** Ticket type category from the type mapping that the matrix covers. */
+  category: TicketTypeCategory;
   tickets: NormalizedTicket[];
+  /** Ages are measured up to this date: today for live data, the snapshot date otherwise. */
+  referenceDate: Date;
 }) {
-  const { statusList, dataRows } = useMemo(
-    () => buildMatrix(tickets, title as ClaimType, ROWS),
-    [tickets, title]
-  );
-  const statusBarTemplate = STATUS_PRIORITY.map((status) => ({
-    status,
-    palette: getStatusPalette(status),
-  }));
+  const { statuses, colorOf } = useFirstLevelStatuses();
+  const { categoryOf } = useTicketTypeMapping();
+  const { isBusiness, daysBetween, workingDaysPerMonth } = useTimeBasis();
+  const { statusList, dataRows } = useMemo(() => {
+    // In business time a month is the calendar's average number of working days.
+    const ageInMonths = (createdOn: Date | null) =>
+      isBusiness
+        ? createdOn
+          ? Math.floor(daysBetween(createdOn, referenceDate) / workingDaysPerMonth)
+          : Number.NaN
+        : monthsSince(createdOn, referenceDate);
+    return buildMatrix(tickets, category, categoryOf, ROWS, ageInMonths, statuses);
+  }, [category, categoryOf, daysBetween, isBusiness, referenceDate, statuses, tickets, workingDaysPerMonth]);
+  const statusBarTemplate = statuses.map((status) => ({ status: status.name, color: status.color }));
 
   return (
     <Card className="shadow-sm">
@@ -194,12 +143,9 @@ function MatrixTable({
             <TableRow className="bg-muted/50">
               <TableHead className="text-base font-semibold">Created/Openness</TableHead>
               {statusList.map((status) => (
-                <TableHead
-                  key={status}
-                  className={`text-base font-semibold ${getStatusPalette(status).textClass}`}
-                >
+                <TableHead key={status} className="text-base font-semibold text-foreground">
                   <div className="flex items-center gap-2">
-                    <span className={`h-2 w-2 rounded-full ${getStatusPalette(status).dotClass}`} />
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(status) }} />
                     <span>{status || "Unmapped"}</span>
                   </div>
                 </TableHead>
@@ -219,7 +165,8 @@ function MatrixTable({
                       <span className="text-lg font-semibold">{item.count}</span>
                       <Badge
                         variant="secondary"
-                        className={`text-sm px-2.5 py-1 font-semibold border ${getStatusPalette(item.status).badgeClass}`}
+                        className="text-sm px-2.5 py-1 font-semibold border text-foreground"
+                        style={{ backgroundColor: tint(colorOf(item.status)), borderColor: colorOf(item.status) }}
                       >
                         {item.percent}%
                       </Badge>
@@ -236,9 +183,9 @@ function MatrixTable({
                 </TableCell>
                 <TableCell className="align-top w-[340px]">
                   <StatusDistributionBar
-                    segments={statusBarTemplate.map(({ status, palette }) => ({
+                    segments={statusBarTemplate.map(({ status, color }) => ({
                       status,
-                      color: palette.barColor,
+                      color,
                       count: byStatus.find((item) => item.status === status)?.count ?? 0,
                     }))}
                   />
@@ -252,39 +199,39 @@ function MatrixTable({
   );
 }
 
+const VISIBILITY = { applyEmployeeVisibility: false, applyRepairVisibility: false };
+
 export default function AgedClaimReportPage() {
-  const { data, isLoading, error, settings } = useVisibleTickets({
-    applyEmployeeVisibility: false,
-    applyRepairVisibility: false,
+  const [{ asOf, compare: compareTo }, updateParams] = useUrlParams(PAGE_PARAMS);
+  const setAsOf = (date: string | null) => updateParams({ asOf: date });
+  const setCompareTo = (date: string | null) => updateParams({ compare: date });
+  const { data, tickets, isLoading, error, settings, snapshot } = useVisibleTickets({
+    ...VISIBILITY,
+    asOf,
   });
   const mappingQuery = useTicketStatusMapping();
-  const normalizedTickets = useMemo<NormalizedTicket[]>(() => {
-    if (!data) return [];
-    const mapping = mappingQuery.data;
+  const typeMappingQuery = useTicketTypeMapping();
+  const referenceDate = useMemo(() => (snapshot ? parseISO(snapshot.date) : new Date()), [snapshot]);
 
-    return Object.values(data.c4cTickets_test.tickets).map((ticket) => {
-      const created = parseTicketDate(ticket.ticket.CreatedOn);
-      const firstLevelStatus = getFirstLevelStatus(ticket, mapping);
-      const claimType = ticket.ticket.TicketTypeText || "";
-      return {
-        base: ticket,
-        created,
-        firstLevelStatus,
-        isOpen: isOpenStatus(firstLevelStatus),
-        claimType,
-      } satisfies NormalizedTicket;
-    });
-  }, [data, mappingQuery.data]);
+  const snapshotPicker = (
+    <SnapshotPicker
+      asOf={asOf}
+      onAsOfChange={setAsOf}
+      compareTo={compareTo}
+      onCompareToChange={setCompareTo}
+    />
+  );
 
-  if (isLoading || mappingQuery.isLoading) {
+  if (isLoading || mappingQuery.isLoading || typeMappingQuery.isLoading) {
     return (
       <PageLoader
         title="Loading aged claim report"
-        description="Syncing ticket data, status mapping, and visibility preferences for a smooth page entry."
+        description="Syncing ticket data, status and type mappings, and visibility preferences for a smooth page entry."
         tasks={[
           { label: "Ticket dataset", progress: data ? 100 : 0 },
           { label: "Visibility filters", progress: settings ? 100 : 0 },
           { label: "Status mapping", progress: mappingQuery.data ? 100 : 0 },
+          { label: "Type mapping", progress: typeMappingQuery.data ? 100 : 0 },
         ]}
       />
     );
@@ -297,7 +244,12 @@ export default function AgedClaimReportPage() {
         : mappingQuery.error instanceof Error
         ? mappingQuery.error.message
         : "Unknown error";
-    return <div className="p-8 text-destructive">Failed to load aged claim report: {message}</div>;
+    return (
+      <div className="space-y-4">
+        {asOf && snapshotPicker}
+        <div className="p-8 text-destructive">Failed to load aged claim report: {message}</div>
+      </div>
+    );
   }
 
   return (
@@ -305,10 +257,24 @@ export default function AgedClaimReportPage() {
       <div>
         <h2 className="text-3xl font-bold">Aged Claim Report</h2>
         <p className="text-muted-foreground mt-2">
-          Matrix view by CreatedOn year and open-age buckets for In Field and Pre Delivery Warranty claims.
+          Matrix view by CreatedOn year and open-age buckets for ticket types mapped to the in-field warranty
+          and pre-delivery (PDI) categories.
         </p>
       </div>
 
+      <UnmappedStatusBanner />
+
+      {snapshotPicker}
+
+      {compareTo && (
+        <SnapshotComparison
+          compareTo={compareTo}
+          tickets={tickets}
+          currentLabel={snapshot?.date ?? "live"}
+          visibility={VISIBILITY}
+        />
+      )}
+
       <Tabs defaultValue="in-field" className="space-y-4">
         <TabsList className="w-fit border bg-muted/50">
           <TabsTrigger value="in-field" className="text-base font-semibold px-4 py-2">
@@ -323,14 +289,18 @@ export default function AgedClaimReportPage() {
           <MatrixTable
             title="In Field Warranty Claims"
             subtitle="Includes yearly and open-aged buckets with status distribution"
-            tickets={normalizedTickets}
+            category="warranty"
+            tickets={tickets}
+            referenceDate={referenceDate}
           />
         </TabsContent>
         <TabsContent value="pre-delivery">
           <MatrixTable
             title="Pre Delivery Warranty claims"
             subtitle="Includes yearly and open-aged buckets with status distribution"
-            tickets={normalizedTickets}
+            category="pdi"
+            tickets={tickets}
+            referenceDate={referenceDate}
           />
         </TabsContent>
       </Tabs>
@@ -14,59 +14,13 @@ import {
   Area,
 } from "recharts";
 import { useVisibleTickets } from "@/hooks/useVisibleTickets";
-import { parseTimeConsumed } from "@/utils/timeParser";
-import {
-  endOfMonth,
-  format,
-  parse as parseDate,
-  startOfMonth,
-  addMonths,
-  differenceInCalendarDays,
-} from "date-fns";
 import StatCard from "@/components/StatCard";
-import { TicketData } from "@/types/ticket";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
+import { EmployeeOption } from "@/utils/claimVsClosed";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { LiveSyncIndicator } from "@/components/LiveSyncIndicator";
 
-type TicketEntry = TicketData["c4cTickets_test"]["tickets"][string];
-
-type MonthBucket = {
-  createdCount: number;
-  completedCount: number;
-  totalMinutes: number;
-};
-
-type ChartRow = {
-  month: string;
-  created: number;
-  completed: number;
-  averageHours: number;
-};
-
-type DailyAverageRow = {
-  month: string;
-  createdDailyAvg: number;
-  completedDailyAvg: number;
-};
-
-type EmployeeOption = {
-  employeeId: string;
-  employeeName: string;
-  createdCount: number;
-  completedCount: number;
-};
-
-type EmployeeCompletionCard = {
-  employeeId: string;
-  employeeName: string;
-  completedCount: number;
-  averageHours: number;
-};
-
-const END_MONTH = endOfMonth(new Date());
-const START_MONTH = startOfMonth(new Date(2025, 0, 1));
-const RECENT_WINDOW_MONTHS = 3;
-const RECENT_START_MONTH = startOfMonth(addMonths(END_MONTH, -(RECENT_WINDOW_MONTHS - 1)));
 const ALL_ID = "all";
 const AVERAGE_ID = "average";
 const CHART_COLORS = {
@@ -89,87 +43,38 @@ const EMPLOYEE_LINE_COLORS = [
   "#22c55e",
 ];
 
-function parseTicketDate(raw: string) {
-  if (!raw) return new Date("");
-  const isoCandidate = new Date(raw);
-  if (!Number.isNaN(isoCandidate.getTime())) return isoCandidate;
-  return parseDate(raw, "dd/MM/yyyy", new Date());
-}
-
-function getEmployeeDetails(ticketEntry: TicketEntry) {
-  const employee = ticketEntry.roles?.["40"];
-  return {
-    employeeId: employee?.InvolvedPartyBusinessPartnerID ?? "unassigned",
-    employeeName: employee?.InvolvedPartyName ?? "Unassigned",
-  };
-}
-
-function buildMonthSkeleton() {
-  const months: { key: string; label: string; startDate: Date; daysInMonth: number }[] = [];
-  let cursor = START_MONTH;
-
-  while (cursor <= END_MONTH) {
-    const startDate = startOfMonth(cursor);
-    const endDate = endOfMonth(cursor);
-    const daysInMonth = differenceInCalendarDays(endDate, startDate) + 1;
-
-    months.push({
-      key: format(startDate, "yyyy-MM"),
-      label: format(startDate, "MMM yyyy"),
-      startDate,
-      daysInMonth,
-    });
-    cursor = addMonths(cursor, 1);
-  }
-
-  return months;
-}
-
 export default function ClaimVsClosedPage() {
   const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<string[]>([ALL_ID]);
-  const { data, isLoading, error } = useVisibleTickets({
+  const { isLoading, error } = useVisibleTickets({
     applyEmployeeVisibility: true,
     applyRepairVisibility: false,
   });
 
-  const months = useMemo(() => buildMonthSkeleton(), []);
-
-  const employeeOptions = useMemo<EmployeeOption[]>(() => {
-    if (!data) return [];
-
-    const employees = new Map<string, EmployeeOption>();
-
-    Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
-      const { employeeId, employeeName } = getEmployeeDetails(ticketEntry);
-      const consumed = parseTimeConsumed(ticketEntry.ticket.Z1Z8TimeConsumed);
-
-      if (!employees.has(employeeId)) {
-        employees.set(employeeId, {
-          employeeId,
-          employeeName,
-          createdCount: 0,
-          completedCount: 0,
-        });
-      }
-
-      const stats = employees.get(employeeId)!;
-      stats.createdCount += 1;
-      if (consumed.totalMinutes > 0) {
-        stats.completedCount += 1;
-      }
-    });
-
-    return Array.from(employees.values()).sort((a, b) => {
-      if (b.completedCount !== a.completedCount) return b.completedCount - a.completedCount;
-      if (b.createdCount !== a.createdCount) return b.createdCount - a.createdCount;
-      return a.employeeName.localeCompare(b.employeeName);
-    });
-  }, [data]);
-
   const selectedEmployeeFilterIds = useMemo(
     () => selectedEmployeeIds.filter((employeeId) => ![ALL_ID, AVERAGE_ID].includes(employeeId)),
     [selectedEmployeeIds]
   );
+
+  const reportQuery = useTicketAnalytics("claimVsClosed", {
+    applyEmployeeVisibility: true,
+    applyRepairVisibility: false,
+    employeeIds: selectedEmployeeFilterIds,
+  });
+  const report = reportQuery.data;
+  const months = useMemo(() => report?.months ?? [], [report]);
+  const employeeOptions = useMemo<EmployeeOption[]>(() => report?.employeeOptions ?? [], [report]);
+  const overallDailyTrend = useMemo(() => report?.overallDailyTrend ?? [], [report]);
+  const employeeCompletionTrend = useMemo(() => report?.employeeCompletionTrend ?? {}, [report]);
+  const comparisonData = report?.comparisonData ?? [];
+  const employeeCompletionCards = report?.employeeCompletionCards ?? [];
+  const totalCreated = report?.totalCreated ?? 0;
+  const totalCompleted = report?.totalCompleted ?? 0;
+  const averageHoursAcrossRange = report?.averageHoursAcrossRange ?? 0;
+  const recentCreated = report?.recentCreated ?? 0;
+  const recentCompleted = report?.recentCompleted ?? 0;
+  // January 2025 to the current month, unless the filter bar sets a created date range.
+  const rangeLabel = months.length ? `${months[0].label} – ${months[months.length - 1].label}` : "—";
+
   const employeeColorMap = useMemo(
     () =>
       new Map(
@@ -181,234 +86,6 @@ export default function ClaimVsClosedPage() {
     [employeeOptions]
   );
 
-  const scopedData = useMemo<TicketData | undefined>(() => {
-    if (!data) return undefined;
-    if (selectedEmployeeFilterIds.length === 0) return data;
-
-    const filteredTickets = Object.entries(data.c4cTickets_test.tickets).reduce(
-      (acc, [ticketId, ticketEntry]) => {
-        const { employeeId } = getEmployeeDetails(ticketEntry);
-        if (selectedEmployeeFilterIds.includes(employeeId)) {
-          acc[ticketId] = ticketEntry;
-        }
-        return acc;
-      },
-      {} as TicketData["c4cTickets_test"]["tickets"]
-    );
-
-    return {
-      c4cTickets_test: {
-        tickets: filteredTickets,
-      },
-    } satisfies TicketData;
-  }, [data, selectedEmployeeFilterIds]);
-
-  const { comparisonData, totalCreated, totalCompleted, averageHoursAcrossRange, recentCreated, recentCompleted } =
-    useMemo(() => {
-      if (!scopedData) {
-        return {
-          comparisonData: [] as ChartRow[],
-          totalCreated: 0,
-          totalCompleted: 0,
-          averageHoursAcrossRange: 0,
-          recentCreated: 0,
-          recentCompleted: 0,
-        };
-      }
-
-    const buckets = new Map<string, MonthBucket>(
-      months.map((month) => [month.key, { createdCount: 0, completedCount: 0, totalMinutes: 0 }])
-    );
-
-    let totalCreated = 0;
-    let totalCompleted = 0;
-    let totalCompletionMinutes = 0;
-
-    Object.values(scopedData.c4cTickets_test.tickets).forEach((ticketEntry) => {
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      if (Number.isNaN(created.getTime())) return;
-
-      const createdMonth = startOfMonth(created);
-      const createdKey = format(createdMonth, "yyyy-MM");
-      if (createdMonth >= START_MONTH && createdMonth <= END_MONTH && buckets.has(createdKey)) {
-        const bucket = buckets.get(createdKey)!;
-        bucket.createdCount += 1;
-        totalCreated += 1;
-      }
-
-      const consumed = parseTimeConsumed(ticketEntry.ticket.Z1Z8TimeConsumed);
-      if (consumed.totalMinutes <= 0) return;
-
-      const completionDate = new Date(created.getTime() + consumed.totalMinutes * 60 * 1000);
-      if (Number.isNaN(completionDate.getTime())) return;
-
-      const completionMonth = startOfMonth(completionDate);
-      const completionKey = format(completionMonth, "yyyy-MM");
-
-      if (completionMonth < START_MONTH || completionMonth > END_MONTH || !buckets.has(completionKey)) return;
-
-      const bucket = buckets.get(completionKey)!;
-      bucket.completedCount += 1;
-      bucket.totalMinutes += consumed.totalMinutes;
-      totalCompleted += 1;
-      totalCompletionMinutes += consumed.totalMinutes;
-    });
-
-    const comparisonData: ChartRow[] = months.map((month) => {
-      const bucket = buckets.get(month.key)!;
-      const averageMinutes = bucket.completedCount > 0 ? bucket.totalMinutes / bucket.completedCount : 0;
-      return {
-        month: month.label,
-        created: bucket.createdCount,
-        completed: bucket.completedCount,
-        averageHours: Number((averageMinutes / 60).toFixed(1)),
-      };
-    });
-
-    const { recentCreated, recentCompleted } = months.reduce(
-      (acc, month) => {
-        if (month.startDate >= RECENT_START_MONTH) {
-          const bucket = buckets.get(month.key)!;
-          acc.recentCreated += bucket.createdCount;
-          acc.recentCompleted += bucket.completedCount;
-        }
-        return acc;
-      },
-      { recentCreated: 0, recentCompleted: 0 }
-    );
-
-    const averageHoursAcrossRange =
-      totalCompleted > 0 ? Number((totalCompletionMinutes / totalCompleted / 60).toFixed(1)) : 0;
-
-    return {
-      comparisonData,
-      totalCreated,
-      totalCompleted,
-      averageHoursAcrossRange,
-      recentCreated,
-      recentCompleted,
-    };
-  }, [months, scopedData]);
-
-  const overallDailyTrend = useMemo<DailyAverageRow[]>(() => {
-    if (!data) return [];
-
-    const buckets = new Map<string, MonthBucket>(
-      months.map((month) => [month.key, { createdCount: 0, completedCount: 0, totalMinutes: 0 }])
-    );
-
-    Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      if (Number.isNaN(created.getTime())) return;
-
-      const createdMonth = startOfMonth(created);
-      const createdKey = format(createdMonth, "yyyy-MM");
-      if (createdMonth >= START_MONTH && createdMonth <= END_MONTH && buckets.has(createdKey)) {
-        const bucket = buckets.get(createdKey)!;
-        bucket.createdCount += 1;
-      }
-
-      const consumed = parseTimeConsumed(ticketEntry.ticket.Z1Z8TimeConsumed);
-      if (consumed.totalMinutes <= 0) return;
-
-      const completionDate = new Date(created.getTime() + consumed.totalMinutes * 60 * 1000);
-      if (Number.isNaN(completionDate.getTime())) return;
-
-      const completionMonth = startOfMonth(completionDate);
-      const completionKey = format(completionMonth, "yyyy-MM");
-      if (completionMonth < START_MONTH || completionMonth > END_MONTH || !buckets.has(completionKey)) return;
-
-      const bucket = buckets.get(completionKey)!;
-      bucket.completedCount += 1;
-      bucket.totalMinutes += consumed.totalMinutes;
-    });
-
-    return months.map((month) => {
-      const bucket = buckets.get(month.key)!;
-      return {
-        month: month.label,
-        createdDailyAvg: Number((bucket.createdCount / month.daysInMonth).toFixed(2)),
-        completedDailyAvg: Number((bucket.completedCount / month.daysInMonth).toFixed(2)),
-      };
-    });
-  }, [data, months]);
-
-  const employeeCompletionTrend = useMemo(() => {
-    if (!data) return new Map<string, DailyAverageRow[]>();
-
-    const completionCounts = new Map<string, Map<string, number>>();
-
-    Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
-      const consumed = parseTimeConsumed(ticketEntry.ticket.Z1Z8TimeConsumed);
-      if (consumed.totalMinutes <= 0) return;
-
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      if (Number.isNaN(created.getTime())) return;
-
-      const completionDate = new Date(created.getTime() + consumed.totalMinutes * 60 * 1000);
-      if (Number.isNaN(completionDate.getTime())) return;
-
-      const completionMonth = startOfMonth(completionDate);
-      const completionKey = format(completionMonth, "yyyy-MM");
-      if (completionMonth < START_MONTH || completionMonth > END_MONTH) return;
-
-      const { employeeId } = getEmployeeDetails(ticketEntry);
-      if (!completionCounts.has(employeeId)) {
-        completionCounts.set(employeeId, new Map());
-      }
-
-      const monthCounts = completionCounts.get(employeeId)!;
-      monthCounts.set(completionKey, (monthCounts.get(completionKey) ?? 0) + 1);
-    });
-
-    return new Map(
-      Array.from(completionCounts.entries()).map(([employeeId, monthCounts]) => [
-        employeeId,
-        months.map((month) => ({
-          month: month.label,
-          createdDailyAvg: 0,
-          completedDailyAvg: Number(((monthCounts.get(month.key) ?? 0) / month.daysInMonth).toFixed(2)),
-        })),
-      ])
-    );
-  }, [data, months]);
-
-  const employeeCompletionCards = useMemo<EmployeeCompletionCard[]>(() => {
-    if (!scopedData) return [];
-
-    const employees = new Map<string, { completedCount: number; employeeName: string; totalMinutes: number }>();
-
-    Object.values(scopedData.c4cTickets_test.tickets).forEach((ticketEntry) => {
-      const consumed = parseTimeConsumed(ticketEntry.ticket.Z1Z8TimeConsumed);
-      if (consumed.totalMinutes <= 0) return;
-
-      const { employeeId, employeeName } = getEmployeeDetails(ticketEntry);
-      if (!employees.has(employeeId)) {
-        employees.set(employeeId, {
-          completedCount: 0,
-          employeeName,
-          totalMinutes: 0,
-        });
-      }
-
-      const stats = employees.get(employeeId)!;
-      stats.completedCount += 1;
-      stats.totalMinutes += consumed.totalMinutes;
-    });
-
-    return Array.from(employees.entries())
-      .map(([employeeId, stats]) => ({
-        employeeId,
-        employeeName: stats.employeeName,
-        completedCount: stats.completedCount,
-        averageHours:
-          stats.completedCount > 0
-            ? Number((stats.totalMinutes / stats.completedCount / 60).toFixed(1))
-            : 0,
-      }))
-      .sort((a, b) => b.completedCount - a.completedCount || a.employeeName.localeCompare(b.employeeName));
-  }, [scopedData]);
-
   const includeAll = selectedEmployeeIds.includes(ALL_ID);
   const includeAverage = selectedEmployeeIds.includes(AVERAGE_ID);
   const showCreatedLine = includeAll && selectedEmployeeFilterIds.length === 0;
@@ -447,7 +124,7 @@ export default function ClaimVsClosedPage() {
     }
 
     selectedEmployeeFilterIds.forEach((employeeId) => {
-      const series = employeeCompletionTrend.get(employeeId);
+      const series = employeeCompletionTrend[employeeId];
       if (!series) return;
       series.forEach((row, index) => {
         rows[index][`employee-${employeeId}`] = row.completedDailyAvg;
@@ -466,7 +143,7 @@ export default function ClaimVsClosedPage() {
     totalEmployees,
   ]);
 
-  if (isLoading) {
+  if (isLoading || reportQuery.isLoading) {
     return (
       <div className="space-y-6">
         <div>
@@ -501,12 +178,15 @@ export default function ClaimVsClosedPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-3xl font-bold">Claim vs Closed</h2>
-        <p className="text-muted-foreground mt-2">
-          Compare ticket creation with completion months inferred from CreatedOn + Z1Z8 Time Consumed from Jan 2025
-          through today, and track time consumed. Filter by employee to focus all charts and cards.
-        </p>
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Claim vs Closed</h2>
+          <p className="text-muted-foreground mt-2">
+            Compare ticket creation with completion months inferred from CreatedOn + Z1Z8 Time Consumed over{" "}
+            {rangeLabel}, and track time consumed. Filter by employee to focus all charts and cards.
+          </p>
+        </div>
+        <LiveSyncIndicator className="shrink-0" />
       </div>
 
       <Card className="shadow-sm">
@@ -592,9 +272,9 @@ export default function ClaimVsClosedPage() {
 
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <StatCard
-          title="Created (Since Jan 2025)"
+          title="Created"
           value={totalCreated}
-          description="Tickets created from 2025-01 to the current month"
+          description={`Tickets created ${rangeLabel}`}
           icon={Clock}
         />
         <StatCard
@@ -701,8 +381,8 @@ export default function ClaimVsClosedPage() {
         <CardHeader>
           <CardTitle>Monthly Created, Completed &amp; Time</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Full-width view of created vs completed counts with average hours consumed layered on top from Jan 2025
-            through the current month.
+            Full-width view of created vs completed counts with average hours consumed layered on top for{" "}
+            {rangeLabel}.
           </p>
         </CardHeader>
         <CardContent className="h-[460px]">
@@ -1,4 +1,5 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -16,9 +17,40 @@ import { Badge } from "@/components/ui/badge";
 import { useTicketData } from "@/hooks/useTicketData";
 import { PaginationControls } from "@/components/PaginationControls";
 import { PageLoader } from "@/components/PageLoader";
-import { FileText, RefreshCw, Search } from "lucide-react";
-import { getNormalizedSerialId, parseAmountIncludingTax } from "@/utils/dataParser";
-import { TicketEntry } from "@/types/ticket";
+import { LiveSyncIndicator } from "@/components/LiveSyncIndicator";
+import { StatusTimeline } from "@/components/StatusTimeline";
+import { useRecentlyChangedTickets } from "@/hooks/useLiveTicketSync";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, FileText, RefreshCw, Search } from "lucide-react";
+import { getNormalizedSerialId, parseAmountIncludingTax, parseTicketDate } from "@/utils/ticketNormalizer";
+import { useNormalizedTickets } from "@/hooks/useNormalizedTickets";
+import { endOfDay } from "date-fns";
+import { ExplorerColumn, ExplorerViewState, TicketEntry } from "@/types/ticket";
+import { useUrlParams } from "@/hooks/useUrlParams";
+import { useExplorerViews } from "@/hooks/useExplorerViews";
+import {
+  dateParam,
+  enumParam,
+  hasUrlParams,
+  integerParam,
+  listParam,
+  optionalParam,
+  stringParam,
+  UrlParamValues,
+} from "@/lib/urlState";
+import { ExplorerViewBar } from "@/components/ExplorerViewBar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  DEFAULT_EXPLORER_VIEW_STATE,
+  EXPLORER_COLUMN_KEYS,
+  EXPLORER_COLUMNS,
+  EXPLORER_PAGE_SIZES,
+} from "@/utils/explorerViews";
 import {
   Dialog,
   DialogContent,
@@ -41,6 +73,7 @@ type EnrichedTicket = {
   repairName: string;
   employeeName: string;
   amountIncludingTax: string;
+  ticketKey: string;
   entry: TicketEntry;
 };
 
@@ -49,51 +82,135 @@ const normalizeValue = (value: string | null | undefined, fallback: string) => {
   return trimmed === "" ? fallback : trimmed;
 };
 
-const PAGE_SIZE = 40;
+type SortKey = ExplorerColumn | "id";
+
+const SORT_KEYS: SortKey[] = ["id", ...EXPLORER_COLUMN_KEYS];
+
+// The filters are prefixed so they never read or overwrite the global filters' `status`, `from`, … params.
+const PAGE_PARAMS = {
+  q: stringParam(),
+  "x.status": stringParam("all"),
+  "x.type": stringParam("all"),
+  "x.dealer": stringParam("all"),
+  "x.repairer": stringParam("all"),
+  "x.employee": stringParam("all"),
+  "x.from": dateParam(),
+  "x.to": dateParam(),
+  cols: listParam(EXPLORER_COLUMN_KEYS, DEFAULT_EXPLORER_VIEW_STATE.columns),
+  sort: optionalParam(enumParam(SORT_KEYS, "id")),
+  dir: enumParam(["asc", "desc"], DEFAULT_EXPLORER_VIEW_STATE.sortDirection),
+  size: integerParam(DEFAULT_EXPLORER_VIEW_STATE.pageSize),
+  page: integerParam(1),
+  /** Key of the ticket open in the detail dialog. */
+  ticket: optionalParam(),
+};
+
+type PageParams = UrlParamValues<typeof PAGE_PARAMS>;
+
+const toViewState = (params: PageParams): ExplorerViewState => ({
+  search: params.q,
+  status: params["x.status"],
+  type: params["x.type"],
+  dealerId: params["x.dealer"],
+  repairId: params["x.repairer"],
+  employeeName: params["x.employee"],
+  createdFrom: params["x.from"],
+  createdTo: params["x.to"],
+  columns: params.cols,
+  sortBy: params.sort,
+  sortDirection: params.dir,
+  pageSize: params.size,
+});
+
+const fromViewState = (state: ExplorerViewState): Partial<PageParams> => ({
+  q: state.search,
+  "x.status": state.status,
+  "x.type": state.type,
+  "x.dealer": state.dealerId,
+  "x.repairer": state.repairId,
+  "x.employee": state.employeeName,
+  "x.from": state.createdFrom,
+  "x.to": state.createdTo,
+  cols: state.columns,
+  sort: state.sortBy,
+  dir: state.sortDirection,
+  size: state.pageSize,
+  page: 1,
+});
+
+const sortValue = (ticket: EnrichedTicket, key: SortKey): string | number => {
+  switch (key) {
+    case "dealer":
+      return ticket.dealerName;
+    case "repair":
+      return ticket.repairName;
+    case "employee":
+      return ticket.employeeName;
+    case "createdOn":
+      return ticket.createdDate?.getTime() ?? 0;
+    case "amount":
+      return parseAmountIncludingTax(ticket.amountIncludingTax) ?? 0;
+    default:
+      return ticket[key];
+  }
+};
 
 export default function DataExplorerPage() {
   const ticketQuery = useTicketData();
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [typeFilter, setTypeFilter] = useState<string>("all");
-  const [dealerFilter, setDealerFilter] = useState<string>("all");
-  const [repairFilter, setRepairFilter] = useState<string>("all");
-  const [employeeFilter, setEmployeeFilter] = useState<string>("all");
-  const [startDate, setStartDate] = useState<string>("");
-  const [endDate, setEndDate] = useState<string>("");
-  const [page, setPage] = useState(1);
-  const [selectedTicket, setSelectedTicket] = useState<TicketEntry | null>(null);
-  const [isDetailOpen, setIsDetailOpen] = useState(false);
-
-  const tickets = useMemo<EnrichedTicket[]>(() => {
-    if (!ticketQuery.data) return [];
-    return Object.values(ticketQuery.data.c4cTickets_test.tickets).map((entry) => {
-      const dealer = entry.roles?.["1001"];
-      const repair = entry.roles?.["43"];
-      const employee = entry.roles?.["40"];
-      const createdOn = entry.ticket.CreatedOn?.trim?.() ?? entry.ticket.CreatedOn;
-      const createdDate = new Date(createdOn);
-      const normalizedCreated = Number.isNaN(createdDate.getTime()) ? null : createdDate;
-      const normalizedSerialId = getNormalizedSerialId(entry);
-
-      return {
-        id: normalizeValue(entry.ticket.TicketID, "unknown"),
-        name: normalizeValue(entry.ticket.TicketName, "(no name)"),
-        status: normalizeValue(entry.ticket.TicketStatusText, "Unknown"),
-        type: normalizeValue(entry.ticket.TicketTypeText, "Unknown"),
-        createdOn: createdOn ?? "",
-        createdDate: normalizedCreated,
-        chassis: normalizedSerialId,
-        dealerId: normalizeValue(dealer?.InvolvedPartyBusinessPartnerID, "unknown"),
-        dealerName: normalizeValue(dealer?.RepairerBusinessNameID, "Unknown dealer"),
-        repairId: normalizeValue(repair?.InvolvedPartyBusinessPartnerID, "no-repair"),
-        repairName: normalizeValue(repair?.RepairerBusinessNameID, "No repair assigned"),
-        employeeName: normalizeValue(employee?.InvolvedPartyName, "Unassigned"),
-        amountIncludingTax: normalizeValue(entry.ticket.AmountIncludingTax, "0"),
-        entry,
-      };
-    });
-  }, [ticketQuery.data]);
+  const recentlyChanged = useRecentlyChangedTickets();
+  const [params, updateParams] = useUrlParams(PAGE_PARAMS);
+  const {
+    q: search,
+    "x.status": statusFilter,
+    "x.type": typeFilter,
+    "x.dealer": dealerFilter,
+    "x.repairer": repairFilter,
+    "x.employee": employeeFilter,
+    "x.from": startDate,
+    "x.to": endDate,
+  } = params;
+  const setPage = (next: number) => updateParams({ page: next });
+  const viewState = useMemo(() => toViewState(params), [params]);
+  const applyView = (state: ExplorerViewState) => updateParams(fromViewState(state));
+  const visibleColumns = new Set(params.cols);
+
+  // Open with the user's default view, unless the link already says what to show.
+  const { defaultView, isLoading: isLoadingViews } = useExplorerViews();
+  const [searchParams] = useSearchParams();
+  const checkedDefaultView = useRef(false);
+  useEffect(() => {
+    if (checkedDefaultView.current || isLoadingViews) return;
+    checkedDefaultView.current = true;
+    if (defaultView && !hasUrlParams(PAGE_PARAMS, searchParams)) {
+      updateParams(fromViewState(defaultView.state), { replace: true });
+    }
+  }, [defaultView, isLoadingViews, searchParams, updateParams]);
+  // Kept in the URL by key, so a shared link opens the same ticket.
+  const selectedTicket: TicketEntry | null = (params.ticket && ticketQuery.data?.tickets[params.ticket]) || null;
+
+  const normalizedTickets = useNormalizedTickets(ticketQuery.data);
+
+  const tickets = useMemo<EnrichedTicket[]>(
+    () =>
+      normalizedTickets.map((ticket) => ({
+        id: normalizeValue(ticket.ticketId, "unknown"),
+        name: normalizeValue(ticket.ticketName, "(no name)"),
+        status: normalizeValue(ticket.statusText, "Unknown"),
+        type: normalizeValue(ticket.typeText, "Unknown"),
+        createdOn: ticket.entry.ticket.CreatedOn?.trim?.() ?? "",
+        createdDate: ticket.createdOn,
+        chassis: ticket.serialId,
+        dealerId: ticket.dealer.id,
+        dealerName: ticket.dealer.name,
+        repairId: ticket.repair.id,
+        repairName: ticket.repair.name,
+        employeeName: ticket.employee.name,
+        amountIncludingTax: normalizeValue(ticket.entry.ticket.AmountIncludingTax, "0"),
+        ticketKey: ticket.key,
+        entry: ticket.entry,
+      })),
+    [normalizedTickets]
+  );
 
   const statusOptions = useMemo(
     () => Array.from(new Set(tickets.map((t) => t.status))).sort(),
@@ -128,8 +245,9 @@ export default function DataExplorerPage() {
 
   const filtered = useMemo(() => {
     const searchText = search.trim().toLowerCase();
-    const start = startDate ? new Date(startDate) : null;
-    const end = endDate ? new Date(endDate) : null;
+    const start = parseTicketDate(startDate);
+    const parsedEnd = parseTicketDate(endDate);
+    const end = parsedEnd ? endOfDay(parsedEnd) : null;
 
     return tickets.filter((ticket) => {
       if (statusFilter !== "all" && ticket.status !== statusFilter) return false;
@@ -170,25 +288,75 @@ export default function DataExplorerPage() {
     typeFilter,
   ]);
 
+  const sorted = useMemo(() => {
+    if (!params.sort) return filtered;
+    const key = params.sort;
+    const direction = params.dir === "asc" ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const left = sortValue(a, key);
+      const right = sortValue(b, key);
+      const order =
+        typeof left === "number" && typeof right === "number"
+          ? left - right
+          : String(left).localeCompare(String(right), undefined, { numeric: true });
+      return order * direction;
+    });
+  }, [filtered, params.dir, params.sort]);
+
+  const pageSize = params.size;
+  const page = Math.min(params.page, Math.max(1, Math.ceil(sorted.length / pageSize)));
   const paginated = useMemo(() => {
-    const start = (page - 1) * PAGE_SIZE;
-    return filtered.slice(start, start + PAGE_SIZE);
-  }, [filtered, page]);
-
-  const handleReset = () => {
-    setSearch("");
-    setStatusFilter("all");
-    setTypeFilter("all");
-    setDealerFilter("all");
-    setRepairFilter("all");
-    setEmployeeFilter("all");
-    setStartDate("");
-    setEndDate("");
-    setPage(1);
+    const start = (page - 1) * pageSize;
+    return sorted.slice(start, start + pageSize);
+  }, [page, pageSize, sorted]);
+
+  // Ascending, then descending, then back to the dataset order.
+  const toggleSort = (key: SortKey) => {
+    if (params.sort !== key) {
+      updateParams({ sort: key, dir: "asc", page: 1 });
+    } else if (params.dir === "asc") {
+      updateParams({ dir: "desc", page: 1 });
+    } else {
+      updateParams({ sort: null, dir: "asc", page: 1 });
+    }
+  };
+
+  const toggleColumn = (column: ExplorerColumn, visible: boolean) =>
+    updateParams({
+      cols: EXPLORER_COLUMN_KEYS.filter((key) => (key === column ? visible : visibleColumns.has(key))),
+    });
+
+  const sortableHead = (key: SortKey, label: string, className?: string) => {
+    const SortIcon = params.sort !== key ? ArrowUpDown : params.dir === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead key={key} className={className}>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          onClick={() => toggleSort(key)}
+        >
+          {label}
+          <SortIcon className={cn("h-3.5 w-3.5", params.sort !== key && "opacity-40")} />
+        </button>
+      </TableHead>
+    );
   };
 
+  const handleReset = () =>
+    updateParams({
+      q: "",
+      "x.status": "all",
+      "x.type": "all",
+      "x.dealer": "all",
+      "x.repairer": "all",
+      "x.employee": "all",
+      "x.from": "",
+      "x.to": "",
+      page: 1,
+    });
+
   const handleCopy = () => {
-    const payload = filtered.map(({ createdDate, entry, ...rest }) => rest);
+    const payload = filtered.map(({ createdDate, entry, ticketKey, ...rest }) => rest);
     navigator.clipboard
       .writeText(JSON.stringify(payload, null, 2))
       .catch(() => {
@@ -213,13 +381,18 @@ export default function DataExplorerPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-3xl font-bold">Data Explorer</h2>
-        <p className="text-muted-foreground mt-2">
-          Full-ticket audit with multi-dimensional filters, fuzzy search, and export-ready list.
-        </p>
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Data Explorer</h2>
+          <p className="text-muted-foreground mt-2">
+            Full-ticket audit with multi-dimensional filters, fuzzy search, and export-ready list.
+          </p>
+        </div>
+        <LiveSyncIndicator className="shrink-0" />
       </div>
 
+      <ExplorerViewBar state={viewState} onApply={applyView} />
+
       <Card className="shadow-sm">
         <CardHeader>
           <CardTitle>Filters</CardTitle>
@@ -234,10 +407,7 @@ export default function DataExplorerPage() {
               <Input
                 id="search"
                 value={search}
-                onChange={(event) => {
-                  setSearch(event.target.value);
-                  setPage(1);
-                }}
+                onChange={(event) => updateParams({ q: event.target.value, page: 1 }, { replace: true })}
                 placeholder="Ticket ID, name, chassis, dealer, repair..."
               />
               <Button variant="outline" size="icon">
@@ -250,10 +420,7 @@ export default function DataExplorerPage() {
             <Label>Status</Label>
             <Select
               value={statusFilter}
-              onValueChange={(value) => {
-                setStatusFilter(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ "x.status": value, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="All statuses" />
@@ -273,10 +440,7 @@ export default function DataExplorerPage() {
             <Label>Type</Label>
             <Select
               value={typeFilter}
-              onValueChange={(value) => {
-                setTypeFilter(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ "x.type": value, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="All types" />
@@ -296,10 +460,7 @@ export default function DataExplorerPage() {
             <Label>Dealer</Label>
             <Select
               value={dealerFilter}
-              onValueChange={(value) => {
-                setDealerFilter(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ "x.dealer": value, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="All dealers" />
@@ -319,10 +480,7 @@ export default function DataExplorerPage() {
             <Label>Repair</Label>
             <Select
               value={repairFilter}
-              onValueChange={(value) => {
-                setRepairFilter(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ "x.repairer": value, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="All repairs" />
@@ -342,10 +500,7 @@ export default function DataExplorerPage() {
             <Label>Employee</Label>
             <Select
               value={employeeFilter}
-              onValueChange={(value) => {
-                setEmployeeFilter(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ "x.employee": value, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder="All employees" />
@@ -367,10 +522,7 @@ export default function DataExplorerPage() {
               id="start-date"
               type="date"
               value={startDate}
-              onChange={(event) => {
-                setStartDate(event.target.value);
-                setPage(1);
-              }}
+              onChange={(event) => updateParams({ "x.from": event.target.value, page: 1 })}
             />
           </div>
 
@@ -380,10 +532,7 @@ export default function DataExplorerPage() {
               id="end-date"
               type="date"
               value={endDate}
-              onChange={(event) => {
-                setEndDate(event.target.value);
-                setPage(1);
-              }}
+              onChange={(event) => updateParams({ "x.to": event.target.value, page: 1 })}
             />
           </div>
 
@@ -447,65 +596,111 @@ export default function DataExplorerPage() {
       </div>
 
       <Card className="shadow-sm">
-        <CardHeader>
-          <CardTitle>Ticket list</CardTitle>
-          <p className="text-sm text-muted-foreground">
-            Paginated view of every ticket that matches the current filters.
-          </p>
+        <CardHeader className="flex flex-col gap-3 space-y-0 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Ticket list</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Paginated view of every ticket that matches the current filters. Click a header to sort.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {EXPLORER_COLUMN_KEYS.map((column) => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={visibleColumns.has(column)}
+                    // Keep at least one column next to the ticket id.
+                    disabled={visibleColumns.has(column) && visibleColumns.size === 1}
+                    onSelect={(event) => event.preventDefault()}
+                    onCheckedChange={(checked) => toggleColumn(column, checked)}
+                  >
+                    {EXPLORER_COLUMNS[column]}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Select value={String(pageSize)} onValueChange={(value) => updateParams({ size: Number(value), page: 1 })}>
+              <SelectTrigger className="h-9 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...EXPLORER_PAGE_SIZES, pageSize]))
+                  .sort((a, b) => a - b)
+                  .map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size} per page
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead className="w-[140px]">Ticket ID</TableHead>
-                <TableHead>Name</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Type</TableHead>
-                <TableHead>Dealer</TableHead>
-                <TableHead>Repair</TableHead>
-                <TableHead>Employee</TableHead>
-                <TableHead>Chassis</TableHead>
-                <TableHead>Created On</TableHead>
+                {sortableHead("id", "Ticket ID", "w-[140px]")}
+                {params.cols.map((column) => sortableHead(column, EXPLORER_COLUMNS[column]))}
               </TableRow>
             </TableHeader>
             <TableBody>
               {paginated.map((ticket) => (
                 <TableRow
                   key={ticket.id}
-                  className="hover:bg-muted/50 cursor-pointer"
-                  onClick={() => {
-                    setSelectedTicket(ticket.entry);
-                    setIsDetailOpen(true);
-                  }}
+                  className={cn(
+                    "hover:bg-muted/50 cursor-pointer transition-colors",
+                    recentlyChanged[ticket.ticketKey] && "bg-amber-50 hover:bg-amber-100"
+                  )}
+                  onClick={() => updateParams({ ticket: ticket.ticketKey })}
                 >
                   <TableCell className="font-medium">{ticket.id}</TableCell>
-                  <TableCell className="max-w-[220px]">
-                    <p className="font-semibold truncate">{ticket.name}</p>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="secondary">{ticket.status}</Badge>
-                  </TableCell>
-                  <TableCell>{ticket.type}</TableCell>
-                  <TableCell>
-                    <div className="flex flex-col">
-                      <span className="font-medium">{ticket.dealerName}</span>
-                      <span className="text-xs text-muted-foreground">{ticket.dealerId}</span>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex flex-col">
-                      <span className="font-medium">{ticket.repairName}</span>
-                      <span className="text-xs text-muted-foreground">{ticket.repairId}</span>
-                    </div>
-                  </TableCell>
-                  <TableCell>{ticket.employeeName}</TableCell>
-                  <TableCell className="font-mono text-sm">{ticket.chassis || "—"}</TableCell>
-                  <TableCell>{ticket.createdOn}</TableCell>
+                  {visibleColumns.has("name") && (
+                    <TableCell className="max-w-[220px]">
+                      <p className="font-semibold truncate">{ticket.name}</p>
+                    </TableCell>
+                  )}
+                  {visibleColumns.has("status") && (
+                    <TableCell>
+                      <Badge variant="secondary">{ticket.status}</Badge>
+                    </TableCell>
+                  )}
+                  {visibleColumns.has("type") && <TableCell>{ticket.type}</TableCell>}
+                  {visibleColumns.has("dealer") && (
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{ticket.dealerName}</span>
+                        <span className="text-xs text-muted-foreground">{ticket.dealerId}</span>
+                      </div>
+                    </TableCell>
+                  )}
+                  {visibleColumns.has("repair") && (
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{ticket.repairName}</span>
+                        <span className="text-xs text-muted-foreground">{ticket.repairId}</span>
+                      </div>
+                    </TableCell>
+                  )}
+                  {visibleColumns.has("employee") && <TableCell>{ticket.employeeName}</TableCell>}
+                  {visibleColumns.has("chassis") && (
+                    <TableCell className="font-mono text-sm">{ticket.chassis || "—"}</TableCell>
+                  )}
+                  {visibleColumns.has("createdOn") && <TableCell>{ticket.createdOn}</TableCell>}
+                  {visibleColumns.has("amount") && (
+                    <TableCell className="text-right tabular-nums">{formatAmount(ticket.amountIncludingTax)}</TableCell>
+                  )}
                 </TableRow>
               ))}
               {paginated.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={9} className="text-center text-muted-foreground py-6">
+                  <TableCell colSpan={params.cols.length + 1} className="text-center text-muted-foreground py-6">
                     No tickets match the current filters.
                   </TableCell>
                 </TableRow>
@@ -516,19 +711,16 @@ export default function DataExplorerPage() {
       </Card>
 
       <PaginationControls
-        totalItems={filtered.length}
-        pageSize={PAGE_SIZE}
+        totalItems={sorted.length}
+        pageSize={pageSize}
         page={page}
         onPageChange={setPage}
       />
 
       <Dialog
-        open={isDetailOpen}
+        open={!!selectedTicket}
         onOpenChange={(open) => {
-          setIsDetailOpen(open);
-          if (!open) {
-            setSelectedTicket(null);
-          }
+          if (!open) updateParams({ ticket: null });
         }}
       >
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -583,6 +775,18 @@ export default function DataExplorerPage() {
                 </CardContent>
               </Card>
 
+              <Card>
+                <CardHeader>
+                  <CardTitle>Status history</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Status changes observed by each sync, with their first-level mapping at the time.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <StatusTimeline ticketId={selectedTicket.ticket.TicketID} />
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle>Ticket fields</CardTitle>
@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, ClipboardList } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import StatCard from "@/components/StatCard";
+import { PageLoader } from "@/components/PageLoader";
+import { PaginationControls } from "@/components/PaginationControls";
+import { cn } from "@/lib/utils";
+import { useTicketDataQuality } from "@/hooks/useTicketDataQuality";
+import { TICKET_ISSUE_KINDS, TICKET_ISSUE_LABELS } from "@/utils/ticketValidation";
+import { TicketIssueKind, TicketQualityRecord } from "@/types/ticket";
+
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value === "" ? '""' : value;
+  return JSON.stringify(value);
+};
+
+export default function DataQualityPage() {
+  const { data, report, isLoading, error } = useTicketDataQuality();
+  const [kindFilter, setKindFilter] = useState<TicketIssueKind | "all">("all");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedRecord, setSelectedRecord] = useState<TicketQualityRecord | null>(null);
+
+  const filtered = useMemo(() => {
+    if (!report) return [];
+    const term = search.trim().toLowerCase();
+    return report.ticketsWithIssues.filter((record) => {
+      if (kindFilter !== "all" && !record.issues.some((issue) => issue.kind === kindFilter)) {
+        return false;
+      }
+      if (!term) return true;
+      return (
+        record.ticketId.toLowerCase().includes(term) ||
+        record.ticketName.toLowerCase().includes(term) ||
+        record.ticketKey.toLowerCase().includes(term)
+      );
+    });
+  }, [kindFilter, report, search]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [kindFilter, search]);
+
+  const pageRows = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const selectedEntry = selectedRecord ? data?.tickets[selectedRecord.ticketKey] : undefined;
+
+  if (isLoading) {
+    return (
+      <PageLoader
+        title="Checking ticket data quality"
+        description="Loading the ticket dataset and validating every entry."
+        tasks={[{ label: "Ticket dataset", progress: data ? 100 : 0 }]}
+      />
+    );
+  }
+
+  if (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return <div className="p-8 text-destructive">Failed to load ticket data: {message}</div>;
+  }
+
+  if (!report) {
+    return <div className="p-8">No ticket data available</div>;
+  }
+
+  const cleanTickets = report.checkedTickets - report.ticketsWithIssues.length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Data Quality</h2>
+        <p className="text-muted-foreground mt-2">
+          Every ticket is validated against the expected schema after loading. Pick an issue type to drill
+          into the affected tickets.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard title="Tickets checked" value={report.checkedTickets} icon={ClipboardList} />
+        <StatCard
+          title="Tickets with issues"
+          value={report.ticketsWithIssues.length}
+          description={
+            report.checkedTickets
+              ? `${((report.ticketsWithIssues.length / report.checkedTickets) * 100).toFixed(1)}% of the dataset`
+              : undefined
+          }
+          icon={AlertTriangle}
+        />
+        <StatCard title="Clean tickets" value={cleanTickets} icon={CheckCircle2} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issues by type</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {TICKET_ISSUE_KINDS.map((kind) => {
+            const count = report.counts[kind];
+            const isActive = kindFilter === kind;
+            return (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setKindFilter(isActive ? "all" : kind)}
+                className={cn(
+                  "rounded-lg border p-4 text-left transition-colors hover:bg-slate-50",
+                  isActive && "border-slate-900 bg-slate-50"
+                )}
+              >
+                <p className="text-sm text-muted-foreground">{TICKET_ISSUE_LABELS[kind]}</p>
+                <p className={cn("text-2xl font-bold", count > 0 ? "text-amber-600" : "text-emerald-600")}>
+                  {count}
+                </p>
+              </button>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <CardTitle>Affected tickets</CardTitle>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search ticket ID or name"
+              className="sm:w-64"
+            />
+            <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as TicketIssueKind | "all")}>
+              <SelectTrigger className="sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All issue types</SelectItem>
+                {TICKET_ISSUE_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {TICKET_ISSUE_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[140px]">Ticket ID</TableHead>
+                <TableHead>Ticket name</TableHead>
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map((record) => (
+                <TableRow
+                  key={record.ticketKey}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedRecord(record)}
+                >
+                  <TableCell className="font-mono font-medium">{record.ticketId}</TableCell>
+                  <TableCell className="text-muted-foreground">{record.ticketName || "(no name)"}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {Array.from(new Set(record.issues.map((issue) => issue.kind))).map((kind) => (
+                        <Badge
+                          key={kind}
+                          variant="secondary"
+                          className={cn(kind === kindFilter && "bg-amber-100 text-amber-800")}
+                        >
+                          {TICKET_ISSUE_LABELS[kind]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {pageRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    No tickets match the current filters.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <PaginationControls totalItems={filtered.length} pageSize={PAGE_SIZE} page={page} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedRecord} onOpenChange={(open) => !open && setSelectedRecord(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedRecord
+                ? `${selectedRecord.ticketName || "(no name)"} — #${selectedRecord.ticketId}`
+                : "Ticket issues"}
+            </DialogTitle>
+            <DialogDescription>Every validation issue found on this ticket, with the offending value.</DialogDescription>
+          </DialogHeader>
+
+          {selectedRecord && (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedRecord.issues.map((issue, index) => (
+                    <TableRow key={`${issue.field}-${index}`}>
+                      <TableCell>
+                        <p className="font-medium">{TICKET_ISSUE_LABELS[issue.kind]}</p>
+                        <p className="text-xs text-muted-foreground">{issue.message}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{issue.field}</TableCell>
+                      <TableCell className="font-mono text-xs">{formatValue(issue.value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {selectedEntry && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Raw entry</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <pre className="max-h-80 overflow-auto rounded-md bg-slate-950 p-4 text-xs text-slate-100">
+                      {JSON.stringify(selectedEntry, null, 2)}
+                    </pre>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
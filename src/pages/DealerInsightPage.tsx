@@ -1,7 +1,7 @@
-import { useMemo, useState } from "react";
+import { useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { DealerStats, TicketData, TicketEntry } from "@/types/ticket";
-import { analyzeDealers, getNormalizedSerialId, parseAmountIncludingTax } from "@/utils/dataParser";
+import { DealerStats } from "@/types/ticket";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
 import { useVisibleTickets } from "@/hooks/useVisibleTickets";
 import StatCard from "@/components/StatCard";
 import { ArrowLeft, Clock, FileText, TrendingUp } from "lucide-react";
@@ -20,35 +20,21 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { formatTimeBreakdown } from "@/utils/timeParser";
-import { Input } from "@/components/ui/input";
 import { PageLoader } from "@/components/PageLoader";
 
 export default function DealerInsightPage() {
   const { dealerId } = useParams<{ dealerId: string }>();
   const navigate = useNavigate();
-  const { data, isLoading, error, settings } = useVisibleTickets();
+  const { data, tickets, isLoading, error, settings } = useVisibleTickets({ ignoreGlobalFilters: ["dealer"] });
 
-  const dealers = useMemo<DealerStats[]>(() => {
-    if (!data) return [];
-    return analyzeDealers(data);
-  }, [data]);
-
-  const tickets = useMemo(
-    () => (data ? Object.values(data.c4cTickets_test.tickets) : []),
-    [data]
-  );
-
-  const [startMonth, setStartMonth] = useState("2025-01");
+  const dealersQuery = useTicketAnalytics("dealers", { ignoreGlobalFilters: ["dealer"] });
+  const dealers = useMemo<DealerStats[]>(() => dealersQuery.data ?? [], [dealersQuery.data]);
 
   const selectedDealer = dealers.find((d) => d.dealerId === dealerId);
 
   const dealerTickets = useMemo(() => {
-    if (!dealerId) return [] as TicketEntry[];
-    return tickets.filter((ticketEntry) => {
-      const dealer = ticketEntry.roles?.["1001"];
-      const id = dealer?.InvolvedPartyBusinessPartnerID ?? "unknown";
-      return id === dealerId;
-    });
+    if (!dealerId) return [];
+    return tickets.filter((ticket) => ticket.dealer.id === dealerId);
   }, [dealerId, tickets]);
 
   const amountDistribution = useMemo(() => {
@@ -59,8 +45,8 @@ export default function DealerInsightPage() {
       { label: "5k+", min: 5000, max: Infinity, count: 0 },
     ];
 
-    dealerTickets.forEach((ticketEntry) => {
-      const amount = parseAmountIncludingTax(ticketEntry.ticket.AmountIncludingTax) ?? 0;
+    dealerTickets.forEach((ticket) => {
+      const amount = ticket.amount ?? 0;
       const bucket = buckets.find((b) => amount >= b.min && amount < b.max);
       if (bucket) bucket.count += 1;
     });
@@ -70,8 +56,8 @@ export default function DealerInsightPage() {
 
   const chassisDuplicateDistribution = useMemo(() => {
     const counts: Record<string, number> = {};
-    dealerTickets.forEach((ticketEntry) => {
-      const chassis = getNormalizedSerialId(ticketEntry);
+    dealerTickets.forEach((ticket) => {
+      const chassis = ticket.serialId;
       if (!chassis) return;
       counts[chassis] = (counts[chassis] || 0) + 1;
     });
@@ -92,8 +78,8 @@ export default function DealerInsightPage() {
 
   const statusCounts = useMemo(() => {
     const summary: Record<string, number> = {};
-    dealerTickets.forEach((ticketEntry) => {
-      const status = ticketEntry.ticket.TicketStatusText || "Unknown";
+    dealerTickets.forEach((ticket) => {
+      const status = ticket.statusText || "Unknown";
       summary[status] = (summary[status] || 0) + 1;
     });
     return Object.entries(summary)
@@ -103,27 +89,24 @@ export default function DealerInsightPage() {
 
   const ticketTrend = useMemo(() => {
     const timeline: Record<string, number> = {};
-    dealerTickets.forEach((ticketEntry) => {
-      const createdOn = ticketEntry.ticket.CreatedOn;
-      const date = new Date(createdOn);
-      if (Number.isNaN(date.getTime())) return;
+    dealerTickets.forEach((ticket) => {
+      const date = ticket.createdOn;
+      if (!date) return;
       const label = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
       timeline[label] = (timeline[label] || 0) + 1;
     });
 
-    const sorted = Object.entries(timeline)
+    return Object.entries(timeline)
       .sort(([a], [b]) => (a > b ? 1 : -1))
       .map(([month, value]) => ({ month, value }));
-
-    return sorted.filter(({ month }) => month >= startMonth);
-  }, [dealerTickets, startMonth]);
+  }, [dealerTickets]);
 
   if (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     return <div className="p-8 text-destructive">Failed to load dealership data: {message}</div>;
   }
 
-  if (isLoading) {
+  if (isLoading || dealersQuery.isLoading) {
     return (
       <PageLoader
         title="Loading dealer insights"
@@ -257,21 +240,9 @@ export default function DealerInsightPage() {
         </Card>
 
         <Card className="md:col-span-2 shadow-sm">
-          <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-            <div>
-              <CardTitle>Ticket CreatedOn Trend</CardTitle>
-              <p className="text-sm text-muted-foreground">Default start at 2025-01; adjust as needed</p>
-            </div>
-            <div className="flex items-center gap-3">
-              <label className="text-sm text-muted-foreground" htmlFor="trend-start">Start month</label>
-              <Input
-                id="trend-start"
-                type="month"
-                value={startMonth}
-                onChange={(e) => setStartMonth(e.target.value)}
-                className="w-40"
-              />
-            </div>
+          <CardHeader>
+            <CardTitle>Ticket CreatedOn Trend</CardTitle>
+            <p className="text-sm text-muted-foreground">Follows the created date range in the filter bar</p>
           </CardHeader>
           <CardContent className="h-[360px]">
             {ticketTrend.length > 0 ? (
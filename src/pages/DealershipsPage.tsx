@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
-import { DealerStats, TicketData } from "@/types/ticket";
-import { analyzeDealers } from "@/utils/dataParser";
+import { DealerStats, NormalizedTicket } from "@/types/ticket";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
 import StatCard from "@/components/StatCard";
 import { ArrowUpRight, Building2, Clock, FileText, TrendingUp } from "lucide-react";
 import {
@@ -19,19 +19,27 @@ import { PaginationControls } from "@/components/PaginationControls";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { PageLoader } from "@/components/PageLoader";
+import { useGlobalFilterStore } from "@/hooks/useGlobalFilters";
+import { globalFiltersSearch } from "@/utils/globalFilters";
 
 const COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6", "#EC4899"];
 const PAGE_SIZE = 50;
 
 export default function DealershipsPage() {
-  const { data, isLoading, error, settings } = useVisibleTickets();
+  const { data, tickets, isLoading, error, settings } = useVisibleTickets();
   const [hideBlankDealers, setHideBlankDealers] = useState(true);
   const [page, setPage] = useState(1);
+  // The insights window opens with the same global filters, like the sidebar links.
+  const filterSearch = globalFiltersSearch(useGlobalFilterStore((state) => state.filters));
+  const openDealerInsights = (dealerId: string) =>
+    window.open(
+      `/dealer-insights/${encodeURIComponent(dealerId)}${filterSearch ? `?${filterSearch}` : ""}`,
+      "_blank",
+      "noopener,noreferrer,width=1400,height=900"
+    );
 
-  const dealers = useMemo<DealerStats[]>(() => {
-    if (!data) return [];
-    return analyzeDealers(data);
-  }, [data]);
+  const dealersQuery = useTicketAnalytics("dealers");
+  const dealers = useMemo<DealerStats[]>(() => dealersQuery.data ?? [], [dealersQuery.data]);
 
   const filteredDealers = useMemo(() => {
     if (!hideBlankDealers) return dealers;
@@ -46,11 +54,6 @@ export default function DealershipsPage() {
     setPage(1);
   }, [filteredDealers.length]);
 
-  const tickets = useMemo(
-    () => (data ? Object.values(data.c4cTickets_test.tickets) : []),
-    [data]
-  );
-
   const chartData = useMemo(() => {
     const ticketTypeData: Record<string, number> = {};
     filteredDealers.forEach((dealer) => {
@@ -71,13 +74,10 @@ export default function DealershipsPage() {
   }, [filteredDealers, page]);
 
   const dealerTicketMap = useMemo(() => {
-    type TicketEntry = TicketData["c4cTickets_test"]["tickets"][string];
-    const map: Record<string, TicketEntry[]> = {};
-    tickets.forEach((ticketEntry) => {
-      const dealer = ticketEntry.roles?.["1001"];
-      const dealerId = dealer?.InvolvedPartyBusinessPartnerID ?? "unknown";
-      map[dealerId] = map[dealerId] ?? [];
-      map[dealerId].push(ticketEntry);
+    const map: Record<string, NormalizedTicket[]> = {};
+    tickets.forEach((ticket) => {
+      map[ticket.dealer.id] = map[ticket.dealer.id] ?? [];
+      map[ticket.dealer.id].push(ticket);
     });
     return map;
   }, [tickets]);
@@ -91,7 +91,7 @@ export default function DealershipsPage() {
     return <div className="p-8 text-destructive">Failed to load dealership data: {message}</div>;
   }
 
-  if (isLoading) {
+  if (isLoading || dealersQuery.isLoading) {
     return (
       <PageLoader
         title="Loading dealership analytics"
@@ -99,6 +99,7 @@ export default function DealershipsPage() {
         tasks={[
           { label: "Ticket dataset", progress: data ? 100 : 0 },
           { label: "Visibility filters", progress: settings ? 100 : 0 },
+          { label: "Dealer aggregations", progress: dealersQuery.data ? 100 : 0 },
         ]}
       />
     );
@@ -247,13 +248,7 @@ export default function DealershipsPage() {
                   <TableRow
                     key={dealer.dealerId}
                     className="cursor-pointer transition hover:bg-muted/40"
-                    onClick={() =>
-                      window.open(
-                        `/dealer-insights/${encodeURIComponent(dealer.dealerId)}`,
-                        "_blank",
-                        "noopener,noreferrer,width=1400,height=900"
-                      )
-                    }
+                    onClick={() => openDealerInsights(dealer.dealerId)}
                   >
                     <TableCell className="font-medium">{dealer.dealerName}</TableCell>
                     <TableCell className="text-muted-foreground">{dealer.dealerId}</TableCell>
@@ -273,11 +268,7 @@ export default function DealershipsPage() {
                         className="text-primary"
                         onClick={(e) => {
                           e.stopPropagation();
-                          window.open(
-                            `/dealer-insights/${encodeURIComponent(dealer.dealerId)}`,
-                            "_blank",
-                            "noopener,noreferrer,width=1400,height=900"
-                          );
+                          openDealerInsights(dealer.dealerId);
                         }}
                       >
                         Advanced view
@@ -1,6 +1,6 @@
-import { useMemo, useState } from "react";
-import { EmployeeStats } from "@/types/ticket";
-import { analyzeEmployees, filterTicketsByFirstLevelStatus } from "@/utils/dataParser";
+import { useCallback, useMemo, useState } from "react";
+import { EmployeeStats, NormalizedTicket } from "@/types/ticket";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
 import StatCard from "@/components/StatCard";
 import { Users, CheckCircle, Clock, AlertCircle, UserSearch } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -12,13 +12,19 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useTicketStatusMapping } from "@/hooks/useTicketStatusMapping";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { parse as parseDate, differenceInCalendarDays } from "date-fns";
-import { TicketData } from "@/types/ticket";
+import { UnmappedStatusBanner } from "@/components/UnmappedStatusBanner";
+import { differenceInCalendarDays } from "date-fns";
+import { StatusLevelControls } from "@/components/StatusLevelControls";
+import { useStatusDrilldown } from "@/hooks/useStatusDrilldown";
+import { useTimeBasis } from "@/hooks/useTimeBasis";
+import { useUrlParams } from "@/hooks/useUrlParams";
+import { booleanParam, stringParam } from "@/lib/urlState";
 
 type TicketWithMeta = {
   ticketId: string;
-  createdOn: Date;
+  createdOn: Date | null;
   ageDays: number;
   status: string;
   name: string;
@@ -32,67 +38,60 @@ const AGE_BUCKETS = [
   { label: "180+", min: 180, max: Infinity },
 ] as const;
 
-function parseTicketDate(raw: string) {
-  if (!raw) return new Date("");
-  const isoCandidate = new Date(raw);
-  if (!Number.isNaN(isoCandidate.getTime())) return isoCandidate;
-  return parseDate(raw, "dd/MM/yyyy", new Date());
-}
+const PAGE_PARAMS = {
+  hideClosed: booleanParam(true),
+  firstLevel: stringParam("all"),
+  q: stringParam(),
+  focus: stringParam("all"),
+  statusText: stringParam("all"),
+};
+
+const toTicketWithMeta = (ticket: NormalizedTicket, ageOf: (createdOn: Date) => number): TicketWithMeta => ({
+  ticketId: ticket.key,
+  createdOn: ticket.createdOn,
+  ageDays: ticket.createdOn ? ageOf(ticket.createdOn) : 0,
+  status: ticket.statusText,
+  name: ticket.ticketName || ticket.key,
+});
 
 export default function EmployeesPage() {
-  const { data, isLoading, error } = useVisibleTickets({ applyEmployeeVisibility: true });
+  const { tickets, isLoading, error } = useVisibleTickets({ applyEmployeeVisibility: true });
   const mappingQuery = useTicketStatusMapping();
-  const [hideClosed, setHideClosed] = useState(true);
-  const [firstLevelStatusFilter, setFirstLevelStatusFilter] = useState<string>("all");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { statuses: firstLevelStatuses, closedNames, isClosed } = useFirstLevelStatuses();
+  const [params, updateParams] = useUrlParams(PAGE_PARAMS);
+  const {
+    hideClosed,
+    firstLevel: firstLevelStatusFilter,
+    q: searchTerm,
+    focus: selectedEmployeeId,
+    statusText: statusFilter,
+  } = params;
   const [statusDialog, setStatusDialog] = useState<{ status: string; tickets: TicketWithMeta[] } | null>(null);
   const [ageDialog, setAgeDialog] = useState<{ range: string; tickets: TicketWithMeta[] } | null>(null);
+  const statusDrilldown = useStatusDrilldown();
+  const groupByStatusLevel = statusDrilldown.group;
+  const { isBusiness, daysBetween, dayLabel } = useTimeBasis();
+  // Business ages count whole working days; calendar ages keep counting date boundaries.
+  const ageOf = useCallback(
+    (createdOn: Date) =>
+      isBusiness ? Math.floor(daysBetween(createdOn, new Date())) : differenceInCalendarDays(new Date(), createdOn),
+    [daysBetween, isBusiness]
+  );
 
-  const ticketsAfterClosedFilter = useMemo(() => {
-    if (!data) return undefined;
-    return hideClosed
-      ? filterTicketsByFirstLevelStatus(data, mappingQuery.data, {
-          excludedFirstLevelStatuses: ["Closed"],
-        })
-      : data;
-  }, [data, hideClosed, mappingQuery.data]);
-
-  const filteredTickets = useMemo(() => {
-    if (!ticketsAfterClosedFilter) return undefined;
-    if (firstLevelStatusFilter === "all") return ticketsAfterClosedFilter;
-
-    const filtered = Object.entries(ticketsAfterClosedFilter.c4cTickets_test.tickets).reduce(
-      (acc, [ticketId, ticketEntry]) => {
-        const mappingEntry =
-          mappingQuery.data?.[ticketEntry.ticket.TicketStatus] ??
-          mappingQuery.data?.[ticketEntry.ticket.TicketStatusText];
-        const firstLevelStatus =
-          mappingEntry?.firstLevelStatus?.trim() ||
-          mappingEntry?.ticketStatusText ||
-          ticketEntry.ticket.TicketStatusText;
-
-        if (firstLevelStatus.toLowerCase() === firstLevelStatusFilter.toLowerCase()) {
-          acc[ticketId] = ticketEntry;
-        }
-
-        return acc;
-      },
-      {} as TicketData["c4cTickets_test"]["tickets"]
-    );
-
-    return {
-      c4cTickets_test: {
-        tickets: filtered,
-      },
-    };
-  }, [firstLevelStatusFilter, mappingQuery.data, ticketsAfterClosedFilter]);
+  const scopedTickets = useMemo(() => {
+    const statusFilter = firstLevelStatusFilter.toLowerCase();
+    return tickets.filter((ticket) => {
+      if (hideClosed && isClosed(ticket.firstLevelStatus)) return false;
+      return statusFilter === "all" || ticket.firstLevelStatus.toLowerCase() === statusFilter;
+    });
+  }, [firstLevelStatusFilter, hideClosed, isClosed, tickets]);
 
-  const employees = useMemo<EmployeeStats[]>(() => {
-    if (!filteredTickets) return [];
-    return analyzeEmployees(filteredTickets);
-  }, [filteredTickets]);
+  const employeesQuery = useTicketAnalytics("employees", {
+    applyEmployeeVisibility: true,
+    excludedFirstLevelStatuses: hideClosed ? closedNames : [],
+    firstLevelStatus: firstLevelStatusFilter === "all" ? undefined : firstLevelStatusFilter,
+  });
+  const employees = useMemo<EmployeeStats[]>(() => employeesQuery.data ?? [], [employeesQuery.data]);
 
   const filteredEmployees = useMemo(() => {
     const term = searchTerm.trim().toLowerCase();
@@ -112,17 +111,10 @@ export default function EmployeesPage() {
     return Array.from(statuses).sort();
   }, [employees]);
 
-  const firstLevelStatusOptions = useMemo(() => {
-    if (!mappingQuery.data) return [];
-    const statuses = new Set<string>();
-    Object.values(mappingQuery.data).forEach((entry) => {
-      const normalized = entry.firstLevelStatus?.trim();
-      if (normalized) {
-        statuses.add(normalized);
-      }
-    });
-    return Array.from(statuses).sort((a, b) => a.localeCompare(b));
-  }, [mappingQuery.data]);
+  const firstLevelStatusOptions = useMemo(
+    () => firstLevelStatuses.map((status) => status.name),
+    [firstLevelStatuses]
+  );
 
   const workloadData = useMemo(() => {
     return employees.map((emp) => {
@@ -145,34 +137,24 @@ export default function EmployeesPage() {
     [employees, selectedEmployeeId]
   );
 
-  const selectedEmployeeTickets = useMemo<TicketWithMeta[]>(() => {
-    if (!filteredTickets || selectedEmployeeId === "all") return [];
-
-    return Object.entries(filteredTickets.c4cTickets_test.tickets)
-      .filter(([, entry]) => entry.roles?.["40"]?.InvolvedPartyBusinessPartnerID === selectedEmployeeId)
-      .map(([ticketId, entry]) => {
-        const createdOn = parseTicketDate(entry.ticket.CreatedOn);
-        const ageDays = Number.isNaN(createdOn.getTime())
-          ? 0
-          : differenceInCalendarDays(new Date(), createdOn);
-        return {
-          ticketId,
-          createdOn,
-          ageDays,
-          status: entry.ticket.TicketStatusText,
-          name: entry.ticket.TicketName || ticketId,
-        };
-      });
-  }, [filteredTickets, selectedEmployeeId]);
+  const employeeTickets = useMemo(() => {
+    if (selectedEmployeeId === "all") return [];
+    return scopedTickets.filter((ticket) => ticket.employee.id === selectedEmployeeId);
+  }, [scopedTickets, selectedEmployeeId]);
+
+  const selectedEmployeeTickets = useMemo(
+    () => employeeTickets.map((ticket) => toTicketWithMeta(ticket, ageOf)),
+    [ageOf, employeeTickets]
+  );
+
+  const statusGroups = useMemo(() => groupByStatusLevel(employeeTickets), [employeeTickets, groupByStatusLevel]);
 
   const statusTicketMap = useMemo(() => {
-    return selectedEmployeeTickets.reduce<Record<string, TicketWithMeta[]>>((acc, ticket) => {
-      const key = ticket.status || "Unknown";
-      acc[key] = acc[key] ?? [];
-      acc[key].push(ticket);
+    return statusGroups.reduce<Record<string, TicketWithMeta[]>>((acc, group) => {
+      acc[group.name] = group.tickets.map((ticket) => toTicketWithMeta(ticket, ageOf));
       return acc;
     }, {});
-  }, [selectedEmployeeTickets]);
+  }, [ageOf, statusGroups]);
 
   const ageRangeData = useMemo(() => {
     const ticketsByRange = AGE_BUCKETS.reduce<Record<string, TicketWithMeta[]>>(
@@ -195,14 +177,12 @@ export default function EmployeesPage() {
     return { ticketsByRange, chartData };
   }, [selectedEmployeeTickets]);
 
-  const selectedEmployeeStatusData = useMemo(() => {
-    if (!selectedEmployee) return [];
-    return Object.entries(selectedEmployee.ticketsByStatus)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [selectedEmployee]);
+  const selectedEmployeeStatusData = useMemo(
+    () => statusGroups.map(({ name, value }) => ({ name, value })),
+    [statusGroups]
+  );
 
-  if (isLoading || mappingQuery.isLoading) {
+  if (isLoading || mappingQuery.isLoading || employeesQuery.isLoading) {
     return <div className="p-8">Loading employee data...</div>;
   }
 
@@ -236,6 +216,8 @@ export default function EmployeesPage() {
         </p>
       </div>
 
+      <UnmappedStatusBanner />
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <StatCard
           title="Total Employees"
@@ -247,7 +229,7 @@ export default function EmployeesPage() {
           title="Active Tickets"
           value={totalActiveTickets}
           icon={AlertCircle}
-          description="Not in Closed status"
+          description="Not in a closed status"
         />
         <StatCard
           title="Closed Tickets"
@@ -272,11 +254,11 @@ export default function EmployeesPage() {
             <Switch
               id="hide-closed-first-level"
               checked={hideClosed}
-              onCheckedChange={setHideClosed}
+              onCheckedChange={(checked) => updateParams({ hideClosed: checked })}
               disabled={mappingQuery.isLoading}
             />
             <Label htmlFor="hide-closed-first-level" className="text-sm font-medium">
-              Hide tickets with first-level status “Closed” (mapping)
+              Hide tickets whose first-level status is marked closed
             </Label>
           </div>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -289,7 +271,7 @@ export default function EmployeesPage() {
                   placeholder="Search by name or ID"
                   className="pl-9"
                   value={searchTerm}
-                  onChange={(event) => setSearchTerm(event.target.value)}
+                  onChange={(event) => updateParams({ q: event.target.value }, { replace: true })}
                 />
               </div>
             </div>
@@ -297,7 +279,7 @@ export default function EmployeesPage() {
               <Label htmlFor="employee-select">Focus on an employee</Label>
               <Select
                 value={selectedEmployeeId}
-                onValueChange={(value) => setSelectedEmployeeId(value)}
+                onValueChange={(value) => updateParams({ focus: value })}
               >
                 <SelectTrigger id="employee-select">
                   <SelectValue placeholder="Choose an employee to view status mix" />
@@ -314,7 +296,7 @@ export default function EmployeesPage() {
             </div>
             <div className="space-y-2">
               <Label htmlFor="status-select">Filter by status (text)</Label>
-              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value)}>
+              <Select value={statusFilter} onValueChange={(value) => updateParams({ statusText: value })}>
                 <SelectTrigger id="status-select">
                   <SelectValue placeholder="All statuses" />
                 </SelectTrigger>
@@ -332,7 +314,7 @@ export default function EmployeesPage() {
               <Label htmlFor="first-level-status-select">Filter by first-level status</Label>
               <Select
                 value={firstLevelStatusFilter}
-                onValueChange={(value) => setFirstLevelStatusFilter(value)}
+                onValueChange={(value) => updateParams({ firstLevel: value })}
                 disabled={mappingQuery.isLoading}
               >
                 <SelectTrigger id="first-level-status-select">
@@ -384,8 +366,9 @@ export default function EmployeesPage() {
               <CardHeader>
                 <CardTitle>{selectedEmployee.employeeName} — Ticket Status Mix</CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  Status counts for the selected employee
+                  Status counts for the selected employee; click a bar to drill into its group
                 </p>
+                <StatusLevelControls drilldown={statusDrilldown} />
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={360}>
@@ -401,6 +384,10 @@ export default function EmployeesPage() {
                       className="cursor-pointer"
                       onClick={(data) => {
                         const statusName = (data?.name as string) ?? "";
+                        if (statusDrilldown.canDrill) {
+                          statusDrilldown.drillInto(statusName);
+                          return;
+                        }
                         setStatusDialog({
                           status: statusName,
                           tickets: statusTicketMap[statusName] ?? [],
@@ -418,7 +405,8 @@ export default function EmployeesPage() {
               <CardHeader>
                 <CardTitle>{selectedEmployee.employeeName} — Ticket Age Ranges</CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  Days since CreatedOn for tickets in view (scoped filters applied).
+                  {isBusiness ? "Business days" : "Days"} since CreatedOn for tickets in view (scoped filters
+                  applied).
                 </p>
               </CardHeader>
               <CardContent>
@@ -502,7 +490,7 @@ export default function EmployeesPage() {
                 <p className="text-sm font-semibold">{ticket.name}</p>
                 <p className="text-xs text-muted-foreground">ID: {ticket.ticketId}</p>
                 <p className="text-xs text-muted-foreground">
-                  Created: {Number.isNaN(ticket.createdOn.getTime()) ? "Unknown" : ticket.createdOn.toDateString()}
+                  Created: {ticket.createdOn ? ticket.createdOn.toDateString() : "Unknown"}
                 </p>
               </div>
             ))}
@@ -518,7 +506,7 @@ export default function EmployeesPage() {
           <DialogHeader>
             <DialogTitle>Age range: {ageDialog?.range ?? ""}</DialogTitle>
             <DialogDescription>
-              Tickets for {selectedEmployee?.employeeName} aged within this range (days since CreatedOn).
+              Tickets for {selectedEmployee?.employeeName} aged within this range ({dayLabel} since CreatedOn).
             </DialogDescription>
           </DialogHeader>
           <div className="mt-4 max-h-[60vh] overflow-y-auto space-y-3 pr-2">
@@ -527,9 +515,9 @@ export default function EmployeesPage() {
                 <p className="text-sm font-semibold">{ticket.name}</p>
                 <p className="text-xs text-muted-foreground">ID: {ticket.ticketId}</p>
                 <p className="text-xs text-muted-foreground">
-                  Created: {Number.isNaN(ticket.createdOn.getTime()) ? "Unknown" : ticket.createdOn.toDateString()}
+                  Created: {ticket.createdOn ? ticket.createdOn.toDateString() : "Unknown"}
                 </p>
-                <p className="text-xs text-muted-foreground">Age: {ticket.ageDays} days</p>
+                <p className="text-xs text-muted-foreground">Age: {ticket.ageDays} {dayLabel}</p>
               </div>
             ))}
             {(ageDialog?.tickets.length ?? 0) === 0 && (
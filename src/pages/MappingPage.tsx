@@ -8,29 +8,128 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { useTicketData } from "@/hooks/useTicketData";
 import { useTicketStatusMapping } from "@/hooks/useTicketStatusMapping";
-import { TicketStatusMapping } from "@/types/ticket";
+import { FirstLevelStatus, TicketStatusMapping, TicketStatusMappingEntry } from "@/types/ticket";
 import { toast } from "@/components/ui/sonner";
+import { StatusMappingTransfer } from "@/components/StatusMappingTransfer";
+import { Badge } from "@/components/ui/badge";
+import { useStatusMappingCoverage } from "@/hooks/useStatusMappingCoverage";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { FirstLevelStatusManager } from "@/components/FirstLevelStatusManager";
+import { findFirstLevelStatus } from "@/utils/firstLevelStatuses";
+import { useStatusHierarchy } from "@/hooks/useStatusHierarchy";
+import { StatusHierarchyEditor } from "@/components/StatusHierarchyEditor";
+import { flattenStatusTree, StatusTreeNode } from "@/utils/statusHierarchy";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TicketTypeMappingTable } from "@/components/TicketTypeMappingTable";
 
 type StatusRow = {
   code: string;
   text: string;
 };
 
+type LocalEntry = {
+  firstLevelStatus: string;
+  statusNodeId: string;
+};
+
+const NO_STATUS = "__none__";
+const NO_GROUP = "__none__";
+
+function FirstLevelStatusSelect({
+  value,
+  statuses,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  statuses: FirstLevelStatus[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  const listed = value ? findFirstLevelStatus(value, statuses) : undefined;
+
+  return (
+    <Select
+      value={listed?.name ?? (value || NO_STATUS)}
+      onValueChange={(next) => onChange(next === NO_STATUS ? "" : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_STATUS}>Not mapped</SelectItem>
+        {statuses.map((status) => (
+          <SelectItem key={status.id} value={status.name}>
+            <span className="flex items-center gap-2">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+              {status.name}
+            </span>
+          </SelectItem>
+        ))}
+        {value && !listed && <SelectItem value={value}>{value} (not in the list)</SelectItem>}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StatusGroupSelect({
+  value,
+  firstLevelStatus,
+  statuses,
+  tree,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  firstLevelStatus: string;
+  statuses: FirstLevelStatus[];
+  tree: StatusTreeNode[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  const status = firstLevelStatus ? findFirstLevelStatus(firstLevelStatus, statuses) : undefined;
+  const groups = flattenStatusTree(tree.find((root) => root.id === status?.id)?.children ?? []);
+
+  return (
+    <Select
+      value={groups.some((group) => group.id === value) ? value : NO_GROUP}
+      onValueChange={(next) => onChange(next === NO_GROUP ? "" : next)}
+      disabled={disabled || groups.length === 0}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GROUP}>{groups.length === 0 ? "No groups" : "Status itself"}</SelectItem>
+        {groups.map((group) => (
+          <SelectItem key={group.id} value={group.id}>
+            <span style={{ paddingLeft: `${(group.level - 2) * 12}px` }}>{group.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export default function MappingPage() {
   const ticketQuery = useTicketData();
   const mappingQuery = useTicketStatusMapping();
+  const { unmapped, unmappedTicketCount } = useStatusMappingCoverage();
+  const { statuses: firstLevelStatuses } = useFirstLevelStatuses();
+  const { nodes: statusNodes, tree } = useStatusHierarchy();
 
-  const [localMapping, setLocalMapping] = useState<Record<string, string>>({});
+  const [localMapping, setLocalMapping] = useState<Record<string, LocalEntry>>({});
 
   const statusRows: StatusRow[] = useMemo(() => {
     if (!ticketQuery.data) return [];
 
     const seen = new Map<string, string>();
-    Object.values(ticketQuery.data.c4cTickets_test.tickets).forEach((entry) => {
+    Object.values(ticketQuery.data.tickets).forEach((entry) => {
       const code = entry.ticket.TicketStatus?.trim();
       const text = entry.ticket.TicketStatusText?.trim() ?? "";
 
@@ -44,9 +143,22 @@ export default function MappingPage() {
       .sort((a, b) => a.code.localeCompare(b.code));
   }, [ticketQuery.data]);
 
+  const knownStatuses = useMemo(
+    () => new Map(statusRows.map((row) => [row.code, row.text])),
+    [statusRows]
+  );
+
+  const unmappedCounts = useMemo(
+    () => new Map(unmapped.map((status) => [status.ticketStatus, status.ticketCount])),
+    [unmapped]
+  );
+
   const buildLocalMapping = (mapping: TicketStatusMapping) =>
     Object.fromEntries(
-      Object.entries(mapping).map(([code, entry]) => [code, entry.firstLevelStatus ?? ""])
+      Object.entries(mapping).map(([code, entry]) => [
+        code,
+        { firstLevelStatus: entry.firstLevelStatus ?? "", statusNodeId: entry.statusNodeId ?? "" },
+      ])
     );
 
   useEffect(() => {
@@ -54,19 +166,19 @@ export default function MappingPage() {
     setLocalMapping(buildLocalMapping(mappingQuery.data));
   }, [mappingQuery.data]);
 
-  const handleChange = (code: string, value: string) => {
+  const handleChange = (code: string, change: Partial<LocalEntry>) => {
     setLocalMapping((prev) => ({
       ...prev,
-      [code]: value,
+      [code]: { firstLevelStatus: "", statusNodeId: "", ...prev[code], ...change },
     }));
   };
 
   const handleSave = (row: StatusRow) => {
-    const firstLevelStatus = (localMapping[row.code] ?? "").trim();
-    mappingQuery.updateEntry(row.code, {
-      ticketStatusText: row.text,
-      firstLevelStatus,
-    });
+    const firstLevelStatus = (localMapping[row.code]?.firstLevelStatus ?? "").trim();
+    const statusNodeId = localMapping[row.code]?.statusNodeId;
+    const entry: TicketStatusMappingEntry = { ticketStatusText: row.text, firstLevelStatus };
+    if (statusNodeId) entry.statusNodeId = statusNodeId;
+    mappingQuery.updateEntry(row.code, entry);
 
     toast.success("Mapping saved to Firebase", {
       description: `${row.code} → ${firstLevelStatus || "(empty)"}`,
@@ -97,60 +209,172 @@ export default function MappingPage() {
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-3xl font-bold">Ticket Status Mapping</h2>
+        <h2 className="text-3xl font-bold">Ticket Mapping</h2>
         <p className="text-muted-foreground mt-2">
-          List every TicketStatus with its description and enter a First Level Status to save to Firebase.
+          List every TicketStatus with its description and pick its First Level Status from the managed list,
+          and group every TicketType into a business category.
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Mapping List</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[140px]">TicketStatus</TableHead>
-                <TableHead>TicketStatusText</TableHead>
-                <TableHead className="w-[220px]">First Level Status</TableHead>
-                <TableHead className="w-[120px]">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {statusRows.map((row) => (
-                <TableRow key={row.code}>
-                  <TableCell className="font-mono font-medium">{row.code}</TableCell>
-                  <TableCell className="text-muted-foreground">{row.text}</TableCell>
-                  <TableCell>
-                    <Input
-                      value={localMapping[row.code] ?? ""}
-                      onChange={(event) => handleChange(row.code, event.target.value)}
-                      placeholder="Enter First Level Status"
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <Button
-                      size="sm"
-                      onClick={() => handleSave(row)}
-                      disabled={mappingQuery.isUpdating || mappingQuery.isLoading}
-                    >
-                      Save
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              ))}
-              {statusRows.length === 0 && (
-                <TableRow>
-                  <TableCell colSpan={4} className="text-center text-muted-foreground">
-                    No TicketStatus entries found.
-                  </TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="status" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="status">Status mapping</TabsTrigger>
+          <TabsTrigger value="types">Ticket types</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="status" className="space-y-6">
+          {unmapped.length > 0 && (
+            <Card className="border-amber-200">
+              <CardHeader>
+                <CardTitle>Coverage</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {unmapped.length} status codes in the tickets have no First Level Status, affecting{" "}
+                  {unmappedTicketCount} tickets. Until they are mapped those tickets are grouped under their
+                  raw TicketStatusText and ignore first-level filters such as “hide Closed”.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[140px]">TicketStatus</TableHead>
+                      <TableHead>TicketStatusText</TableHead>
+                      <TableHead className="w-[140px] text-right">Tickets</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unmapped.map((status) => (
+                      <TableRow key={status.ticketStatus}>
+                        <TableCell className="font-mono font-medium">{status.ticketStatus || "(blank)"}</TableCell>
+                        <TableCell className="text-muted-foreground">{status.ticketStatusText}</TableCell>
+                        <TableCell className="text-right">{status.ticketCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>First-level statuses</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                The statuses offered below, in the order and colours every report uses. Statuses marked closed
+                are left out by the “hide closed” filters and count as closed in the employee and aged claim
+                figures.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <FirstLevelStatusManager mapping={mappingQuery.data ?? {}} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Status hierarchy</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Optional groups below each first-level status, nested as deep as needed. Status codes can be
+                mapped to any group, and the Tickets and Employees charts can roll up or drill down by level.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <StatusHierarchyEditor mapping={mappingQuery.data ?? {}} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+              <CardTitle>Mapping List</CardTitle>
+              <StatusMappingTransfer
+                mapping={mappingQuery.data ?? {}}
+                knownStatuses={knownStatuses}
+                firstLevelStatuses={firstLevelStatuses}
+                statusNodes={statusNodes}
+                disabled={mappingQuery.isReadOnly || mappingQuery.isUpdating}
+                onImport={mappingQuery.applyImport}
+              />
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[140px]">TicketStatus</TableHead>
+                    <TableHead>TicketStatusText</TableHead>
+                    <TableHead className="w-[220px]">First Level Status</TableHead>
+                    <TableHead className="w-[220px]">Group</TableHead>
+                    <TableHead className="w-[120px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusRows.map((row) => (
+                    <TableRow key={row.code}>
+                      <TableCell className="font-mono font-medium">
+                        {row.code}
+                        {unmappedCounts.has(row.code) && (
+                          <Badge variant="outline" className="ml-2 border-amber-300 font-sans text-amber-700">
+                            Unmapped
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{row.text}</TableCell>
+                      <TableCell>
+                        <FirstLevelStatusSelect
+                          value={localMapping[row.code]?.firstLevelStatus ?? ""}
+                          statuses={firstLevelStatuses}
+                          onChange={(value) => handleChange(row.code, { firstLevelStatus: value, statusNodeId: "" })}
+                          disabled={mappingQuery.isReadOnly}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <StatusGroupSelect
+                          value={localMapping[row.code]?.statusNodeId ?? ""}
+                          firstLevelStatus={localMapping[row.code]?.firstLevelStatus ?? ""}
+                          statuses={firstLevelStatuses}
+                          tree={tree}
+                          onChange={(value) => handleChange(row.code, { statusNodeId: value })}
+                          disabled={mappingQuery.isReadOnly}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSave(row)}
+                          disabled={mappingQuery.isUpdating || mappingQuery.isLoading || mappingQuery.isReadOnly}
+                        >
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {statusRows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No TicketStatus entries found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="types">
+          <Card>
+            <CardHeader>
+              <CardTitle>Ticket Type Mapping</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Reports group tickets by these categories instead of the raw TicketTypeText; the Aged Claim
+                Report builds its In Field and Pre Delivery matrices from the warranty and PDI categories.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <TicketTypeMappingTable />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -1,7 +1,7 @@
-import { useMemo, useState } from "react";
+import { useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { RepairStats, TicketEntry } from "@/types/ticket";
-import { analyzeRepairs, getNormalizedSerialId, parseAmountIncludingTax } from "@/utils/dataParser";
+import { RepairStats } from "@/types/ticket";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
 import { useVisibleTickets } from "@/hooks/useVisibleTickets";
 import StatCard from "@/components/StatCard";
 import { ArrowLeft, DollarSign, FileText, TrendingUp } from "lucide-react";
@@ -19,35 +19,21 @@ import {
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { PageLoader } from "@/components/PageLoader";
 
 export default function RepairInsightPage() {
   const { repairId } = useParams<{ repairId: string }>();
   const navigate = useNavigate();
-  const { data, isLoading, error, settings } = useVisibleTickets();
+  const { data, tickets, isLoading, error, settings } = useVisibleTickets({ ignoreGlobalFilters: ["repair"] });
 
-  const repairs = useMemo<RepairStats[]>(() => {
-    if (!data) return [];
-    return analyzeRepairs(data);
-  }, [data]);
-
-  const tickets = useMemo(
-    () => (data ? Object.values(data.c4cTickets_test.tickets) : []),
-    [data]
-  );
-
-  const [startMonth, setStartMonth] = useState("2025-01");
+  const repairsQuery = useTicketAnalytics("repairs", { ignoreGlobalFilters: ["repair"] });
+  const repairs = useMemo<RepairStats[]>(() => repairsQuery.data ?? [], [repairsQuery.data]);
 
   const selectedRepair = repairs.find((r) => r.repairId === repairId);
 
   const repairTickets = useMemo(() => {
-    if (!repairId) return [] as TicketEntry[];
-    return tickets.filter((ticketEntry) => {
-      const repair = ticketEntry.roles?.["43"];
-      const id = repair?.InvolvedPartyBusinessPartnerID ?? "no-repair";
-      return id === repairId;
-    });
+    if (!repairId) return [];
+    return tickets.filter((ticket) => ticket.repair.id === repairId);
   }, [repairId, tickets]);
 
   const amountDistribution = useMemo(() => {
@@ -58,8 +44,8 @@ export default function RepairInsightPage() {
       { label: "5k+", min: 5000, max: Infinity, count: 0 },
     ];
 
-    repairTickets.forEach((ticketEntry) => {
-      const amount = parseAmountIncludingTax(ticketEntry.ticket.AmountIncludingTax) ?? 0;
+    repairTickets.forEach((ticket) => {
+      const amount = ticket.amount ?? 0;
       const bucket = buckets.find((b) => amount >= b.min && amount < b.max);
       if (bucket) bucket.count += 1;
     });
@@ -76,13 +62,13 @@ export default function RepairInsightPage() {
       }
     > = {};
 
-    repairTickets.forEach((ticketEntry) => {
-      const chassis = getNormalizedSerialId(ticketEntry);
+    repairTickets.forEach((ticket) => {
+      const chassis = ticket.serialId;
       if (!chassis) return;
       const current = chassisStats[chassis] ?? { count: 0 };
       current.count += 1;
-      const createdOn = new Date(ticketEntry.ticket.CreatedOn);
-      if (!Number.isNaN(createdOn.getTime())) {
+      const createdOn = ticket.createdOn;
+      if (createdOn) {
         if (!current.earliestDate || createdOn < current.earliestDate) {
           current.earliestDate = createdOn;
         }
@@ -111,15 +97,15 @@ export default function RepairInsightPage() {
       }, {}),
     }));
 
-    repairTickets.forEach((ticketEntry) => {
-      const chassis = getNormalizedSerialId(ticketEntry);
+    repairTickets.forEach((ticket) => {
+      const chassis = ticket.serialId;
       if (!chassis) return;
       const chassisInfo = chassisStats[chassis];
       if (!chassisInfo) return;
       const repeatRange = repeatRanges.find(
         (range) => chassisInfo.count >= range.min && chassisInfo.count < range.max
       );
-      const amount = parseAmountIncludingTax(ticketEntry.ticket.AmountIncludingTax) ?? 0;
+      const amount = ticket.amount ?? 0;
       const costRange = costRanges.find(
         (range) => amount >= range.min && amount < range.max
       );
@@ -135,8 +121,8 @@ export default function RepairInsightPage() {
 
   const statusCounts = useMemo(() => {
     const summary: Record<string, number> = {};
-    repairTickets.forEach((ticketEntry) => {
-      const status = ticketEntry.ticket.TicketStatusText || "Unknown";
+    repairTickets.forEach((ticket) => {
+      const status = ticket.statusText || "Unknown";
       summary[status] = (summary[status] || 0) + 1;
     });
     return Object.entries(summary)
@@ -162,7 +148,7 @@ export default function RepairInsightPage() {
       timeline[label][repeatRange.key] = (timeline[label][repeatRange.key] || 0) + 1;
     });
 
-    const sorted = Object.entries(timeline)
+    return Object.entries(timeline)
       .sort(([a], [b]) => (a > b ? 1 : -1))
       .map(([month, values]) => {
         const entry: Record<string, number | string> = { month };
@@ -171,9 +157,7 @@ export default function RepairInsightPage() {
         });
         return entry;
       });
-
-    return sorted.filter(({ month }) => String(month) >= startMonth);
-  }, [chassisDuplicateDistribution, startMonth]);
+  }, [chassisDuplicateDistribution]);
 
   const costByType = useMemo(() => {
     if (!selectedRepair) return [];
@@ -187,7 +171,7 @@ export default function RepairInsightPage() {
     return <div className="p-8 text-destructive">Failed to load repair data: {message}</div>;
   }
 
-  if (isLoading) {
+  if (isLoading || repairsQuery.isLoading) {
     return (
       <PageLoader
         title="Loading repair insights"
@@ -329,23 +313,9 @@ export default function RepairInsightPage() {
         </Card>
 
         <Card className="md:col-span-2 shadow-sm">
-          <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-            <div>
-              <CardTitle>Ticket CreatedOn Trend</CardTitle>
-              <p className="text-sm text-muted-foreground">Default start at 2025-01; adjust as needed</p>
-            </div>
-            <div className="flex items-center gap-3">
-              <label className="text-sm text-muted-foreground" htmlFor="trend-start">
-                Start month
-              </label>
-              <Input
-                id="trend-start"
-                type="month"
-                value={startMonth}
-                onChange={(e) => setStartMonth(e.target.value)}
-                className="w-40"
-              />
-            </div>
+          <CardHeader>
+            <CardTitle>Ticket CreatedOn Trend</CardTitle>
+            <p className="text-sm text-muted-foreground">Follows the created date range in the filter bar</p>
           </CardHeader>
           <CardContent className="h-[360px]">
             {ticketTrend.length > 0 ? (
@@ -1,7 +1,6 @@
-import { useEffect, useMemo, useState } from "react";
-import { parse } from "date-fns";
+import { useMemo } from "react";
 import { RepairStats } from "@/types/ticket";
-import { analyzeRepairs, getNormalizedSerialId, parseAmountIncludingTax } from "@/utils/dataParser";
+import { useTicketAnalytics } from "@/hooks/useTicketAnalytics";
 import StatCard from "@/components/StatCard";
 import { Wrench, DollarSign, TrendingUp, PieChart as PieChartIcon } from "lucide-react";
 import {
@@ -31,49 +30,70 @@ import { useVisibleTickets } from "@/hooks/useVisibleTickets";
 import { PaginationControls } from "@/components/PaginationControls";
 import { Button } from "@/components/ui/button";
 import { PageLoader } from "@/components/PageLoader";
+import { useGlobalFilterStore } from "@/hooks/useGlobalFilters";
+import { globalFiltersSearch } from "@/utils/globalFilters";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUrlParams } from "@/hooks/useUrlParams";
+import { enumParam, integerParam, stringParam } from "@/lib/urlState";
 
 const COLORS = ["#10B981", "#F59E0B", "#EF4444", "#3B82F6", "#8B5CF6", "#EC4899"];
 const PAGE_SIZE = 50;
 
+const SORT_KEYS = [
+  "repairName",
+  "repairId",
+  "totalCost",
+  "avgCost",
+  "ticketCount",
+  "chassisTicketCount",
+  "uniqueChassisCount",
+  "uniqueChassisRatio",
+  "lowCost",
+  "mediumCost",
+  "highCost",
+] as const;
+type SortKey = (typeof SORT_KEYS)[number];
+type SortDirection = "asc" | "desc";
+
+const PAGE_PARAMS = {
+  page: integerParam(1),
+  q: stringParam(),
+  repair: stringParam("all"),
+  /** Repairer shown in the monthly trend; the busiest one when unset. */
+  trend: stringParam(),
+  sort: enumParam(SORT_KEYS, "ticketCount"),
+  dir: enumParam<SortDirection>(["asc", "desc"], "desc"),
+};
+
 export default function RepairsPage() {
   const { data, isLoading, error, settings } = useVisibleTickets({
     applyRepairVisibility: false,
   });
-  const [page, setPage] = useState(1);
-  const [search, setSearch] = useState("");
-  const [selectedRepairId, setSelectedRepairId] = useState<string>("all");
-  const [selectedTrendRepairId, setSelectedTrendRepairId] = useState<string>("");
-  const [sortKey, setSortKey] = useState<
-    | "repairName"
-    | "repairId"
-    | "totalCost"
-    | "avgCost"
-    | "ticketCount"
-    | "chassisTicketCount"
-    | "uniqueChassisCount"
-    | "uniqueChassisRatio"
-    | "lowCost"
-    | "mediumCost"
-    | "highCost"
-  >("ticketCount");
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
-
-  const repairs = useMemo<RepairStats[]>(() => {
-    if (!data) return [];
-    return analyzeRepairs(data);
-  }, [data]);
+  const [params, updateParams] = useUrlParams(PAGE_PARAMS);
+  const { q: search, repair: selectedRepairId, sort: sortKey, dir: sortDirection } = params;
+  const setPage = (page: number) => updateParams({ page });
+  // The insights window opens with the same global filters, like the sidebar links.
+  const filterSearch = globalFiltersSearch(useGlobalFilterStore((state) => state.filters));
+  const openRepairInsights = (repairId: string) =>
+    window.open(
+      `/repair-insights/${encodeURIComponent(repairId)}${filterSearch ? `?${filterSearch}` : ""}`,
+      "_blank",
+      "noopener,noreferrer,width=1400,height=900"
+    );
 
-  const tickets = useMemo(() => {
-    if (!data) return [];
-    return Object.values(data.c4cTickets_test.tickets);
-  }, [data]);
+  // A new column starts in its natural direction; the same column flips.
+  const toggleSort = (key: SortKey, initialDirection: SortDirection) =>
+    updateParams(
+      sortKey === key
+        ? { dir: sortDirection === "asc" ? "desc" : "asc" }
+        : { sort: key, dir: initialDirection }
+    );
 
-  useEffect(() => {
-    setPage(1);
-  }, [repairs.length]);
+  const repairsQuery = useTicketAnalytics("repairs", { applyRepairVisibility: false });
+  const trendReportQuery = useTicketAnalytics("repairTrends", { applyRepairVisibility: false });
+  const repairs = useMemo<RepairStats[]>(() => repairsQuery.data ?? [], [repairsQuery.data]);
 
   const filteredRepairs = useMemo(() => {
     const normalizedSearch = search.trim().toLowerCase();
@@ -133,6 +153,16 @@ export default function RepairsPage() {
     return sorted;
   }, [filteredRepairs, sortDirection, sortKey]);
 
+  const topRepairsByTickets2025 = useMemo(
+    () => trendReportQuery.data?.topRepairs ?? [],
+    [trendReportQuery.data]
+  );
+
+  // The linked repairer when it is among the top ones, otherwise the busiest.
+  const selectedTrendRepairId = topRepairsByTickets2025.some((repair) => repair.repairId === params.trend)
+    ? params.trend
+    : topRepairsByTickets2025[0]?.repairId ?? "";
+
   const costRangeSource = useMemo(() => {
     if (!selectedTrendRepairId) return filteredRepairs;
     const match = repairs.find((repair) => repair.repairId === selectedTrendRepairId);
@@ -169,151 +199,22 @@ export default function RepairsPage() {
     [costRangeData, costRangeTotal]
   );
 
-  const parseTicketDate = (raw: string) => {
-    if (!raw) return new Date("");
-    const isoCandidate = new Date(raw);
-    if (!Number.isNaN(isoCandidate.getTime())) return isoCandidate;
-    return parse(raw, "dd/MM/yyyy", new Date());
-  };
-
-  const latestRepairNames = useMemo(() => {
-    const nameMap = new Map<string, { name: string; timestamp: number }>();
-    const isMeaningfulName = (name: string) => name && name !== "No Repair Shop Assigned";
-
-    tickets.forEach((ticketEntry) => {
-      const repair = ticketEntry.roles?.["43"];
-      const repairId = repair?.InvolvedPartyBusinessPartnerID?.trim() || "no-repair";
-      const repairName = repair?.RepairerBusinessNameID?.trim() || "";
-      if (!isMeaningfulName(repairName)) return;
-
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      const timestamp = Number.isNaN(created.getTime()) ? 0 : created.getTime();
-      const existing = nameMap.get(repairId);
-      if (!existing || timestamp >= existing.timestamp) {
-        nameMap.set(repairId, { name: repairName, timestamp });
-      }
-    });
-
-    return nameMap;
-  }, [tickets]);
-
-  const ticketsFrom2025 = useMemo(() => {
-    const start = new Date(2025, 0, 1);
-    return tickets.filter((ticketEntry) => {
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      return !Number.isNaN(created.getTime()) && created >= start;
-    });
-  }, [tickets]);
-
-  const topRepairsByTickets2025 = useMemo(() => {
-    const repairMap = new Map<string, { repairId: string; repairName: string; ticketCount: number }>();
-
-    ticketsFrom2025.forEach((ticketEntry) => {
-      const repair = ticketEntry.roles?.["43"];
-      const repairId = repair?.InvolvedPartyBusinessPartnerID?.trim() || "no-repair";
-      const rawName = repair?.RepairerBusinessNameID?.trim() || "";
-      const fallbackName = latestRepairNames.get(repairId)?.name;
-      const repairName =
-        rawName && rawName !== "No Repair Shop Assigned"
-          ? rawName
-          : fallbackName ?? "No Repair Shop Assigned";
-      const existing = repairMap.get(repairId) ?? {
-        repairId,
-        repairName,
-        ticketCount: 0,
-      };
-      existing.ticketCount += 1;
-      repairMap.set(repairId, existing);
-    });
-
-    return Array.from(repairMap.values())
-      .sort((a, b) => b.ticketCount - a.ticketCount)
-      .slice(0, 10);
-  }, [latestRepairNames, ticketsFrom2025]);
-
-  useEffect(() => {
-    if (!topRepairsByTickets2025.length) {
-      setSelectedTrendRepairId("");
-      return;
-    }
-
-    setSelectedTrendRepairId((current) => {
-      if (current && topRepairsByTickets2025.some((repair) => repair.repairId === current)) {
-        return current;
-      }
-      return topRepairsByTickets2025[0].repairId;
-    });
-  }, [topRepairsByTickets2025]);
-
   const selectedTrendRepair = useMemo(
     () => topRepairsByTickets2025.find((repair) => repair.repairId === selectedTrendRepairId),
     [selectedTrendRepairId, topRepairsByTickets2025]
   );
 
-  const trendData = useMemo(() => {
-    if (!selectedTrendRepairId) return [];
-    const start = new Date(2025, 0, 1);
-    const end = new Date();
-    const months: string[] = [];
-    const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
-    const endCursor = new Date(end.getFullYear(), end.getMonth(), 1);
-
-    while (cursor <= endCursor) {
-      const monthLabel = `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, "0")}`;
-      months.push(monthLabel);
-      cursor.setMonth(cursor.getMonth() + 1);
-    }
-
-    const monthMap = new Map<
-      string,
-      { totalCost: number; ticketCount: number; uniqueChassis: Set<string> }
-    >();
-
-    ticketsFrom2025.forEach((ticketEntry) => {
-      const repair = ticketEntry.roles?.["43"];
-      const repairId = repair?.InvolvedPartyBusinessPartnerID?.trim() || "no-repair";
-      if (repairId !== selectedTrendRepairId) return;
-
-      const created = parseTicketDate(ticketEntry.ticket.CreatedOn);
-      if (Number.isNaN(created.getTime()) || created < start || created > end) return;
-      const monthKey = `${created.getFullYear()}-${String(created.getMonth() + 1).padStart(2, "0")}`;
-      const cost = parseAmountIncludingTax(ticketEntry.ticket.AmountIncludingTax) ?? 0;
-      const chassis = getNormalizedSerialId(ticketEntry);
-
-      const existing = monthMap.get(monthKey) ?? {
-        totalCost: 0,
-        ticketCount: 0,
-        uniqueChassis: new Set<string>(),
-      };
-
-      existing.totalCost += cost;
-      existing.ticketCount += 1;
-      if (chassis) {
-        existing.uniqueChassis.add(chassis);
-      }
-
-      monthMap.set(monthKey, existing);
-    });
-
-    return months.map((month) => {
-      const stats = monthMap.get(month);
-      const ticketCount = stats?.ticketCount ?? 0;
-      const avgCost = ticketCount > 0 ? stats!.totalCost / ticketCount : 0;
-      const uniqueChassisPercent =
-        ticketCount > 0 ? (stats!.uniqueChassis.size / ticketCount) * 100 : 0;
-      return {
-        month,
-        avgCost,
-        ticketCount,
-        uniqueChassisPercent,
-      };
-    });
-  }, [selectedTrendRepairId, ticketsFrom2025]);
+  const trendData = useMemo(
+    () => (selectedTrendRepairId ? trendReportQuery.data?.trends[selectedTrendRepairId] ?? [] : []),
+    [selectedTrendRepairId, trendReportQuery.data]
+  );
 
+  // A linked page past the end (e.g. after the data shrank) shows the last one.
+  const currentPage = Math.min(params.page, Math.max(1, Math.ceil(sortedRepairs.length / PAGE_SIZE)));
   const paginatedRepairs = useMemo(() => {
-    const start = (page - 1) * PAGE_SIZE;
+    const start = (currentPage - 1) * PAGE_SIZE;
     return sortedRepairs.slice(start, start + PAGE_SIZE);
-  }, [page, sortedRepairs]);
+  }, [currentPage, sortedRepairs]);
 
   const repairOptions = useMemo(
     () => repairs.map((repair) => ({ id: repair.repairId, name: repair.repairName })),
@@ -325,7 +226,7 @@ export default function RepairsPage() {
     return <div className="p-8 text-destructive">Failed to load repair data: {message}</div>;
   }
 
-  if (isLoading) {
+  if (isLoading || repairsQuery.isLoading || trendReportQuery.isLoading) {
     return (
       <PageLoader
         title="Loading repair analytics"
@@ -333,6 +234,7 @@ export default function RepairsPage() {
         tasks={[
           { label: "Ticket dataset", progress: data ? 100 : 0 },
           { label: "Visibility filters", progress: settings ? 100 : 0 },
+          { label: "Repair aggregations", progress: repairsQuery.data && trendReportQuery.data ? 100 : 0 },
         ]}
       />
     );
@@ -369,10 +271,7 @@ export default function RepairsPage() {
             <Label htmlFor="repair-select">Filter by repair</Label>
             <Select
               value={selectedRepairId}
-              onValueChange={(value) => {
-                setSelectedRepairId(value);
-                setPage(1);
-              }}
+              onValueChange={(value) => updateParams({ repair: value, page: 1 })}
             >
               <SelectTrigger id="repair-select">
                 <SelectValue placeholder="All repairs" />
@@ -392,10 +291,7 @@ export default function RepairsPage() {
             <Input
               id="repair-search"
               value={search}
-              onChange={(event) => {
-                setSearch(event.target.value);
-                setPage(1);
-              }}
+              onChange={(event) => updateParams({ q: event.target.value, page: 1 }, { replace: true })}
               placeholder="Search repair name or ID"
             />
             <p className="text-xs text-muted-foreground">Matches partial text in name or ID.</p>
@@ -580,7 +476,7 @@ export default function RepairsPage() {
                             ? "bg-primary/10 text-primary"
                             : "hover:bg-muted/60"
                         }`}
-                        onClick={() => setSelectedTrendRepairId(repair.repairId)}
+                        onClick={() => updateParams({ trend: repair.repairId })}
                       >
                         <TableCell className="max-w-none whitespace-normal font-medium">
                           {index + 1}. {repair.repairName}
@@ -612,14 +508,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex items-center gap-2"
-                    onClick={() => {
-                      if (sortKey === "repairName") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("repairName");
-                        setSortDirection("asc");
-                      }
-                    }}
+                    onClick={() => toggleSort("repairName", "asc")}
                   >
                     Repair Shop Name
                     <span className="text-xs text-muted-foreground">
@@ -631,14 +520,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex items-center gap-2"
-                    onClick={() => {
-                      if (sortKey === "repairId") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("repairId");
-                        setSortDirection("asc");
-                      }
-                    }}
+                    onClick={() => toggleSort("repairId", "asc")}
                   >
                     Shop ID
                     <span className="text-xs text-muted-foreground">
@@ -650,14 +532,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "totalCost") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("totalCost");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("totalCost", "desc")}
                   >
                     Total Cost
                     <span className="text-xs text-muted-foreground">
@@ -669,14 +544,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "avgCost") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("avgCost");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("avgCost", "desc")}
                   >
                     Avg Cost
                     <span className="text-xs text-muted-foreground">
@@ -688,14 +556,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "ticketCount") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("ticketCount");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("ticketCount", "desc")}
                   >
                     Tickets
                     <span className="text-xs text-muted-foreground">
@@ -707,14 +568,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "chassisTicketCount") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("chassisTicketCount");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("chassisTicketCount", "desc")}
                   >
                     Chassis Tickets
                     <span className="text-xs text-muted-foreground">
@@ -730,14 +584,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "uniqueChassisCount") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("uniqueChassisCount");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("uniqueChassisCount", "desc")}
                   >
                     Unique Chassis
                     <span className="text-xs text-muted-foreground">
@@ -753,14 +600,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "uniqueChassisRatio") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("uniqueChassisRatio");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("uniqueChassisRatio", "desc")}
                   >
                     Unique Chassis %
                     <span className="text-xs text-muted-foreground">
@@ -776,14 +616,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "lowCost") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("lowCost");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("lowCost", "desc")}
                   >
                     Low Cost
                     <span className="text-xs text-muted-foreground">
@@ -795,14 +628,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "mediumCost") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("mediumCost");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("mediumCost", "desc")}
                   >
                     Medium Cost
                     <span className="text-xs text-muted-foreground">
@@ -814,14 +640,7 @@ export default function RepairsPage() {
                   <button
                     type="button"
                     className="flex w-full items-center justify-end gap-2"
-                    onClick={() => {
-                      if (sortKey === "highCost") {
-                        setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-                      } else {
-                        setSortKey("highCost");
-                        setSortDirection("desc");
-                      }
-                    }}
+                    onClick={() => toggleSort("highCost", "desc")}
                   >
                     High Cost
                     <span className="text-xs text-muted-foreground">
@@ -837,13 +656,7 @@ export default function RepairsPage() {
                 <TableRow
                   key={repair.repairId}
                   className="cursor-pointer transition hover:bg-muted/40"
-                  onClick={() =>
-                    window.open(
-                      `/repair-insights/${encodeURIComponent(repair.repairId)}`,
-                      "_blank",
-                      "noopener,noreferrer,width=1400,height=900"
-                    )
-                  }
+                  onClick={() => openRepairInsights(repair.repairId)}
                 >
                   <TableCell className="font-medium">{repair.repairName}</TableCell>
                   <TableCell className="text-muted-foreground">{repair.repairId}</TableCell>
@@ -865,11 +678,7 @@ export default function RepairsPage() {
                       className="text-primary"
                       onClick={(e) => {
                         e.stopPropagation();
-                        window.open(
-                          `/repair-insights/${encodeURIComponent(repair.repairId)}`,
-                          "_blank",
-                          "noopener,noreferrer,width=1400,height=900"
-                        );
+                        openRepairInsights(repair.repairId);
                       }}
                     >
                       Advanced view
@@ -886,7 +695,7 @@ export default function RepairsPage() {
       <PaginationControls
         totalItems={filteredRepairs.length}
         pageSize={PAGE_SIZE}
-        page={page}
+        page={currentPage}
         onPageChange={setPage}
       />
     </div>
@@ -0,0 +1,307 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { AlarmClock, AlertTriangle, CheckCircle2, Gauge, HelpCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import StatCard from "@/components/StatCard";
+import { PageLoader } from "@/components/PageLoader";
+import { UnmappedStatusBanner } from "@/components/UnmappedStatusBanner";
+import { useVisibleTickets } from "@/hooks/useVisibleTickets";
+import { useTicketSla } from "@/hooks/useTicketSla";
+import { useAuth } from "@/hooks/useAuth";
+import { useTimeBasis } from "@/hooks/useTimeBasis";
+import { NormalizedTicket, SlaMetric, TicketRoleIdentity } from "@/types/ticket";
+import {
+  describeSlaTarget,
+  SLA_METRICS,
+  SLA_STATES,
+  SlaBreakdownRow,
+  summarizeSlaBy,
+  TicketSlaResult,
+} from "@/utils/sla";
+
+const BREAKDOWNS: { id: string; label: string; roleOf: (ticket: NormalizedTicket) => TicketRoleIdentity }[] = [
+  { id: "employee", label: "Employee", roleOf: (ticket) => ticket.employee },
+  { id: "dealer", label: "Dealer", roleOf: (ticket) => ticket.dealer },
+  { id: "repair", label: "Repairer", roleOf: (ticket) => ticket.repair },
+];
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+function BreakdownTable({
+  rows,
+  label,
+  onSelect,
+}: {
+  rows: SlaBreakdownRow[];
+  label: string;
+  onSelect: (row: SlaBreakdownRow) => void;
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Measured</TableHead>
+          <TableHead className="text-right">Met</TableHead>
+          <TableHead className="text-right">On track</TableHead>
+          <TableHead className="text-right">At risk</TableHead>
+          <TableHead className="text-right">Breached</TableHead>
+          <TableHead className="text-right">Not measurable</TableHead>
+          <TableHead className="text-right">Breach rate</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow
+            key={row.id}
+            className={row.breached > 0 ? "cursor-pointer" : undefined}
+            onClick={() => row.breached > 0 && onSelect(row)}
+          >
+            <TableCell className="font-medium">{row.name}</TableCell>
+            <TableCell className="text-right">{row.evaluated}</TableCell>
+            <TableCell className="text-right">{row.met}</TableCell>
+            <TableCell className="text-right">{row.onTrack}</TableCell>
+            <TableCell className="text-right">{row.atRisk}</TableCell>
+            <TableCell className="text-right">{row.breached}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{row.unmeasurable}</TableCell>
+            <TableCell className="text-right">
+              <Badge variant={row.breachRate > 0 ? "destructive" : "secondary"}>{formatRate(row.breachRate)}</Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+        {rows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center text-muted-foreground">
+              No tickets are measured against an SLA target.
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function SlaPage() {
+  const { tickets, isLoading, error } = useVisibleTickets({ applyEmployeeVisibility: true });
+  const sla = useTicketSla(tickets);
+  const { can } = useAuth();
+  const { daysBetween, dayLabel } = useTimeBasis();
+  const [metric, setMetric] = useState<SlaMetric | "all">("all");
+  const [selected, setSelected] = useState<{ label: string; row: SlaBreakdownRow } | null>(null);
+
+  const results = useMemo<TicketSlaResult[]>(
+    () =>
+      metric === "all"
+        ? sla.results
+        : sla.results.map((result) => ({
+            ...result,
+            evaluations: result.evaluations.filter((evaluation) => evaluation.target.metric === metric),
+          })),
+    [metric, sla.results]
+  );
+
+  const totals = useMemo(() => {
+    const counts = { measured: 0, evaluations: 0, breached: 0, atRisk: 0, met: 0, unmeasurable: 0 };
+    results.forEach(({ evaluations }) => {
+      if (evaluations.length > 0) counts.measured += 1;
+      evaluations.forEach((evaluation) => {
+        counts.evaluations += 1;
+        if (evaluation.state === "breached") counts.breached += 1;
+        if (evaluation.state === "atRisk") counts.atRisk += 1;
+        if (evaluation.state === "met") counts.met += 1;
+        if (evaluation.state === "unmeasurable") counts.unmeasurable += 1;
+      });
+    });
+    return counts;
+  }, [results]);
+
+  const breakdowns = useMemo(
+    () => BREAKDOWNS.map((breakdown) => ({ ...breakdown, rows: summarizeSlaBy(results, breakdown.roleOf) })),
+    [results]
+  );
+
+  if (isLoading || sla.isLoading) {
+    return (
+      <PageLoader
+        title="Loading SLA report"
+        description="Syncing tickets, SLA targets and status history."
+        tasks={[
+          { label: "Ticket dataset", progress: isLoading ? 0 : 100 },
+          { label: "SLA targets and status history", progress: sla.isLoading ? 0 : 100 },
+        ]}
+      />
+    );
+  }
+
+  if (error || sla.error) {
+    const failure = error ?? sla.error;
+    const message = failure instanceof Error ? failure.message : "Unknown error";
+    return <div className="p-8 text-destructive">Failed to load the SLA report: {message}</div>;
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Service Levels</h2>
+          <p className="text-muted-foreground mt-2">
+            First response and closure of every ticket measured against the SLA targets for its type and severity.
+          </p>
+        </div>
+        <Select value={metric} onValueChange={(value) => setMetric(value as SlaMetric | "all")}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All targets</SelectItem>
+            {Object.entries(SLA_METRICS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <UnmappedStatusBanner />
+
+      {sla.targets.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            No SLA targets are defined yet.{" "}
+            {can("admin") ? (
+              <Link to="/admin" className="underline">
+                Add them on the Admin page’s SLA tab.
+              </Link>
+            ) : (
+              "Ask an admin to add them."
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        <StatCard
+          title="Measured Tickets"
+          value={totals.measured}
+          icon={Gauge}
+          description="Tickets with at least one target"
+        />
+        <StatCard
+          title="Breached"
+          value={totals.breached}
+          icon={AlarmClock}
+          description={`${formatRate(
+            totals.evaluations > totals.unmeasurable ? totals.breached / (totals.evaluations - totals.unmeasurable) : 0
+          )} of measurable targets`}
+        />
+        <StatCard
+          title="At Risk"
+          value={totals.atRisk}
+          icon={AlertTriangle}
+          description="Open and close to the due date"
+        />
+        <StatCard title="Met" value={totals.met} icon={CheckCircle2} description="Completed within the target" />
+        <StatCard
+          title="Not Measurable"
+          value={totals.unmeasurable}
+          icon={HelpCircle}
+          description="Completed before the status history began"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Breach Rates</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Worst breach rate first; click a row with breaches to list the breaching tickets.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="employee" className="space-y-4">
+            <TabsList>
+              {breakdowns.map((breakdown) => (
+                <TabsTrigger key={breakdown.id} value={breakdown.id}>
+                  By {breakdown.label.toLowerCase()}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {breakdowns.map((breakdown) => (
+              <TabsContent key={breakdown.id} value={breakdown.id}>
+                <BreakdownTable
+                  rows={breakdown.rows}
+                  label={breakdown.label}
+                  onSelect={(row) => setSelected({ label: breakdown.label, row })}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+        <DialogContent className="max-h-[80vh] max-w-3xl overflow-hidden">
+          <DialogHeader>
+            <DialogTitle>Breaching tickets: {selected?.row.name}</DialogTitle>
+            <DialogDescription>
+              {selected?.row.breachingTickets.length ?? 0} tickets for this {selected?.label.toLowerCase()} missed at
+              least one target.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="mt-4 max-h-[60vh] space-y-3 overflow-y-auto pr-2">
+            {(selected?.row.breachingTickets ?? []).map(({ ticket, evaluations }) => (
+              <div key={ticket.key} className="rounded-md border p-3 shadow-sm">
+                <p className="text-sm font-semibold">{ticket.ticketName || ticket.ticketId}</p>
+                <p className="text-xs text-muted-foreground">
+                  ID: {ticket.ticketId} · {ticket.typeText || ticket.typeCode} · Severity {ticket.severity || "—"} ·{" "}
+                  {ticket.firstLevelStatus}
+                </p>
+                <ul className="mt-2 space-y-1 text-xs">
+                  {evaluations.map((evaluation) => (
+                    <li key={evaluation.target.id} className="flex flex-wrap items-center gap-2">
+                      <Badge variant={evaluation.state === "breached" ? "destructive" : "secondary"}>
+                        {SLA_STATES[evaluation.state]}
+                      </Badge>
+                      <span>{describeSlaTarget(evaluation.target)}</span>
+                      <span className="text-muted-foreground">
+                        due {format(evaluation.dueAt, "yyyy-MM-dd")}
+                        {evaluation.completedAt
+                          ? `, done ${format(evaluation.completedAt, "yyyy-MM-dd")}`
+                          : evaluation.state === "unmeasurable"
+                            ? ", done at an unknown time"
+                            : ", still open"}
+                        {evaluation.state === "breached" &&
+                          ` (${Math.ceil(daysBetween(evaluation.dueAt, evaluation.completedAt ?? now))} ${dayLabel} late)`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
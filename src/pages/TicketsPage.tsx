@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Bar,
@@ -15,143 +15,78 @@ import {
 import StatCard from "@/components/StatCard";
 import { AlertCircle, Clock, FileWarning, Ticket as TicketIcon } from "lucide-react";
 import { useVisibleTickets } from "@/hooks/useVisibleTickets";
-import { endOfMonth, parse, startOfMonth } from "date-fns";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useTicketStatusMapping } from "@/hooks/useTicketStatusMapping";
-import { filterTicketsByFirstLevelStatus } from "@/utils/dataParser";
+import { useFirstLevelStatuses } from "@/hooks/useFirstLevelStatuses";
+import { SnapshotPicker } from "@/components/SnapshotPicker";
+import { SnapshotComparison } from "@/components/SnapshotComparison";
+import { TimeInStatusCard } from "@/components/TimeInStatusCard";
+import { UnmappedStatusBanner } from "@/components/UnmappedStatusBanner";
+import { StatusLevelControls } from "@/components/StatusLevelControls";
+import { useStatusDrilldown } from "@/hooks/useStatusDrilldown";
+import { useUrlParams } from "@/hooks/useUrlParams";
+import { booleanParam, dateParam, optionalParam } from "@/lib/urlState";
 
 type ChartDatum = { name: string; value: number };
 
 const formatMonthKey = (date: Date) =>
   `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
-const DEFAULT_START_MONTH = "2025-01";
-const DEFAULT_END_MONTH = formatMonthKey(new Date());
+const HIDDEN_STATUSES = ["repairer invoiced processed", "calins closed"];
 
-const parseMonthInput = (value?: string | null) => {
-  if (!value) return null;
-  const [year, month] = value.split("-").map(Number);
-  if (!year || !month) return null;
-
-  const baseDate = new Date(year, month - 1, 1);
-  return {
-    start: startOfMonth(baseDate),
-    end: endOfMonth(baseDate),
-  };
+const PAGE_PARAMS = {
+  asOf: optionalParam(dateParam()),
+  compare: optionalParam(dateParam()),
+  hideClosed: booleanParam(true),
 };
 
 export default function TicketsPage() {
-  const { data, isLoading, error } = useVisibleTickets();
+  const [{ asOf, compare: compareTo, hideClosed }, updateParams] = useUrlParams(PAGE_PARAMS);
+  const setAsOf = (date: string | null) => updateParams({ asOf: date });
+  const setCompareTo = (date: string | null) => updateParams({ compare: date });
+  const { tickets: visibleTickets, isLoading, error, snapshot } = useVisibleTickets({ asOf });
   const mappingQuery = useTicketStatusMapping();
-  const [startMonth, setStartMonth] = useState(DEFAULT_START_MONTH);
-  const [endMonth, setEndMonth] = useState(DEFAULT_END_MONTH);
-  const [hideClosed, setHideClosed] = useState(true);
-
-  const filteredByFirstLevel = useMemo(() => {
-    if (!data) return undefined;
-    return hideClosed
-      ? filterTicketsByFirstLevelStatus(data, mappingQuery.data, {
-          excludedFirstLevelStatuses: ["Closed"],
-        })
-      : data;
-  }, [data, hideClosed, mappingQuery.data]);
-
-  const tickets = useMemo(() => {
-    if (!filteredByFirstLevel) return [];
-    return Object.values(filteredByFirstLevel.c4cTickets_test.tickets);
-  }, [filteredByFirstLevel]);
+  const { isClosed } = useFirstLevelStatuses();
+  const statusDrilldown = useStatusDrilldown();
 
-  const ticketsWithDates = useMemo(
+  // The created date range comes from the global filter bar, already applied by useVisibleTickets.
+  const filteredTickets = useMemo(
     () =>
-      tickets.map((entry) => {
-        const createdDate = parse(entry.ticket.CreatedOn, "dd/MM/yyyy", new Date());
-        return {
-          entry,
-          createdDate: Number.isNaN(createdDate.getTime()) ? null : createdDate,
-        };
-      }),
-    [tickets]
+      hideClosed
+        ? visibleTickets.filter((ticket) => !isClosed(ticket.firstLevelStatus))
+        : visibleTickets,
+    [hideClosed, isClosed, visibleTickets]
   );
 
-  const monthOptions = useMemo(() => {
-    const months = new Set<string>();
-    ticketsWithDates.forEach((ticket) => {
-      if (ticket.createdDate) {
-        months.add(formatMonthKey(ticket.createdDate));
-      }
-    });
-    return Array.from(months).sort();
-  }, [ticketsWithDates]);
-
-  const { filteredTicketEntries, filteredTicketDates, activeRange } = useMemo(() => {
-    const parsedStart = parseMonthInput(startMonth) ?? parseMonthInput(DEFAULT_START_MONTH);
-    const parsedEnd = parseMonthInput(endMonth) ?? parseMonthInput(DEFAULT_END_MONTH);
-
-    let startDate = parsedStart?.start ?? startOfMonth(new Date(2025, 0, 1));
-    let endDate = parsedEnd?.end ?? endOfMonth(new Date());
-
-    // Ensure the range is valid
-    if (startDate > endDate) {
-      startDate = parsedEnd?.start ?? startDate;
-      endDate = parsedEnd?.end ?? endDate;
-    }
-
-    const filtered = ticketsWithDates.filter(
-      (ticket) =>
-        ticket.createdDate !== null &&
-        ticket.createdDate >= startDate &&
-        ticket.createdDate <= endDate
-    );
-
-    return {
-      filteredTicketEntries: filtered.map((item) => item.entry),
-      filteredTicketDates: filtered,
-      activeRange: { start: startDate, end: endDate },
-    };
-  }, [endMonth, startMonth, ticketsWithDates]);
-
   const {
     totalTickets,
     unapprovedCount,
     unrespondedCount,
-    statusData,
     typeData,
     creationTrend,
     dateRangeLabel,
   } = useMemo(() => {
-    const total = filteredTicketEntries.length;
+    const total = filteredTickets.length;
     let unapproved = 0;
     let unresponded = 0;
 
-    const statusCount: Record<string, number> = {};
     const typeCount: Record<string, number> = {};
     const creationCount: Record<string, number> = {};
     const creationDates: Date[] = [];
-    const hiddenStatuses = ["repairer invoiced processed", "calins closed"];
 
-    filteredTicketEntries.forEach((entry) => {
-      const ticket = entry.ticket;
-      if (!ticket.ApprovalNumber) unapproved += 1;
-      if (!ticket.Responded) unresponded += 1;
+    filteredTickets.forEach((ticket) => {
+      if (!ticket.entry.ticket.ApprovalNumber) unapproved += 1;
+      if (!ticket.entry.ticket.Responded) unresponded += 1;
 
-      statusCount[ticket.TicketStatusText] = (statusCount[ticket.TicketStatusText] || 0) + 1;
-      typeCount[ticket.TicketTypeText] = (typeCount[ticket.TicketTypeText] || 0) + 1;
-    });
+      typeCount[ticket.typeText] = (typeCount[ticket.typeText] || 0) + 1;
 
-    filteredTicketDates.forEach((ticket) => {
-      if (ticket.createdDate) {
-        creationDates.push(ticket.createdDate);
-        const monthKey = formatMonthKey(ticket.createdDate);
+      if (ticket.createdOn) {
+        creationDates.push(ticket.createdOn);
+        const monthKey = formatMonthKey(ticket.createdOn);
         creationCount[monthKey] = (creationCount[monthKey] || 0) + 1;
       }
     });
 
-    const statusList: ChartDatum[] = Object.entries(statusCount)
-      .filter(([name]) => !hiddenStatuses.some((hidden) => name.toLowerCase().includes(hidden)))
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-
     const typeList: ChartDatum[] = Object.entries(typeCount)
       .map(([name, value]) => ({ name, value }))
       .sort((a, b) => b.value - a.value);
@@ -168,22 +103,28 @@ export default function TicketsPage() {
       : null;
 
     const rangeLabel =
-      earliest && latest
-        ? `${earliest.toISOString().slice(0, 10)} → ${latest.toISOString().slice(0, 10)}`
-        : `${activeRange.start.toISOString().slice(0, 10)} → ${activeRange.end
-            .toISOString()
-            .slice(0, 10)}`;
+      earliest && latest ? `${earliest.toISOString().slice(0, 10)} → ${latest.toISOString().slice(0, 10)}` : "—";
 
     return {
       totalTickets: total,
       unapprovedCount: unapproved,
       unrespondedCount: unresponded,
-      statusData: statusList,
       typeData: typeList,
       creationTrend: trendList,
       dateRangeLabel: rangeLabel,
     };
-  }, [activeRange.end, activeRange.start, filteredTicketDates, filteredTicketEntries]);
+  }, [filteredTickets]);
+
+  const groupByStatusLevel = statusDrilldown.group;
+  const statusData: ChartDatum[] = useMemo(
+    () =>
+      groupByStatusLevel(
+        filteredTickets.filter(
+          (ticket) => !HIDDEN_STATUSES.some((hidden) => ticket.statusText.toLowerCase().includes(hidden))
+        )
+      ).map(({ name, value }) => ({ name, value })),
+    [filteredTickets, groupByStatusLevel]
+  );
 
   if (isLoading || mappingQuery.isLoading) {
     return <div className="p-8">Loading ticket analytics...</div>;
@@ -194,12 +135,22 @@ export default function TicketsPage() {
     const mappingMessage =
       mappingQuery.error instanceof Error ? mappingQuery.error.message : "Mapping error";
     return (
-      <div className="p-8 text-destructive">
-        Failed to load ticket analytics:
-        <ul className="list-disc list-inside mt-2 space-y-1">
-          <li>{ticketMessage}</li>
-          <li>{mappingMessage}</li>
-        </ul>
+      <div className="space-y-4">
+        {asOf && (
+          <SnapshotPicker
+            asOf={asOf}
+            onAsOfChange={setAsOf}
+            compareTo={compareTo}
+            onCompareToChange={setCompareTo}
+          />
+        )}
+        <div className="p-8 text-destructive">
+          Failed to load ticket analytics:
+          <ul className="list-disc list-inside mt-2 space-y-1">
+            <li>{ticketMessage}</li>
+            <li>{mappingMessage}</li>
+          </ul>
+        </div>
       </div>
     );
   }
@@ -214,58 +165,42 @@ export default function TicketsPage() {
         </p>
       </div>
 
+      <UnmappedStatusBanner />
+
+      <SnapshotPicker
+        asOf={asOf}
+        onAsOfChange={setAsOf}
+        compareTo={compareTo}
+        onCompareToChange={setCompareTo}
+      />
+
+      {compareTo && (
+        <SnapshotComparison
+          compareTo={compareTo}
+          tickets={visibleTickets}
+          currentLabel={snapshot?.date ?? "live"}
+        />
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>Created Date Range</CardTitle>
+          <CardTitle>Closed Tickets</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Select a month range to filter all ticket analytics. Defaults to January 2025 through
-            the current month.
+            The created date range and the other filters are set in the filter bar above and apply
+            to every analytics page.
           </p>
           <div className="mt-4 flex items-center gap-3">
             <Switch
               id="hide-closed"
               checked={hideClosed}
-              onCheckedChange={setHideClosed}
+              onCheckedChange={(checked) => updateParams({ hideClosed: checked })}
               disabled={mappingQuery.isLoading}
             />
             <Label htmlFor="hide-closed" className="text-sm font-medium">
-              Hide tickets with first-level status “Closed” (mapping)
+              Hide tickets whose first-level status is marked closed
             </Label>
           </div>
         </CardHeader>
-        <CardContent>
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="start-month">Start month</Label>
-              <Input
-                id="start-month"
-                type="month"
-                value={startMonth}
-                onChange={(event) => setStartMonth(event.target.value)}
-                list="month-options"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="end-month">End month</Label>
-              <Input
-                id="end-month"
-                type="month"
-                value={endMonth}
-                onChange={(event) => setEndMonth(event.target.value)}
-                list="month-options"
-              />
-            </div>
-          </div>
-          <datalist id="month-options">
-            {monthOptions.map((month) => (
-              <option key={month} value={month} />
-            ))}
-          </datalist>
-          <p className="text-sm text-muted-foreground mt-3">
-            Showing tickets from {activeRange.start.toISOString().slice(0, 10)} to{" "}
-            {activeRange.end.toISOString().slice(0, 10)}.
-          </p>
-        </CardContent>
       </Card>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -273,7 +208,7 @@ export default function TicketsPage() {
           title="Total Tickets"
           value={totalTickets}
           icon={TicketIcon}
-          description="Tickets currently visible"
+          description={snapshot ? `Visible as of ${snapshot.date}` : "Tickets currently visible"}
         />
         <StatCard
           title="Pending Approval"
@@ -337,8 +272,10 @@ export default function TicketsPage() {
         <CardHeader>
           <CardTitle>Status Distribution</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Sorted by total tickets; hovering shows exact ticket counts.
+            Sorted by total tickets; hovering shows exact ticket counts. Pick a hierarchy level to roll up,
+            or click a bar to drill into it.
           </p>
+          <StatusLevelControls drilldown={statusDrilldown} />
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={360}>
@@ -348,11 +285,19 @@ export default function TicketsPage() {
               <YAxis />
               <Tooltip />
               <Legend />
-              <Bar dataKey="value" fill="#10B981" name="Tickets" />
+              <Bar
+                dataKey="value"
+                fill="#10B981"
+                name="Tickets"
+                className={statusDrilldown.canDrill ? "cursor-pointer" : undefined}
+                onClick={(data) => statusDrilldown.drillInto((data?.name as string) ?? "")}
+              />
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
       </Card>
+
+      <TimeInStatusCard tickets={filteredTickets} />
     </div>
   );
 }
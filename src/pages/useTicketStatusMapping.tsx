@@ -30,7 +30,7 @@ export default function MappingPage() {
     if (!ticketQuery.data) return [];
 
     const seen = new Map<string, string>();
-    Object.values(ticketQuery.data.c4cTickets_test.tickets).forEach((entry) => {
+    Object.values(ticketQuery.data.tickets).forEach((entry) => {
       if (!seen.has(entry.ticket.TicketStatus)) {
         seen.set(entry.ticket.TicketStatus, entry.ticket.TicketStatusText);
       }
@@ -124,13 +124,14 @@ export default function MappingPage() {
                       value={localMapping[row.code] ?? ""}
                       onChange={(event) => handleChange(row.code, event.target.value)}
                       placeholder="Enter First Level Status"
+                      disabled={mappingQuery.isReadOnly}
                     />
                   </TableCell>
                   <TableCell>
                     <Button
                       size="sm"
                       onClick={() => handleSave(row)}
-                      disabled={mappingQuery.isUpdating || mappingQuery.isLoading}
+                      disabled={mappingQuery.isUpdating || mappingQuery.isLoading || mappingQuery.isReadOnly}
                     >
                       Save
                     </Button>
@@ -1,20 +1,28 @@
 export interface TicketData {
-  c4cTickets_test: {
-    tickets: {
-      [ticketId: string]: {
-        updatedAt: number;
-        SerialID?: string;
-        ticket: Ticket;
-        roles: {
-          "1001"?: DealerRole;
-          "40"?: EmployeeRole;
-          "43"?: RepairRole;
-        };
+  tickets: {
+    [ticketId: string]: {
+      updatedAt: number;
+      SerialID?: string;
+      ticket: Ticket;
+      roles: {
+        "1001"?: DealerRole;
+        "40"?: EmployeeRole;
+        "43"?: RepairRole;
       };
     };
   };
 }
 
+export type TicketDatasetKind = "test" | "production" | "archive";
+
+export interface TicketDataset {
+  id: string;
+  label: string;
+  kind: TicketDatasetKind;
+  /** Database node holding the dataset, e.g. "c4cTickets_test". */
+  root: string;
+}
+
 export interface Ticket {
   AmountIncludingTax: string;
   ApprovalNumber: string;
@@ -124,11 +132,60 @@ export interface DisplaySettings {
   dealerships: Record<string, boolean>;
   employees: Record<string, boolean>;
   repairs: Record<string, boolean>;
+  /** Evaluated in order by `filterTicketsByDisplaySettings`; see `VisibilityRule`. */
+  rules?: VisibilityRule[];
+}
+
+export type VisibilityRuleCondition =
+  /** Case-insensitive regular expression tested against the entity name. */
+  | { kind: "namePattern"; pattern: string }
+  /** Fewer than `minTickets` tickets in the unfiltered dataset. */
+  | { kind: "minTickets"; minTickets: number }
+  /** No ticket created in the last `days` days. */
+  | { kind: "inactiveDays"; days: number }
+  | { kind: "idList"; ids: string[] };
+
+/**
+ * Shows or hides every entity of a category matching `condition`.
+ * "beforeToggles" rules win over the per-ID switches; "afterToggles" rules
+ * only apply to entities nobody has toggled. Within each group the first
+ * matching rule decides.
+ */
+export type VisibilityRule = VisibilityRuleCondition & {
+  id: string;
+  category: EntityVisibilityCategory;
+  action: "hide" | "show";
+  precedence: "beforeToggles" | "afterToggles";
+  enabled: boolean;
+};
+
+/** An entity as seen by visibility rules. */
+export interface VisibilityEntity {
+  id: string;
+  name: string;
+  ticketCount: number;
+  /** Latest CreatedOn of the entity's tickets, null when none parse. */
+  lastActivity: Date | null;
+}
+
+export type VisibilityDecision = {
+  visible: boolean;
+  /** A rule id, or "toggle" / "default". */
+  decidedBy: string;
+};
+
+/**
+ * A named set of visibility maps. The "default" profile is the original
+ * `displaySettings` node; others live under `visibilityProfiles/{id}`.
+ */
+export interface VisibilityProfile {
+  id: string;
+  name: string;
 }
 
 export interface UpdateDisplaySettingPayload {
   category: EntityVisibilityCategory;
-  entityId: string;
+  entityIds: string[];
   isVisible: boolean;
 }
 
@@ -136,8 +193,340 @@ export interface UpdateDisplaySettingPayload {
 export interface TicketStatusMappingEntry {
   ticketStatusText: string;
   firstLevelStatus: string;
+  /** Deepest `StatusHierarchyNode` below the first-level status; absent when mapped to the status itself. */
+  statusNodeId?: string;
+}
+
+/**
+ * A management grouping below a first-level status, e.g. Open → Waiting on
+ * Parts. Stored under `statusHierarchy/{id}`; nodes nest to any depth.
+ */
+export interface StatusHierarchyNode {
+  id: string;
+  name: string;
+  /** A `FirstLevelStatus` id for the top level, otherwise another node's id. */
+  parentId: string;
+  /** Order among siblings, ascending. */
+  order: number;
 }
 
 export type TicketStatusMapping = Record<string, TicketStatusMappingEntry>;
 
-export type TicketEntry = TicketData["c4cTickets_test"]["tickets"][string];
+/** Business category a ticket type rolls up to; the keys of `TICKET_TYPE_CATEGORIES`. */
+export type TicketTypeCategory = "warranty" | "pdi" | "goodwill" | "service" | "other";
+
+export interface TicketTypeMappingEntry {
+  ticketTypeText: string;
+  category: TicketTypeCategory;
+}
+
+/** TicketType code → category, stored under `ticketTypeMapping/{code}`. */
+export type TicketTypeMapping = Record<string, TicketTypeMappingEntry>;
+
+/**
+ * One entry of the managed first-level status list under
+ * `firstLevelStatuses/{id}`. Mapping entries refer to it by `name`.
+ */
+export interface FirstLevelStatus {
+  id: string;
+  name: string;
+  /** Hex colour used for chart segments, badges and column headers. */
+  color: string;
+  /** Column and legend order, ascending. */
+  order: number;
+  isClosed: boolean;
+}
+
+/** A TicketStatus found in the tickets without a first-level status in the mapping. */
+export interface UnmappedTicketStatus {
+  ticketStatus: string;
+  ticketStatusText: string;
+  ticketCount: number;
+}
+
+/** One entry of an import diff; `before` is null when added, `after` when removed. */
+export interface TicketStatusMappingChange {
+  ticketStatus: string;
+  before: TicketStatusMappingEntry | null;
+  after: TicketStatusMappingEntry | null;
+}
+
+export interface TicketStatusMappingDiff {
+  added: TicketStatusMappingChange[];
+  changed: TicketStatusMappingChange[];
+  removed: TicketStatusMappingChange[];
+}
+
+export type TicketEntry = TicketData["tickets"][string];
+
+export interface TicketRoleIdentity {
+  id: string;
+  name: string;
+}
+
+/**
+ * A ticket with every derived field parsed once, so all pages bucket, sum and
+ * group the same ticket the same way. Built by `normalizeTicketData`.
+ */
+export interface NormalizedTicket {
+  /** Key of the entry under `tickets`. */
+  key: string;
+  entry: TicketEntry;
+  ticketId: string;
+  ticketName: string;
+  /** Null when CreatedOn is empty or in an unknown format. */
+  createdOn: Date | null;
+  /** Null when AmountIncludingTax is empty or not numeric. */
+  amount: number | null;
+  statusCode: string;
+  statusText: string;
+  firstLevelStatus: string;
+  typeCode: string;
+  typeText: string;
+  severity: string;
+  /** Normalized serial (falls back to chassis, then the last word of the ticket name). */
+  serialId: string;
+  dealer: TicketRoleIdentity;
+  employee: TicketRoleIdentity;
+  repair: TicketRoleIdentity;
+  timeConsumed: TimeBreakdown;
+}
+
+export type TicketIssueKind =
+  | "invalidDate"
+  | "invalidAmount"
+  | "missingChassis"
+  | "missingSerial"
+  | "missingDealerRole"
+  | "missingEmployeeRole"
+  | "missingRepairRole"
+  | "invalidField";
+
+export interface TicketIssue {
+  kind: TicketIssueKind;
+  /** Dotted path within the entry, e.g. "ticket.CreatedOn" or "roles.1001". */
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface TicketQualityRecord {
+  ticketKey: string;
+  ticketId: string;
+  ticketName: string;
+  issues: TicketIssue[];
+}
+
+export interface TicketDataQualityReport {
+  checkedTickets: number;
+  ticketsWithIssues: TicketQualityRecord[];
+  /** Number of tickets affected by each kind of issue. */
+  counts: Record<TicketIssueKind, number>;
+}
+
+/** One entry of `ticketSnapshots/{root}/index`, keyed by the snapshot date (yyyy-MM-dd). */
+export interface TicketSnapshotSummary {
+  date: string;
+  takenAt: number;
+  /** "full" snapshots hold every ticket; "diff" ones only the changes since the previous snapshot. */
+  kind: "full" | "diff";
+  ticketCount: number;
+}
+
+export interface TicketSnapshotRecord {
+  takenAt: number;
+  tickets?: TicketData["tickets"];
+  changed?: TicketData["tickets"];
+  /** Ticket keys removed since the previous snapshot (stored as a set for Firebase). */
+  removed?: Record<string, true>;
+}
+
+export interface TicketSnapshotComparison {
+  added: NormalizedTicket[];
+  removed: NormalizedTicket[];
+  /** Tickets present in both snapshots whose first-level status changed. */
+  statusChanged: { before: NormalizedTicket; after: NormalizedTicket }[];
+}
+
+/**
+ * One status change of a ticket, stored under
+ * `ticketStatusHistory/{root}/{TicketID}/{at}`. `from*` fields are null for a
+ * ticket first seen by a sync.
+ */
+export interface TicketStatusTransition {
+  /** The ticket's `updatedAt` when the change was observed, so every client writes the same key. */
+  at: number;
+  fromStatus: string | null;
+  fromStatusText: string | null;
+  fromFirstLevelStatus: string | null;
+  toStatus: string;
+  toStatusText: string;
+  toFirstLevelStatus: string;
+}
+
+export interface TimeInStatusSummary {
+  firstLevelStatus: string;
+  /** Completed and ongoing stays in the status. */
+  stays: number;
+  tickets: number;
+  avgDays: number;
+  medianDays: number;
+  maxDays: number;
+}
+
+/** A non-working day; `region` empty means it applies in every region. */
+export interface PublicHoliday {
+  id: string;
+  /** Local date, yyyy-MM-dd. */
+  date: string;
+  name: string;
+  region: string;
+}
+
+/** Working hours and holidays under `workingCalendar`, used to measure business time. */
+export interface WorkingCalendar {
+  /** IANA time zone the hours are in, e.g. "Australia/Sydney". */
+  timeZone: string;
+  /** Working weekdays, 0 = Sunday … 6 = Saturday. */
+  workingDays: number[];
+  /** Local start and end of the working day, "HH:mm". */
+  dayStart: string;
+  dayEnd: string;
+  /** Region whose holidays apply, alongside the region-less ones. */
+  region: string;
+  holidays: PublicHoliday[];
+}
+
+/** Whether ages and durations count every hour or only working hours. */
+export type TimeBasis = "calendar" | "business";
+
+/** Filters set in the bar above the analytics pages; blank values match every ticket. */
+export interface GlobalFilters {
+  /** CreatedOn range as yyyy-MM-dd, both ends inclusive. */
+  createdFrom: string;
+  createdTo: string;
+  /** TicketType code. */
+  ticketType: string;
+  severity: string;
+  firstLevelStatus: string;
+  dealerId: string;
+  repairId: string;
+  employeeId: string;
+}
+
+/** A dimension of the global filters that a page can opt out of. */
+export type GlobalFilterDimension =
+  | "dateRange"
+  | "ticketType"
+  | "severity"
+  | "firstLevelStatus"
+  | "dealer"
+  | "repair"
+  | "employee";
+
+export type ExplorerColumn =
+  | "name"
+  | "status"
+  | "type"
+  | "dealer"
+  | "repair"
+  | "employee"
+  | "chassis"
+  | "createdOn"
+  | "amount";
+
+/** Filters, columns, sort and page size of the Data Explorer; "all" matches every ticket. */
+export interface ExplorerViewState {
+  search: string;
+  status: string;
+  type: string;
+  dealerId: string;
+  repairId: string;
+  employeeName: string;
+  /** CreatedOn range as yyyy-MM-dd, both ends inclusive. */
+  createdFrom: string;
+  createdTo: string;
+  /** Shown next to the always-visible ticket id, in table order. */
+  columns: ExplorerColumn[];
+  /** Null keeps the dataset order. */
+  sortBy: ExplorerColumn | "id" | null;
+  sortDirection: "asc" | "desc";
+  pageSize: number;
+}
+
+export type ExplorerViewScope = "personal" | "shared";
+
+/**
+ * A named Data Explorer view. Shared views live under `explorerViews/{id}`,
+ * personal ones under `userPreferences/{uid}/explorerViews/{id}`.
+ */
+export interface ExplorerView {
+  id: string;
+  name: string;
+  scope: ExplorerViewScope;
+  /** Email of whoever saved it; only they or an admin can change a shared view. */
+  createdBy: string;
+  state: ExplorerViewState;
+}
+
+export type SlaMetric = "firstResponse" | "closure";
+
+export type SlaDurationUnit = "businessDays" | "calendarDays";
+
+/**
+ * A service level target under `slaTargets/{id}`. Empty `ticketType` or
+ * `severity` matches any; the most specific target per metric applies.
+ */
+export interface SlaTarget {
+  id: string;
+  metric: SlaMetric;
+  /** TicketType code. */
+  ticketType: string;
+  /** TicketSeverity value. */
+  severity: string;
+  duration: number;
+  unit: SlaDurationUnit;
+  /** Open tickets past this share of the allowed time are at risk, e.g. 0.8. */
+  atRiskRatio: number;
+}
+
+/** "unmeasurable": responded or closed, but before the status history can tell when. */
+export type SlaState = "onTrack" | "atRisk" | "breached" | "met" | "unmeasurable";
+
+export interface SlaEvaluation {
+  target: SlaTarget;
+  state: SlaState;
+  startedAt: Date;
+  dueAt: Date;
+  /** When the response or closure happened; null while outstanding or when unmeasurable. */
+  completedAt: Date | null;
+}
+
+export type AuditAction =
+  | "displaySetting"
+  | "visibilityProfile"
+  | "visibilityRule"
+  | "statusMapping"
+  | "firstLevelStatus"
+  | "statusHierarchy"
+  | "typeMapping"
+  | "slaTarget"
+  | "workingCalendar"
+  | "explorerView"
+  | "revert";
+
+/** One append-only entry under `auditLog/{id}`; ids sort by time. */
+export interface AuditLogEntry {
+  id: string;
+  at: number;
+  actor: { uid: string; email: string };
+  action: AuditAction;
+  /** Database path that was written, e.g. "displaySettings/repairs/1234". */
+  path: string;
+  /** Null when nothing was stored at `path` before. */
+  oldValue: unknown;
+  /** Null when the write removed the value. */
+  newValue: unknown;
+  /** For reverts, the id of the entry that was undone. */
+  revertOf?: string;
+}
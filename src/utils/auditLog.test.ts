@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryDataSource, setTicketDataSource, TicketDataSource } from "@/lib/dataSource";
+import { useAuthStore } from "@/lib/auth";
+import { loadAuditLog, revertAuditEntry, writeManyWithAudit, writeWithAudit } from "./auditLog";
+
+let source: TicketDataSource;
+
+beforeEach(() => {
+  source = createMemoryDataSource({
+    displaySettings: { repairs: { r1: true, r2: false } },
+    ticketStatusMapping: { E0001: { ticketStatusText: "New" } },
+  });
+  setTicketDataSource(source);
+  useAuthStore.setState({ user: { uid: "u1", email: "ann@example.com" }, role: "admin" });
+});
+
+describe("writeManyWithAudit", () => {
+  it("stores each value together with an entry holding the old one", async () => {
+    const entries = await writeManyWithAudit(
+      { "displaySettings/repairs/r1": false, "displaySettings/repairs/r3": true },
+      "displaySetting"
+    );
+
+    expect(await source.read("displaySettings/repairs")).toEqual({ r1: false, r2: false, r3: true });
+    expect(entries.map(({ path, oldValue, newValue }) => [path, oldValue, newValue])).toEqual([
+      ["displaySettings/repairs/r1", true, false],
+      ["displaySettings/repairs/r3", null, true],
+    ]);
+    expect(await source.read(`auditLog/${entries[0].id}`)).toMatchObject({
+      actor: { uid: "u1", email: "ann@example.com" },
+      action: "displaySetting",
+    });
+  });
+
+  it("reads the old values with one request on their common parent", async () => {
+    const read = vi.spyOn(source, "read");
+    await writeManyWithAudit(
+      { "displaySettings/repairs/r1": false, "displaySettings/repairs/r2": true },
+      "displaySetting"
+    );
+    expect(read.mock.calls).toEqual([["displaySettings/repairs"]]);
+
+    read.mockClear();
+    await writeManyWithAudit({ "displaySettings/repairs/r1": true, "ticketStatusMapping/E0001": null }, "revert");
+    expect(read.mock.calls).toEqual([["displaySettings/repairs/r1"], ["ticketStatusMapping/E0001"]]);
+  });
+});
+
+describe("revertAuditEntry", () => {
+  it("restores the old value and logs the revert", async () => {
+    const entry = await writeWithAudit("ticketStatusMapping/E0001", null, "statusMapping");
+    const revert = await revertAuditEntry(entry);
+
+    expect(await source.read("ticketStatusMapping/E0001")).toEqual({ ticketStatusText: "New" });
+    expect(revert).toMatchObject({ action: "revert", revertOf: entry.id, oldValue: null });
+  });
+
+  it("refuses non-admins", async () => {
+    const entry = await writeWithAudit("displaySettings/repairs/r1", false, "displaySetting");
+    useAuthStore.setState({ role: "mapping-editor" });
+
+    await expect(revertAuditEntry(entry)).rejects.toThrow("it requires the admin role");
+  });
+});
+
+describe("loadAuditLog", () => {
+  it("pages through the log from the newest entry back", async () => {
+    const auditLog = Object.fromEntries(
+      [1, 2, 3, 4, 5].map((at) => [`00000000000000${at}-id`, { at, path: `p${at}`, newValue: at }])
+    );
+    setTicketDataSource(createMemoryDataSource({ auditLog }));
+
+    const latest = await loadAuditLog(undefined, 2);
+    expect(latest.entries.map((entry) => entry.at)).toEqual([5, 4]);
+    expect(latest.entries[0].oldValue).toBeNull();
+
+    const older = await loadAuditLog(latest.olderThan, 2);
+    expect(older.entries.map((entry) => entry.at)).toEqual([3, 2]);
+
+    const oldest = await loadAuditLog(older.olderThan, 2);
+    expect(oldest).toEqual({ entries: [expect.objectContaining({ at: 1 })], olderThan: undefined });
+  });
+});
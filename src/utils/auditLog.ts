@@ -0,0 +1,129 @@
+import { v4 as uuid } from "uuid";
+import { AuditAction, AuditLogEntry } from "@/types/ticket";
+import { getTicketDataSource } from "@/lib/dataSource";
+import { assertRole, useAuthStore } from "@/lib/auth";
+
+const AUDIT_ROOT = "auditLog";
+
+// Zero-padded time first so ids sort chronologically as Realtime Database keys.
+const createAuditId = (at: number) => `${at.toString().padStart(15, "0")}-${uuid().slice(0, 8)}`;
+
+/**
+ * Writes `value` at `path` and appends an audit entry with the previous value
+ * in the same multi-path update, so a change is never stored without its record.
+ */
+export async function writeWithAudit(
+  path: string,
+  value: unknown,
+  action: AuditAction,
+  revertOf?: string
+): Promise<AuditLogEntry> {
+  const [entry] = await writeManyWithAudit({ [path]: value }, action, revertOf);
+  return entry;
+}
+
+/**
+ * The current values at `paths`, read with a single request on their deepest
+ * common parent. Paths with nothing in common are read one by one rather than
+ * downloading the whole tree.
+ */
+async function readOldValues(paths: string[]): Promise<unknown[]> {
+  const source = getTicketDataSource();
+  const segments = paths.map((path) => path.split("/").filter(Boolean));
+  const common: string[] = [];
+  while (
+    segments.every((parts) => parts.length > common.length + 1 && parts[common.length] === segments[0][common.length])
+  ) {
+    common.push(segments[0][common.length]);
+  }
+
+  if (paths.length === 1 || common.length === 0) {
+    return Promise.all(paths.map((path) => source.read<unknown>(path)));
+  }
+
+  const parent = await source.read<unknown>(common.join("/"));
+  return segments.map((parts) =>
+    parts
+      .slice(common.length)
+      .reduce<unknown>(
+        (node, key) => (node && typeof node === "object" ? (node as Record<string, unknown>)[key] : null),
+        parent
+      )
+  );
+}
+
+/** Like `writeWithAudit` for several paths at once, with one audit entry per path. */
+export async function writeManyWithAudit(
+  values: Record<string, unknown>,
+  action: AuditAction,
+  revertOf?: string
+): Promise<AuditLogEntry[]> {
+  const source = getTicketDataSource();
+  const user = useAuthStore.getState().user;
+  const paths = Object.keys(values);
+  const oldValues = await readOldValues(paths);
+  const at = Date.now();
+
+  const entries = paths.map(
+    (path, index): AuditLogEntry => ({
+      id: createAuditId(at),
+      at,
+      actor: { uid: user?.uid ?? "anonymous", email: user?.email ?? "" },
+      action,
+      path,
+      oldValue: oldValues[index] ?? null,
+      newValue: values[path] ?? null,
+      ...(revertOf ? { revertOf } : {}),
+    })
+  );
+
+  await source.update(
+    Object.fromEntries(
+      entries.flatMap((entry) => [
+        [entry.path, entry.newValue],
+        [`${AUDIT_ROOT}/${entry.id}`, entry],
+      ])
+    )
+  );
+
+  return entries;
+}
+
+/** Entries per `loadAuditLog` call; the Audit tab loads older pages on demand. */
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+export type AuditLogPage = {
+  /** Newest first. */
+  entries: AuditLogEntry[];
+  /** Pass as `before` to load the next older page; undefined once the oldest entry is loaded. */
+  olderThan?: string;
+};
+
+/**
+ * The latest `limit` audit entries, or the `limit` entries before the id
+ * `before`. Ids sort chronologically, so this is a key-ordered query on the
+ * log rather than a download of all of it.
+ */
+export async function loadAuditLog(before?: string, limit = AUDIT_LOG_PAGE_SIZE): Promise<AuditLogPage> {
+  // One entry more than the page tells whether older ones remain.
+  const stored = await getTicketDataSource().readLastChildren<AuditLogEntry>(AUDIT_ROOT, limit + 1, before);
+
+  const entries = Object.entries(stored)
+    .map(([id, entry]) => ({
+      ...entry,
+      id,
+      // Firebase drops null children, so restore them on the way out.
+      oldValue: entry.oldValue ?? null,
+      newValue: entry.newValue ?? null,
+    }))
+    .sort((a, b) => b.id.localeCompare(a.id));
+  const page = entries.slice(0, limit);
+
+  return { entries: page, olderThan: entries.length > limit ? page[page.length - 1].id : undefined };
+}
+
+/** Restores the value `entry` replaced, recording the revert as a new entry. */
+export async function revertAuditEntry(entry: AuditLogEntry): Promise<AuditLogEntry> {
+  assertRole("admin", "revert audited changes");
+  return writeWithAudit(entry.path, entry.oldValue, "revert", entry.id);
+}
@@ -0,0 +1,253 @@
+import { addMonths, differenceInCalendarDays, endOfMonth, format, startOfMonth } from "date-fns";
+import { NormalizedTicket } from "@/types/ticket";
+
+export const CLAIM_VS_CLOSED_START_MONTH = startOfMonth(new Date(2025, 0, 1));
+const RECENT_WINDOW_MONTHS = 3;
+
+export type ClaimVsClosedMonth = { key: string; label: string; startDate: Date; daysInMonth: number };
+
+export type ChartRow = {
+  month: string;
+  created: number;
+  completed: number;
+  averageHours: number;
+};
+
+export type DailyAverageRow = {
+  month: string;
+  createdDailyAvg: number;
+  completedDailyAvg: number;
+};
+
+export type EmployeeOption = {
+  employeeId: string;
+  employeeName: string;
+  createdCount: number;
+  completedCount: number;
+};
+
+export type EmployeeCompletionCard = {
+  employeeId: string;
+  employeeName: string;
+  completedCount: number;
+  averageHours: number;
+};
+
+export interface ClaimVsClosedReport {
+  months: ClaimVsClosedMonth[];
+  employeeOptions: EmployeeOption[];
+  /** Created vs completed per month for the selected employees. */
+  comparisonData: ChartRow[];
+  totalCreated: number;
+  totalCompleted: number;
+  averageHoursAcrossRange: number;
+  recentCreated: number;
+  recentCompleted: number;
+  /** Daily averages across every employee, regardless of the selection. */
+  overallDailyTrend: DailyAverageRow[];
+  employeeCompletionTrend: Record<string, DailyAverageRow[]>;
+  employeeCompletionCards: EmployeeCompletionCard[];
+}
+
+type MonthBucket = {
+  createdCount: number;
+  completedCount: number;
+  totalMinutes: number;
+};
+
+// Completion is inferred as CreatedOn + Z1Z8 time consumed.
+function getCompletionDate(ticket: NormalizedTicket) {
+  if (!ticket.createdOn || ticket.timeConsumed.totalMinutes <= 0) return null;
+  return new Date(ticket.createdOn.getTime() + ticket.timeConsumed.totalMinutes * 60 * 1000);
+}
+
+function buildMonthSkeleton(startMonth: Date, endMonth: Date) {
+  const months: ClaimVsClosedMonth[] = [];
+  let cursor = startMonth;
+
+  while (cursor <= endMonth) {
+    const startDate = startOfMonth(cursor);
+    const endDate = endOfMonth(cursor);
+    const daysInMonth = differenceInCalendarDays(endDate, startDate) + 1;
+
+    months.push({
+      key: format(startDate, "yyyy-MM"),
+      label: format(startDate, "MMM yyyy"),
+      startDate,
+      daysInMonth,
+    });
+    cursor = addMonths(cursor, 1);
+  }
+
+  return months;
+}
+
+const toDailyAverage = (count: number, month: ClaimVsClosedMonth) =>
+  Number((count / month.daysInMonth).toFixed(2));
+
+/**
+ * Builds every Claim vs Closed aggregate in one pass over the tickets.
+ * `employeeIds` scopes the comparison chart and cards; empty means everyone.
+ * The months run from `range.start` (January 2025 by default) to `range.end`
+ * (the current month by default).
+ */
+export function buildClaimVsClosedReport(
+  tickets: NormalizedTicket[],
+  employeeIds: string[] = [],
+  range: { start?: Date | null; end?: Date | null } = {}
+): ClaimVsClosedReport {
+  const startMonth = range.start ? startOfMonth(range.start) : CLAIM_VS_CLOSED_START_MONTH;
+  const endMonth = endOfMonth(range.end ?? new Date());
+  const recentStartMonth = startOfMonth(addMonths(endMonth, -(RECENT_WINDOW_MONTHS - 1)));
+  const months = buildMonthSkeleton(startMonth, endMonth);
+  const emptyBuckets = () =>
+    new Map<string, MonthBucket>(
+      months.map((month) => [month.key, { createdCount: 0, completedCount: 0, totalMinutes: 0 }])
+    );
+
+  const overallBuckets = emptyBuckets();
+  const scopedBuckets = emptyBuckets();
+  const employees = new Map<string, EmployeeOption>();
+  const completionCounts = new Map<string, Map<string, number>>();
+  const cards = new Map<string, { completedCount: number; employeeName: string; totalMinutes: number }>();
+  const scope = new Set(employeeIds);
+
+  let totalCreated = 0;
+  let totalCompleted = 0;
+  let totalCompletionMinutes = 0;
+
+  tickets.forEach((ticket) => {
+    const { id: employeeId, name: employeeName } = ticket.employee;
+    const consumed = ticket.timeConsumed;
+    const isCompleted = consumed.totalMinutes > 0;
+    const inScope = scope.size === 0 || scope.has(employeeId);
+
+    const option = employees.get(employeeId) ?? { employeeId, employeeName, createdCount: 0, completedCount: 0 };
+    option.createdCount += 1;
+    if (isCompleted) option.completedCount += 1;
+    employees.set(employeeId, option);
+
+    if (inScope && isCompleted) {
+      const card = cards.get(employeeId) ?? { completedCount: 0, employeeName, totalMinutes: 0 };
+      card.completedCount += 1;
+      card.totalMinutes += consumed.totalMinutes;
+      cards.set(employeeId, card);
+    }
+
+    const created = ticket.createdOn;
+    if (!created) return;
+
+    const createdMonth = startOfMonth(created);
+    const createdKey = format(createdMonth, "yyyy-MM");
+    if (createdMonth >= startMonth && createdMonth <= endMonth && overallBuckets.has(createdKey)) {
+      overallBuckets.get(createdKey)!.createdCount += 1;
+      if (inScope) {
+        scopedBuckets.get(createdKey)!.createdCount += 1;
+        totalCreated += 1;
+      }
+    }
+
+    const completionDate = getCompletionDate(ticket);
+    if (!completionDate) return;
+
+    const completionMonth = startOfMonth(completionDate);
+    const completionKey = format(completionMonth, "yyyy-MM");
+    if (
+      completionMonth < startMonth ||
+      completionMonth > endMonth ||
+      !overallBuckets.has(completionKey)
+    ) {
+      return;
+    }
+
+    const overall = overallBuckets.get(completionKey)!;
+    overall.completedCount += 1;
+    overall.totalMinutes += consumed.totalMinutes;
+
+    const monthCounts = completionCounts.get(employeeId) ?? new Map<string, number>();
+    monthCounts.set(completionKey, (monthCounts.get(completionKey) ?? 0) + 1);
+    completionCounts.set(employeeId, monthCounts);
+
+    if (inScope) {
+      const bucket = scopedBuckets.get(completionKey)!;
+      bucket.completedCount += 1;
+      bucket.totalMinutes += consumed.totalMinutes;
+      totalCompleted += 1;
+      totalCompletionMinutes += consumed.totalMinutes;
+    }
+  });
+
+  const comparisonData: ChartRow[] = months.map((month) => {
+    const bucket = scopedBuckets.get(month.key)!;
+    const averageMinutes = bucket.completedCount > 0 ? bucket.totalMinutes / bucket.completedCount : 0;
+    return {
+      month: month.label,
+      created: bucket.createdCount,
+      completed: bucket.completedCount,
+      averageHours: Number((averageMinutes / 60).toFixed(1)),
+    };
+  });
+
+  const { recentCreated, recentCompleted } = months.reduce(
+    (acc, month) => {
+      if (month.startDate >= recentStartMonth) {
+        const bucket = scopedBuckets.get(month.key)!;
+        acc.recentCreated += bucket.createdCount;
+        acc.recentCompleted += bucket.completedCount;
+      }
+      return acc;
+    },
+    { recentCreated: 0, recentCompleted: 0 }
+  );
+
+  const overallDailyTrend: DailyAverageRow[] = months.map((month) => {
+    const bucket = overallBuckets.get(month.key)!;
+    return {
+      month: month.label,
+      createdDailyAvg: toDailyAverage(bucket.createdCount, month),
+      completedDailyAvg: toDailyAverage(bucket.completedCount, month),
+    };
+  });
+
+  const employeeCompletionTrend = Object.fromEntries(
+    Array.from(completionCounts.entries()).map(([employeeId, monthCounts]) => [
+      employeeId,
+      months.map((month) => ({
+        month: month.label,
+        createdDailyAvg: 0,
+        completedDailyAvg: toDailyAverage(monthCounts.get(month.key) ?? 0, month),
+      })),
+    ])
+  );
+
+  const employeeOptions = Array.from(employees.values()).sort((a, b) => {
+    if (b.completedCount !== a.completedCount) return b.completedCount - a.completedCount;
+    if (b.createdCount !== a.createdCount) return b.createdCount - a.createdCount;
+    return a.employeeName.localeCompare(b.employeeName);
+  });
+
+  const employeeCompletionCards = Array.from(cards.entries())
+    .map(([employeeId, stats]) => ({
+      employeeId,
+      employeeName: stats.employeeName,
+      completedCount: stats.completedCount,
+      averageHours:
+        stats.completedCount > 0 ? Number((stats.totalMinutes / stats.completedCount / 60).toFixed(1)) : 0,
+    }))
+    .sort((a, b) => b.completedCount - a.completedCount || a.employeeName.localeCompare(b.employeeName));
+
+  return {
+    months,
+    employeeOptions,
+    comparisonData,
+    totalCreated,
+    totalCompleted,
+    averageHoursAcrossRange:
+      totalCompleted > 0 ? Number((totalCompletionMinutes / totalCompleted / 60).toFixed(1)) : 0,
+    recentCreated,
+    recentCompleted,
+    overallDailyTrend,
+    employeeCompletionTrend,
+    employeeCompletionCards,
+  };
+}
@@ -5,12 +5,46 @@ import {
   RepairStats,
   DisplaySettings,
   EntityVisibilityCategory,
+  ExplorerView,
+  ExplorerViewScope,
+  ExplorerViewState,
+  FirstLevelStatus,
+  StatusHierarchyNode,
   TicketStatusMapping,
+  TicketStatusMappingDiff,
   TicketStatusMappingEntry,
-  TicketEntry,
+  TicketTypeMapping,
+  TicketTypeMappingEntry,
+  SlaTarget,
+  PublicHoliday,
+  WorkingCalendar,
+  TicketDataset,
+  TimeBreakdown,
+  VisibilityProfile,
+  VisibilityRule,
 } from "@/types/ticket";
-import { parseTimeConsumed, averageTimeBreakdown } from "./timeParser";
-import { database, ref, get, set } from "@/lib/firebase";
+import { parseTimeConsumed, addTimeBreakdowns, averageTimeBreakdown } from "./timeParser";
+import {
+  getDealerInfo,
+  getEmployeeInfo,
+  getFirstLevelStatus,
+  getNormalizedSerialId,
+  getRepairInfo,
+  parseAmountIncludingTax,
+} from "./ticketNormalizer";
+import { getTicketDataSource } from "@/lib/dataSource";
+import { assertRole, hasRole, useAuthStore } from "@/lib/auth";
+import { writeManyWithAudit, writeWithAudit } from "./auditLog";
+import { buildVisibilityEntityIndex, decideCategoryVisibility } from "./visibilityRules";
+import {
+  DEFAULT_FIRST_LEVEL_STATUSES,
+  isClosedFirstLevelStatus,
+  sortFirstLevelStatuses,
+} from "./firstLevelStatuses";
+import { getNodeAncestry } from "./statusHierarchy";
+import { DEFAULT_SLA_AT_RISK_RATIO } from "./sla";
+import { DEFAULT_WORKING_CALENDAR } from "./workingCalendar";
+import { normalizeExplorerViewState, sortExplorerViews } from "./explorerViews";
 
 const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
   dealerships: {},
@@ -20,124 +54,518 @@ const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
 
 const DEFAULT_TICKET_STATUS_MAPPING: TicketStatusMapping = {};
 
-export async function loadDisplaySettings(): Promise<DisplaySettings> {
-  const settingsRef = ref(database, "displaySettings");
-  const snapshot = await get(settingsRef);
+export const BUILT_IN_TICKET_DATASETS: TicketDataset[] = [
+  { id: "test", label: "Test", kind: "test", root: "c4cTickets_test" },
+  { id: "production", label: "Production", kind: "production", root: "c4cTickets" },
+];
+
+export const DEFAULT_TICKET_DATASET_ID = "test";
+
+export const DEFAULT_VISIBILITY_PROFILE_ID = "default";
+
+const VISIBILITY_PROFILES_ROOT = "visibilityProfiles";
 
-  if (!snapshot.exists()) {
+/** Where a profile's dealership, employee and repair maps are stored. */
+export const visibilityProfileSettingsPath = (profileId: string) =>
+  profileId === DEFAULT_VISIBILITY_PROFILE_ID
+    ? "displaySettings"
+    : `${VISIBILITY_PROFILES_ROOT}/${profileId}/settings`;
+
+export async function loadDisplaySettings(
+  profileId = DEFAULT_VISIBILITY_PROFILE_ID
+): Promise<DisplaySettings> {
+  const data = await getTicketDataSource().read<
+    Omit<Partial<DisplaySettings>, "rules"> & { rules?: VisibilityRule[] | Record<string, VisibilityRule> }
+  >(visibilityProfileSettingsPath(profileId));
+
+  if (!data) {
     return DEFAULT_DISPLAY_SETTINGS;
   }
 
-  const data = snapshot.val();
-
   return {
     dealerships: data.dealerships ?? {},
     employees: data.employees ?? {},
     repairs: data.repairs ?? {},
+    // The database hands arrays back as objects once an index goes missing.
+    rules: Object.values(data.rules ?? {}).filter(Boolean),
   } satisfies DisplaySettings;
 }
 
 export async function updateDisplaySetting(
   category: EntityVisibilityCategory,
   entityId: string,
-  isVisible: boolean
+  isVisible: boolean,
+  profileId = DEFAULT_VISIBILITY_PROFILE_ID
 ): Promise<void> {
-  const targetRef = ref(database, `displaySettings/${category}/${entityId}`);
-  await set(targetRef, isVisible);
+  assertRole("admin", "change visibility settings");
+  await writeWithAudit(
+    `${visibilityProfileSettingsPath(profileId)}/${category}/${entityId}`,
+    isVisible,
+    "displaySetting"
+  );
 }
 
-function getDealerInfo(ticketEntry: TicketEntry) {
-  const dealer = ticketEntry.roles?.["1001"];
-  return {
-    dealerId: dealer?.InvolvedPartyBusinessPartnerID ?? "unknown",
-    dealerName: dealer?.RepairerBusinessNameID ?? "Unknown Dealer",
-  };
+/** Shows or hides several entities of one category in a single write. */
+export async function updateDisplaySettings(
+  category: EntityVisibilityCategory,
+  entityIds: string[],
+  isVisible: boolean,
+  profileId = DEFAULT_VISIBILITY_PROFILE_ID
+): Promise<void> {
+  assertRole("admin", "change visibility settings");
+  const root = visibilityProfileSettingsPath(profileId);
+  await writeManyWithAudit(
+    Object.fromEntries(entityIds.map((entityId) => [`${root}/${category}/${entityId}`, isVisible])),
+    "displaySetting"
+  );
+}
+
+/** Replaces the ordered rule list of a profile. */
+export async function updateVisibilityRules(
+  rules: VisibilityRule[],
+  profileId = DEFAULT_VISIBILITY_PROFILE_ID
+): Promise<void> {
+  assertRole("admin", "change visibility rules");
+  await writeWithAudit(`${visibilityProfileSettingsPath(profileId)}/rules`, rules, "visibilityRule");
+}
+
+/** The default profile followed by the named ones, by name. */
+export async function loadVisibilityProfiles(): Promise<VisibilityProfile[]> {
+  const profiles = await getTicketDataSource().read<Record<string, { name?: string }>>(
+    VISIBILITY_PROFILES_ROOT
+  );
+
+  const named = Object.entries(profiles ?? {})
+    .filter(([id]) => id !== DEFAULT_VISIBILITY_PROFILE_ID)
+    .map(([id, profile]): VisibilityProfile => ({ id, name: profile?.name || id }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return [{ id: DEFAULT_VISIBILITY_PROFILE_ID, name: "Default" }, ...named];
+}
+
+const toProfileId = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/** Creates a profile named `name`, starting from a copy of `sourceProfileId`'s maps. */
+export async function cloneVisibilityProfile(
+  sourceProfileId: string,
+  name: string
+): Promise<VisibilityProfile> {
+  assertRole("admin", "manage visibility profiles");
+  const id = toProfileId(name);
+  if (!id || id === DEFAULT_VISIBILITY_PROFILE_ID) {
+    throw new Error(`"${name}" can't be used as a profile name.`);
+  }
+
+  const profiles = await loadVisibilityProfiles();
+  if (profiles.some((profile) => profile.id === id)) {
+    throw new Error(`A profile named "${name}" already exists.`);
+  }
+
+  const settings = await loadDisplaySettings(sourceProfileId);
+  await writeWithAudit(`${VISIBILITY_PROFILES_ROOT}/${id}`, { name: name.trim(), settings }, "visibilityProfile");
+  return { id, name: name.trim() };
+}
+
+export async function renameVisibilityProfile(profileId: string, name: string): Promise<void> {
+  assertRole("admin", "manage visibility profiles");
+  if (profileId === DEFAULT_VISIBILITY_PROFILE_ID) {
+    throw new Error("The default profile can't be renamed.");
+  }
+  if (!name.trim()) {
+    throw new Error("Profile names can't be empty.");
+  }
+  await writeWithAudit(`${VISIBILITY_PROFILES_ROOT}/${profileId}/name`, name.trim(), "visibilityProfile");
+}
+
+export async function deleteVisibilityProfile(profileId: string): Promise<void> {
+  assertRole("admin", "manage visibility profiles");
+  if (profileId === DEFAULT_VISIBILITY_PROFILE_ID) {
+    throw new Error("The default profile can't be deleted.");
+  }
+  await writeWithAudit(`${VISIBILITY_PROFILES_ROOT}/${profileId}`, null, "visibilityProfile");
+}
+
+/** The profile a user starts with, stored under `userPreferences/{uid}`. */
+export async function loadDefaultVisibilityProfileId(uid: string): Promise<string | null> {
+  return getTicketDataSource().read<string>(`userPreferences/${uid}/visibilityProfile`);
 }
 
-function getEmployeeInfo(ticketEntry: TicketEntry) {
-  const employee = ticketEntry.roles?.["40"];
+export async function updateDefaultVisibilityProfileId(uid: string, profileId: string): Promise<void> {
+  await getTicketDataSource().write(`userPreferences/${uid}/visibilityProfile`, profileId);
+}
+
+/**
+ * Built-in datasets plus archived snapshots registered under `ticketDatasets`
+ * as `{ [id]: { label, root } }`.
+ */
+export async function loadTicketDatasets(): Promise<TicketDataset[]> {
+  const archives = await getTicketDataSource().read<
+    Record<string, { label?: string; root?: string }>
+  >("ticketDatasets");
+
+  const archived = Object.entries(archives ?? {})
+    .filter(([, archive]) => !!archive?.root)
+    .map(
+      ([id, archive]): TicketDataset => ({
+        id,
+        label: archive.label || id,
+        kind: "archive",
+        root: archive.root!,
+      })
+    )
+    .sort((a, b) => b.label.localeCompare(a.label));
+
+  return [...BUILT_IN_TICKET_DATASETS, ...archived];
+}
+
+export async function loadTicketData(root = "c4cTickets_test"): Promise<TicketData> {
+  const data = await getTicketDataSource().read<TicketData["tickets"]>(`${root}/tickets`);
+
+  if (!data) {
+    throw new Error(`No ticket data available in ${root}`);
+  }
+
   return {
-    employeeId: employee?.InvolvedPartyBusinessPartnerID ?? "unassigned",
-    employeeName: employee?.InvolvedPartyName ?? "Unassigned",
+    tickets: data,
   };
 }
 
-function getRepairInfo(ticketEntry: TicketEntry) {
-  const repair = ticketEntry.roles?.["43"];
-  const repairId = repair?.InvolvedPartyBusinessPartnerID?.trim() || "no-repair";
-  const repairName = repair?.RepairerBusinessNameID?.trim() || "No Repair Shop Assigned";
+export async function loadTicketStatusMapping(): Promise<TicketStatusMapping> {
+  const mapping = await getTicketDataSource().read<TicketStatusMapping>("ticketStatusMapping");
+  return mapping ?? DEFAULT_TICKET_STATUS_MAPPING;
+}
+
+export async function updateTicketStatusMappingEntry(
+  ticketStatus: string,
+  entry: TicketStatusMappingEntry
+): Promise<void> {
+  assertRole("mapping-editor", "edit the status mapping");
+  await writeWithAudit(`ticketStatusMapping/${ticketStatus}`, entry, "statusMapping");
+}
+
+export async function loadTicketTypeMapping(): Promise<TicketTypeMapping> {
+  const mapping = await getTicketDataSource().read<TicketTypeMapping>("ticketTypeMapping");
+  return mapping ?? {};
+}
+
+export async function updateTicketTypeMappingEntry(
+  ticketType: string,
+  entry: TicketTypeMappingEntry | null
+): Promise<void> {
+  assertRole("mapping-editor", "edit the ticket type mapping");
+  await writeWithAudit(`ticketTypeMapping/${ticketType}`, entry, "typeMapping");
+}
+
+const SLA_TARGETS_ROOT = "slaTargets";
+
+export async function loadSlaTargets(): Promise<SlaTarget[]> {
+  const stored = await getTicketDataSource().read<Record<string, Omit<SlaTarget, "id">>>(SLA_TARGETS_ROOT);
+
+  return Object.entries(stored ?? {}).map(([id, target]) => ({
+    id,
+    metric: target.metric ?? "closure",
+    ticketType: target.ticketType ?? "",
+    severity: target.severity ?? "",
+    duration: target.duration ?? 0,
+    unit: target.unit ?? "calendarDays",
+    atRiskRatio: target.atRiskRatio ?? DEFAULT_SLA_AT_RISK_RATIO,
+  }));
+}
+
+/** Replaces the SLA targets, writing only added, changed and removed ones. */
+export async function updateSlaTargets(targets: SlaTarget[]): Promise<void> {
+  assertRole("admin", "edit SLA targets");
+  const current = await loadSlaTargets();
+  const values: Record<string, unknown> = {};
+  const nextIds = new Set(targets.map((target) => target.id));
+
+  targets.forEach(({ id, metric, ticketType, severity, duration, unit, atRiskRatio }) => {
+    const previous = current.find((candidate) => candidate.id === id);
+    const unchanged =
+      previous &&
+      previous.metric === metric &&
+      previous.ticketType === ticketType &&
+      previous.severity === severity &&
+      previous.duration === duration &&
+      previous.unit === unit &&
+      previous.atRiskRatio === atRiskRatio;
+    if (!unchanged) {
+      values[`${SLA_TARGETS_ROOT}/${id}`] = { metric, ticketType, severity, duration, unit, atRiskRatio };
+    }
+  });
+
+  current
+    .filter((target) => !nextIds.has(target.id))
+    .forEach((target) => {
+      values[`${SLA_TARGETS_ROOT}/${target.id}`] = null;
+    });
+
+  if (Object.keys(values).length === 0) return;
+  await writeManyWithAudit(values, "slaTarget");
+}
+
+type StoredWorkingCalendar = Omit<WorkingCalendar, "holidays"> & {
+  holidays?: Record<string, Omit<PublicHoliday, "id">>;
+};
+
+/** The working calendar; the built-in weekday 09:00–17:00 calendar until one is saved. */
+export async function loadWorkingCalendar(): Promise<WorkingCalendar> {
+  const stored = await getTicketDataSource().read<StoredWorkingCalendar>("workingCalendar");
+  if (!stored) return DEFAULT_WORKING_CALENDAR;
+
   return {
-    repairId,
-    repairName,
+    timeZone: stored.timeZone ?? DEFAULT_WORKING_CALENDAR.timeZone,
+    workingDays: stored.workingDays ?? DEFAULT_WORKING_CALENDAR.workingDays,
+    dayStart: stored.dayStart ?? DEFAULT_WORKING_CALENDAR.dayStart,
+    dayEnd: stored.dayEnd ?? DEFAULT_WORKING_CALENDAR.dayEnd,
+    region: stored.region ?? "",
+    holidays: Object.entries(stored.holidays ?? {})
+      .map(([id, holiday]) => ({ id, date: holiday.date ?? "", name: holiday.name ?? "", region: holiday.region ?? "" }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
   };
 }
 
-export function getNormalizedSerialId(ticketEntry: TicketEntry) {
-  const normalizeValue = (value?: string | null) => {
-    const trimmed = (value ?? "").trim();
-    return trimmed ? trimmed.replace(/-/g, "") : "";
+export async function updateWorkingCalendar(calendar: WorkingCalendar): Promise<void> {
+  assertRole("admin", "edit the working calendar");
+  const { holidays, ...hours } = calendar;
+  const stored: StoredWorkingCalendar = {
+    ...hours,
+    holidays: Object.fromEntries(holidays.map(({ id, ...holiday }) => [id, holiday])),
   };
+  await writeWithAudit("workingCalendar", stored, "workingCalendar");
+}
+
+const EXPLORER_VIEWS_ROOT = "explorerViews";
+
+const personalExplorerViewsPath = (uid: string) => `userPreferences/${uid}/explorerViews`;
+
+const explorerViewPath = (view: Pick<ExplorerView, "id" | "scope">, uid: string) =>
+  view.scope === "shared" ? `${EXPLORER_VIEWS_ROOT}/${view.id}` : `${personalExplorerViewsPath(uid)}/${view.id}`;
+
+type StoredExplorerView = {
+  name?: string;
+  createdBy?: string;
+  state?: Partial<ExplorerViewState>;
+};
+
+/** The team's shared Data Explorer views plus `uid`'s personal ones, personal first. */
+export async function loadExplorerViews(uid: string): Promise<ExplorerView[]> {
+  const source = getTicketDataSource();
+  const [shared, personal] = await Promise.all([
+    source.read<Record<string, StoredExplorerView>>(EXPLORER_VIEWS_ROOT),
+    source.read<Record<string, StoredExplorerView>>(personalExplorerViewsPath(uid)),
+  ]);
+
+  const toViews = (stored: Record<string, StoredExplorerView> | null, scope: ExplorerViewScope) =>
+    Object.entries(stored ?? {}).map(
+      ([id, view]): ExplorerView => ({
+        id,
+        name: view?.name || id,
+        scope,
+        createdBy: view?.createdBy ?? "",
+        state: normalizeExplorerViewState(view?.state),
+      })
+    );
+
+  return sortExplorerViews([...toViews(personal, "personal"), ...toViews(shared, "shared")]);
+}
 
-  const serialId = normalizeValue(ticketEntry.SerialID ?? ticketEntry.ticket?.SerialID);
-  if (serialId) {
-    return serialId;
+function assertCanChangeSharedView(view: ExplorerView | undefined) {
+  const { user, role } = useAuthStore.getState();
+  if (view && view.createdBy !== user?.email && !hasRole(role, "admin")) {
+    throw new Error(`Only ${view.createdBy || "its author"} or an admin can change the shared "${view.name}" view.`);
   }
+}
 
-  const chassisNumber = normalizeValue(ticketEntry.ticket?.ChassisNumber);
-  if (chassisNumber) {
-    return chassisNumber;
+/** Creates or overwrites a view. Shared views are audited; personal ones are private preferences. */
+export async function saveExplorerView(view: ExplorerView, uid: string): Promise<void> {
+  const name = view.name.trim();
+  if (!name) {
+    throw new Error("View names can't be empty.");
+  }
+  if (view.scope === "shared") {
+    assertRole("analyst", "share explorer views");
   }
 
-  const ticketName = ticketEntry.ticket.TicketName?.trim?.() ?? ticketEntry.ticket.TicketName;
-  const fallback = ticketName ? ticketName.split(" ").filter(Boolean).pop() ?? "" : "";
+  const views = await loadExplorerViews(uid);
+  const clash = views.find(
+    (candidate) =>
+      candidate.id !== view.id && candidate.scope === view.scope && candidate.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) {
+    throw new Error(`A ${view.scope} view named "${name}" already exists.`);
+  }
 
-  return normalizeValue(fallback);
+  const stored: StoredExplorerView = { name, createdBy: view.createdBy, state: view.state };
+  if (view.scope === "personal") {
+    await getTicketDataSource().write(explorerViewPath(view, uid), stored);
+    return;
+  }
+  assertCanChangeSharedView(views.find((candidate) => candidate.id === view.id && candidate.scope === "shared"));
+  await writeWithAudit(explorerViewPath(view, uid), stored, "explorerView");
 }
 
-export function parseAmountIncludingTax(amount: string | null | undefined): number | null {
-  const normalized = (amount ?? "").replace(/,/g, "").trim();
-  if (!normalized) {
-    return null;
+export async function deleteExplorerView(view: ExplorerView, uid: string): Promise<void> {
+  if (view.scope === "personal") {
+    await getTicketDataSource().write(explorerViewPath(view, uid), null);
+    return;
   }
+  assertRole("analyst", "delete shared explorer views");
+  assertCanChangeSharedView(view);
+  await writeWithAudit(explorerViewPath(view, uid), null, "explorerView");
+}
+
+/** The view the explorer opens with, stored under `userPreferences/{uid}`. */
+export async function loadDefaultExplorerViewId(uid: string): Promise<string | null> {
+  return getTicketDataSource().read<string>(`userPreferences/${uid}/explorerView`);
+}
 
-  const parsed = Number.parseFloat(normalized);
-  return Number.isNaN(parsed) ? null : parsed;
+export async function updateDefaultExplorerViewId(uid: string, viewId: string | null): Promise<void> {
+  await getTicketDataSource().write(`userPreferences/${uid}/explorerView`, viewId);
 }
 
-export async function loadTicketData(): Promise<TicketData> {
-  const ticketsRef = ref(database, "c4cTickets_test/tickets");
-  const snapshot = await get(ticketsRef);
+const FIRST_LEVEL_STATUSES_ROOT = "firstLevelStatuses";
 
-  if (!snapshot.exists()) {
-    throw new Error("No ticket data available");
+/** The managed first-level statuses in display order; the built-in list until one is saved. */
+export async function loadFirstLevelStatuses(): Promise<FirstLevelStatus[]> {
+  const stored = await getTicketDataSource().read<Record<string, Omit<FirstLevelStatus, "id">>>(
+    FIRST_LEVEL_STATUSES_ROOT
+  );
+
+  if (!stored) {
+    return DEFAULT_FIRST_LEVEL_STATUSES;
   }
 
-  const data = snapshot.val();
+  return sortFirstLevelStatuses(
+    Object.entries(stored).map(([id, status]) => ({
+      id,
+      name: status.name ?? id,
+      color: status.color ?? "",
+      order: status.order ?? 0,
+      isClosed: !!status.isClosed,
+    }))
+  );
+}
 
-  return {
-    c4cTickets_test: {
-      tickets: data,
-    },
-  };
+/**
+ * Replaces the first-level status list. Renamed statuses are renamed in the
+ * mapping too, in the same update, so no ticket changes column.
+ */
+export async function updateFirstLevelStatuses(statuses: FirstLevelStatus[]): Promise<void> {
+  assertRole("mapping-editor", "edit the first-level statuses");
+  const [stored, current, mapping] = await Promise.all([
+    getTicketDataSource().read<Record<string, unknown>>(FIRST_LEVEL_STATUSES_ROOT),
+    loadFirstLevelStatuses(),
+    loadTicketStatusMapping(),
+  ]);
+
+  const values: Record<string, unknown> = {};
+  const nextIds = new Set(statuses.map((status) => status.id));
+
+  statuses.forEach(({ id, name, color, order, isClosed }) => {
+    const status = { name, color, order, isClosed };
+    const previous = current.find((candidate) => candidate.id === id);
+    const unchanged =
+      stored?.[id] &&
+      previous &&
+      previous.name === name &&
+      previous.color === color &&
+      previous.order === order &&
+      previous.isClosed === isClosed;
+    if (!unchanged) {
+      values[`${FIRST_LEVEL_STATUSES_ROOT}/${id}`] = status;
+    }
+
+    if (previous && previous.name !== name) {
+      Object.entries(mapping).forEach(([ticketStatus, entry]) => {
+        if (entry.firstLevelStatus?.trim().toLowerCase() === previous.name.toLowerCase()) {
+          values[`ticketStatusMapping/${ticketStatus}/firstLevelStatus`] = name;
+        }
+      });
+    }
+  });
+
+  // Only stored entries need deleting; the built-in list was never written.
+  Object.keys(stored ?? {})
+    .filter((id) => !nextIds.has(id))
+    .forEach((id) => {
+      values[`${FIRST_LEVEL_STATUSES_ROOT}/${id}`] = null;
+    });
+
+  if (Object.keys(values).length === 0) return;
+  await writeManyWithAudit(values, "firstLevelStatus");
 }
 
-export async function loadTicketStatusMapping(): Promise<TicketStatusMapping> {
-  const mappingRef = ref(database, "ticketStatusMapping");
-  const snapshot = await get(mappingRef);
+const STATUS_HIERARCHY_ROOT = "statusHierarchy";
 
-  if (!snapshot.exists()) {
-    return DEFAULT_TICKET_STATUS_MAPPING;
-  }
+export async function loadStatusHierarchy(): Promise<StatusHierarchyNode[]> {
+  const stored = await getTicketDataSource().read<Record<string, Omit<StatusHierarchyNode, "id">>>(
+    STATUS_HIERARCHY_ROOT
+  );
 
-  return snapshot.val();
+  return Object.entries(stored ?? {}).map(([id, node]) => ({
+    id,
+    name: node.name ?? id,
+    parentId: node.parentId ?? "",
+    order: node.order ?? 0,
+  }));
 }
 
-export async function updateTicketStatusMappingEntry(
-  ticketStatus: string,
-  entry: TicketStatusMappingEntry
-): Promise<void> {
-  const targetRef = ref(database, `ticketStatusMapping/${ticketStatus}`);
-  await set(targetRef, entry);
+/**
+ * Replaces the status hierarchy. Mapping entries that pointed at a deleted
+ * group move up to its closest surviving ancestor in the same update.
+ */
+export async function updateStatusHierarchy(nodes: StatusHierarchyNode[]): Promise<void> {
+  assertRole("mapping-editor", "edit the status hierarchy");
+  const [current, mapping] = await Promise.all([loadStatusHierarchy(), loadTicketStatusMapping()]);
+
+  const values: Record<string, unknown> = {};
+  const nextIds = new Set(nodes.map((node) => node.id));
+
+  nodes.forEach(({ id, name, parentId, order }) => {
+    const previous = current.find((candidate) => candidate.id === id);
+    if (
+      !previous ||
+      previous.name !== name ||
+      previous.parentId !== parentId ||
+      previous.order !== order
+    ) {
+      values[`${STATUS_HIERARCHY_ROOT}/${id}`] = { name, parentId, order };
+    }
+  });
+
+  current
+    .filter((node) => !nextIds.has(node.id))
+    .forEach((node) => {
+      values[`${STATUS_HIERARCHY_ROOT}/${node.id}`] = null;
+    });
+
+  Object.entries(mapping).forEach(([ticketStatus, entry]) => {
+    if (!entry.statusNodeId || nextIds.has(entry.statusNodeId)) return;
+    const survivor = getNodeAncestry(entry.statusNodeId, current)
+      .reverse()
+      .find((node) => nextIds.has(node.id));
+    values[`ticketStatusMapping/${ticketStatus}/statusNodeId`] = survivor?.id ?? null;
+  });
+
+  if (Object.keys(values).length === 0) return;
+  await writeManyWithAudit(values, "statusHierarchy");
+}
+
+/** Applies an import diff in one multi-path update; removed codes are deleted. */
+export async function applyTicketStatusMappingDiff(diff: TicketStatusMappingDiff): Promise<void> {
+  assertRole("mapping-editor", "import the status mapping");
+  const changes = [...diff.added, ...diff.changed, ...diff.removed];
+  if (changes.length === 0) return;
+  await writeManyWithAudit(
+    Object.fromEntries(changes.map((change) => [`ticketStatusMapping/${change.ticketStatus}`, change.after])),
+    "statusMapping"
+  );
 }
 
 export function filterTicketsByFirstLevelStatus(
@@ -151,18 +579,9 @@ export function filterTicketsByFirstLevelStatus(
     return data;
   }
 
-  const filteredTickets = Object.entries(data.c4cTickets_test.tickets).reduce(
+  const filteredTickets = Object.entries(data.tickets).reduce(
     (acc, [ticketId, ticketEntry]) => {
-      const statusCode = ticketEntry.ticket.TicketStatus;
-      const statusText = ticketEntry.ticket.TicketStatusText;
-
-      const mappingEntry =
-        mapping[statusCode] ??
-        // fallback in case mappings were stored by text instead of code
-        mapping[statusText];
-
-      const firstLevelStatus =
-        mappingEntry?.firstLevelStatus ?? mappingEntry?.ticketStatusText ?? statusText;
+      const firstLevelStatus = getFirstLevelStatus(ticketEntry, mapping);
 
       if (!excluded.includes(firstLevelStatus.toLowerCase())) {
         acc[ticketId] = ticketEntry;
@@ -170,13 +589,40 @@ export function filterTicketsByFirstLevelStatus(
 
       return acc;
     },
-    {} as TicketData["c4cTickets_test"]["tickets"]
+    {} as TicketData["tickets"]
   );
 
   return {
-    c4cTickets_test: {
-      tickets: filteredTickets,
-    },
+    tickets: filteredTickets,
+  };
+}
+
+/**
+ * The toggles with enabled rules folded in, so every entity in `data` has
+ * its final visibility. Without rules the toggles are returned untouched.
+ */
+function resolveVisibilityMaps(
+  data: TicketData,
+  settings: DisplaySettings
+): Record<EntityVisibilityCategory, Record<string, boolean>> {
+  if (!settings.rules?.some((rule) => rule.enabled)) {
+    return settings;
+  }
+
+  const index = buildVisibilityEntityIndex(data);
+  const now = new Date();
+  const resolve = (category: EntityVisibilityCategory) =>
+    Object.fromEntries(
+      Object.entries(decideCategoryVisibility(category, index, settings, now)).map(([id, decision]) => [
+        id,
+        decision.visible,
+      ])
+    );
+
+  return {
+    dealerships: resolve("dealerships"),
+    employees: resolve("employees"),
+    repairs: resolve("repairs"),
   };
 }
 
@@ -199,37 +645,37 @@ export function filterTicketsByDisplaySettings(
     return data;
   }
 
-  const filteredTickets = Object.entries(data.c4cTickets_test.tickets).reduce(
+  const visibility = resolveVisibilityMaps(data, settings);
+
+  const filteredTickets = Object.entries(data.tickets).reduce(
     (acc, [ticketId, ticketEntry]) => {
       const { dealerId } = getDealerInfo(ticketEntry);
       const { employeeId } = getEmployeeInfo(ticketEntry);
       const { repairId } = getRepairInfo(ticketEntry);
 
       const isDealerVisible =
-        !applyDealershipVisibility || (settings.dealerships[dealerId] ?? true);
+        !applyDealershipVisibility || (visibility.dealerships[dealerId] ?? true);
       const isEmployeeVisible =
-        !applyEmployeeVisibility || (settings.employees[employeeId] ?? true);
-      const isRepairVisible = !applyRepairVisibility || (settings.repairs[repairId] ?? true);
+        !applyEmployeeVisibility || (visibility.employees[employeeId] ?? true);
+      const isRepairVisible = !applyRepairVisibility || (visibility.repairs[repairId] ?? true);
 
       if (isDealerVisible && isEmployeeVisible && isRepairVisible) {
         acc[ticketId] = ticketEntry;
       }
       return acc;
     },
-    {} as TicketData["c4cTickets_test"]["tickets"]
+    {} as TicketData["tickets"]
   );
 
   return {
-    c4cTickets_test: {
-      tickets: filteredTickets,
-    },
+    tickets: filteredTickets,
   };
 }
 
 export function summarizeDealerships(data: TicketData) {
   const dealers = new Map<string, { dealerId: string; dealerName: string; count: number }>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { dealerId, dealerName } = getDealerInfo(ticketEntry);
     const existing = dealers.get(dealerId) ?? { dealerId, dealerName, count: 0 };
     existing.count += 1;
@@ -242,7 +688,7 @@ export function summarizeDealerships(data: TicketData) {
 export function summarizeEmployees(data: TicketData) {
   const employees = new Map<string, { employeeId: string; employeeName: string; count: number }>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { employeeId, employeeName } = getEmployeeInfo(ticketEntry);
     const existing = employees.get(employeeId) ?? { employeeId, employeeName, count: 0 };
     existing.count += 1;
@@ -255,7 +701,7 @@ export function summarizeEmployees(data: TicketData) {
 export function summarizeRepairs(data: TicketData) {
   const repairs = new Map<string, { repairId: string; repairName: string; count: number }>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { repairId, repairName } = getRepairInfo(ticketEntry);
     const existing = repairs.get(repairId) ?? { repairId, repairName, count: 0 };
     existing.count += 1;
@@ -267,8 +713,10 @@ export function summarizeRepairs(data: TicketData) {
 
 export function analyzeDealers(data: TicketData): DealerStats[] {
   const dealerMap = new Map<string, DealerStats>();
+  // Collected in the same pass so averaging stays linear in the ticket count.
+  const timesByDealer = new Map<string, TimeBreakdown[]>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { dealerId, dealerName } = getDealerInfo(ticketEntry);
 
     if (!dealerMap.has(dealerId)) {
@@ -281,6 +729,7 @@ export function analyzeDealers(data: TicketData): DealerStats[] {
         chassisNumbers: [],
         avgTimeConsumed: { days: 0, hours: 0, minutes: 0, totalMinutes: 0 },
       });
+      timesByDealer.set(dealerId, []);
     }
 
     const stats = dealerMap.get(dealerId)!;
@@ -296,20 +745,15 @@ export function analyzeDealers(data: TicketData): DealerStats[] {
     if (serialId && !stats.chassisNumbers.includes(serialId)) {
       stats.chassisNumbers.push(serialId);
     }
+
+    if (ticket.Z1Z8TimeConsumed) {
+      timesByDealer.get(dealerId)!.push(parseTimeConsumed(ticket.Z1Z8TimeConsumed));
+    }
   });
 
   // Calculate average time consumed
   dealerMap.forEach((stats, dealerId) => {
-    const times = Object.values(data.c4cTickets_test.tickets)
-      .filter((t) => {
-        const dealer = t.roles?.["1001"];
-        if (!dealer || !dealer.InvolvedPartyBusinessPartnerID) {
-          return dealerId === "unknown" && t.ticket.Z1Z8TimeConsumed;
-        }
-        return dealer.InvolvedPartyBusinessPartnerID === dealerId && t.ticket.Z1Z8TimeConsumed;
-      })
-      .map((t) => parseTimeConsumed(t.ticket.Z1Z8TimeConsumed));
-
+    const times = timesByDealer.get(dealerId)!;
     if (times.length > 0) {
       stats.avgTimeConsumed = averageTimeBreakdown(times);
     }
@@ -318,10 +762,15 @@ export function analyzeDealers(data: TicketData): DealerStats[] {
   return Array.from(dealerMap.values()).sort((a, b) => b.totalTickets - a.totalTickets);
 }
 
-export function analyzeEmployees(data: TicketData): EmployeeStats[] {
+export function analyzeEmployees(
+  data: TicketData,
+  mapping?: TicketStatusMapping,
+  firstLevelStatuses: FirstLevelStatus[] = DEFAULT_FIRST_LEVEL_STATUSES
+): EmployeeStats[] {
   const employeeMap = new Map<string, EmployeeStats>();
+  const timesByEmployee = new Map<string, TimeBreakdown[]>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { employeeId, employeeName } = getEmployeeInfo(ticketEntry);
 
     if (!employeeMap.has(employeeId)) {
@@ -335,12 +784,12 @@ export function analyzeEmployees(data: TicketData): EmployeeStats[] {
         totalTimeConsumed: { days: 0, hours: 0, minutes: 0, totalMinutes: 0 },
         avgTimePerTicket: { days: 0, hours: 0, minutes: 0, totalMinutes: 0 },
       });
+      timesByEmployee.set(employeeId, []);
     }
 
     const stats = employeeMap.get(employeeId)!;
     const ticket = ticketEntry.ticket;
-    const isClosed =
-      ticket.TicketStatusText.toLowerCase().includes("closed") || ticket.TicketStatus === "Z9";
+    const isClosed = isClosedFirstLevelStatus(getFirstLevelStatus(ticketEntry, mapping), firstLevelStatuses);
 
     stats.totalTickets++;
     stats.activeTickets += isClosed ? 0 : 1;
@@ -348,27 +797,18 @@ export function analyzeEmployees(data: TicketData): EmployeeStats[] {
 
     stats.ticketsByStatus[ticket.TicketStatusText] =
       (stats.ticketsByStatus[ticket.TicketStatusText] || 0) + 1;
+
+    if (ticket.Z1Z8TimeConsumed) {
+      timesByEmployee.get(employeeId)!.push(parseTimeConsumed(ticket.Z1Z8TimeConsumed));
+    }
   });
 
   // Calculate time consumed
   employeeMap.forEach((stats, employeeId) => {
-    const times = Object.values(data.c4cTickets_test.tickets)
-      .filter((t) => {
-        const employee = t.roles?.["40"];
-        if (!employee || !employee.InvolvedPartyBusinessPartnerID) {
-          return employeeId === "unassigned" && t.ticket.Z1Z8TimeConsumed;
-        }
-        return employee.InvolvedPartyBusinessPartnerID === employeeId && t.ticket.Z1Z8TimeConsumed;
-      })
-      .map((t) => parseTimeConsumed(t.ticket.Z1Z8TimeConsumed));
+    const times = timesByEmployee.get(employeeId)!;
 
     if (times.length > 0) {
-      const totalMinutes = times.reduce((sum, t) => sum + t.totalMinutes, 0);
-      const days = Math.floor(totalMinutes / (24 * 60));
-      const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
-      const minutes = totalMinutes % 60;
-
-      stats.totalTimeConsumed = { days, hours, minutes, totalMinutes };
+      stats.totalTimeConsumed = addTimeBreakdowns(times);
       stats.avgTimePerTicket = averageTimeBreakdown(times);
     }
   });
@@ -391,7 +831,7 @@ export function analyzeRepairs(data: TicketData): RepairStats[] {
   });
   const chassisByRepair = new Map<string, ReturnType<typeof defaultChassisAccumulator>>();
 
-  Object.values(data.c4cTickets_test.tickets).forEach((ticketEntry) => {
+  Object.values(data.tickets).forEach((ticketEntry) => {
     const { repairId, repairName } = getRepairInfo(ticketEntry);
     const meaningfulName = isMeaningfulRepairName(repairName) ? repairName : undefined;
 
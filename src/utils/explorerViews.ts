@@ -0,0 +1,70 @@
+import { ExplorerColumn, ExplorerView, ExplorerViewState } from "@/types/ticket";
+
+/** Optional Data Explorer columns in table order, with their headers. */
+export const EXPLORER_COLUMNS: Record<ExplorerColumn, string> = {
+  name: "Name",
+  status: "Status",
+  type: "Type",
+  dealer: "Dealer",
+  repair: "Repair",
+  employee: "Employee",
+  chassis: "Chassis",
+  createdOn: "Created On",
+  amount: "Amount incl. tax",
+};
+
+export const EXPLORER_COLUMN_KEYS = Object.keys(EXPLORER_COLUMNS) as ExplorerColumn[];
+
+export const EXPLORER_PAGE_SIZES = [20, 40, 100];
+
+export const DEFAULT_EXPLORER_VIEW_STATE: ExplorerViewState = {
+  search: "",
+  status: "all",
+  type: "all",
+  dealerId: "all",
+  repairId: "all",
+  employeeName: "all",
+  createdFrom: "",
+  createdTo: "",
+  columns: EXPLORER_COLUMN_KEYS.filter((column) => column !== "amount"),
+  sortBy: null,
+  sortDirection: "asc",
+  pageSize: 40,
+};
+
+const isSortKey = (value: unknown): value is ExplorerViewState["sortBy"] =>
+  value === "id" || (typeof value === "string" && value in EXPLORER_COLUMNS);
+
+/** Fills in what a stored view leaves out; the database drops empty lists and nulls. */
+export function normalizeExplorerViewState(stored?: Partial<ExplorerViewState> | null): ExplorerViewState {
+  const columns = EXPLORER_COLUMN_KEYS.filter((column) => stored?.columns?.includes(column));
+  return {
+    search: stored?.search ?? DEFAULT_EXPLORER_VIEW_STATE.search,
+    status: stored?.status || DEFAULT_EXPLORER_VIEW_STATE.status,
+    type: stored?.type || DEFAULT_EXPLORER_VIEW_STATE.type,
+    dealerId: stored?.dealerId || DEFAULT_EXPLORER_VIEW_STATE.dealerId,
+    repairId: stored?.repairId || DEFAULT_EXPLORER_VIEW_STATE.repairId,
+    employeeName: stored?.employeeName || DEFAULT_EXPLORER_VIEW_STATE.employeeName,
+    createdFrom: stored?.createdFrom ?? "",
+    createdTo: stored?.createdTo ?? "",
+    columns: columns.length > 0 ? columns : DEFAULT_EXPLORER_VIEW_STATE.columns,
+    sortBy: isSortKey(stored?.sortBy) ? stored.sortBy : null,
+    sortDirection: stored?.sortDirection === "desc" ? "desc" : "asc",
+    pageSize:
+      Number.isInteger(stored?.pageSize) && stored.pageSize > 0
+        ? stored.pageSize
+        : DEFAULT_EXPLORER_VIEW_STATE.pageSize,
+  };
+}
+
+export const explorerViewStatesEqual = (a: ExplorerViewState, b: ExplorerViewState) =>
+  (Object.keys(DEFAULT_EXPLORER_VIEW_STATE) as (keyof ExplorerViewState)[]).every(
+    (key) => JSON.stringify(a[key]) === JSON.stringify(b[key])
+  );
+
+/** Personal views first, then shared ones, each by name. */
+export const sortExplorerViews = (views: ExplorerView[]) =>
+  [...views].sort(
+    (a, b) =>
+      Number(a.scope === "shared") - Number(b.scope === "shared") || a.name.localeCompare(b.name)
+  );
@@ -0,0 +1,57 @@
+import { FirstLevelStatus } from "@/types/ticket";
+
+/** Used until a list is saved, matching the statuses the mapping has used so far. */
+export const DEFAULT_FIRST_LEVEL_STATUSES: FirstLevelStatus[] = [
+  { id: "closed", name: "Closed", color: "#8fcfb5", order: 0, isClosed: true },
+  { id: "open", name: "Open", color: "#a2cbe7", order: 1, isClosed: false },
+  { id: "parts", name: "Parts", color: "#f5d79a", order: 2, isClosed: false },
+  { id: "reparing", name: "Reparing", color: "#d6c5ee", order: 3, isClosed: false },
+  { id: "suspended", name: "Suspended", color: "#f6c3c9", order: 4, isClosed: false },
+];
+
+/** Colour for first-level statuses that are not in the list, e.g. raw fallbacks. */
+export const UNLISTED_FIRST_LEVEL_STATUS_COLOR = "#c3cfdf";
+
+export const toFirstLevelStatusId = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export function sortFirstLevelStatuses(statuses: FirstLevelStatus[]) {
+  return [...statuses].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+}
+
+/** Case-insensitive lookup by name, since mapping values were typed by hand. */
+export function findFirstLevelStatus(name: string, statuses: FirstLevelStatus[]) {
+  const wanted = name.trim().toLowerCase();
+  return statuses.find((status) => status.name.toLowerCase() === wanted);
+}
+
+export function isClosedFirstLevelStatus(name: string, statuses: FirstLevelStatus[]) {
+  return !!findFirstLevelStatus(name, statuses)?.isClosed;
+}
+
+export function closedFirstLevelStatusNames(statuses: FirstLevelStatus[]) {
+  return statuses.filter((status) => status.isClosed).map((status) => status.name);
+}
+
+export function getFirstLevelStatusColor(name: string, statuses: FirstLevelStatus[]) {
+  return findFirstLevelStatus(name, statuses)?.color ?? UNLISTED_FIRST_LEVEL_STATUS_COLOR;
+}
+
+/**
+ * `names` in list order, followed by names that are not in the list (for
+ * example raw status text of unmapped tickets) alphabetically.
+ */
+export function orderFirstLevelStatusNames(names: string[], statuses: FirstLevelStatus[]) {
+  const position = new Map(
+    sortFirstLevelStatuses(statuses).map((status, index) => [status.name.toLowerCase(), index])
+  );
+  return [...names].sort((a, b) => {
+    const left = position.get(a.toLowerCase()) ?? Number.POSITIVE_INFINITY;
+    const right = position.get(b.toLowerCase()) ?? Number.POSITIVE_INFINITY;
+    return left === right ? a.localeCompare(b) : left - right;
+  });
+}
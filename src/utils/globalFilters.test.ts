@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { GlobalFilters, NormalizedTicket } from "@/types/ticket";
+import { decodeUrlParams } from "@/lib/urlState";
+import {
+  applyGlobalFilters,
+  EMPTY_GLOBAL_FILTERS,
+  GLOBAL_FILTER_PARAMS,
+  globalFiltersFromParams,
+  globalFiltersSearch,
+  withoutGlobalFilters,
+} from "./globalFilters";
+
+const ticket = (key: string, overrides: Partial<NormalizedTicket> = {}) =>
+  ({
+    key,
+    createdOn: new Date(2024, 2, 5, 10),
+    typeCode: "ZWAR",
+    severity: "High",
+    firstLevelStatus: "Open",
+    dealer: { id: "D1", name: "North Motors" },
+    repair: { id: "R1", name: "Fix It" },
+    employee: { id: "E1", name: "Sam Lee" },
+    ...overrides,
+  }) as NormalizedTicket;
+
+const tickets = [
+  ticket("a"),
+  ticket("b", { createdOn: new Date(2024, 2, 6, 23, 59), severity: "Low", firstLevelStatus: "Closed" }),
+  ticket("c", { createdOn: null, typeCode: "ZSRV", dealer: { id: "D2", name: "South Motors" } }),
+  ticket("d", { createdOn: new Date(2024, 2, 7, 0, 0), repair: { id: "R2", name: "Body Shop" } }),
+];
+
+const keys = (filters: Partial<GlobalFilters>) =>
+  applyGlobalFilters(tickets, { ...EMPTY_GLOBAL_FILTERS, ...filters }).map((result) => result.key);
+
+describe("applyGlobalFilters", () => {
+  it("keeps every ticket without filters", () => {
+    expect(applyGlobalFilters(tickets, EMPTY_GLOBAL_FILTERS)).toBe(tickets);
+  });
+
+  it("includes both ends of the date range and drops tickets without CreatedOn", () => {
+    expect(keys({ createdFrom: "2024-03-06", createdTo: "2024-03-06" })).toEqual(["b"]);
+    expect(keys({ createdFrom: "2024-03-06" })).toEqual(["b", "d"]);
+    expect(keys({ createdTo: "2024-03-05" })).toEqual(["a"]);
+  });
+
+  it("ignores a malformed date", () => {
+    expect(keys({ createdFrom: "March" })).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("matches every set dimension", () => {
+    expect(keys({ ticketType: "ZSRV" })).toEqual(["c"]);
+    expect(keys({ severity: "High", firstLevelStatus: "open" })).toEqual(["a", "c", "d"]);
+    expect(keys({ dealerId: "D1", repairId: "R2" })).toEqual(["d"]);
+    expect(keys({ employeeId: "E2" })).toEqual([]);
+  });
+
+  it("leaves out the dimensions a page ignores", () => {
+    const filters = { ...EMPTY_GLOBAL_FILTERS, createdFrom: "2024-03-06", dealerId: "D2" };
+    const scoped = applyGlobalFilters(tickets, withoutGlobalFilters(filters, ["dateRange"]));
+    expect(scoped.map((result) => result.key)).toEqual(["c"]);
+  });
+});
+
+describe("globalFiltersSearch", () => {
+  it("is empty without filters and reads back into the same filters", () => {
+    const filters = { ...EMPTY_GLOBAL_FILTERS, createdFrom: "2024-03-01", dealerId: "D 1&2" };
+
+    expect(globalFiltersSearch(EMPTY_GLOBAL_FILTERS)).toBe("");
+    expect(globalFiltersSearch(filters)).toBe("from=2024-03-01&dealer=D+1%262");
+    expect(
+      globalFiltersFromParams(decodeUrlParams(GLOBAL_FILTER_PARAMS, new URLSearchParams(globalFiltersSearch(filters))))
+    ).toEqual(filters);
+  });
+});
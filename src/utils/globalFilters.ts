@@ -0,0 +1,145 @@
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { GlobalFilterDimension, GlobalFilters, NormalizedTicket, TicketData } from "@/types/ticket";
+import { dateParam, encodeUrlParams, stringParam } from "@/lib/urlState";
+
+export const EMPTY_GLOBAL_FILTERS: GlobalFilters = {
+  createdFrom: "",
+  createdTo: "",
+  ticketType: "",
+  severity: "",
+  firstLevelStatus: "",
+  dealerId: "",
+  repairId: "",
+  employeeId: "",
+};
+
+export const GLOBAL_FILTER_DIMENSIONS: Record<GlobalFilterDimension, string> = {
+  dateRange: "Created",
+  ticketType: "Ticket type",
+  severity: "Severity",
+  firstLevelStatus: "First-level status",
+  dealer: "Dealer",
+  repair: "Repairer",
+  employee: "Employee",
+};
+
+// Pages built on useVisibleTickets; the admin, mapping, guide and raw data pages show every ticket.
+export const GLOBAL_FILTER_PAGES = [
+  "tickets",
+  "employees",
+  "repairs",
+  "dealerships",
+  "dealer-insights",
+  "repair-insights",
+  "claim-vs-closed",
+  "aged-claim-report",
+  "sla",
+];
+
+/** Query parameters the filter bar keeps in sync, so links carry the filters to colleagues. */
+export const GLOBAL_FILTER_PARAMS = {
+  from: dateParam(),
+  to: dateParam(),
+  type: stringParam(),
+  severity: stringParam(),
+  status: stringParam(),
+  dealer: stringParam(),
+  repairer: stringParam(),
+  employee: stringParam(),
+};
+
+export const globalFiltersFromParams = (params: {
+  [K in keyof typeof GLOBAL_FILTER_PARAMS]: string;
+}): GlobalFilters => ({
+  createdFrom: params.from,
+  createdTo: params.to,
+  ticketType: params.type,
+  severity: params.severity,
+  firstLevelStatus: params.status,
+  dealerId: params.dealer,
+  repairId: params.repairer,
+  employeeId: params.employee,
+});
+
+export const globalFiltersToParams = (filters: GlobalFilters) => ({
+  from: filters.createdFrom,
+  to: filters.createdTo,
+  type: filters.ticketType,
+  severity: filters.severity,
+  status: filters.firstLevelStatus,
+  dealer: filters.dealerId,
+  repairer: filters.repairId,
+  employee: filters.employeeId,
+});
+
+/** The query string that carries `filters` to another filtered page; empty when none are set. */
+export const globalFiltersSearch = (filters: GlobalFilters) =>
+  encodeUrlParams(GLOBAL_FILTER_PARAMS, globalFiltersToParams(filters), new URLSearchParams()).toString();
+
+export const globalFiltersEqual = (a: GlobalFilters, b: GlobalFilters) =>
+  (Object.keys(EMPTY_GLOBAL_FILTERS) as (keyof GlobalFilters)[]).every((field) => a[field] === b[field]);
+
+/** The filter fields each dimension clears when a page opts out of it. */
+const DIMENSION_FIELDS: Record<GlobalFilterDimension, (keyof GlobalFilters)[]> = {
+  dateRange: ["createdFrom", "createdTo"],
+  ticketType: ["ticketType"],
+  severity: ["severity"],
+  firstLevelStatus: ["firstLevelStatus"],
+  dealer: ["dealerId"],
+  repair: ["repairId"],
+  employee: ["employeeId"],
+};
+
+/** `filters` with the dimensions in `ignore` cleared. */
+export function withoutGlobalFilters(filters: GlobalFilters, ignore: GlobalFilterDimension[] = []): GlobalFilters {
+  if (ignore.length === 0) return filters;
+  const scoped = { ...filters };
+  ignore.forEach((dimension) => DIMENSION_FIELDS[dimension].forEach((field) => (scoped[field] = "")));
+  return scoped;
+}
+
+export const getActiveGlobalFilterDimensions = (filters: GlobalFilters) =>
+  (Object.keys(DIMENSION_FIELDS) as GlobalFilterDimension[]).filter((dimension) =>
+    DIMENSION_FIELDS[dimension].some((field) => filters[field])
+  );
+
+const parseDay = (value: string) => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+/** The CreatedOn range as start and end of day; null ends are open. A malformed date counts as unset. */
+export function getGlobalDateRange(filters: GlobalFilters) {
+  const from = parseDay(filters.createdFrom);
+  const to = parseDay(filters.createdTo);
+  return { start: from ? startOfDay(from) : null, end: to ? endOfDay(to) : null };
+}
+
+/**
+ * Keeps the tickets that match every set filter. A date range leaves out
+ * tickets without a CreatedOn.
+ */
+export function applyGlobalFilters(tickets: NormalizedTicket[], filters: GlobalFilters): NormalizedTicket[] {
+  if (getActiveGlobalFilterDimensions(filters).length === 0) return tickets;
+
+  const { start, end } = getGlobalDateRange(filters);
+  const status = filters.firstLevelStatus.toLowerCase();
+
+  return tickets.filter((ticket) => {
+    if ((start || end) && !ticket.createdOn) return false;
+    if (start && ticket.createdOn! < start) return false;
+    if (end && ticket.createdOn! > end) return false;
+    if (filters.ticketType && ticket.typeCode !== filters.ticketType) return false;
+    if (filters.severity && ticket.severity !== filters.severity) return false;
+    if (status && ticket.firstLevelStatus.toLowerCase() !== status) return false;
+    if (filters.dealerId && ticket.dealer.id !== filters.dealerId) return false;
+    if (filters.repairId && ticket.repair.id !== filters.repairId) return false;
+    return !filters.employeeId || ticket.employee.id === filters.employeeId;
+  });
+}
+
+/** The raw entries behind `tickets`, for code that works on `TicketData`. */
+export const toTicketData = (tickets: NormalizedTicket[]): TicketData => ({
+  tickets: Object.fromEntries(tickets.map((ticket) => [ticket.key, ticket.entry])),
+});
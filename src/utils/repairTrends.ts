@@ -0,0 +1,97 @@
+import { NormalizedTicket } from "@/types/ticket";
+
+const TREND_START = new Date(2025, 0, 1);
+const TOP_REPAIR_COUNT = 10;
+const NO_REPAIR_NAME = "No Repair Shop Assigned";
+
+export type TopRepair = { repairId: string; repairName: string; ticketCount: number };
+
+export type RepairTrendRow = {
+  month: string;
+  avgCost: number;
+  ticketCount: number;
+  uniqueChassisPercent: number;
+};
+
+export interface RepairTrendReport {
+  /** The ten busiest repair shops since January 2025. */
+  topRepairs: TopRepair[];
+  /** Monthly cost and chassis trend for each of `topRepairs`, keyed by repair id. */
+  trends: Record<string, RepairTrendRow[]>;
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+export function buildRepairTrendReport(tickets: NormalizedTicket[]): RepairTrendReport {
+  const end = new Date();
+  const latestNames = new Map<string, { name: string; timestamp: number }>();
+  const counts = new Map<string, number>();
+  const monthly = new Map<string, Map<string, { totalCost: number; ticketCount: number; uniqueChassis: Set<string> }>>();
+
+  tickets.forEach((ticket) => {
+    const { id: repairId, name: repairName } = ticket.repair;
+    const created = ticket.createdOn;
+
+    // Names change over time; the most recently used one wins.
+    if (repairName && repairName !== NO_REPAIR_NAME) {
+      const timestamp = created?.getTime() ?? 0;
+      const existing = latestNames.get(repairId);
+      if (!existing || timestamp >= existing.timestamp) {
+        latestNames.set(repairId, { name: repairName, timestamp });
+      }
+    }
+
+    if (!created || created < TREND_START) return;
+    counts.set(repairId, (counts.get(repairId) ?? 0) + 1);
+    if (created > end) return;
+
+    const months = monthly.get(repairId) ?? new Map();
+    const key = monthKey(created);
+    const stats = months.get(key) ?? { totalCost: 0, ticketCount: 0, uniqueChassis: new Set<string>() };
+    stats.totalCost += ticket.amount ?? 0;
+    stats.ticketCount += 1;
+    if (ticket.serialId) {
+      stats.uniqueChassis.add(ticket.serialId);
+    }
+    months.set(key, stats);
+    monthly.set(repairId, months);
+  });
+
+  const topRepairs = Array.from(counts.entries())
+    .map(([repairId, ticketCount]) => ({
+      repairId,
+      repairName: latestNames.get(repairId)?.name ?? NO_REPAIR_NAME,
+      ticketCount,
+    }))
+    .sort((a, b) => b.ticketCount - a.ticketCount)
+    .slice(0, TOP_REPAIR_COUNT);
+
+  const monthKeys: string[] = [];
+  const cursor = new Date(TREND_START.getFullYear(), TREND_START.getMonth(), 1);
+  const endCursor = new Date(end.getFullYear(), end.getMonth(), 1);
+  while (cursor <= endCursor) {
+    monthKeys.push(monthKey(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  const trends = Object.fromEntries(
+    topRepairs.map(({ repairId }) => {
+      const months = monthly.get(repairId);
+      return [
+        repairId,
+        monthKeys.map((month) => {
+          const stats = months?.get(month);
+          const ticketCount = stats?.ticketCount ?? 0;
+          return {
+            month,
+            avgCost: ticketCount > 0 ? stats!.totalCost / ticketCount : 0,
+            ticketCount,
+            uniqueChassisPercent: ticketCount > 0 ? (stats!.uniqueChassis.size / ticketCount) * 100 : 0,
+          };
+        }),
+      ];
+    })
+  );
+
+  return { topRepairs, trends };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { NormalizedTicket, SlaTarget, TicketStatusTransition, WorkingCalendar } from "@/types/ticket";
+import { evaluateTicketSla, findSlaTarget } from "./sla";
+
+const calendar: WorkingCalendar = {
+  timeZone: "UTC",
+  workingDays: [1, 2, 3, 4, 5],
+  dayStart: "09:00",
+  dayEnd: "17:00",
+  region: "",
+  holidays: [],
+};
+
+const at = (iso: string) => new Date(`${iso}Z`);
+const isClosed = (firstLevelStatus: string) => firstLevelStatus === "Closed";
+
+const target = (overrides: Partial<SlaTarget> = {}): SlaTarget => ({
+  id: "closure",
+  metric: "closure",
+  ticketType: "",
+  severity: "",
+  duration: 10,
+  unit: "calendarDays",
+  atRiskRatio: 0.8,
+  ...overrides,
+});
+
+// Friday 1 March 2024, 16:00.
+const ticket = (overrides: Partial<NormalizedTicket> = {}, responded = false) =>
+  ({
+    createdOn: at("2024-03-01T16:00"),
+    typeCode: "ZWAR",
+    severity: "High",
+    firstLevelStatus: "Open",
+    entry: { ticket: { Responded: responded } },
+    ...overrides,
+  }) as NormalizedTicket;
+
+const transition = (iso: string, from: string | null, to: string): TicketStatusTransition => ({
+  at: at(iso).getTime(),
+  fromStatus: from && `E000${from.length}`,
+  fromStatusText: from,
+  fromFirstLevelStatus: from,
+  toStatus: `E000${to.length}`,
+  toStatusText: to,
+  toFirstLevelStatus: to,
+});
+
+describe("findSlaTarget", () => {
+  it("prefers the most specific target", () => {
+    const targets = [
+      target({ id: "any" }),
+      target({ id: "severity", severity: "High" }),
+      target({ id: "type", ticketType: "ZWAR" }),
+      target({ id: "both", ticketType: "ZWAR", severity: "High" }),
+      target({ id: "other", ticketType: "ZSRV" }),
+    ];
+
+    expect(findSlaTarget(ticket(), targets, "closure")?.id).toBe("both");
+    expect(findSlaTarget(ticket({ severity: "Low" }), targets, "closure")?.id).toBe("type");
+    expect(findSlaTarget(ticket({ typeCode: "ZREP" }), targets, "closure")?.id).toBe("severity");
+    expect(findSlaTarget(ticket(), targets, "firstResponse")).toBeUndefined();
+  });
+});
+
+describe("evaluateTicketSla", () => {
+  const evaluate = (
+    subject: NormalizedTicket,
+    now: string,
+    transitions: TicketStatusTransition[] = [],
+    targets = [target()]
+  ) => evaluateTicketSla(subject, targets, transitions, isClosed, calendar, at(now));
+
+  it("skips tickets without CreatedOn and metrics without a target", () => {
+    expect(evaluate(ticket({ createdOn: null }), "2024-03-02T00:00")).toEqual([]);
+    expect(evaluate(ticket(), "2024-03-02T00:00").map((evaluation) => evaluation.target.metric)).toEqual(["closure"]);
+  });
+
+  it("moves open tickets from on track to at risk to breached", () => {
+    expect(evaluate(ticket(), "2024-03-05T00:00")[0].state).toBe("onTrack");
+    expect(evaluate(ticket(), "2024-03-10T00:00")[0].state).toBe("atRisk");
+    expect(evaluate(ticket(), "2024-03-12T00:00")[0]).toMatchObject({
+      state: "breached",
+      dueAt: at("2024-03-11T16:00"),
+      completedAt: null,
+    });
+  });
+
+  it("measures closure from the observed move into a closed status", () => {
+    const [evaluation] = evaluate(ticket({ firstLevelStatus: "Closed" }), "2024-04-01T00:00", [
+      transition("2024-03-02T10:00", null, "Open"),
+      transition("2024-03-06T10:00", "Open", "Closed"),
+    ]);
+
+    expect(evaluation).toMatchObject({ state: "met", completedAt: at("2024-03-06T10:00") });
+  });
+
+  it("cannot measure a ticket that was first seen already closed", () => {
+    const [evaluation] = evaluate(ticket({ firstLevelStatus: "Closed" }), "2024-04-01T00:00", [
+      transition("2024-03-20T10:00", null, "Closed"),
+    ]);
+
+    expect(evaluation).toMatchObject({ state: "unmeasurable", completedAt: null });
+  });
+
+  it("takes the first observed change as the response", () => {
+    const targets = [target({ id: "response", metric: "firstResponse", duration: 2 })];
+    const history = [transition("2024-03-02T10:00", null, "Open"), transition("2024-03-05T10:00", "Open", "Replied")];
+
+    expect(evaluate(ticket({}, true), "2024-04-01T00:00", history, targets)[0]).toMatchObject({
+      state: "breached",
+      completedAt: at("2024-03-05T10:00"),
+    });
+    expect(evaluate(ticket({}, true), "2024-04-01T00:00", history.slice(0, 1), targets)[0].state).toBe(
+      "unmeasurable"
+    );
+    expect(evaluate(ticket(), "2024-03-02T00:00", history, targets)[0].state).toBe("onTrack");
+  });
+
+  it("counts business-day targets in working minutes", () => {
+    const targets = [target({ duration: 1, unit: "businessDays" })];
+
+    // One working day from Friday 16:00 is Monday 16:00; by Monday 15:00, 420 of 480 minutes are used.
+    expect(evaluate(ticket(), "2024-03-04T10:00", [], targets)[0]).toMatchObject({
+      state: "onTrack",
+      dueAt: at("2024-03-04T16:00"),
+    });
+    expect(evaluate(ticket(), "2024-03-04T15:00", [], targets)[0].state).toBe("atRisk");
+    expect(evaluate(ticket(), "2024-03-04T16:30", [], targets)[0].state).toBe("breached");
+  });
+});
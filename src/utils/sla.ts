@@ -0,0 +1,210 @@
+import { addDays } from "date-fns";
+import {
+  NormalizedTicket,
+  SlaDurationUnit,
+  SlaEvaluation,
+  SlaMetric,
+  SlaState,
+  SlaTarget,
+  TicketRoleIdentity,
+  TicketStatusTransition,
+  WorkingCalendar,
+} from "@/types/ticket";
+import { addBusinessMinutes, businessMinutesBetween, getWorkingMinutesPerDay } from "./workingCalendar";
+
+export const SLA_METRICS: Record<SlaMetric, string> = {
+  firstResponse: "First response",
+  closure: "Closure",
+};
+
+export const SLA_DURATION_UNITS: Record<SlaDurationUnit, string> = {
+  businessDays: "business days",
+  calendarDays: "calendar days",
+};
+
+export const SLA_STATES: Record<SlaState, string> = {
+  onTrack: "On track",
+  atRisk: "At risk",
+  breached: "Breached",
+  met: "Met",
+  unmeasurable: "Not measurable",
+};
+
+export const DEFAULT_SLA_AT_RISK_RATIO = 0.8;
+
+export interface TicketSlaResult {
+  ticket: NormalizedTicket;
+  evaluations: SlaEvaluation[];
+}
+
+export interface SlaBreakdownRow {
+  id: string;
+  name: string;
+  evaluated: number;
+  met: number;
+  onTrack: number;
+  atRisk: number;
+  breached: number;
+  unmeasurable: number;
+  /** Breached evaluations over the measurable ones, 0–1. */
+  breachRate: number;
+  /** Tickets with at least one breached target. */
+  breachingTickets: TicketSlaResult[];
+}
+
+export const describeSlaTarget = (target: SlaTarget) =>
+  `${SLA_METRICS[target.metric]} within ${target.duration} ${SLA_DURATION_UNITS[target.unit]}`;
+
+/**
+ * The target for `metric` that fits the ticket best: type and severity both
+ * set beats type only, which beats severity only, which beats a catch-all.
+ * Ties go to the earlier target.
+ */
+export function findSlaTarget(
+  ticket: Pick<NormalizedTicket, "typeCode" | "severity">,
+  targets: SlaTarget[],
+  metric: SlaMetric
+): SlaTarget | undefined {
+  let best: SlaTarget | undefined;
+  let bestScore = -1;
+
+  targets.forEach((target) => {
+    if (target.metric !== metric) return;
+    if (target.ticketType && target.ticketType !== ticket.typeCode) return;
+    if (target.severity && target.severity !== ticket.severity) return;
+
+    const score = (target.ticketType ? 2 : 0) + (target.severity ? 1 : 0);
+    if (score > bestScore) {
+      best = target;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/** Business days are working days of `calendar`, counted in its business hours and skipping its holidays. */
+export function getSlaDueAt(
+  startedAt: Date,
+  target: Pick<SlaTarget, "duration" | "unit">,
+  calendar: WorkingCalendar
+) {
+  return target.unit === "businessDays"
+    ? addBusinessMinutes(startedAt, target.duration * getWorkingMinutesPerDay(calendar), calendar)
+    : addDays(startedAt, target.duration);
+}
+
+/**
+ * When the ticket was responded to or closed: null while outstanding, and
+ * "unknown" when it happened before the status history could see it. Tickets
+ * carry no timestamps for either, so only observed changes count: the first
+ * recorded status change is the response, and the last observed move from an
+ * open into a closed status is the closure. A first-seen entry only says the
+ * ticket already was in that status, not since when.
+ */
+function findCompletedAt(
+  ticket: NormalizedTicket,
+  metric: SlaMetric,
+  transitions: TicketStatusTransition[],
+  isClosed: (firstLevelStatus: string) => boolean
+): Date | null | "unknown" {
+  if (metric === "firstResponse") {
+    if (!ticket.entry.ticket.Responded) return null;
+    const change = transitions.find((transition) => transition.fromStatus !== null);
+    return change ? new Date(change.at) : "unknown";
+  }
+
+  if (!isClosed(ticket.firstLevelStatus)) return null;
+  const closing = [...transitions]
+    .reverse()
+    .find(
+      (transition) =>
+        isClosed(transition.toFirstLevelStatus) &&
+        transition.fromFirstLevelStatus !== null &&
+        !isClosed(transition.fromFirstLevelStatus)
+    );
+  return closing ? new Date(closing.at) : "unknown";
+}
+
+/** The at-risk share of a business-day target is a share of its business minutes, not of the wall-clock span. */
+function getSlaState(
+  evaluation: Omit<SlaEvaluation, "state" | "completedAt">,
+  completedAt: Date | null,
+  now: Date,
+  calendar: WorkingCalendar
+): SlaState {
+  const { startedAt, dueAt, target } = evaluation;
+  if (completedAt) return completedAt > dueAt ? "breached" : "met";
+  if (now > dueAt) return "breached";
+
+  if (target.unit === "businessDays") {
+    const budget = target.duration * getWorkingMinutesPerDay(calendar);
+    return businessMinutesBetween(startedAt, now, calendar) >= budget * target.atRiskRatio ? "atRisk" : "onTrack";
+  }
+  const atRiskFrom = startedAt.getTime() + (dueAt.getTime() - startedAt.getTime()) * target.atRiskRatio;
+  return now.getTime() >= atRiskFrom ? "atRisk" : "onTrack";
+}
+
+/** One evaluation per metric that has a target. Tickets without CreatedOn are not evaluated. */
+export function evaluateTicketSla(
+  ticket: NormalizedTicket,
+  targets: SlaTarget[],
+  transitions: TicketStatusTransition[],
+  isClosed: (firstLevelStatus: string) => boolean,
+  calendar: WorkingCalendar,
+  now = new Date()
+): SlaEvaluation[] {
+  const startedAt = ticket.createdOn;
+  if (!startedAt) return [];
+
+  return (Object.keys(SLA_METRICS) as SlaMetric[]).flatMap((metric) => {
+    const target = findSlaTarget(ticket, targets, metric);
+    if (!target) return [];
+
+    const evaluation = { target, startedAt, dueAt: getSlaDueAt(startedAt, target, calendar) };
+    const completedAt = findCompletedAt(ticket, metric, transitions, isClosed);
+    if (completedAt === "unknown") {
+      return [{ ...evaluation, completedAt: null, state: "unmeasurable" as const }];
+    }
+    return [{ ...evaluation, completedAt, state: getSlaState(evaluation, completedAt, now, calendar) }];
+  });
+}
+
+/** Counts evaluations per employee, dealer or repairer, worst breach rate first. */
+export function summarizeSlaBy(
+  results: TicketSlaResult[],
+  roleOf: (ticket: NormalizedTicket) => TicketRoleIdentity
+): SlaBreakdownRow[] {
+  const rows = new Map<string, SlaBreakdownRow>();
+
+  results.forEach((result) => {
+    if (result.evaluations.length === 0) return;
+
+    const { id, name } = roleOf(result.ticket);
+    const row = rows.get(id) ?? {
+      id,
+      name,
+      evaluated: 0,
+      met: 0,
+      onTrack: 0,
+      atRisk: 0,
+      breached: 0,
+      unmeasurable: 0,
+      breachRate: 0,
+      breachingTickets: [],
+    };
+
+    result.evaluations.forEach((evaluation) => {
+      row.evaluated += 1;
+      row[evaluation.state] += 1;
+    });
+    if (result.evaluations.some((evaluation) => evaluation.state === "breached")) {
+      row.breachingTickets.push(result);
+    }
+    const measurable = row.evaluated - row.unmeasurable;
+    row.breachRate = measurable > 0 ? row.breached / measurable : 0;
+    rows.set(id, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.breachRate - a.breachRate || b.breached - a.breached);
+}
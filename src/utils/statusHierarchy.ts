@@ -0,0 +1,158 @@
+import {
+  FirstLevelStatus,
+  NormalizedTicket,
+  StatusHierarchyNode,
+  TicketStatusMapping,
+  TicketStatusMappingEntry,
+} from "@/types/ticket";
+import { findFirstLevelStatus, sortFirstLevelStatuses } from "./firstLevelStatuses";
+
+/** Separator used when a group path is written out, e.g. in the CSV export. */
+export const STATUS_PATH_SEPARATOR = " > ";
+
+export interface StatusTreeNode {
+  id: string;
+  name: string;
+  /** 1 for first-level statuses, 2 for their groups, and so on. */
+  level: number;
+  /** True for the first-level status at the root of each branch. */
+  isStatus: boolean;
+  children: StatusTreeNode[];
+}
+
+const byOrder = (a: StatusHierarchyNode, b: StatusHierarchyNode) =>
+  a.order - b.order || a.name.localeCompare(b.name);
+
+/** `nodeId` and its ancestors, top-most first. Stops at unknown parents and cycles. */
+export function getNodeAncestry(nodeId: string | undefined, nodes: StatusHierarchyNode[]) {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const ancestry: StatusHierarchyNode[] = [];
+  let current = nodeId ? byId.get(nodeId) : undefined;
+
+  while (current && !ancestry.includes(current)) {
+    ancestry.unshift(current);
+    current = byId.get(current.parentId);
+  }
+
+  return ancestry;
+}
+
+/** The first-level status a node hangs under, if it still exists. */
+export function getNodeStatus(nodeId: string, nodes: StatusHierarchyNode[], statuses: FirstLevelStatus[]) {
+  const [top] = getNodeAncestry(nodeId, nodes);
+  return top ? statuses.find((status) => status.id === top.parentId) : undefined;
+}
+
+/**
+ * Group names from the first-level status down to the entry's node. Nodes
+ * that no longer sit under the entry's first-level status are ignored.
+ */
+export function getStatusGroupPath(
+  firstLevelStatus: string,
+  entry: TicketStatusMappingEntry | undefined,
+  nodes: StatusHierarchyNode[],
+  statuses: FirstLevelStatus[]
+) {
+  if (!entry?.statusNodeId) return [firstLevelStatus];
+
+  const ancestry = getNodeAncestry(entry.statusNodeId, nodes);
+  const root = findFirstLevelStatus(firstLevelStatus, statuses);
+  if (!root || ancestry[0]?.parentId !== root.id) return [firstLevelStatus];
+
+  return [firstLevelStatus, ...ancestry.map((node) => node.name)];
+}
+
+/** Group path of a normalized ticket, found through its mapping entry. */
+export function getTicketStatusPath(
+  ticket: NormalizedTicket,
+  mapping: TicketStatusMapping | undefined,
+  nodes: StatusHierarchyNode[],
+  statuses: FirstLevelStatus[]
+) {
+  // Same lookup order as getFirstLevelStatus.
+  const entry = mapping?.[ticket.statusCode] ?? mapping?.[ticket.statusText];
+  return getStatusGroupPath(ticket.firstLevelStatus, entry, nodes, statuses);
+}
+
+/** Number of hierarchy levels, counting the first-level statuses as level 1. */
+export function getStatusHierarchyDepth(nodes: StatusHierarchyNode[]) {
+  return nodes.reduce((depth, node) => Math.max(depth, getNodeAncestry(node.id, nodes).length + 1), 1);
+}
+
+/** First-level statuses with their groups nested below them, in display order. */
+export function buildStatusTree(statuses: FirstLevelStatus[], nodes: StatusHierarchyNode[]): StatusTreeNode[] {
+  const childrenOf = (parentId: string, level: number): StatusTreeNode[] =>
+    nodes
+      .filter((node) => node.parentId === parentId)
+      .sort(byOrder)
+      .map((node) => ({
+        id: node.id,
+        name: node.name,
+        level,
+        isStatus: false,
+        children: childrenOf(node.id, level + 1),
+      }));
+
+  return sortFirstLevelStatuses(statuses).map((status) => ({
+    id: status.id,
+    name: status.name,
+    level: 1,
+    isStatus: true,
+    children: childrenOf(status.id, 2),
+  }));
+}
+
+/** Depth-first list of a tree, for flat pickers. */
+export function flattenStatusTree(tree: StatusTreeNode[]): StatusTreeNode[] {
+  return tree.flatMap((node) => [node, ...flattenStatusTree(node.children)]);
+}
+
+/** Finds the node at `path` (names below the first-level status) under `statusId`. */
+export function findNodeByPath(statusId: string, path: string[], nodes: StatusHierarchyNode[]) {
+  let parentId = statusId;
+  let found: StatusHierarchyNode | undefined;
+
+  for (const name of path) {
+    found = nodes.find(
+      (node) => node.parentId === parentId && node.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (!found) return undefined;
+    parentId = found.id;
+  }
+
+  return found;
+}
+
+export interface StatusLevelGroup {
+  name: string;
+  value: number;
+  tickets: NormalizedTicket[];
+}
+
+/**
+ * Counts tickets by the hierarchy name at `level` (1 = first-level status).
+ * Tickets whose branch is shallower than `level` are counted under their raw
+ * status text, which also makes a level past the deepest one the detail view.
+ * Only tickets below `focus` (a path of names from level 1) are included.
+ */
+export function groupTicketsByStatusLevel(
+  tickets: NormalizedTicket[],
+  pathOf: (ticket: NormalizedTicket) => string[],
+  level: number,
+  focus: string[] = []
+): StatusLevelGroup[] {
+  const groups = new Map<string, StatusLevelGroup>();
+
+  tickets.forEach((ticket) => {
+    const path = [...pathOf(ticket), ticket.statusText];
+    if (focus.some((name, index) => path[index] !== name)) return;
+
+    const name = path[Math.min(level, path.length) - 1] || "Unknown";
+    const group = groups.get(name) ?? { name, value: 0, tickets: [] };
+    group.value += 1;
+    group.tickets.push(ticket);
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value);
+}
@@ -0,0 +1,27 @@
+import { TicketData, TicketStatusMapping, UnmappedTicketStatus } from "@/types/ticket";
+import { hasFirstLevelStatusMapping } from "./ticketNormalizer";
+
+/**
+ * Status codes whose tickets fall back to the raw status text because the
+ * mapping has no first-level status for them, most affected tickets first.
+ */
+export function findUnmappedStatuses(data: TicketData, mapping?: TicketStatusMapping): UnmappedTicketStatus[] {
+  const unmapped = new Map<string, UnmappedTicketStatus>();
+
+  Object.values(data.tickets).forEach((entry) => {
+    if (hasFirstLevelStatusMapping(entry, mapping)) return;
+
+    const ticketStatus = entry.ticket.TicketStatus?.trim() ?? "";
+    const existing = unmapped.get(ticketStatus) ?? {
+      ticketStatus,
+      ticketStatusText: entry.ticket.TicketStatusText?.trim() ?? "",
+      ticketCount: 0,
+    };
+    existing.ticketCount += 1;
+    unmapped.set(ticketStatus, existing);
+  });
+
+  return Array.from(unmapped.values()).sort(
+    (a, b) => b.ticketCount - a.ticketCount || a.ticketStatus.localeCompare(b.ticketStatus)
+  );
+}
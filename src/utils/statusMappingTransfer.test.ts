@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { FirstLevelStatus, StatusHierarchyNode, TicketStatusMapping } from "@/types/ticket";
+import {
+  diffStatusMapping,
+  exportStatusMappingCsv,
+  exportStatusMappingJson,
+  parseStatusMappingImport,
+} from "./statusMappingTransfer";
+
+const firstLevelStatuses: FirstLevelStatus[] = [
+  { id: "open", name: "Open", color: "#2563eb", order: 0, isClosed: false },
+  { id: "closed", name: "Closed", color: "#16a34a", order: 1, isClosed: true },
+];
+
+const nodes: StatusHierarchyNode[] = [
+  { id: "waiting", name: "Waiting", parentId: "open", order: 0 },
+  { id: "parts", name: "On parts", parentId: "waiting", order: 0 },
+];
+
+const knownStatuses = new Map([
+  ["E0001", "New"],
+  ["E0002", "Waiting for parts"],
+  ["E0003", "Done"],
+]);
+
+const mapping: TicketStatusMapping = {
+  E0001: { ticketStatusText: "New", firstLevelStatus: "Open" },
+  E0002: { ticketStatusText: "Waiting for parts, backordered", firstLevelStatus: "Open", statusNodeId: "parts" },
+  E0003: { ticketStatusText: "Done", firstLevelStatus: "Closed" },
+};
+
+const parseCsv = (text: string) => parseStatusMappingImport(text, "csv", knownStatuses, firstLevelStatuses, nodes);
+
+describe("parseStatusMappingImport", () => {
+  it("reads back both export formats", () => {
+    const csv = exportStatusMappingCsv(mapping, nodes, firstLevelStatuses);
+    expect(csv).toContain('E0002,"Waiting for parts, backordered",Open,Waiting > On parts');
+    expect(parseCsv(csv)).toEqual({ mapping, issues: [], skipped: [] });
+
+    const json = exportStatusMappingJson(mapping);
+    expect(parseStatusMappingImport(json, "json", knownStatuses, firstLevelStatuses, nodes).mapping).toEqual(mapping);
+  });
+
+  it("fills in a missing TicketStatusText from the data", () => {
+    const { mapping: imported } = parseCsv("TicketStatus,FirstLevelStatus\nE0001,open\n");
+    expect(imported).toEqual({ E0001: { ticketStatusText: "New", firstLevelStatus: "Open" } });
+  });
+
+  it("keeps codes that are not in the loaded data, with a warning", () => {
+    const { mapping: imported, issues, skipped } = parseCsv(
+      "TicketStatus,TicketStatusText,FirstLevelStatus\nE0099,Archived,Closed\n"
+    );
+
+    expect(imported).toEqual({ E0099: { ticketStatusText: "Archived", firstLevelStatus: "Closed" } });
+    expect(issues).toEqual([
+      'Row 2: TicketStatus "E0099" does not appear in the loaded ticket data; it is imported anyway.',
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("skips rows it cannot use and reports them", () => {
+    const { mapping: imported, issues, skipped } = parseCsv(
+      "TicketStatus,FirstLevelStatus\n,Open\nE0001,Pending\nE0002,Open\nE0002,Closed\n"
+    );
+
+    expect(Object.keys(imported)).toEqual(["E0002"]);
+    expect(imported.E0002.firstLevelStatus).toBe("Open");
+    expect(issues).toHaveLength(3);
+    expect(skipped).toEqual(["E0001"]);
+  });
+
+  it("skips codes the database cannot store as keys", () => {
+    const { mapping: imported, issues, skipped } = parseCsv(
+      "TicketStatus,FirstLevelStatus\nE.1,Open\nE/2,Open\nE0001,Open\n"
+    );
+
+    expect(Object.keys(imported)).toEqual(["E0001"]);
+    expect(issues).toEqual([
+      'Row 2: TicketStatus "E.1" contains ".", "#", "$", "/", "[" or "]", which the database cannot store.',
+      'Row 3: TicketStatus "E/2" contains ".", "#", "$", "/", "[" or "]", which the database cannot store.',
+    ]);
+    expect(skipped).toEqual(["E.1", "E/2"]);
+  });
+
+  it("drops a group that is not under the row's first-level status", () => {
+    const { mapping: imported, issues } = parseCsv(
+      "TicketStatus,FirstLevelStatus,StatusGroup\nE0002,Closed,Waiting > On parts\n"
+    );
+
+    expect(imported.E0002).toEqual({ ticketStatusText: "Waiting for parts", firstLevelStatus: "Closed" });
+    expect(issues).toHaveLength(1);
+  });
+
+  it("rejects files it cannot read", () => {
+    expect(() => parseCsv("")).toThrow("The file is empty.");
+    expect(() => parseCsv("Code,Status\nE0001,Open\n")).toThrow(/must name the columns/);
+    expect(() => parseStatusMappingImport("{", "json", knownStatuses, firstLevelStatuses, nodes)).toThrow(
+      "The file is not valid JSON."
+    );
+  });
+});
+
+describe("diffStatusMapping", () => {
+  it("lists added, changed and removed codes", () => {
+    const next: TicketStatusMapping = {
+      E0001: mapping.E0001,
+      E0002: { ...mapping.E0002, statusNodeId: "waiting" },
+      E0004: { ticketStatusText: "Reopened", firstLevelStatus: "Open" },
+    };
+
+    const diff = diffStatusMapping(mapping, next);
+    expect(diff.added.map((change) => change.ticketStatus)).toEqual(["E0004"]);
+    expect(diff.changed).toEqual([{ ticketStatus: "E0002", before: mapping.E0002, after: next.E0002 }]);
+    expect(diff.removed).toEqual([{ ticketStatus: "E0003", before: mapping.E0003, after: null }]);
+  });
+
+  it("never removes codes whose import row was skipped", () => {
+    const { mapping: imported, skipped } = parseCsv(
+      "TicketStatus,FirstLevelStatus\nE0001,Open\nE0002,Open\nE0003,Finished\n"
+    );
+
+    expect(diffStatusMapping(mapping, imported, skipped).removed).toEqual([]);
+  });
+});
@@ -0,0 +1,279 @@
+import { z } from "zod";
+import {
+  FirstLevelStatus,
+  StatusHierarchyNode,
+  TicketStatusMapping,
+  TicketStatusMappingChange,
+  TicketStatusMappingDiff,
+  TicketStatusMappingEntry,
+} from "@/types/ticket";
+import { findFirstLevelStatus } from "./firstLevelStatuses";
+import { findNodeByPath, getNodeAncestry, getStatusGroupPath, STATUS_PATH_SEPARATOR } from "./statusHierarchy";
+
+export type StatusMappingFormat = "csv" | "json";
+
+/** Column headers of the CSV export, in the order the ops spreadsheet uses. */
+export const STATUS_MAPPING_CSV_HEADERS = [
+  "TicketStatus",
+  "TicketStatusText",
+  "FirstLevelStatus",
+  "StatusGroup",
+] as const;
+
+export interface StatusMappingImport {
+  mapping: TicketStatusMapping;
+  /** Rows that were skipped or need a look, with the reason, e.g. an unknown status code. */
+  issues: string[];
+  /** Codes whose row was skipped; their current entry is left as it is. */
+  skipped: string[];
+}
+
+const sortedCodes = (mapping: TicketStatusMapping) => Object.keys(mapping).sort((a, b) => a.localeCompare(b));
+
+const escapeCsvValue = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** StatusGroup holds the group names below the first-level status, joined by " > ". */
+export function exportStatusMappingCsv(
+  mapping: TicketStatusMapping,
+  nodes: StatusHierarchyNode[],
+  firstLevelStatuses: FirstLevelStatus[]
+) {
+  const rows = sortedCodes(mapping).map((code) => {
+    const { ticketStatusText, firstLevelStatus = "" } = mapping[code];
+    const groupPath = getStatusGroupPath(firstLevelStatus, mapping[code], nodes, firstLevelStatuses).slice(1);
+    return [code, ticketStatusText ?? "", firstLevelStatus, groupPath.join(STATUS_PATH_SEPARATOR)]
+      .map(escapeCsvValue)
+      .join(",");
+  });
+  return [STATUS_MAPPING_CSV_HEADERS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function exportStatusMappingJson(mapping: TicketStatusMapping) {
+  const ordered = Object.fromEntries(sortedCodes(mapping).map((code) => [code, mapping[code]]));
+  return `${JSON.stringify(ordered, null, 2)}\n`;
+}
+
+/** RFC 4180 style: quoted fields may contain commas, quotes ("") and line breaks. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const mappingEntrySchema = z.object({
+  ticketStatusText: z.string().optional(),
+  firstLevelStatus: z.string(),
+  statusNodeId: z.string().optional(),
+});
+
+const jsonImportSchema = z.union([
+  z.record(z.string(), mappingEntrySchema),
+  z.array(
+    z.object({
+      TicketStatus: z.string(),
+      TicketStatusText: z.string().optional(),
+      FirstLevelStatus: z.string(),
+      StatusGroup: z.string().optional(),
+    })
+  ),
+]);
+
+type ImportRow = {
+  code: string;
+  text?: string;
+  firstLevelStatus: string;
+  /** Group names joined by " > "; JSON exports carry the node id instead. */
+  groupPath?: string;
+  statusNodeId?: string;
+};
+
+function readCsvRows(text: string): ImportRow[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("The file is empty.");
+  }
+
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const [codeColumn, textColumn, statusColumn, groupColumn] = STATUS_MAPPING_CSV_HEADERS.map((name) =>
+    columns.indexOf(name.toLowerCase())
+  );
+  if (codeColumn < 0 || statusColumn < 0) {
+    throw new Error(`The first row must name the columns ${STATUS_MAPPING_CSV_HEADERS.slice(0, 3).join(", ")}.`);
+  }
+
+  return rows.map((cells): ImportRow => ({
+    code: cells[codeColumn] ?? "",
+    text: textColumn < 0 ? undefined : cells[textColumn],
+    firstLevelStatus: cells[statusColumn] ?? "",
+    groupPath: groupColumn < 0 ? undefined : cells[groupColumn],
+  }));
+}
+
+function readJsonRows(text: string): ImportRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const result = jsonImportSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error("Expected an object keyed by TicketStatus, or a list of rows with the CSV column names.");
+  }
+
+  return Array.isArray(result.data)
+    ? result.data.map((row) => ({
+        code: row.TicketStatus,
+        text: row.TicketStatusText,
+        firstLevelStatus: row.FirstLevelStatus,
+        groupPath: row.StatusGroup,
+      }))
+    : Object.entries(result.data).map(([code, entry]) => ({
+        code,
+        text: entry.ticketStatusText,
+        firstLevelStatus: entry.firstLevelStatus,
+        statusNodeId: entry.statusNodeId,
+      }));
+}
+
+// Realtime Database keys can't contain these, and mapping entries are keyed by code.
+const INVALID_KEY_CHARACTERS = /[.#$/[\]]/;
+
+/**
+ * Reads an exported (or hand-edited) mapping file. Rows are checked against
+ * `knownStatuses` (code → TicketStatusText seen in the data) and the managed
+ * `firstLevelStatuses`: blank codes, codes that cannot be database keys,
+ * duplicates and first-level statuses outside the list are skipped and
+ * reported. Codes that do not appear in the data are kept with a warning,
+ * since they may belong to tickets that are not loaded. A missing
+ * TicketStatusText is filled in from the data. Groups that are not in the
+ * hierarchy under the row's first-level status are reported and dropped.
+ */
+export function parseStatusMappingImport(
+  text: string,
+  format: StatusMappingFormat,
+  knownStatuses: Map<string, string>,
+  firstLevelStatuses: FirstLevelStatus[],
+  nodes: StatusHierarchyNode[]
+): StatusMappingImport {
+  const rows = format === "csv" ? readCsvRows(text) : readJsonRows(text);
+  const mapping: TicketStatusMapping = {};
+  const issues: string[] = [];
+  const skipped: string[] = [];
+
+  rows.forEach((row, position) => {
+    const code = row.code.trim();
+    const firstLevelStatus = row.firstLevelStatus.trim();
+    const listed = firstLevelStatus ? findFirstLevelStatus(firstLevelStatus, firstLevelStatuses) : undefined;
+    const label = format === "csv" ? `Row ${position + 2}` : `Entry ${position + 1}`;
+
+    if (!code) {
+      issues.push(`${label}: no TicketStatus.`);
+    } else if (INVALID_KEY_CHARACTERS.test(code)) {
+      issues.push(`${label}: TicketStatus "${code}" contains ".", "#", "$", "/", "[" or "]", which the database cannot store.`);
+      skipped.push(code);
+    } else if (firstLevelStatus && !listed) {
+      issues.push(`${label}: "${firstLevelStatus}" is not one of the first-level statuses.`);
+      skipped.push(code);
+    } else if (mapping[code]) {
+      issues.push(`${label}: TicketStatus "${code}" is listed more than once; the first row is used.`);
+    } else {
+      if (!knownStatuses.has(code)) {
+        issues.push(`${label}: TicketStatus "${code}" does not appear in the loaded ticket data; it is imported anyway.`);
+      }
+      const entry: TicketStatusMappingEntry = {
+        ticketStatusText: row.text?.trim() || knownStatuses.get(code) || "",
+        firstLevelStatus: listed?.name ?? "",
+      };
+      const groupPath = row.groupPath?.split(STATUS_PATH_SEPARATOR.trim()).filter((name) => name.trim()) ?? [];
+      const node = row.statusNodeId
+        ? nodes.find((candidate) => candidate.id === row.statusNodeId)
+        : listed && groupPath.length
+          ? findNodeByPath(listed.id, groupPath, nodes)
+          : undefined;
+
+      const placed = node && listed && getNodeAncestry(node.id, nodes)[0]?.parentId === listed.id;
+
+      if (node && placed) {
+        entry.statusNodeId = node.id;
+      } else if (row.statusNodeId || groupPath.length) {
+        issues.push(
+          `${label}: the status group is not under "${entry.firstLevelStatus || "(none)"}"; the code is mapped to the status itself.`
+        );
+      }
+      mapping[code] = entry;
+    }
+  });
+
+  // A code skipped on one row but imported from another is not skipped.
+  return { mapping, issues, skipped: skipped.filter((code) => !mapping[code]) };
+}
+
+const entriesEqual = (a: TicketStatusMappingEntry, b: TicketStatusMappingEntry) =>
+  (a.ticketStatusText ?? "") === (b.ticketStatusText ?? "") &&
+  (a.firstLevelStatus ?? "") === (b.firstLevelStatus ?? "") &&
+  (a.statusNodeId ?? "") === (b.statusNodeId ?? "");
+
+/** What replacing `current` with `next` adds, changes and removes. Codes in `keep` are never removed. */
+export function diffStatusMapping(
+  current: TicketStatusMapping,
+  next: TicketStatusMapping,
+  keep: string[] = []
+): TicketStatusMappingDiff {
+  const change = (ticketStatus: string): TicketStatusMappingChange => ({
+    ticketStatus,
+    before: current[ticketStatus] ?? null,
+    after: next[ticketStatus] ?? null,
+  });
+
+  return {
+    added: sortedCodes(next)
+      .filter((code) => !current[code])
+      .map(change),
+    changed: sortedCodes(next)
+      .filter((code) => current[code] && !entriesEqual(current[code], next[code]))
+      .map(change),
+    removed: sortedCodes(current)
+      .filter((code) => !next[code] && !keep.includes(code))
+      .map(change),
+  };
+}
+
+export const isStatusMappingDiffEmpty = (diff: TicketStatusMappingDiff) =>
+  diff.added.length + diff.changed.length + diff.removed.length === 0;
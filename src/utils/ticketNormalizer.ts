@@ -0,0 +1,164 @@
+import { isValid, parse, parseISO } from "date-fns";
+import {
+  NormalizedTicket,
+  TicketData,
+  TicketEntry,
+  TicketRoleIdentity,
+  TicketStatusMapping,
+} from "@/types/ticket";
+import { parseTimeConsumed } from "./timeParser";
+
+/**
+ * Parses CreatedOn, which the feed sends either as dd/MM/yyyy or ISO. The
+ * dd/MM/yyyy form is tried first: `new Date("05/06/2025")` would silently read
+ * it as 6 May.
+ */
+export function parseTicketDate(raw: string | null | undefined): Date | null {
+  const value = (raw ?? "").trim();
+  if (!value) return null;
+
+  if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(value)) {
+    const date = parse(value, "dd/MM/yyyy", new Date());
+    return isValid(date) ? date : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = parseISO(value);
+    return isValid(date) ? date : null;
+  }
+
+  return null;
+}
+
+export function parseAmountIncludingTax(amount: string | null | undefined): number | null {
+  const normalized = (amount ?? "").replace(/,/g, "").trim();
+  if (!normalized) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(normalized);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export function getNormalizedSerialId(ticketEntry: TicketEntry) {
+  const normalizeValue = (value?: string | null) => {
+    const trimmed = (value ?? "").trim();
+    return trimmed ? trimmed.replace(/-/g, "") : "";
+  };
+
+  const serialId = normalizeValue(ticketEntry.SerialID ?? ticketEntry.ticket?.SerialID);
+  if (serialId) {
+    return serialId;
+  }
+
+  const chassisNumber = normalizeValue(ticketEntry.ticket?.ChassisNumber);
+  if (chassisNumber) {
+    return chassisNumber;
+  }
+
+  const ticketName = ticketEntry.ticket.TicketName?.trim?.() ?? ticketEntry.ticket.TicketName;
+  const fallback = ticketName ? ticketName.split(" ").filter(Boolean).pop() ?? "" : "";
+
+  return normalizeValue(fallback);
+}
+
+export function getDealerInfo(ticketEntry: TicketEntry) {
+  const dealer = ticketEntry.roles?.["1001"];
+  return {
+    dealerId: dealer?.InvolvedPartyBusinessPartnerID ?? "unknown",
+    dealerName: dealer?.RepairerBusinessNameID ?? "Unknown Dealer",
+  };
+}
+
+export function getEmployeeInfo(ticketEntry: TicketEntry) {
+  const employee = ticketEntry.roles?.["40"];
+  return {
+    employeeId: employee?.InvolvedPartyBusinessPartnerID ?? "unassigned",
+    employeeName: employee?.InvolvedPartyName ?? "Unassigned",
+  };
+}
+
+export function getRepairInfo(ticketEntry: TicketEntry) {
+  const repair = ticketEntry.roles?.["43"];
+  const repairId = repair?.InvolvedPartyBusinessPartnerID?.trim() || "no-repair";
+  const repairName = repair?.RepairerBusinessNameID?.trim() || "No Repair Shop Assigned";
+  return {
+    repairId,
+    repairName,
+  };
+}
+
+/** Maps a ticket to its first-level status, by status code first and status text as a fallback. */
+function findStatusMappingEntry(ticketEntry: TicketEntry, mapping?: TicketStatusMapping) {
+  // fallback in case mappings were stored by text instead of code
+  return mapping?.[ticketEntry.ticket.TicketStatus] ?? mapping?.[ticketEntry.ticket.TicketStatusText];
+}
+
+/** False when `getFirstLevelStatus` would have to fall back to the raw status text. */
+export function hasFirstLevelStatusMapping(ticketEntry: TicketEntry, mapping?: TicketStatusMapping) {
+  return !!findStatusMappingEntry(ticketEntry, mapping)?.firstLevelStatus?.trim();
+}
+
+export function getFirstLevelStatus(ticketEntry: TicketEntry, mapping?: TicketStatusMapping) {
+  const statusText = ticketEntry.ticket.TicketStatusText;
+  const mappingEntry = findStatusMappingEntry(ticketEntry, mapping);
+
+  return (
+    mappingEntry?.firstLevelStatus?.trim() ||
+    mappingEntry?.ticketStatusText?.trim() ||
+    statusText?.trim() ||
+    "Unmapped"
+  );
+}
+
+export function normalizeTicket(
+  key: string,
+  entry: TicketEntry,
+  mapping?: TicketStatusMapping
+): NormalizedTicket {
+  const ticket = entry.ticket;
+  const { dealerId, dealerName } = getDealerInfo(entry);
+  const { employeeId, employeeName } = getEmployeeInfo(entry);
+  const { repairId, repairName } = getRepairInfo(entry);
+  const role = (id: string, name: string): TicketRoleIdentity => ({ id, name });
+
+  return {
+    key,
+    entry,
+    ticketId: ticket.TicketID ?? key,
+    ticketName: ticket.TicketName ?? "",
+    createdOn: parseTicketDate(ticket.CreatedOn),
+    amount: parseAmountIncludingTax(ticket.AmountIncludingTax),
+    statusCode: ticket.TicketStatus ?? "",
+    statusText: ticket.TicketStatusText ?? "",
+    firstLevelStatus: getFirstLevelStatus(entry, mapping),
+    typeCode: ticket.TicketType ?? "",
+    typeText: ticket.TicketTypeText ?? "",
+    severity: ticket.TicketSeverity ?? "",
+    serialId: getNormalizedSerialId(entry),
+    dealer: role(dealerId, dealerName),
+    employee: role(employeeId, employeeName),
+    repair: role(repairId, repairName),
+    timeConsumed: parseTimeConsumed(ticket.Z1Z8TimeConsumed),
+  };
+}
+
+// Filtered datasets share entry objects with the full one, so caching per
+// entry means each ticket is parsed once per mapping however it is sliced.
+const normalizedCache = new WeakMap<
+  TicketEntry,
+  { mapping: TicketStatusMapping | undefined; ticket: NormalizedTicket }
+>();
+
+export function normalizeTicketData(data: TicketData, mapping?: TicketStatusMapping): NormalizedTicket[] {
+  return Object.entries(data.tickets ?? {}).map(([key, entry]) => {
+    const cached = normalizedCache.get(entry);
+    if (cached && cached.mapping === mapping && cached.ticket.key === key) {
+      return cached.ticket;
+    }
+
+    const ticket = normalizeTicket(key, entry, mapping);
+    normalizedCache.set(entry, { mapping, ticket });
+    return ticket;
+  });
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryDataSource, setTicketDataSource, TicketDataSource } from "@/lib/dataSource";
+import { useAuthStore } from "@/lib/auth";
+import { NormalizedTicket, TicketData, TicketEntry } from "@/types/ticket";
+import {
+  captureDailyTicketSnapshot,
+  captureTicketSnapshot,
+  compareTicketSnapshots,
+  findSnapshotAsOf,
+  loadTicketSnapshot,
+  loadTicketSnapshotIndex,
+} from "./ticketSnapshots";
+
+const entry = (status: string) => ({ ticket: { TicketStatus: status } }) as unknown as TicketEntry;
+const day = (date: number) => new Date(2024, 2, date, 12);
+
+let source: TicketDataSource;
+
+beforeEach(() => {
+  source = createMemoryDataSource();
+  setTicketDataSource(source);
+  useAuthStore.setState({ role: null });
+});
+
+describe("captureTicketSnapshot", () => {
+  it("stores a full copy first and diffs afterwards, and replays them", async () => {
+    const first: TicketData = { tickets: { a: entry("open"), b: entry("open") } };
+    const second: TicketData = { tickets: { a: entry("closed"), c: entry("open") } };
+
+    expect(await captureTicketSnapshot("root", first, day(1))).toMatchObject({ date: "2024-03-01", kind: "full" });
+    expect(await captureTicketSnapshot("root", second, day(2))).toMatchObject({
+      date: "2024-03-02",
+      kind: "diff",
+      ticketCount: 2,
+    });
+
+    expect(await source.read("ticketSnapshots/root/records/2024-03-02")).toMatchObject({
+      changed: { a: entry("closed"), c: entry("open") },
+      removed: { b: true },
+    });
+    expect(await loadTicketSnapshot("root", "2024-03-01")).toEqual(first);
+    expect(await loadTicketSnapshot("root", "2024-03-02")).toEqual(second);
+  });
+
+  it("takes one snapshot per day", async () => {
+    const data: TicketData = { tickets: { a: entry("open") } };
+
+    expect(await captureTicketSnapshot("root", data, day(1))).not.toBeNull();
+    expect(await captureTicketSnapshot("root", data, day(1))).toBeNull();
+    expect(await loadTicketSnapshotIndex("root")).toHaveLength(1);
+  });
+
+  it("backs off when a concurrent capture claimed the day first", async () => {
+    await source.write("ticketSnapshots/root/records/2024-03-01", { takenAt: 1, tickets: {} });
+
+    expect(await captureTicketSnapshot("root", { tickets: { a: entry("open") } }, day(1))).toBeNull();
+    expect(await loadTicketSnapshotIndex("root")).toEqual([]);
+  });
+
+  it("refuses dates without a snapshot", async () => {
+    await captureTicketSnapshot("root", { tickets: {} }, day(1));
+    await expect(loadTicketSnapshot("root", "2024-03-05")).rejects.toThrow(
+      "No snapshot of root was taken on 2024-03-05"
+    );
+  });
+});
+
+describe("captureDailyTicketSnapshot", () => {
+  it("only captures from admin sessions", async () => {
+    const data: TicketData = { tickets: { a: entry("open") } };
+
+    useAuthStore.setState({ role: "analyst" });
+    expect(await captureDailyTicketSnapshot("root", data)).toBeNull();
+    expect(await loadTicketSnapshotIndex("root")).toEqual([]);
+
+    useAuthStore.setState({ role: "admin" });
+    expect(await captureDailyTicketSnapshot("root", data)).toMatchObject({ kind: "full", ticketCount: 1 });
+  });
+});
+
+describe("findSnapshotAsOf", () => {
+  it("picks the latest snapshot on or before the date", () => {
+    const index = ["2024-03-01", "2024-03-04"].map((date) => ({
+      date,
+      takenAt: 0,
+      kind: "full" as const,
+      ticketCount: 0,
+    }));
+
+    expect(findSnapshotAsOf(index, "2024-02-28")).toBeUndefined();
+    expect(findSnapshotAsOf(index, "2024-03-03")?.date).toBe("2024-03-01");
+    expect(findSnapshotAsOf(index, "2024-03-04")?.date).toBe("2024-03-04");
+  });
+});
+
+describe("compareTicketSnapshots", () => {
+  it("lists added, removed and re-statused tickets", () => {
+    const ticket = (key: string, firstLevelStatus: string) => ({ key, firstLevelStatus }) as NormalizedTicket;
+    const comparison = compareTicketSnapshots(
+      [ticket("a", "Open"), ticket("b", "Open")],
+      [ticket("a", "Closed"), ticket("c", "Open")]
+    );
+
+    expect(comparison.added.map((item) => item.key)).toEqual(["c"]);
+    expect(comparison.removed.map((item) => item.key)).toEqual(["b"]);
+    expect(comparison.statusChanged.map(({ before, after }) => [before.key, after.firstLevelStatus])).toEqual([
+      ["a", "Closed"],
+    ]);
+  });
+});
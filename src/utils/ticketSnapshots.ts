@@ -0,0 +1,186 @@
+import { format } from "date-fns";
+import {
+  NormalizedTicket,
+  TicketData,
+  TicketSnapshotComparison,
+  TicketSnapshotRecord,
+  TicketSnapshotSummary,
+} from "@/types/ticket";
+import { getTicketDataSource } from "@/lib/dataSource";
+import { readLocal, writeLocal } from "@/lib/localStore";
+import { hasRole, useAuthStore } from "@/lib/auth";
+
+// Every Nth snapshot is a full copy so rebuilding a date never replays more than N-1 diffs.
+const FULL_SNAPSHOT_INTERVAL = 30;
+
+const snapshotRoot = (root: string) => `ticketSnapshots/${root}`;
+const capturedKey = (root: string) => `snapshot-captured:${root}`;
+
+export const formatSnapshotDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+/** Snapshots of a dataset, oldest first. */
+export async function loadTicketSnapshotIndex(root: string): Promise<TicketSnapshotSummary[]> {
+  const index = await getTicketDataSource().read<Record<string, Omit<TicketSnapshotSummary, "date">>>(
+    `${snapshotRoot(root)}/index`
+  );
+
+  return Object.entries(index ?? {})
+    .map(([date, summary]) => ({ ...summary, date }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** The latest snapshot taken on or before `date`, if any. */
+export function findSnapshotAsOf(index: TicketSnapshotSummary[], date: string) {
+  let match: TicketSnapshotSummary | undefined;
+  for (const summary of index) {
+    if (summary.date > date) break;
+    match = summary;
+  }
+  return match;
+}
+
+/**
+ * Rebuilds the ticket set as of the snapshot taken on `date` by replaying the
+ * diffs recorded since the closest preceding full snapshot.
+ */
+export async function loadTicketSnapshot(
+  root: string,
+  date: string,
+  index?: TicketSnapshotSummary[]
+): Promise<TicketData> {
+  const summaries = (index ?? (await loadTicketSnapshotIndex(root))).filter((summary) => summary.date <= date);
+  if (summaries[summaries.length - 1]?.date !== date) {
+    throw new Error(`No snapshot of ${root} was taken on ${date}`);
+  }
+
+  let baseIndex = summaries.length - 1;
+  while (baseIndex > 0 && summaries[baseIndex].kind !== "full") {
+    baseIndex -= 1;
+  }
+
+  const records = await Promise.all(
+    summaries
+      .slice(baseIndex)
+      .map((summary) =>
+        getTicketDataSource().read<TicketSnapshotRecord>(`${snapshotRoot(root)}/records/${summary.date}`)
+      )
+  );
+
+  const tickets: TicketData["tickets"] = {};
+  records.forEach((record, offset) => {
+    if (!record) {
+      throw new Error(`Snapshot ${summaries[baseIndex + offset].date} of ${root} is missing`);
+    }
+    Object.assign(tickets, record.tickets, record.changed);
+    Object.keys(record.removed ?? {}).forEach((key) => delete tickets[key]);
+  });
+
+  return { tickets };
+}
+
+/**
+ * Records today's snapshot of a dataset unless one already exists. Returns the
+ * new snapshot's summary, or null when today was already captured, here or by
+ * a concurrent capture.
+ */
+export async function captureTicketSnapshot(
+  root: string,
+  data: TicketData,
+  now = new Date()
+): Promise<TicketSnapshotSummary | null> {
+  const date = formatSnapshotDate(now);
+  const index = await loadTicketSnapshotIndex(root);
+  if (index.some((summary) => summary.date === date)) {
+    return null;
+  }
+
+  const previous = index[index.length - 1];
+  const lastFull = index.map((summary) => summary.kind).lastIndexOf("full");
+  const needsFull = !previous || lastFull === -1 || index.length - lastFull >= FULL_SNAPSHOT_INTERVAL;
+
+  let record: TicketSnapshotRecord;
+  if (needsFull) {
+    record = { takenAt: now.getTime(), tickets: data.tickets };
+  } else {
+    const before = (await loadTicketSnapshot(root, previous.date, index)).tickets;
+    const changed: TicketData["tickets"] = {};
+    const removed: Record<string, true> = {};
+
+    Object.entries(data.tickets).forEach(([key, entry]) => {
+      if (!before[key] || JSON.stringify(before[key]) !== JSON.stringify(entry)) {
+        changed[key] = entry;
+      }
+    });
+    Object.keys(before).forEach((key) => {
+      if (!data.tickets[key]) removed[key] = true;
+    });
+
+    record = { takenAt: now.getTime(), changed, removed };
+  }
+
+  const indexEntry: Omit<TicketSnapshotSummary, "date"> = {
+    takenAt: now.getTime(),
+    kind: needsFull ? "full" : "diff",
+    ticketCount: Object.keys(data.tickets).length,
+  };
+
+  // The record is claimed in a transaction and indexed only once it exists, so
+  // concurrent captures leave exactly one snapshot per day and readers never
+  // see an index entry without its data.
+  const source = getTicketDataSource();
+  if (!(await source.create(`${snapshotRoot(root)}/records/${date}`, record))) {
+    return null;
+  }
+  await source.write(`${snapshotRoot(root)}/index/${date}`, indexEntry);
+
+  return { ...indexEntry, date };
+}
+
+/** Snapshots are shared by the whole team, so only admins' sessions take them. */
+export const SNAPSHOT_CAPTURE_ROLE = "admin";
+
+/**
+ * Captures today's snapshot from an admin session that just loaded fresh
+ * tickets; other roles never write. Each browser asks the database at most
+ * once a day, and `captureTicketSnapshot` makes sure only one capture wins.
+ */
+export async function captureDailyTicketSnapshot(root: string, data: TicketData) {
+  if (!hasRole(useAuthStore.getState().role, SNAPSHOT_CAPTURE_ROLE)) {
+    return null;
+  }
+
+  const today = formatSnapshotDate(new Date());
+  if ((await readLocal<string>(capturedKey(root)).catch(() => null)) === today) {
+    return null;
+  }
+  const summary = await captureTicketSnapshot(root, data);
+  await writeLocal(capturedKey(root), today).catch(() => undefined);
+  return summary;
+}
+
+/** Tickets added, removed or moved to another first-level status between two snapshots. */
+export function compareTicketSnapshots(
+  before: NormalizedTicket[],
+  after: NormalizedTicket[]
+): TicketSnapshotComparison {
+  const beforeByKey = new Map(before.map((ticket) => [ticket.key, ticket]));
+  const afterKeys = new Set(after.map((ticket) => ticket.key));
+
+  const added: NormalizedTicket[] = [];
+  const statusChanged: TicketSnapshotComparison["statusChanged"] = [];
+
+  after.forEach((ticket) => {
+    const previous = beforeByKey.get(ticket.key);
+    if (!previous) {
+      added.push(ticket);
+    } else if (previous.firstLevelStatus !== ticket.firstLevelStatus) {
+      statusChanged.push({ before: previous, after: ticket });
+    }
+  });
+
+  return {
+    added,
+    removed: before.filter((ticket) => !afterKeys.has(ticket.key)),
+    statusChanged,
+  };
+}
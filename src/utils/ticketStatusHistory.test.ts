@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryDataSource, setTicketDataSource, TicketDataSource } from "@/lib/dataSource";
+import { useAuthStore } from "@/lib/auth";
+import { NormalizedTicket, TicketEntry, TicketStatusMapping, TicketStatusTransition } from "@/types/ticket";
+import {
+  diffTicketStatuses,
+  loadTicketStatusHistory,
+  recordTicketStatusTransitions,
+  summarizeTimeInStatus,
+} from "./ticketStatusHistory";
+
+const mapping: TicketStatusMapping = {
+  E0001: { ticketStatusText: "New", firstLevelStatus: "Open" },
+  E0002: { ticketStatusText: "Done", firstLevelStatus: "Closed" },
+};
+
+const entry = (ticketId: string, status: string, updatedAt: number) =>
+  ({
+    ticket: { TicketID: ticketId, TicketStatus: status, TicketStatusText: mapping[status]?.ticketStatusText },
+    updatedAt,
+  }) as unknown as TicketEntry;
+
+const transition = (at: number, from: string | null, to: string): TicketStatusTransition => ({
+  at,
+  fromStatus: from,
+  fromStatusText: from && mapping[from].ticketStatusText,
+  fromFirstLevelStatus: from && mapping[from].firstLevelStatus,
+  toStatus: to,
+  toStatusText: mapping[to].ticketStatusText!,
+  toFirstLevelStatus: mapping[to].firstLevelStatus!,
+});
+
+describe("diffTicketStatuses", () => {
+  it("records tickets without history as first seen", () => {
+    expect(diffTicketStatuses({}, { k1: entry("T-1", "E0001", 100) }, mapping)).toEqual([
+      { ticketId: "T-1", transition: transition(100, null, "E0001") },
+    ]);
+  });
+
+  it("continues from the last stored transition", () => {
+    const history = { "T-1": [transition(100, null, "E0001")] };
+
+    expect(diffTicketStatuses(history, { k1: entry("T-1", "E0002", 200) }, mapping)).toEqual([
+      { ticketId: "T-1", transition: transition(200, "E0001", "E0002") },
+    ]);
+  });
+
+  it("skips unchanged statuses and copies older than the history", () => {
+    const history = { "T-1": [transition(100, null, "E0001"), transition(300, "E0001", "E0002")] };
+
+    expect(diffTicketStatuses(history, { k1: entry("T-1", "E0002", 400) }, mapping)).toEqual([]);
+    expect(diffTicketStatuses(history, { k1: entry("T-1", "E0001", 250) }, mapping)).toEqual([]);
+  });
+
+  it("finds the history of ids with characters Firebase keys cannot hold", () => {
+    const history = { "T_1": [transition(100, null, "E0001")] };
+    expect(diffTicketStatuses(history, { k1: entry("T.1", "E0001", 200) }, mapping)).toEqual([]);
+  });
+});
+
+describe("recordTicketStatusTransitions", () => {
+  let source: TicketDataSource;
+
+  beforeEach(() => {
+    source = createMemoryDataSource({ ticketStatusMapping: mapping });
+    setTicketDataSource(source);
+  });
+
+  it("writes nothing outside admin sessions", async () => {
+    useAuthStore.setState({ role: "mapping-editor" });
+
+    expect(await recordTicketStatusTransitions("root", { k1: entry("T-1", "E0001", 100) })).toBe(0);
+    expect(await source.read("ticketStatusHistory")).toBeNull();
+  });
+
+  it("appends each change under the ticket and its updatedAt", async () => {
+    useAuthStore.setState({ role: "admin" });
+
+    expect(await recordTicketStatusTransitions("root", { k1: entry("T/1", "E0001", 100) })).toBe(1);
+    expect(await recordTicketStatusTransitions("root", { k1: entry("T/1", "E0001", 150) })).toBe(0);
+    expect(await recordTicketStatusTransitions("root", { k1: entry("T/1", "E0002", 200) })).toBe(1);
+
+    expect(await loadTicketStatusHistory("root")).toEqual({
+      T_1: [transition(100, null, "E0001"), transition(200, "E0001", "E0002")],
+    });
+  });
+});
+
+describe("summarizeTimeInStatus", () => {
+  it("measures each stay up to the next transition or now", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const history = {
+      "T-1": [transition(0, null, "E0001"), transition(2 * day, "E0001", "E0002")],
+      "T-2": [transition(0, null, "E0001")],
+    };
+    const tickets = [{ ticketId: "T-1" }, { ticketId: "T-2" }] as NormalizedTicket[];
+
+    expect(summarizeTimeInStatus(history, tickets, new Date(6 * day))).toEqual([
+      { firstLevelStatus: "Open", stays: 2, tickets: 2, avgDays: 4, medianDays: 4, maxDays: 6 },
+      { firstLevelStatus: "Closed", stays: 1, tickets: 1, avgDays: 4, medianDays: 4, maxDays: 4 },
+    ]);
+  });
+});
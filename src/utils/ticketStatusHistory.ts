@@ -0,0 +1,180 @@
+import { differenceInMinutes } from "date-fns";
+import {
+  NormalizedTicket,
+  TicketData,
+  TicketEntry,
+  TicketStatusMapping,
+  TicketStatusTransition,
+  TimeInStatusSummary,
+} from "@/types/ticket";
+import { getTicketDataSource } from "@/lib/dataSource";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { loadTicketStatusMapping } from "./dataParser";
+import { getFirstLevelStatus } from "./ticketNormalizer";
+
+const historyRoot = (root: string) => `ticketStatusHistory/${root}`;
+
+/** Firebase keys can't contain ".", "#", "$", "/", "[" or "]". */
+const historyKey = (ticketId: string) => ticketId.replace(/[.#$/[\]]/g, "_");
+
+/** Transitions of one ticket from a `loadTicketStatusHistory` result, oldest first. */
+export const getTicketTransitions = (
+  history: Record<string, TicketStatusTransition[]> | undefined,
+  ticketId: string
+): TicketStatusTransition[] => history?.[historyKey(ticketId)] ?? [];
+
+const sortByTime = (transitions: TicketStatusTransition[]) =>
+  [...transitions].sort((a, b) => a.at - b.at);
+
+const ticketIdOf = (key: string, entry: TicketEntry) => entry?.ticket?.TicketID || key;
+
+/**
+ * Transitions that bring the stored `history` up to date with `tickets`. Each
+ * ticket is compared with its last recorded transition, so every client
+ * derives the same entry whatever its local copy held; tickets without history
+ * are recorded as first seen. Entries not newer than the last transition are
+ * skipped, so a stale copy never rewrites history.
+ */
+export function diffTicketStatuses(
+  history: Record<string, TicketStatusTransition[]>,
+  tickets: TicketData["tickets"],
+  mapping?: TicketStatusMapping
+): { ticketId: string; transition: TicketStatusTransition }[] {
+  const changes: { ticketId: string; transition: TicketStatusTransition }[] = [];
+
+  Object.entries(tickets).forEach(([key, entry]) => {
+    const ticketId = ticketIdOf(key, entry);
+    const transitions = getTicketTransitions(history, ticketId);
+    const last: TicketStatusTransition | undefined = transitions[transitions.length - 1];
+    const status = entry?.ticket?.TicketStatus ?? "";
+    const at = typeof entry?.updatedAt === "number" ? entry.updatedAt : Date.now();
+    if (last && (last.toStatus === status || at <= last.at)) return;
+
+    changes.push({
+      ticketId,
+      transition: {
+        at,
+        fromStatus: last ? last.toStatus : null,
+        fromStatusText: last ? last.toStatusText : null,
+        fromFirstLevelStatus: last ? last.toFirstLevelStatus : null,
+        toStatus: status,
+        toStatusText: entry.ticket?.TicketStatusText ?? "",
+        toFirstLevelStatus: getFirstLevelStatus(entry, mapping),
+      },
+    });
+  });
+
+  return changes;
+}
+
+// Above this many tickets one read of the whole history beats a read per ticket.
+const PER_TICKET_HISTORY_READS = 50;
+
+async function loadLastKnownHistory(root: string, tickets: TicketData["tickets"]) {
+  const ticketIds = Object.entries(tickets).map(([key, entry]) => ticketIdOf(key, entry));
+  if (ticketIds.length > PER_TICKET_HISTORY_READS) {
+    return loadTicketStatusHistory(root);
+  }
+  const transitions = await Promise.all(ticketIds.map((ticketId) => loadTicketStatusHistoryFor(root, ticketId)));
+  return Object.fromEntries(ticketIds.map((ticketId, index) => [historyKey(ticketId), transitions[index]]));
+}
+
+/** Role whose sessions append to the history; everyone else only reads it. */
+export const HISTORY_RECORDING_ROLE = "admin";
+
+/**
+ * Appends the status changes in `tickets` (a full set or a delta) to the
+ * dataset's history, diffed against what the database already holds. Only
+ * admin sessions write. Failures are swallowed: losing a history entry must
+ * never fail a sync.
+ */
+export async function recordTicketStatusTransitions(root: string, tickets: TicketData["tickets"]) {
+  if (!hasRole(useAuthStore.getState().role, HISTORY_RECORDING_ROLE)) return 0;
+
+  try {
+    const [mapping, history] = await Promise.all([loadTicketStatusMapping(), loadLastKnownHistory(root, tickets)]);
+    const changes = diffTicketStatuses(history, tickets, mapping);
+    if (changes.length === 0) return 0;
+
+    await getTicketDataSource().update(
+      Object.fromEntries(
+        changes.map(({ ticketId, transition }) => [
+          `${historyRoot(root)}/${historyKey(ticketId)}/${transition.at}`,
+          transition,
+        ])
+      )
+    );
+    return changes.length;
+  } catch {
+    return 0;
+  }
+}
+
+/** Every recorded transition of a dataset, oldest first per ticket, keyed by TicketID. */
+export async function loadTicketStatusHistory(root: string): Promise<Record<string, TicketStatusTransition[]>> {
+  const history = await getTicketDataSource().read<Record<string, Record<string, TicketStatusTransition>>>(
+    historyRoot(root)
+  );
+
+  return Object.fromEntries(
+    Object.entries(history ?? {}).map(([ticketId, transitions]) => [
+      ticketId,
+      sortByTime(Object.values(transitions ?? {})),
+    ])
+  );
+}
+
+export async function loadTicketStatusHistoryFor(root: string, ticketId: string) {
+  const transitions = await getTicketDataSource().read<Record<string, TicketStatusTransition>>(
+    `${historyRoot(root)}/${historyKey(ticketId)}`
+  );
+  return sortByTime(Object.values(transitions ?? {}));
+}
+
+/**
+ * Average, median and longest stay in each first-level status. A stay runs
+ * from one transition to the next; the last one is still running at `now`.
+ * Tickets no longer in `tickets` are left out so visibility filters apply.
+ * `daysBetween` measures a stay; 24-hour days unless a business clock is passed.
+ */
+export function summarizeTimeInStatus(
+  history: Record<string, TicketStatusTransition[]>,
+  tickets: NormalizedTicket[],
+  now = new Date(),
+  daysBetween: (start: Date, end: Date) => number = (start, end) =>
+    Math.max(0, differenceInMinutes(end, start)) / (60 * 24)
+): TimeInStatusSummary[] {
+  const stays: Record<string, { days: number[]; tickets: Set<string> }> = {};
+
+  tickets.forEach((ticket) => {
+    const transitions = getTicketTransitions(history, ticket.ticketId);
+    if (!transitions.length) return;
+
+    transitions.forEach((transition, index) => {
+      const end = transitions[index + 1]?.at ?? now.getTime();
+      const days = daysBetween(new Date(transition.at), new Date(end));
+      const status = transition.toFirstLevelStatus;
+
+      stays[status] ??= { days: [], tickets: new Set() };
+      stays[status].days.push(days);
+      stays[status].tickets.add(ticket.ticketId);
+    });
+  });
+
+  return Object.entries(stays)
+    .map(([firstLevelStatus, { days, tickets: ticketIds }]) => {
+      const sorted = [...days].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+      return {
+        firstLevelStatus,
+        stays: sorted.length,
+        tickets: ticketIds.size,
+        avgDays: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        medianDays: median,
+        maxDays: sorted[sorted.length - 1],
+      };
+    })
+    .sort((a, b) => b.avgDays - a.avgDays);
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { createMemoryDataSource, setTicketDataSource, TicketDataSource } from "@/lib/dataSource";
+import { writeLocal } from "@/lib/localStore";
+import { loadTicketDataIncremental } from "./ticketSync";
+
+// IndexedDB does not exist under Node; keep the local copy in a map instead.
+const localEntries = vi.hoisted(() => new Map<string, unknown>());
+vi.mock("@/lib/localStore", () => ({
+  readLocal: vi.fn(async (key: string) => localEntries.get(key) ?? null),
+  readLocalEntry: vi.fn(async (key: string) =>
+    localEntries.has(key) ? { value: localEntries.get(key), savedAt: 0 } : null
+  ),
+  writeLocal: vi.fn(async (key: string, value: unknown) => {
+    localEntries.set(key, structuredClone(value));
+  }),
+}));
+
+const entry = (status: string, updatedAt: number) => ({
+  ticket: { TicketID: status, TicketStatus: status },
+  updatedAt,
+});
+
+let source: TicketDataSource;
+
+const copyWrites = () => vi.mocked(writeLocal).mock.calls.filter(([key]) => key === "tickets:root");
+
+beforeEach(async () => {
+  localEntries.clear();
+  vi.mocked(writeLocal).mockClear();
+  source = createMemoryDataSource({ root: { tickets: { a: entry("open", 100), b: entry("open", 200) } } });
+  setTicketDataSource(source);
+  // The first load has no local copy and downloads everything.
+  await loadTicketDataIncremental("root");
+});
+
+describe("loadTicketDataIncremental", () => {
+  it("stores a full download with its highest updatedAt as the watermark", () => {
+    expect(localEntries.get("tickets:root")).toMatchObject({ watermark: 200 });
+    expect(copyWrites()).toHaveLength(1);
+  });
+
+  it("leaves the local copy alone when only the tickets at the watermark come back", async () => {
+    const data = await loadTicketDataIncremental("root");
+
+    expect(Object.keys(data.tickets)).toEqual(["a", "b"]);
+    expect(copyWrites()).toHaveLength(1);
+  });
+
+  it("merges changed and new tickets and moves the watermark", async () => {
+    await source.update({ "root/tickets/a": entry("closed", 300), "root/tickets/c": entry("new", 200) });
+    const data = await loadTicketDataIncremental("root");
+
+    expect(data.tickets.a).toEqual(entry("closed", 300));
+    expect(data.tickets.c).toEqual(entry("new", 200));
+    expect(localEntries.get("tickets:root")).toMatchObject({ watermark: 300 });
+    expect(copyWrites()).toHaveLength(2);
+  });
+
+  it("downloads everything again once the last full sync is a day old", async () => {
+    await source.write("root/tickets/b", null);
+    expect(Object.keys((await loadTicketDataIncremental("root")).tickets)).toEqual(["a", "b"]);
+
+    const clock = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+    onTestFinished(() => clock.mockRestore());
+    expect(Object.keys((await loadTicketDataIncremental("root")).tickets)).toEqual(["a"]);
+  });
+});
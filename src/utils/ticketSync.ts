@@ -0,0 +1,104 @@
+import { TicketData, TicketEntry } from "@/types/ticket";
+import { getTicketDataSource } from "@/lib/dataSource";
+import { readLocal, readLocalEntry, writeLocal } from "@/lib/localStore";
+import { loadTicketData } from "./dataParser";
+import { recordTicketStatusTransitions } from "./ticketStatusHistory";
+
+// Deltas can't see deleted tickets, so the whole tree is re-read at least this often.
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+type LocalTicketCopy = {
+  root: string;
+  tickets: TicketData["tickets"];
+  /** Highest `updatedAt` seen; the next delta starts here. */
+  watermark: number;
+  fullSyncedAt: number;
+};
+
+const cacheKey = (root: string) => `tickets:${root}`;
+// Kept apart from the copy so an empty delta doesn't rewrite the whole tree.
+const syncedAtKey = (root: string) => `tickets-synced:${root}`;
+
+function getWatermark(tickets: TicketData["tickets"]) {
+  return Object.values(tickets).reduce(
+    (max, entry) => (typeof entry?.updatedAt === "number" && entry.updatedAt > max ? entry.updatedAt : max),
+    0
+  );
+}
+
+async function saveLocalCopy(root: string, copy: LocalTicketCopy | null) {
+  try {
+    if (copy) {
+      await writeLocal(cacheKey(root), copy);
+    }
+    await writeLocal(syncedAtKey(root), Date.now());
+  } catch {
+    // A failed cache write only costs the next cold start a full download.
+  }
+}
+
+/** The persisted copy of a dataset and when it was last synced, for offline start-up. */
+export async function readLocalTicketCopy(
+  root: string
+): Promise<{ data: TicketData; syncedAt: number } | null> {
+  const [copy, syncedAt] = await Promise.all([
+    readLocalEntry<LocalTicketCopy>(cacheKey(root)),
+    readLocal<number>(syncedAtKey(root)),
+  ]).catch(() => [null, null] as const);
+
+  if (!copy) {
+    return null;
+  }
+  return { data: { tickets: copy.value.tickets }, syncedAt: syncedAt ?? copy.savedAt };
+}
+
+async function fullSync(root: string): Promise<TicketData> {
+  const data = await loadTicketData(root);
+  void recordTicketStatusTransitions(root, data.tickets);
+  await saveLocalCopy(root, {
+    root,
+    tickets: data.tickets,
+    watermark: getWatermark(data.tickets),
+    fullSyncedAt: Date.now(),
+  });
+  return data;
+}
+
+/**
+ * Loads a dataset by merging the tickets changed since the last sync into the
+ * locally persisted copy, falling back to a full download when there is no
+ * copy yet or the last full sync is older than a day.
+ */
+export async function loadTicketDataIncremental(root: string): Promise<TicketData> {
+  const local = await readLocal<LocalTicketCopy>(cacheKey(root)).catch(() => null);
+
+  if (!local || Date.now() - local.fullSyncedAt > FULL_SYNC_INTERVAL_MS) {
+    return fullSync(root);
+  }
+
+  // startAt (not startAfter) so tickets sharing the watermark timestamp are not
+  // missed; the ones already held at that timestamp come back and are dropped.
+  const fetched = await getTicketDataSource().readChildrenFrom<TicketEntry>(
+    `${root}/tickets`,
+    "updatedAt",
+    local.watermark
+  );
+  const delta = Object.fromEntries(
+    Object.entries(fetched).filter(([id, entry]) => local.tickets[id]?.updatedAt !== entry?.updatedAt)
+  );
+
+  if (Object.keys(delta).length === 0) {
+    await saveLocalCopy(root, null);
+    return { tickets: local.tickets };
+  }
+
+  void recordTicketStatusTransitions(root, delta);
+  const tickets = { ...local.tickets, ...delta };
+  await saveLocalCopy(root, {
+    ...local,
+    tickets,
+    watermark: Math.max(local.watermark, getWatermark(delta)),
+  });
+
+  return { tickets };
+}
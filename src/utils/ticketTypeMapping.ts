@@ -0,0 +1,34 @@
+import { NormalizedTicket, TicketTypeCategory, TicketTypeMapping } from "@/types/ticket";
+
+export const TICKET_TYPE_CATEGORIES: Record<TicketTypeCategory, string> = {
+  warranty: "In-field warranty",
+  pdi: "Pre-delivery (PDI)",
+  goodwill: "Goodwill",
+  service: "Service",
+  other: "Other",
+};
+
+/**
+ * Categories of the two claim types the aged report matched by name before
+ * the type mapping existed, so it keeps working until their codes are mapped.
+ */
+const BUILT_IN_TYPE_CATEGORIES: Record<string, TicketTypeCategory> = {
+  "in field warranty claims": "warranty",
+  "pre delivery warranty claims": "pdi",
+};
+
+export const isTicketTypeCategory = (value: string): value is TicketTypeCategory =>
+  Object.prototype.hasOwnProperty.call(TICKET_TYPE_CATEGORIES, value);
+
+/**
+ * Category of a ticket: its TicketType code's entry, then an entry keyed by
+ * its TicketTypeText, then the built-in claim types. Undefined when unmapped.
+ */
+export function getTicketTypeCategory(
+  ticket: Pick<NormalizedTicket, "typeCode" | "typeText">,
+  mapping: TicketTypeMapping | undefined
+): TicketTypeCategory | undefined {
+  const entry = mapping?.[ticket.typeCode] ?? mapping?.[ticket.typeText];
+  if (entry && isTicketTypeCategory(entry.category)) return entry.category;
+  return BUILT_IN_TYPE_CATEGORIES[ticket.typeText.trim().toLowerCase()];
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { TicketEntry } from "@/types/ticket";
+import { validateTicketData, validateTicketEntry } from "./ticketValidation";
+
+const role = (id: string) => ({
+  InvolvedPartyBusinessPartnerID: id,
+  InvolvedPartyID: null,
+  InvolvedPartyName: "Party",
+  InvolvedPartyRoleID: null,
+  RepairerBusinessNameID: null,
+  RepairerEmail: null,
+  RepairerPhoneNumber: null,
+  RepairerNamePointOfContact: null,
+  requested_skip: null,
+});
+
+const validEntry = () =>
+  ({
+    updatedAt: 1,
+    ticket: {
+      AmountIncludingTax: "1,250.50",
+      ApprovalNumber: "",
+      ChassisNumber: "CH-1",
+      CreatedOn: "05/03/2024",
+      ERPFreeOrder: "",
+      ERPInvoiceNumber: "",
+      ERPPurchaseOrder: "",
+      HubSpotID: "",
+      Responded: false,
+      SerialID: "SN-1",
+      ServiceRequesterEmail: "",
+      TicketID: "T-1",
+      TicketName: "Brake noise SN-1",
+      TicketSeverity: "High",
+      TicketStatus: "E0001",
+      TicketStatusText: "Open",
+      TicketType: "ZWAR",
+      TicketTypeText: "Warranty",
+      Z1Z8TimeConsumed: "",
+    },
+    roles: { "1001": role("D1"), "40": role("E1"), "43": role("R1") },
+  }) as unknown as TicketEntry;
+
+const kinds = (entry: TicketEntry) => validateTicketEntry(entry).map((issue) => issue.kind);
+
+describe("validateTicketEntry", () => {
+  it("accepts a complete entry", () => {
+    expect(validateTicketEntry(validEntry())).toEqual([]);
+  });
+
+  it("accepts role blocks that leave optional fields out", () => {
+    const entry = validEntry();
+    entry.roles["40"] = { InvolvedPartyBusinessPartnerID: "E1" } as TicketEntry["roles"]["40"];
+    expect(validateTicketEntry(entry)).toEqual([]);
+  });
+
+  it("reports a role block without a business partner ID as a missing role", () => {
+    const entry = validEntry();
+    delete entry.roles["1001"];
+    entry.roles["43"] = { ...role(""), InvolvedPartyBusinessPartnerID: null } as TicketEntry["roles"]["43"];
+    delete (entry.roles["40"] as Partial<TicketEntry["roles"]["40"]>).InvolvedPartyBusinessPartnerID;
+
+    expect(validateTicketEntry(entry)).toEqual([
+      { kind: "missingDealerRole", field: "roles.1001", message: "Role 1001 block is missing" },
+      {
+        kind: "missingEmployeeRole",
+        field: "roles.40.InvolvedPartyBusinessPartnerID",
+        message: "Role 40 has no business partner ID",
+      },
+      {
+        kind: "missingRepairRole",
+        field: "roles.43.InvolvedPartyBusinessPartnerID",
+        message: "Role 43 has no business partner ID",
+      },
+    ]);
+  });
+
+  it("checks dates, amounts, chassis and serial", () => {
+    const entry = validEntry();
+    entry.ticket.CreatedOn = "March 5th";
+    entry.ticket.AmountIncludingTax = "12 EUR";
+    entry.ticket.ChassisNumber = " ";
+    entry.ticket.SerialID = "";
+
+    expect(kinds(entry)).toEqual(["invalidDate", "invalidAmount", "missingChassis", "missingSerial"]);
+  });
+
+  it("reports fields of the wrong type by path", () => {
+    const entry = validEntry();
+    (entry.ticket as unknown as Record<string, unknown>).Responded = "yes";
+
+    expect(validateTicketEntry(entry)).toEqual([
+      expect.objectContaining({ kind: "invalidField", field: "ticket.Responded" }),
+    ]);
+  });
+});
+
+describe("validateTicketData", () => {
+  it("counts each kind once per ticket and lists only tickets with issues", () => {
+    const broken = validEntry();
+    broken.ticket.CreatedOn = "";
+    broken.ticket.ChassisNumber = "";
+    (broken.ticket as unknown as Record<string, unknown>).TicketID = 42;
+
+    const report = validateTicketData({ tickets: { ok: validEntry(), broken } });
+
+    expect(report.checkedTickets).toBe(2);
+    expect(report.ticketsWithIssues.map((record) => [record.ticketKey, record.ticketId])).toEqual([
+      ["broken", "42"],
+    ]);
+    expect(report.counts).toMatchObject({ invalidDate: 1, missingChassis: 1, invalidField: 1, missingSerial: 0 });
+  });
+});
@@ -0,0 +1,186 @@
+import { z } from "zod";
+import {
+  TicketData,
+  TicketDataQualityReport,
+  TicketEntry,
+  TicketIssue,
+  TicketIssueKind,
+  TicketQualityRecord,
+} from "@/types/ticket";
+import { parseTicketDate } from "./ticketNormalizer";
+
+export const TICKET_ISSUE_KINDS: TicketIssueKind[] = [
+  "invalidDate",
+  "invalidAmount",
+  "missingChassis",
+  "missingSerial",
+  "missingDealerRole",
+  "missingEmployeeRole",
+  "missingRepairRole",
+  "invalidField",
+];
+
+export const TICKET_ISSUE_LABELS: Record<TicketIssueKind, string> = {
+  invalidDate: "Malformed created date",
+  invalidAmount: "Unparsable amount",
+  missingChassis: "Missing chassis number",
+  missingSerial: "Missing serial ID",
+  missingDealerRole: "Missing dealer role (1001)",
+  missingEmployeeRole: "Missing employee role (40)",
+  missingRepairRole: "Missing repair role (43)",
+  invalidField: "Unexpected field type",
+};
+
+// Mirrors the interfaces in types/ticket.ts. Values are only type-checked here;
+// the business rules (date formats, amounts, required roles) are checked below
+// so each one can be reported under its own heading.
+// Role blocks often leave fields out entirely, so absent counts the same as null.
+const nullableString = z.string().nullish();
+
+const roleSchema = z.object({
+  InvolvedPartyBusinessPartnerID: nullableString,
+  InvolvedPartyID: nullableString,
+  InvolvedPartyName: nullableString,
+  InvolvedPartyRoleID: nullableString,
+  RepairerBusinessNameID: nullableString,
+  RepairerEmail: nullableString,
+  RepairerPhoneNumber: nullableString,
+  RepairerNamePointOfContact: nullableString,
+  requested_skip: z.number().nullish(),
+});
+
+export const dealerRoleSchema = roleSchema;
+export const employeeRoleSchema = roleSchema;
+export const repairRoleSchema = roleSchema;
+
+export const ticketSchema = z.object({
+  AmountIncludingTax: z.string(),
+  ApprovalNumber: z.string(),
+  ChassisNumber: z.string(),
+  CreatedOn: z.string(),
+  ERPFreeOrder: z.string(),
+  ERPInvoiceNumber: z.string(),
+  ERPPurchaseOrder: z.string(),
+  HubSpotID: z.string(),
+  Responded: z.boolean(),
+  SerialID: z.string().optional(),
+  ServiceRequesterEmail: z.string(),
+  TicketID: z.string(),
+  TicketName: z.string(),
+  TicketSeverity: z.string(),
+  TicketStatus: z.string(),
+  TicketStatusText: z.string(),
+  TicketType: z.string(),
+  TicketTypeText: z.string(),
+  Z1Z8TimeConsumed: z.string(),
+});
+
+export const ticketEntrySchema = z.object({
+  updatedAt: z.number(),
+  SerialID: z.string().optional(),
+  ticket: ticketSchema,
+  // Absent role blocks are reported by the dedicated checks in validateTicketEntry.
+  roles: z.object({
+    "1001": dealerRoleSchema.optional(),
+    "40": employeeRoleSchema.optional(),
+    "43": repairRoleSchema.optional(),
+  }),
+});
+
+const REQUIRED_ROLES: { roleId: "1001" | "40" | "43"; kind: TicketIssueKind }[] = [
+  { roleId: "1001", kind: "missingDealerRole" },
+  { roleId: "40", kind: "missingEmployeeRole" },
+  { roleId: "43", kind: "missingRepairRole" },
+];
+
+const isBlank = (value: unknown) => typeof value !== "string" || value.trim() === "";
+
+// Stricter than parseAmountIncludingTax, which accepts any numeric prefix.
+function isValidAmount(raw: string) {
+  const normalized = raw.replace(/,/g, "").trim();
+  return normalized === "" || !Number.isNaN(Number(normalized));
+}
+
+export function validateTicketEntry(entry: TicketEntry): TicketIssue[] {
+  const issues: TicketIssue[] = [];
+  const parsed = ticketEntrySchema.safeParse(entry);
+
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => {
+      issues.push({ kind: "invalidField", field: issue.path.join("."), message: issue.message });
+    });
+  }
+
+  const ticket = entry?.ticket;
+  const createdOn = ticket?.CreatedOn;
+  if (typeof createdOn !== "string" || !parseTicketDate(createdOn)) {
+    issues.push({
+      kind: "invalidDate",
+      field: "ticket.CreatedOn",
+      message: isBlank(createdOn) ? "Created date is empty" : "Created date is not ISO or dd/MM/yyyy",
+      value: createdOn,
+    });
+  }
+
+  const amount = ticket?.AmountIncludingTax;
+  if (typeof amount === "string" && !isValidAmount(amount)) {
+    issues.push({
+      kind: "invalidAmount",
+      field: "ticket.AmountIncludingTax",
+      message: "Amount is not a number",
+      value: amount,
+    });
+  }
+
+  if (isBlank(ticket?.ChassisNumber)) {
+    issues.push({ kind: "missingChassis", field: "ticket.ChassisNumber", message: "Chassis number is empty" });
+  }
+
+  if (isBlank(entry?.SerialID) && isBlank(ticket?.SerialID)) {
+    issues.push({ kind: "missingSerial", field: "SerialID", message: "Serial ID is empty" });
+  }
+
+  REQUIRED_ROLES.forEach(({ roleId, kind }) => {
+    const role = entry?.roles?.[roleId];
+    if (!role) {
+      issues.push({ kind, field: `roles.${roleId}`, message: `Role ${roleId} block is missing` });
+    } else if (isBlank(role.InvolvedPartyBusinessPartnerID)) {
+      // A block without a business partner cannot be attributed to anyone.
+      issues.push({
+        kind,
+        field: `roles.${roleId}.InvolvedPartyBusinessPartnerID`,
+        message: `Role ${roleId} has no business partner ID`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/** Validates every ticket of a dataset and collects the issues per ticket. */
+export function validateTicketData(data: TicketData): TicketDataQualityReport {
+  const counts = Object.fromEntries(TICKET_ISSUE_KINDS.map((kind) => [kind, 0])) as Record<
+    TicketIssueKind,
+    number
+  >;
+  const ticketsWithIssues: TicketQualityRecord[] = [];
+  const entries = Object.entries(data.tickets ?? {});
+
+  entries.forEach(([ticketKey, entry]) => {
+    const issues = validateTicketEntry(entry);
+    if (issues.length === 0) return;
+
+    new Set(issues.map((issue) => issue.kind)).forEach((kind) => {
+      counts[kind] += 1;
+    });
+    ticketsWithIssues.push({
+      ticketKey,
+      // Malformed entries are what this report is for, so the ids may not even be strings.
+      ticketId: String(entry?.ticket?.TicketID ?? ticketKey),
+      ticketName: String(entry?.ticket?.TicketName ?? ""),
+      issues,
+    });
+  });
+
+  return { checkedTickets: entries.length, ticketsWithIssues, counts };
+}
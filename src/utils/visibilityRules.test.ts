@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { DisplaySettings, VisibilityEntity, VisibilityRule } from "@/types/ticket";
+import { decideVisibility, previewVisibilityRule, ruleMatches, VisibilityEntityIndex } from "./visibilityRules";
+
+const now = new Date(2024, 2, 31);
+
+const entity = (id: string, name: string, ticketCount = 10, lastActivity: Date | null = now): VisibilityEntity => ({
+  id,
+  name,
+  ticketCount,
+  lastActivity,
+});
+
+const rule = (
+  id: string,
+  condition: Partial<VisibilityRule>,
+  action: VisibilityRule["action"] = "hide",
+  precedence: VisibilityRule["precedence"] = "afterToggles"
+) =>
+  ({
+    id,
+    category: "dealerships",
+    action,
+    precedence,
+    enabled: true,
+    kind: "idList",
+    ids: [],
+    ...condition,
+  }) as VisibilityRule;
+
+const settings = (rules: VisibilityRule[], dealerships: Record<string, boolean> = {}): DisplaySettings => ({
+  dealerships,
+  employees: {},
+  repairs: {},
+  rules,
+});
+
+const acme = entity("D1", "Acme Motors", 2);
+
+describe("ruleMatches", () => {
+  it("tests each kind of condition", () => {
+    expect(ruleMatches(rule("r", { kind: "namePattern", pattern: "^acme" }), acme)).toBe(true);
+    expect(ruleMatches(rule("r", { kind: "minTickets", minTickets: 3 }), acme)).toBe(true);
+    expect(ruleMatches(rule("r", { kind: "minTickets", minTickets: 2 }), acme)).toBe(false);
+    expect(ruleMatches(rule("r", { kind: "idList", ids: ["D2"] }), acme)).toBe(false);
+  });
+
+  it("counts inactivity in calendar days and treats no activity as inactive", () => {
+    const inactive = rule("r", { kind: "inactiveDays", days: 30 });
+
+    expect(ruleMatches(inactive, entity("D1", "A", 1, new Date(2024, 2, 1)), now)).toBe(false);
+    expect(ruleMatches(inactive, entity("D1", "A", 1, new Date(2024, 1, 29)), now)).toBe(true);
+    expect(ruleMatches(inactive, entity("D1", "A", 1, null), now)).toBe(true);
+  });
+
+  it("never matches an invalid pattern", () => {
+    expect(ruleMatches(rule("r", { kind: "namePattern", pattern: "(" }), acme)).toBe(false);
+  });
+});
+
+describe("decideVisibility", () => {
+  const hideSmall = rule("small", { kind: "minTickets", minTickets: 5 });
+  const showAcme = rule("acme", { kind: "namePattern", pattern: "acme" }, "show");
+
+  it("is visible by default", () => {
+    expect(decideVisibility("dealerships", acme, settings([]), now)).toEqual({ visible: true, decidedBy: "default" });
+  });
+
+  it("lets the first matching rule of a group win", () => {
+    expect(decideVisibility("dealerships", acme, settings([hideSmall, showAcme]), now)).toEqual({
+      visible: false,
+      decidedBy: "small",
+    });
+    expect(decideVisibility("dealerships", acme, settings([showAcme, hideSmall]), now)).toEqual({
+      visible: true,
+      decidedBy: "acme",
+    });
+  });
+
+  it("puts the toggles between the two groups of rules", () => {
+    const forceHide = rule("force", { kind: "idList", ids: ["D1"] }, "hide", "beforeToggles");
+
+    expect(decideVisibility("dealerships", acme, settings([showAcme], { D1: false }), now)).toEqual({
+      visible: false,
+      decidedBy: "toggle",
+    });
+    expect(decideVisibility("dealerships", acme, settings([showAcme, forceHide], { D1: true }), now)).toEqual({
+      visible: false,
+      decidedBy: "force",
+    });
+  });
+
+  it("skips disabled rules and rules of other categories", () => {
+    const rules = [{ ...hideSmall, enabled: false }, { ...hideSmall, id: "staff", category: "employees" as const }];
+    expect(decideVisibility("dealerships", acme, settings(rules), now).decidedBy).toBe("default");
+  });
+});
+
+describe("previewVisibilityRule", () => {
+  it("separates the entities a rule matches from those it decides", () => {
+    const index: VisibilityEntityIndex = {
+      dealerships: new Map([acme, entity("D2", "Acme East", 1), entity("D3", "Zenith", 1)].map((e) => [e.id, e])),
+      employees: new Map(),
+      repairs: new Map(),
+    };
+    const hideSmall = rule("small", { kind: "minTickets", minTickets: 5 });
+    const preview = previewVisibilityRule(hideSmall, index, settings([hideSmall], { D2: true }), now);
+
+    expect(preview.matched.map((e) => e.id)).toEqual(["D1", "D2", "D3"]);
+    expect(preview.decided.map((e) => e.id)).toEqual(["D1", "D3"]);
+  });
+});
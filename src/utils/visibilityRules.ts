@@ -0,0 +1,167 @@
+import { differenceInCalendarDays } from "date-fns";
+import {
+  DisplaySettings,
+  EntityVisibilityCategory,
+  TicketData,
+  VisibilityDecision,
+  VisibilityEntity,
+  VisibilityRule,
+} from "@/types/ticket";
+import { getDealerInfo, getEmployeeInfo, getRepairInfo, parseTicketDate } from "./ticketNormalizer";
+
+export type VisibilityEntityIndex = Record<EntityVisibilityCategory, Map<string, VisibilityEntity>>;
+
+const ENTITY_READERS: Record<EntityVisibilityCategory, (entry: TicketData["tickets"][string]) => [string, string]> = {
+  dealerships: (entry) => {
+    const { dealerId, dealerName } = getDealerInfo(entry);
+    return [dealerId, dealerName];
+  },
+  employees: (entry) => {
+    const { employeeId, employeeName } = getEmployeeInfo(entry);
+    return [employeeId, employeeName];
+  },
+  repairs: (entry) => {
+    const { repairId, repairName } = getRepairInfo(entry);
+    return [repairId, repairName];
+  },
+};
+
+/** Ticket counts and last activity per dealership, employee and repairer, from one pass over `data`. */
+export function buildVisibilityEntityIndex(data: TicketData): VisibilityEntityIndex {
+  const index: VisibilityEntityIndex = {
+    dealerships: new Map(),
+    employees: new Map(),
+    repairs: new Map(),
+  };
+
+  Object.values(data.tickets).forEach((entry) => {
+    const createdOn = parseTicketDate(entry.ticket?.CreatedOn);
+
+    (Object.keys(ENTITY_READERS) as EntityVisibilityCategory[]).forEach((category) => {
+      const [id, name] = ENTITY_READERS[category](entry);
+      const entity = index[category].get(id) ?? { id, name, ticketCount: 0, lastActivity: null };
+      entity.ticketCount += 1;
+      if (createdOn && (!entity.lastActivity || createdOn > entity.lastActivity)) {
+        entity.lastActivity = createdOn;
+      }
+      index[category].set(id, entity);
+    });
+  });
+
+  return index;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string) {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      // An invalid pattern matches nothing rather than breaking every page.
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern) ?? null;
+}
+
+export function isValidRulePattern(pattern: string) {
+  return compilePattern(pattern) !== null;
+}
+
+export function ruleMatches(rule: VisibilityRule, entity: VisibilityEntity, now = new Date()) {
+  switch (rule.kind) {
+    case "namePattern":
+      return !!rule.pattern && !!compilePattern(rule.pattern)?.test(entity.name);
+    case "minTickets":
+      return entity.ticketCount < rule.minTickets;
+    case "inactiveDays":
+      return !entity.lastActivity || differenceInCalendarDays(now, entity.lastActivity) > rule.days;
+    case "idList":
+      return rule.ids.includes(entity.id);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Visibility of one entity: rules that come before the toggles, then the
+ * entity's explicit toggle, then the remaining rules, then visible.
+ */
+export function decideVisibility(
+  category: EntityVisibilityCategory,
+  entity: VisibilityEntity,
+  settings: DisplaySettings,
+  now = new Date()
+): VisibilityDecision {
+  const rules = (settings.rules ?? []).filter((rule) => rule.enabled && rule.category === category);
+  const firstMatch = (precedence: VisibilityRule["precedence"]) =>
+    rules.find((rule) => rule.precedence === precedence && ruleMatches(rule, entity, now));
+
+  const before = firstMatch("beforeToggles");
+  if (before) return { visible: before.action === "show", decidedBy: before.id };
+
+  const toggle = settings[category][entity.id];
+  if (toggle !== undefined) return { visible: toggle, decidedBy: "toggle" };
+
+  const after = firstMatch("afterToggles");
+  if (after) return { visible: after.action === "show", decidedBy: after.id };
+
+  return { visible: true, decidedBy: "default" };
+}
+
+/** Decisions for every entity of `category` in the index. */
+export function decideCategoryVisibility(
+  category: EntityVisibilityCategory,
+  index: VisibilityEntityIndex,
+  settings: DisplaySettings,
+  now = new Date()
+): Record<string, VisibilityDecision> {
+  return Object.fromEntries(
+    Array.from(index[category].values()).map((entity) => [
+      entity.id,
+      decideVisibility(category, entity, settings, now),
+    ])
+  );
+}
+
+/**
+ * Entities a rule matches and, of those, the ones whose visibility it
+ * actually decides once precedence and the other rules are taken into account.
+ */
+export function previewVisibilityRule(
+  rule: VisibilityRule,
+  index: VisibilityEntityIndex,
+  settings: DisplaySettings,
+  now = new Date()
+) {
+  const matched = Array.from(index[rule.category].values()).filter((entity) => ruleMatches(rule, entity, now));
+  const decided = matched.filter(
+    (entity) => decideVisibility(rule.category, entity, settings, now).decidedBy === rule.id
+  );
+  return { matched, decided };
+}
+
+const CATEGORY_NOUNS: Record<EntityVisibilityCategory, string> = {
+  dealerships: "dealerships",
+  employees: "employees",
+  repairs: "repairers",
+};
+
+/** One-line summary such as "Hide dealerships with fewer than 5 tickets". */
+export function describeVisibilityRule(rule: VisibilityRule) {
+  const verb = rule.action === "hide" ? "Hide" : "Show";
+  const noun = CATEGORY_NOUNS[rule.category];
+  switch (rule.kind) {
+    case "namePattern":
+      return `${verb} ${noun} whose name matches /${rule.pattern}/`;
+    case "minTickets":
+      return `${verb} ${noun} with fewer than ${rule.minTickets} tickets`;
+    case "inactiveDays":
+      return `${verb} ${noun} without a new ticket in ${rule.days} days`;
+    case "idList":
+      return `${verb} ${rule.ids.length} listed ${noun}`;
+    default:
+      return `${verb} ${noun}`;
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { WorkingCalendar } from "@/types/ticket";
+import { addBusinessMinutes, businessMinutesBetween } from "./workingCalendar";
+
+// Monday 4 March 2024 is the first day of the test week.
+const calendar: WorkingCalendar = {
+  timeZone: "UTC",
+  workingDays: [1, 2, 3, 4, 5],
+  dayStart: "09:00",
+  dayEnd: "17:00",
+  region: "NSW",
+  holidays: [],
+};
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe("businessMinutesBetween", () => {
+  it("counts the working part of a single day", () => {
+    expect(businessMinutesBetween(at("2024-03-04T10:00"), at("2024-03-04T12:00"), calendar)).toBe(120);
+    expect(businessMinutesBetween(at("2024-03-04T07:00"), at("2024-03-04T20:00"), calendar)).toBe(480);
+  });
+
+  it("skips the weekend", () => {
+    expect(businessMinutesBetween(at("2024-03-08T16:00"), at("2024-03-11T10:00"), calendar)).toBe(120);
+  });
+
+  it("skips holidays of the calendar's region and region-less ones only", () => {
+    const withHolidays: WorkingCalendar = {
+      ...calendar,
+      holidays: [
+        { id: "1", date: "2024-03-05", name: "Local day", region: "NSW" },
+        { id: "2", date: "2024-03-06", name: "Elsewhere", region: "VIC" },
+        { id: "3", date: "2024-03-07", name: "National day", region: "" },
+      ],
+    };
+
+    expect(businessMinutesBetween(at("2024-03-04T16:00"), at("2024-03-08T10:00"), withHolidays)).toBe(60 + 480 + 60);
+  });
+
+  it("is 0 when the end is not after the start", () => {
+    expect(businessMinutesBetween(at("2024-03-04T12:00"), at("2024-03-04T10:00"), calendar)).toBe(0);
+  });
+
+  it("measures the hours in the calendar's time zone", () => {
+    // 09:00–17:00 in Sydney (UTC+11 in March) is 22:00–06:00 UTC.
+    const sydney = { ...calendar, timeZone: "Australia/Sydney" };
+    expect(businessMinutesBetween(at("2024-03-03T22:00"), at("2024-03-04T06:00"), sydney)).toBe(480);
+    expect(businessMinutesBetween(at("2024-03-04T10:00"), at("2024-03-04T12:00"), sydney)).toBe(0);
+  });
+});
+
+describe("addBusinessMinutes", () => {
+  it("carries over the weekend", () => {
+    expect(addBusinessMinutes(at("2024-03-08T16:00"), 120, calendar)).toEqual(at("2024-03-11T10:00"));
+  });
+
+  it("starts counting at the start of the working day", () => {
+    expect(addBusinessMinutes(at("2024-03-04T07:00"), 60, calendar)).toEqual(at("2024-03-04T10:00"));
+  });
+
+  it("skips holidays", () => {
+    const withHoliday = { ...calendar, holidays: [{ id: "1", date: "2024-03-05", name: "Day off", region: "" }] };
+    expect(addBusinessMinutes(at("2024-03-04T16:00"), 120, withHoliday)).toEqual(at("2024-03-06T10:00"));
+  });
+
+  it("is the inverse of businessMinutesBetween", () => {
+    const start = at("2024-03-06T13:30");
+    const due = addBusinessMinutes(start, 3 * 480, calendar);
+    expect(businessMinutesBetween(start, due, calendar)).toBe(3 * 480);
+  });
+
+  it("falls back to wall time without working hours", () => {
+    const closed = { ...calendar, workingDays: [] };
+    expect(addBusinessMinutes(at("2024-03-04T10:00"), 90, closed)).toEqual(at("2024-03-04T11:30"));
+  });
+});
@@ -0,0 +1,207 @@
+import { differenceInMinutes } from "date-fns";
+import { PublicHoliday, TimeBasis, WorkingCalendar } from "@/types/ticket";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const TIME_BASIS_LABELS: Record<TimeBasis, string> = {
+  calendar: "Calendar time",
+  business: "Business time",
+};
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  workingDays: [1, 2, 3, 4, 5],
+  dayStart: "09:00",
+  dayEnd: "17:00",
+  region: "",
+  holidays: [],
+};
+
+/** "HH:mm" → minutes after midnight; NaN when malformed. */
+export function parseClockTime(value: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return Number.NaN;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : Number.NaN;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return !!timeZone;
+  } catch {
+    return false;
+  }
+}
+
+/** Length of one working day in minutes. */
+export function getWorkingMinutesPerDay(calendar: WorkingCalendar) {
+  return Math.max(0, parseClockTime(calendar.dayEnd) - parseClockTime(calendar.dayStart)) || 0;
+}
+
+/** Average working days in a month, for month-based ages in business time. */
+export function getWorkingDaysPerMonth(calendar: WorkingCalendar) {
+  return (calendar.workingDays.length * 52) / 12;
+}
+
+export const getActiveHolidays = (calendar: WorkingCalendar): PublicHoliday[] =>
+  calendar.holidays.filter((holiday) => !holiday.region || holiday.region === calendar.region);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Days since 1970-01-01 of the local date, and minutes after local midnight. */
+function toLocal(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    day: Math.floor(Date.UTC(parts.year, parts.month - 1, parts.day) / MS_PER_DAY),
+    minute: parts.hour * 60 + parts.minute,
+  };
+}
+
+/** The instant at `minute` after local midnight of `day` in `timeZone`. */
+function fromLocal(day: number, minute: number, timeZone: string) {
+  const wallClock = day * MS_PER_DAY + minute * 60 * 1000;
+  // Wall-clock time read back in the zone gives its offset; a second pass settles DST edges.
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass += 1) {
+    const local = toLocal(new Date(instant), timeZone);
+    const offset = local.day * MS_PER_DAY + local.minute * 60 * 1000 - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+const dayOfDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+// 1970-01-01 was a Thursday.
+const weekdayOf = (day: number) => (((day + 4) % 7) + 7) % 7;
+
+const prepared = new WeakMap<WorkingCalendar, ReturnType<typeof buildLookups>>();
+
+/** Precomputed lookups for one calendar, so per-ticket sums stay cheap. */
+function prepare(calendar: WorkingCalendar) {
+  let lookups = prepared.get(calendar);
+  if (!lookups) {
+    lookups = buildLookups(calendar);
+    prepared.set(calendar, lookups);
+  }
+  return lookups;
+}
+
+function buildLookups(calendar: WorkingCalendar) {
+  const workingDays = new Set(calendar.workingDays);
+  const holidayDays = new Set(
+    getActiveHolidays(calendar)
+      .map((holiday) => dayOfDate(holiday.date))
+      .filter((day) => !Number.isNaN(day) && workingDays.has(weekdayOf(day)))
+  );
+  const isWorkingDay = (day: number) => workingDays.has(weekdayOf(day)) && !holidayDays.has(day);
+
+  // Working days in [from, to], inclusive.
+  const countWorkingDays = (from: number, to: number) => {
+    if (to < from) return 0;
+    const total = to - from + 1;
+    let count = Math.floor(total / 7) * workingDays.size;
+    for (let day = from + Math.floor(total / 7) * 7; day <= to; day += 1) {
+      if (workingDays.has(weekdayOf(day))) count += 1;
+    }
+    holidayDays.forEach((day) => {
+      if (day >= from && day <= to) count -= 1;
+    });
+    return count;
+  };
+
+  return {
+    start: parseClockTime(calendar.dayStart),
+    end: parseClockTime(calendar.dayEnd),
+    isWorkingDay,
+    countWorkingDays,
+  };
+}
+
+/** Working minutes between two instants; 0 when `end` is not after `start`. */
+export function businessMinutesBetween(start: Date, end: Date, calendar: WorkingCalendar) {
+  if (end <= start) return 0;
+  const { start: dayStart, end: dayEnd, isWorkingDay, countWorkingDays } = prepare(calendar);
+  if (!(dayEnd > dayStart)) return 0;
+
+  const from = toLocal(start, calendar.timeZone);
+  const to = toLocal(end, calendar.timeZone);
+  const overlap = (lo: number, hi: number) => Math.max(0, Math.min(hi, dayEnd) - Math.max(lo, dayStart));
+
+  if (from.day === to.day) {
+    return isWorkingDay(from.day) ? overlap(from.minute, to.minute) : 0;
+  }
+
+  const first = isWorkingDay(from.day) ? overlap(from.minute, MINUTES_PER_DAY) : 0;
+  const last = isWorkingDay(to.day) ? overlap(0, to.minute) : 0;
+  return first + countWorkingDays(from.day + 1, to.day - 1) * (dayEnd - dayStart) + last;
+}
+
+/**
+ * The instant `minutes` of working time after `start`. Falls back to wall
+ * time when the calendar has no working hours at all.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendar: WorkingCalendar) {
+  const { start: dayStart, end: dayEnd, isWorkingDay } = prepare(calendar);
+  if (!(dayEnd > dayStart) || calendar.workingDays.length === 0) {
+    return new Date(start.getTime() + minutes * 60 * 1000);
+  }
+
+  let { day, minute } = toLocal(start, calendar.timeZone);
+  let remaining = minutes;
+
+  // Ten years of days is far more than any target needs; it only guards against holiday-only calendars.
+  for (let guard = 0; guard < 3660; guard += 1) {
+    if (isWorkingDay(day)) {
+      const from = Math.max(minute, dayStart);
+      const available = Math.max(0, dayEnd - from);
+      if (remaining <= available) {
+        return fromLocal(day, from + remaining, calendar.timeZone);
+      }
+      remaining -= available;
+    }
+    day += 1;
+    minute = 0;
+  }
+
+  return new Date(start.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Days from `start` to `end`: 24-hour days in calendar time, working days
+ * (of the calendar's day length) in business time.
+ */
+export function elapsedDays(start: Date, end: Date, basis: TimeBasis, calendar: WorkingCalendar) {
+  if (basis === "calendar") return Math.max(0, differenceInMinutes(end, start)) / MINUTES_PER_DAY;
+  const perDay = getWorkingMinutesPerDay(calendar);
+  return perDay > 0 ? businessMinutesBetween(start, end, calendar) / perDay : 0;
+}
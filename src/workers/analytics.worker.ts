@@ -0,0 +1,4 @@
+import { expose } from "@/lib/workerRpc";
+import { analyticsApi } from "./analyticsApi";
+
+expose(analyticsApi);
@@ -0,0 +1,114 @@
+import {
+  DisplaySettings,
+  FirstLevelStatus,
+  GlobalFilters,
+  NormalizedTicket,
+  TicketData,
+  TicketStatusMapping,
+} from "@/types/ticket";
+import {
+  analyzeDealers,
+  analyzeEmployees,
+  analyzeRepairs,
+  filterTicketsByDisplaySettings,
+} from "@/utils/dataParser";
+import { normalizeTicketData } from "@/utils/ticketNormalizer";
+import { buildClaimVsClosedReport } from "@/utils/claimVsClosed";
+import { buildRepairTrendReport } from "@/utils/repairTrends";
+import { applyGlobalFilters, getGlobalDateRange, toTicketData } from "@/utils/globalFilters";
+
+export interface AnalyticsFilters {
+  settings?: DisplaySettings;
+  mapping?: TicketStatusMapping;
+  /** Decides which first-level statuses count as closed. */
+  firstLevelStatuses?: FirstLevelStatus[];
+  /** Visibility defaults match useVisibleTickets: dealerships and repairs on, employees off. */
+  applyDealershipVisibility?: boolean;
+  applyEmployeeVisibility?: boolean;
+  applyRepairVisibility?: boolean;
+  excludedFirstLevelStatuses?: string[];
+  /** Keep only tickets whose first-level status matches (case-insensitive). */
+  firstLevelStatus?: string;
+  /** Employees highlighted by the Claim vs Closed report; does not filter the other tasks. */
+  employeeIds?: string[];
+  /** The filter bar's selection, already without the dimensions the page opts out of. */
+  globalFilters?: GlobalFilters;
+}
+
+type ScopedTickets = { tickets: NormalizedTicket[]; data: TicketData };
+
+const analyticsTasks = {
+  dealers: ({ data }: ScopedTickets) => analyzeDealers(data),
+  employees: ({ data }: ScopedTickets, filters: AnalyticsFilters) =>
+    analyzeEmployees(data, filters.mapping, filters.firstLevelStatuses),
+  repairs: ({ data }: ScopedTickets) => analyzeRepairs(data),
+  repairTrends: ({ tickets }: ScopedTickets) => buildRepairTrendReport(tickets),
+  claimVsClosed: ({ tickets }: ScopedTickets, filters: AnalyticsFilters) =>
+    buildClaimVsClosedReport(
+      tickets,
+      filters.employeeIds,
+      filters.globalFilters ? getGlobalDateRange(filters.globalFilters) : undefined
+    ),
+};
+
+export type AnalyticsTask = keyof typeof analyticsTasks;
+export type AnalyticsResult<T extends AnalyticsTask> = ReturnType<(typeof analyticsTasks)[T]>;
+
+const MAX_CACHED_RESULTS = 50;
+
+let dataset: { version: string; data: TicketData } | null = null;
+const results = new Map<string, unknown>();
+
+function scopeTickets(data: TicketData, filters: AnalyticsFilters): ScopedTickets {
+  const visible = filterTicketsByDisplaySettings(data, filters.settings, {
+    applyDealershipVisibility: filters.applyDealershipVisibility ?? true,
+    applyEmployeeVisibility: filters.applyEmployeeVisibility ?? false,
+    applyRepairVisibility: filters.applyRepairVisibility ?? true,
+  });
+
+  const excluded = (filters.excludedFirstLevelStatuses ?? []).map((status) => status.toLowerCase());
+  const wanted = filters.firstLevelStatus?.toLowerCase();
+  const statusScoped = normalizeTicketData(visible, filters.mapping).filter((ticket) => {
+    const status = ticket.firstLevelStatus.toLowerCase();
+    return !excluded.includes(status) && (!wanted || status === wanted);
+  });
+  const tickets = filters.globalFilters ? applyGlobalFilters(statusScoped, filters.globalFilters) : statusScoped;
+
+  if (tickets.length === Object.keys(visible.tickets).length) {
+    return { tickets, data: visible };
+  }
+  return { tickets, data: toTicketData(tickets) };
+}
+
+/**
+ * Runs inside the analytics worker (or on the main thread where workers are
+ * unavailable). The dataset is sent once per version; each task result is
+ * cached by task and filters until the next version arrives.
+ */
+export const analyticsApi = {
+  loadDataset(version: string, data: TicketData) {
+    if (dataset?.version === version) return;
+    dataset = { version, data };
+    results.clear();
+  },
+
+  run(task: AnalyticsTask, version: string, filters: AnalyticsFilters) {
+    if (!dataset || dataset.version !== version) {
+      throw new Error(`Dataset ${version} is not loaded in the analytics worker`);
+    }
+
+    const cacheKey = `${task}|${JSON.stringify(filters)}`;
+    if (results.has(cacheKey)) {
+      return results.get(cacheKey);
+    }
+
+    const result = analyticsTasks[task](scopeTickets(dataset.data, filters), filters);
+    if (results.size >= MAX_CACHED_RESULTS) {
+      results.delete(results.keys().next().value);
+    }
+    results.set(cacheKey, result);
+    return result;
+  },
+};
+
+export type AnalyticsApi = typeof analyticsApi;